@@ -0,0 +1,18 @@
+module.exports = {
+  root: true,
+  env: { browser: true, node: true, es2022: true },
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:react-hooks/recommended',
+  ],
+  ignorePatterns: ['dist', 'g7', 'node_modules', 'migrated_prompt_history'],
+  parser: '@typescript-eslint/parser',
+  parserOptions: { ecmaVersion: 'latest', sourceType: 'module' },
+  plugins: ['react-refresh'],
+  rules: {
+    // `const { id, ...input } = entity` is how the forms strip server-assigned fields.
+    '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }],
+    'react-refresh/only-export-components': ['warn', { allowConstantExport: true }],
+  },
+};
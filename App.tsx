@@ -1,32 +1,21 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { Admin, Customer, TierSettings, DiscountSettings, DeadlineSettings, SmsLog } from './types';
+import { useLocalDataImport } from './hooks/useLocalDataImport';
+import { useServerSetting } from './hooks/useServerSetting';
+import { useCustomers } from './hooks/useCustomers';
+import { useBranches } from './hooks/useBranches';
+import { useCampaigns } from './hooks/useCampaigns';
+import { useRewards } from './hooks/useRewards';
+import { useProducts } from './hooks/useProducts';
+import { useSmsLogs } from './hooks/useSmsLogs';
+import * as api from './src/services/api';
+import { Admin, TierSettings, SecuritySettings, PointsExpirySettings, EarningSettings, RedemptionSettings, ReferralSettings, CelebrationSettings, TaxSettings, PrinterSettings, TimeZoneSettings } from './types';
+import { DEFAULT_TIER_SETTINGS, DEFAULT_SECURITY_SETTINGS, DEFAULT_POINTS_EXPIRY_SETTINGS, DEFAULT_EARNING_SETTINGS, DEFAULT_REDEMPTION_SETTINGS, DEFAULT_REFERRAL_SETTINGS, DEFAULT_CELEBRATION_SETTINGS, DEFAULT_TAX_SETTINGS, DEFAULT_PRINTER_SETTINGS, DEFAULT_TIME_ZONE_SETTINGS } from './defaults';
 import Dashboard from './components/Dashboard';
 import { FaEye, FaEyeSlash, FaInfinity } from 'react-icons/fa';
 import { SAMPLE_CUSTOMERS } from './sampleData';
 
-const DEFAULT_TIER_SETTINGS: TierSettings = {
-  bronze: { minSpend: 0, minPoints: 0 },
-  silver: { minSpend: 2000, minPoints: 100 },
-  gold: { minSpend: 10000, minPoints: 500 },
-  platinum: { minSpend: 50000, minPoints: 2500 },
-};
-
-const DEFAULT_DISCOUNT_SETTINGS: DiscountSettings = {
-  bronze: 0,
-  silver: 5,
-  gold: 10,
-  platinum: 15,
-};
-
-const DEFAULT_DEADLINE_SETTINGS: DeadlineSettings = {
-  bronze: 365,
-  silver: 180,
-  gold: 90,
-  platinum: 60,
-};
-
 // Noise Overlay Component
 const NoiseOverlay = () => (
     <div
@@ -57,8 +46,8 @@ const InputField = ({ label, type = 'text', value, onChange, placeholder, childr
 
 // Auth Page Component
 interface AuthPageProps {
-    onLogin: (u: string, p: string) => boolean;
-    onRegister: (bn: string, u: string, p: string) => boolean;
+    onLogin: (u: string, p: string) => Promise<void>;
+    onRegister: (bn: string, u: string, p: string) => Promise<void>;
     onDevLogin: () => void;
 }
 
@@ -81,16 +70,17 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin, onRegister, onDevLogin })
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
 
-    const handleLoginSubmit = (e: React.FormEvent) => {
+    const handleLoginSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoginError('');
-        const success = onLogin(loginUsername, loginPassword);
-        if (!success) {
-            setLoginError('Invalid username or password.');
+        try {
+            await onLogin(loginUsername, loginPassword);
+        } catch (error) {
+            setLoginError(error instanceof Error ? error.message : 'Invalid username or password.');
         }
     };
 
-    const handleRegisterSubmit = (e: React.FormEvent) => {
+    const handleRegisterSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setRegError('');
         if (regPassword !== regConfirmPassword) {
@@ -101,9 +91,10 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin, onRegister, onDevLogin })
             setRegError('All fields are required.');
             return;
         }
-        const success = onRegister(regBusinessName, regUsername, regPassword);
-        if (!success) {
-            setRegError('Username already exists.');
+        try {
+            await onRegister(regBusinessName, regUsername, regPassword);
+        } catch (error) {
+            setRegError(error instanceof Error ? error.message : 'Registration failed.');
         }
     };
     
@@ -166,46 +157,78 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin, onRegister, onDevLogin })
 
 const App: React.FC = () => {
     const [currentUser, setCurrentUser] = useState<Admin | null>(null);
-    const [admins, setAdmins] = useLocalStorage<Admin[]>('adminsDB', []);
-    const [customers, setCustomers] = useLocalStorage<Customer[]>('loyaltyDB', [], currentUser?.username);
-    const [tierSettings, setTierSettings] = useLocalStorage<TierSettings>('loyaltySettings', DEFAULT_TIER_SETTINGS, currentUser?.username);
-    const [discountSettings, setDiscountSettings] = useLocalStorage<DiscountSettings>('loyaltyDiscounts', DEFAULT_DISCOUNT_SETTINGS, currentUser?.username);
-    const [deadlineSettings, setDeadlineSettings] = useLocalStorage<DeadlineSettings>('loyaltyDeadlines', DEFAULT_DEADLINE_SETTINGS, currentUser?.username);
-    const [smsLogs, setSmsLogs] = useLocalStorage<SmsLog[]>('smsLogsDB', [], currentUser?.username);
-
-    const handleLogin = useCallback((username: string, password: string): boolean => {
-        const admin = admins.find(a => a.username === username && a.password === password);
-        if (admin) {
+    // Accounts created before server auth existed, with plaintext passwords. Emptied as each owner logs in.
+    const [legacyAdmins, setLegacyAdmins, clearLegacyAdmins] = useLocalStorage<{ businessName: string; username: string; password: string }[]>('adminsDB', []);
+    // Business data lives on the server; wait for the owner's one-time localStorage import before reading it.
+    // Staff never had local data of their own.
+    const isImportDone = useLocalDataImport(currentUser?.role === 'owner' ? currentUser.username : null);
+    const businessId = currentUser && (currentUser.role !== 'owner' || isImportDone) ? currentUser.businessId : null;
+    const [customers, customerActions] = useCustomers(businessId);
+    const [branches, branchActions] = useBranches(businessId);
+    const [campaigns, campaignActions] = useCampaigns(businessId);
+    const [rewards, rewardActions] = useRewards(businessId);
+    const [products, productActions] = useProducts(businessId);
+    const [tierSettings, setTierSettings] = useServerSetting<TierSettings>('tierSettings', DEFAULT_TIER_SETTINGS, businessId);
+    const [securitySettings, setSecuritySettings] = useServerSetting<SecuritySettings>('securitySettings', DEFAULT_SECURITY_SETTINGS, businessId);
+    const [pointsExpirySettings, setPointsExpirySettings] = useServerSetting<PointsExpirySettings>('pointsExpirySettings', DEFAULT_POINTS_EXPIRY_SETTINGS, businessId);
+    const [earningSettings, setEarningSettings] = useServerSetting<EarningSettings>('earningSettings', DEFAULT_EARNING_SETTINGS, businessId);
+    const [redemptionSettings, setRedemptionSettings] = useServerSetting<RedemptionSettings>('redemptionSettings', DEFAULT_REDEMPTION_SETTINGS, businessId);
+    const [referralSettings, setReferralSettings] = useServerSetting<ReferralSettings>('referralSettings', DEFAULT_REFERRAL_SETTINGS, businessId);
+    const [celebrationSettings, setCelebrationSettings] = useServerSetting<CelebrationSettings>('celebrationSettings', DEFAULT_CELEBRATION_SETTINGS, businessId);
+    const [taxSettings, setTaxSettings] = useServerSetting<TaxSettings>('taxSettings', DEFAULT_TAX_SETTINGS, businessId);
+    const [printerSettings, setPrinterSettings] = useServerSetting<PrinterSettings>('printerSettings', DEFAULT_PRINTER_SETTINGS, businessId);
+    const [timeZoneSettings, setTimeZoneSettings] = useServerSetting<TimeZoneSettings>('timeZoneSettings', DEFAULT_TIME_ZONE_SETTINGS, businessId);
+    const [smsLogs, addSmsLog] = useSmsLogs(businessId);
+
+    // Restore the session from the HTTP-only cookie on page load.
+    useEffect(() => {
+        api.fetchCurrentAdmin()
+            .then(admin => { if (admin) setCurrentUser(admin); })
+            .catch(error => console.warn('Error restoring session:', error));
+    }, []);
+
+    const handleLogin = useCallback(async (username: string, password: string) => {
+        try {
+            setCurrentUser(await api.login(username, password));
+        } catch (error) {
+            // A pre-server account still in this browser is registered on the server with the same
+            // credentials, then its plaintext copy is dropped.
+            const legacyAdmin = legacyAdmins.find(a => a.username === username && a.password === password);
+            if (!(error instanceof api.ApiError) || error.status !== 401 || !legacyAdmin) throw error;
+            const admin = await api.register(legacyAdmin.businessName, username, password);
+            const remaining = legacyAdmins.filter(a => a.username !== username);
+            if (remaining.length > 0) setLegacyAdmins(remaining);
+            else clearLegacyAdmins();
             setCurrentUser(admin);
-            return true;
         }
-        return false;
-    }, [admins]);
+    }, [legacyAdmins, setLegacyAdmins, clearLegacyAdmins]);
 
-    const handleRegister = useCallback((businessName: string, username: string, password: string): boolean => {
-        if (admins.some(a => a.username === username)) {
-            return false; // Username exists
-        }
-        const newAdmin: Admin = { businessName, username, password };
-        setAdmins(prevAdmins => [...prevAdmins, newAdmin]);
-        setCurrentUser(newAdmin);
-        return true;
-    }, [admins, setAdmins]);
-
-    const handleDevLogin = useCallback(() => {
-        const devUser = { businessName: "Dev Mode", username: "developer", password: "" };
-        
-        const devCustomersKey = `${devUser.username}_loyaltyDB`;
+    const handleRegister = useCallback(async (businessName: string, username: string, password: string) => {
+        setCurrentUser(await api.register(businessName, username, password));
+    }, []);
+
+    const handleDevLogin = useCallback(async () => {
+        // Seeded through localStorage so the one-time server import picks the sample customers up.
+        const devCustomersKey = 'developer_loyaltyDB';
         const devCustomers = JSON.parse(localStorage.getItem(devCustomersKey) || 'null');
 
         if (!devCustomers || devCustomers.length === 0) {
             localStorage.setItem(devCustomersKey, JSON.stringify(SAMPLE_CUSTOMERS));
         }
         
-        setCurrentUser(devUser);
+        try {
+            setCurrentUser(await api.devLogin());
+        } catch (error) {
+            console.error('Dev login failed:', error);
+        }
     }, []);
 
-    const handleLogout = useCallback(() => {
+    const handleLogout = useCallback(async () => {
+        try {
+            await api.logout();
+        } catch (error) {
+            console.warn('Error ending session:', error);
+        }
         setCurrentUser(null);
     }, []);
     
@@ -217,15 +240,37 @@ const App: React.FC = () => {
                      <Dashboard 
                         currentUser={currentUser}
                         customers={customers} 
-                        setCustomers={setCustomers} 
+                        customerActions={customerActions} 
+                        branches={branches}
+                        branchActions={branchActions}
+                        campaigns={campaigns}
+                        campaignActions={campaignActions}
+                        rewards={rewards}
+                        rewardActions={rewardActions}
+                        products={products}
+                        productActions={productActions}
                         tierSettings={tierSettings}
                         setTierSettings={setTierSettings}
-                        discountSettings={discountSettings}
-                        setDiscountSettings={setDiscountSettings}
-                        deadlineSettings={deadlineSettings}
-                        setDeadlineSettings={setDeadlineSettings}
+                        securitySettings={securitySettings}
+                        setSecuritySettings={setSecuritySettings}
+                        pointsExpirySettings={pointsExpirySettings}
+                        setPointsExpirySettings={setPointsExpirySettings}
+                        earningSettings={earningSettings}
+                        setEarningSettings={setEarningSettings}
+                        redemptionSettings={redemptionSettings}
+                        setRedemptionSettings={setRedemptionSettings}
+                        referralSettings={referralSettings}
+                        setReferralSettings={setReferralSettings}
+                        celebrationSettings={celebrationSettings}
+                        setCelebrationSettings={setCelebrationSettings}
+                        taxSettings={taxSettings}
+                        setTaxSettings={setTaxSettings}
+                        printerSettings={printerSettings}
+                        setPrinterSettings={setPrinterSettings}
+                        timeZoneSettings={timeZoneSettings}
+                        setTimeZoneSettings={setTimeZoneSettings}
                         smsLogs={smsLogs}
-                        setSmsLogs={setSmsLogs}
+                        addSmsLog={addSmsLog}
                         handleLogout={handleLogout} 
                      />
                 ) : (
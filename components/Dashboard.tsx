@@ -1,16 +1,28 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { Customer, TransactionHistory, Tier, TierSettings, Admin, TierThreshold, DiscountSettings, DeadlineSettings, LastTransactionDetails, SmsLog } from '../types';
-import { FaBars, FaChartLine, FaPlus, FaSearch, FaUsers, FaChartPie, FaPowerOff, FaWallet, FaCoins, FaShoppingBag, FaDownload, FaCog, FaPercent, FaCommentDots, FaHistory } from 'react-icons/fa';
+import { Customer, TransactionHistory, Campaign, Coupon, CouponDiscountType, Reward, Product, BillItem, LedgerEntry, TierChange, TierDefinition, TierSettings, TierQualification, Admin, SecuritySettings, PointsExpirySettings, EarningSettings, EarningMode, RedemptionSettings, ReferralSettings, CelebrationSettings, CelebrationReward, CelebrationRewardType, TaxSettings, TaxMode, PrinterSettings, PaperWidth, TimeZoneSettings, Occasion, StaffRole, StaffMember, Branch, LastTransactionDetails, SmsLog, PinLockout, PaymentMethod, Tender } from '../types';
+import { FaBars, FaChartLine, FaPlus, FaSearch, FaUsers, FaChartPie, FaPowerOff, FaWallet, FaCoins, FaShoppingBag, FaDownload, FaCog, FaPercent, FaCommentDots, FaHistory, FaUndo, FaGift, FaPrint, FaFilePdf } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
-import { getTierBySpend, getTierByPoints, getCustomerTier } from '../src/utils/tierUtils';
-
-const TIER_COLORS: Record<Tier, string> = {
-    Bronze: 'bg-yellow-800 text-yellow-100',
-    Silver: 'bg-gray-400 text-black',
-    Gold: 'bg-yellow-400 text-black',
-    Platinum: 'bg-purple-300 text-purple-900',
-};
+import { getCustomerTier, getQualifyingTotals, getGraceEnd, checkDiscountEligibility, describeTierQualification, describeTierWindow, validateTierSettings, TIER_QUALIFICATIONS, DiscountEligibility } from '../src/utils/tierUtils';
+import { calculatePointsEarned, describeEarningRules, validateEarningSettings, EARNING_MODES } from '../src/utils/earningUtils';
+import { applyRedemption, getRedeemablePoints, pointsToRupees, describeRedemptionRules, validateRedemptionSettings } from '../src/utils/redemptionUtils';
+import { getActiveCampaigns, getCampaignDiscount, applyCampaigns, describeCampaign, validateCampaign, CampaignInput, WEEKDAY_LABELS } from '../src/utils/campaignUtils';
+import { describeReferralRules, validateReferralSettings } from '../src/utils/referralUtils';
+import { checkCoupon, getCouponDiscount, describeCoupon, validateCoupon, CouponInput, COUPON_DISCOUNT_TYPES } from '../src/utils/couponUtils';
+import { checkRewardRedemption, validateReward, RewardInput } from '../src/utils/rewardUtils';
+import { getItemsTotal, toBillItem, validateProduct, ProductInput, FREE_AMOUNT_NAME } from '../src/utils/productUtils';
+import { validatePrinterSettings, PAPER_WIDTHS, PAPER_WIDTH_LABELS } from '../src/utils/receiptUtils';
+import { isSameBusinessDay, validateTimeZoneSettings } from '../src/utils/timeZoneUtils';
+import { getAvailableCelebrationDiscount, getCelebrationDiscount, describeCelebrationReward, validateCelebrationSettings, todayDateOnly, OCCASIONS, OCCASION_LABELS } from '../src/utils/celebrationUtils';
+import { calculateBillTax, getAddedTax, getTaxTotal, describeTaxRules, validateTaxSettings, TAX_MODES } from '../src/utils/taxUtils';
+import { checkPayments, getChange, getPaymentBreakdown, PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../src/utils/paymentUtils';
+import { CustomerActions } from '../hooks/useCustomers';
+import { BranchActions } from '../hooks/useBranches';
+import { CampaignActions } from '../hooks/useCampaigns';
+import { RewardActions } from '../hooks/useRewards';
+import { ProductActions } from '../hooks/useProducts';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { sendSms, verifyPin, requestPinReset, fetchPinLockouts, fetchLedger, fetchTierChanges, runPointsExpiry, runCelebrations, fetchStaff, createStaff, updateStaff, deleteStaff, checkCouponCode, fetchCoupons, createCoupon, updateCoupon, deleteCoupon, getReceiptUrl, printReceipt, ApiError } from '../src/services/api';
 
 enum Section {
     Overview = 'overview',
@@ -22,18 +34,47 @@ enum Section {
     Settings = 'settings',
 }
 
+// Sections each role can open. Cashiers work the till; managers also see customers and analytics.
+const ROLE_SECTIONS: Record<StaffRole, Section[]> = {
+    owner: Object.values(Section),
+    manager: [Section.Transaction, Section.Search, Section.Customers, Section.Analytics],
+    cashier: [Section.Transaction, Section.Search],
+};
+
 interface DashboardProps {
     currentUser: Admin | null;
     customers: Customer[];
-    setCustomers: React.Dispatch<React.SetStateAction<Customer[]>>;
+    customerActions: CustomerActions;
+    branches: Branch[];
+    branchActions: BranchActions;
+    campaigns: Campaign[];
+    campaignActions: CampaignActions;
+    rewards: Reward[];
+    rewardActions: RewardActions;
+    products: Product[];
+    productActions: ProductActions;
     tierSettings: TierSettings;
-    setTierSettings: React.Dispatch<React.SetStateAction<TierSettings>>;
-    discountSettings: DiscountSettings;
-    setDiscountSettings: React.Dispatch<React.SetStateAction<DiscountSettings>>;
-    deadlineSettings: DeadlineSettings;
-    setDeadlineSettings: React.Dispatch<React.SetStateAction<DeadlineSettings>>;
+    setTierSettings: (settings: TierSettings) => Promise<void>;
+    securitySettings: SecuritySettings;
+    setSecuritySettings: (settings: SecuritySettings) => void;
+    pointsExpirySettings: PointsExpirySettings;
+    setPointsExpirySettings: (settings: PointsExpirySettings) => void;
+    earningSettings: EarningSettings;
+    setEarningSettings: (settings: EarningSettings) => void;
+    redemptionSettings: RedemptionSettings;
+    setRedemptionSettings: (settings: RedemptionSettings) => void;
+    referralSettings: ReferralSettings;
+    setReferralSettings: (settings: ReferralSettings) => void;
+    celebrationSettings: CelebrationSettings;
+    setCelebrationSettings: (settings: CelebrationSettings) => void;
+    taxSettings: TaxSettings;
+    setTaxSettings: (settings: TaxSettings) => void;
+    printerSettings: PrinterSettings;
+    setPrinterSettings: (settings: PrinterSettings) => void;
+    timeZoneSettings: TimeZoneSettings;
+    setTimeZoneSettings: (settings: TimeZoneSettings) => void;
     smsLogs: SmsLog[];
-    setSmsLogs: React.Dispatch<React.SetStateAction<SmsLog[]>>;
+    addSmsLog: (log: SmsLog) => void;
     handleLogout: () => void;
 }
 
@@ -52,11 +93,102 @@ const StatCard: React.FC<{ label: string; value: string | number }> = ({ label,
     </Card>
 );
 
+// Tier badge in the tier's own colour, with dark or light text to suit it
+const TierBadge: React.FC<{ tier: TierDefinition, className?: string }> = ({ tier, className = 'px-2 py-1' }) => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(tier.color.slice(i, i + 2), 16));
+    const isLight = (r * 299 + g * 587 + b * 114) / 1000 > 150;
+    return <span className={`text-xs rounded-full ${className}`} style={{ backgroundColor: tier.color, color: isLight ? '#000000' : '#ffffff' }}>{tier.name}</span>;
+};
+
 // Helper to export CSV
-const exportDataToCsv = (customers: Customer[]) => {
-    let csv = "Name,Mobile,TotalSpent,Points\n";
-    customers.forEach(c => {
-        csv += `${c.name},${c.mobile},${c.totalSpent},${c.points}\n`;
+// Helpers for voids and refunds recorded against a transaction
+const refundedAmount = (t: TransactionHistory) => (t.reversals || []).reduce((sum, r) => sum + r.amount, 0);
+const isVoided = (t: TransactionHistory) => (t.reversals || []).some(r => r.kind === 'void');
+
+// Helpers for branch reporting. A branch filter is '' for all branches, UNASSIGNED_BRANCH for bills from before
+// branches were set up, or a branch id.
+const UNASSIGNED_BRANCH = 'unassigned';
+const matchesBranch = (branchFilter: string) => (t: { branchId?: string }) =>
+    !branchFilter || (branchFilter === UNASSIGNED_BRANCH ? !t.branchId : t.branchId === branchFilter);
+const branchName = (branches: Branch[], branchId?: string) => branches.find(b => b.id === branchId)?.name ?? 'Unassigned';
+
+// Net revenue, bill count, AOV and points redeemed over a set of transactions, after voids and refunds
+const summarizeTransactions = (transactions: TransactionHistory[]) => {
+    const revenue = transactions.reduce((sum, t) => sum + t.finalBill - refundedAmount(t), 0);
+    const txns = transactions.filter(t => !isVoided(t)).length;
+    const redeemed = transactions.reduce((sum, t) => sum + (t.pointsUsed ?? 0) - (t.reversals || []).reduce((restored, r) => restored + r.pointsRestored, 0), 0);
+    return { revenue, txns, aov: txns > 0 ? Math.round(revenue / txns) : 0, redeemed };
+};
+
+// What each payment method took over a set of transactions, points included. Voided bills took nothing.
+const TAKINGS_METHODS = [...PAYMENT_METHODS, 'points'] as const;
+const summarizePayments = (transactions: TransactionHistory[]) => {
+    const kept = transactions.filter(t => !isVoided(t));
+    return TAKINGS_METHODS.map(method => {
+        const paid = kept.filter(t => getPaymentBreakdown(t)[method] > 0);
+        return { method, bills: paid.length, amount: paid.reduce((sum, t) => sum + getPaymentBreakdown(t)[method], 0) };
+    });
+};
+
+// The close-of-day figures for one local day: bills rung up that day, and voids and refunds made that day
+// (whichever day their bill was from).
+const buildEndOfDayReport = (transactions: TransactionHistory[], day: Date) => {
+    const sameDay = (date: string) => new Date(date).toDateString() === day.toDateString();
+    const bills = transactions.filter(t => sameDay(t.date));
+    const reversals = transactions.flatMap(t => t.reversals || []).filter(r => sameDay(r.createdAt));
+    const gross = bills.reduce((sum, t) => sum + t.bill, 0);
+    const netSales = bills.reduce((sum, t) => sum + t.finalBill, 0);
+    const reversed = reversals.reduce((sum, r) => sum + r.amount, 0);
+    const taxLines = bills.flatMap(t => t.tax?.lines || []);
+    return {
+        bills: bills.length,
+        gross,
+        discounts: gross - netSales,
+        netSales,
+        taxableValue: taxLines.reduce((sum, line) => sum + line.taxableValue, 0),
+        tax: taxLines.reduce((sum, line) => sum + line.amount, 0),
+        takings: TAKINGS_METHODS.map(method => ({ method, amount: bills.reduce((sum, t) => sum + getPaymentBreakdown(t)[method], 0) })),
+        refunds: reversals.filter(r => r.kind === 'refund').length,
+        voids: reversals.filter(r => r.kind === 'void').length,
+        reversed,
+        net: netSales - reversed,
+    };
+};
+
+const exportEndOfDayCsv = (report: ReturnType<typeof buildEndOfDayReport>, day: Date, branchLabel: string) => {
+    const rows: [string, string | number][] = [
+        ['Date', day.toLocaleDateString()],
+        ['Branch', branchLabel],
+        ['Bills', report.bills],
+        ['Gross', report.gross.toFixed(2)],
+        ['Discounts', report.discounts.toFixed(2)],
+        ['Net Sales', report.netSales.toFixed(2)],
+        ['Taxable Value', report.taxableValue.toFixed(2)],
+        ['Tax', report.tax.toFixed(2)],
+        ...report.takings.map(t => [PAYMENT_METHOD_LABELS[t.method], t.amount.toFixed(2)] as [string, string]),
+        ['Refunds', report.refunds],
+        ['Voids', report.voids],
+        ['Refunded & Voided', report.reversed.toFixed(2)],
+        ['Net Takings', report.net.toFixed(2)],
+    ];
+    const csv = `Figure,Value\n${rows.map(([figure, value]) => `${figure},${value}`).join('\n')}\n`;
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `end_of_day_${day.toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+};
+
+const exportDataToCsv = (customers: Customer[], branches: Branch[], branchFilter: string) => {
+    let csv = `Name,Mobile,TotalSpent,Points,Refunded,Reversals${branches.map(b => `,${b.name} Spend`).join('')}\n`;
+    customers.filter(c => !branchFilter || c.history.some(matchesBranch(branchFilter))).forEach(c => {
+        const reversals = c.history.flatMap(t => t.reversals || []);
+        const branchSpend = branches.map(b => `,${summarizeTransactions(c.history.filter(matchesBranch(b.id))).revenue}`).join('');
+        csv += `${c.name},${c.mobile},${c.totalSpent},${c.points},${reversals.reduce((sum, r) => sum + r.amount, 0)},${reversals.length}${branchSpend}\n`;
     });
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -69,28 +201,43 @@ const exportDataToCsv = (customers: Customer[]) => {
     window.URL.revokeObjectURL(url);
 };
 
-// Helper to check discount eligibility
-const checkDiscountEligibility = (customer: Customer, deadlineSettings: DeadlineSettings, tierSettings: TierSettings): { eligible: boolean; daysSinceLastTxn: number | null; deadline: number | null; pointsTier: Tier | null } => {
-    if (!customer.history || customer.history.length === 0) {
-        return { eligible: true, daysSinceLastTxn: null, deadline: null, pointsTier: null };
+// Helper to turn a failed SMS request into a message for the cashier
+const describeSmsError = (error: unknown): string => {
+    if (!(error instanceof ApiError)) return 'Could not reach the server.';
+    switch (error.status) {
+        case 401: return 'Your session has expired. Please log in again.';
+        case 403: return 'This number is not a registered customer.';
+        case 429: return error.message || 'Too many messages sent. Please wait and try again.';
+        default: return error.message;
     }
+};
 
-    const lastTransaction = customer.history.reduce((latest, tx) => new Date(tx.date) > new Date(latest.date) ? tx : latest);
-    const lastTxnDate = new Date(lastTransaction.date);
-    const today = new Date();
-    const daysSinceLastTxn = Math.floor((today.getTime() - lastTxnDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    const pointsTier = getTierByPoints(customer, tierSettings);
-    const deadline = deadlineSettings[pointsTier.toLowerCase() as keyof DeadlineSettings];
-
-    const eligible = daysSinceLastTxn <= deadline;
+// Helper to turn a failed PIN check into a message for the cashier
+const describePinError = (error: unknown): string => {
+    if (!(error instanceof ApiError)) return 'Could not reach the server.';
+    if (error.status === 423 && typeof error.data.lockedUntil === 'string') {
+        return `Too many incorrect attempts. PIN entry is locked until ${new Date(error.data.lockedUntil).toLocaleTimeString()}.`;
+    }
+    if (error.status === 403 && typeof error.data.attemptsRemaining === 'number') {
+        return `Incorrect PIN code. ${error.data.attemptsRemaining} attempt${error.data.attemptsRemaining === 1 ? '' : 's'} remaining.`;
+    }
+    return error.message;
+};
 
-    return { eligible, daysSinceLastTxn, deadline, pointsTier };
+// Helper to turn a failed PIN reset confirmation into a message for the cashier
+const describePinResetError = (error: unknown): string => {
+    if (!(error instanceof ApiError)) return 'Could not reach the server.';
+    if (error.status === 403 && typeof error.data.attemptsRemaining === 'number') {
+        return `Incorrect code. ${error.data.attemptsRemaining} attempt${error.data.attemptsRemaining === 1 ? '' : 's'} remaining.`;
+    }
+    return error.message;
 };
 
 
-const Dashboard: React.FC<DashboardProps> = ({ currentUser, customers, setCustomers, tierSettings, setTierSettings, discountSettings, setDiscountSettings, deadlineSettings, setDeadlineSettings, smsLogs, setSmsLogs, handleLogout }) => {
-    const [activeSection, setActiveSection] = useState<Section>(Section.Overview);
+const Dashboard: React.FC<DashboardProps> = ({ currentUser, customers, customerActions, branches, branchActions, campaigns, campaignActions, rewards, rewardActions, products, productActions, tierSettings, setTierSettings, securitySettings, setSecuritySettings, pointsExpirySettings, setPointsExpirySettings, earningSettings, setEarningSettings, redemptionSettings, setRedemptionSettings, referralSettings, setReferralSettings, celebrationSettings, setCelebrationSettings, taxSettings, setTaxSettings, printerSettings, setPrinterSettings, timeZoneSettings, setTimeZoneSettings, smsLogs, addSmsLog, handleLogout }) => {
+    const role = currentUser?.role ?? 'cashier';
+    const allowedSections = ROLE_SECTIONS[role];
+    const [activeSection, setActiveSection] = useState<Section>(allowedSections[0]);
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
     
     const [activeContentKey, setActiveContentKey] = useState(0);
@@ -108,19 +255,19 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser, customers, setCustom
     }, [customers]);
 
     const renderSection = () => {
-        switch (activeSection) {
+        switch (allowedSections.includes(activeSection) ? activeSection : allowedSections[0]) {
             case Section.Transaction:
-                return <TransactionSection currentUser={currentUser} customers={customers} setCustomers={setCustomers} tierSettings={tierSettings} discountSettings={discountSettings} deadlineSettings={deadlineSettings} setSmsLogs={setSmsLogs} />;
+                return <TransactionSection currentUser={currentUser} customers={customers} customerActions={customerActions} branches={branches} campaigns={campaigns} rewards={rewards} reloadRewards={rewardActions.reloadRewards} products={products} tierSettings={tierSettings} earningSettings={earningSettings} redemptionSettings={redemptionSettings} referralSettings={referralSettings} taxSettings={taxSettings} printerSettings={printerSettings} timeZone={timeZoneSettings.timeZone} addSmsLog={addSmsLog} />;
             case Section.Search:
-                return <SearchSection customers={customers} tierSettings={tierSettings} deadlineSettings={deadlineSettings}/>;
+                return <SearchSection customers={customers} customerActions={customerActions} branches={branches} canReverse={role !== 'cashier'} tierSettings={tierSettings} timeZone={timeZoneSettings.timeZone}/>;
             case Section.Customers:
-                return <CustomersSection customers={customers} tierSettings={tierSettings} deadlineSettings={deadlineSettings} />;
+                return <CustomersSection customers={customers} tierSettings={tierSettings} />;
             case Section.Analytics:
-                return <AnalyticsSection customers={customers} tierSettings={tierSettings}/>;
+                return <AnalyticsSection customers={customers} branches={branches} campaigns={campaigns} rewards={rewards} tierSettings={tierSettings}/>;
             case Section.SmsLogs:
                 return <SmsLogsSection smsLogs={smsLogs} />;
             case Section.Settings:
-                return <SettingsSection tierSettings={tierSettings} setTierSettings={setTierSettings} discountSettings={discountSettings} setDiscountSettings={setDiscountSettings} deadlineSettings={deadlineSettings} setDeadlineSettings={setDeadlineSettings} />;
+                return <SettingsSection tierSettings={tierSettings} setTierSettings={setTierSettings} securitySettings={securitySettings} setSecuritySettings={setSecuritySettings} pointsExpirySettings={pointsExpirySettings} setPointsExpirySettings={setPointsExpirySettings} earningSettings={earningSettings} setEarningSettings={setEarningSettings} redemptionSettings={redemptionSettings} setRedemptionSettings={setRedemptionSettings} referralSettings={referralSettings} setReferralSettings={setReferralSettings} celebrationSettings={celebrationSettings} setCelebrationSettings={setCelebrationSettings} taxSettings={taxSettings} setTaxSettings={setTaxSettings} printerSettings={printerSettings} setPrinterSettings={setPrinterSettings} timeZoneSettings={timeZoneSettings} setTimeZoneSettings={setTimeZoneSettings} unlockCustomer={customerActions.unlockCustomer} reloadCustomers={customerActions.reloadCustomers} branches={branches} branchActions={branchActions} campaigns={campaigns} campaignActions={campaignActions} rewards={rewards} rewardActions={rewardActions} products={products} productActions={productActions} />;
             case Section.Overview:
             default:
                 return <OverviewSection stats={dashboardStats} />;
@@ -139,6 +286,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser, customers, setCustom
                 <div className="flex items-center gap-3">
                     <div className="border border-brand-border py-1 px-4 rounded-full text-xs tracking-widest hidden sm:block">
                         {currentUser?.businessName || 'Admin'}
+                        {currentUser && role !== 'owner' && <span className="text-brand-muted"> · {currentUser.username} ({role})</span>}
                     </div>
                     <button onClick={handleLogout} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md flex items-center gap-2 hover:bg-gray-100 transition-colors">
                         <FaPowerOff />
@@ -150,10 +298,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser, customers, setCustom
             <div className="flex pt-[60px] flex-1">
                 <aside className={`bg-brand-card border-r border-brand-border h-[calc(100vh-60px)] fixed top-[60px] transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] z-40 ${isSidebarCollapsed ? 'w-[60px]' : 'w-[240px]'}`}>
                     <nav className="mt-4">
-                        {(Object.values(Section)).map(section => {
-                            if (section === Section.Settings && !currentUser) {
-                                return null;
-                            }
+                        {allowedSections.map(section => {
                             return (
                                 <NavItem
                                     key={section}
@@ -218,14 +363,26 @@ const OverviewSection: React.FC<{ stats: { totalCustomers: number; totalRevenue:
     </section>
 );
 
+// A payment as typed at the till; the amount stays text until the bill is rung up.
+type TenderDraft = { method: PaymentMethod; amount: string; reference: string };
+const EMPTY_TENDER: TenderDraft = { method: 'cash', amount: '', reference: '' };
 
-const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Customer[], setCustomers: React.Dispatch<React.SetStateAction<Customer[]>>, tierSettings: TierSettings, discountSettings: DiscountSettings, deadlineSettings: DeadlineSettings, setSmsLogs: React.Dispatch<React.SetStateAction<SmsLog[]>> }> = ({ currentUser, customers, setCustomers, tierSettings, discountSettings, deadlineSettings, setSmsLogs }) => {
+const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Customer[], customerActions: CustomerActions, branches: Branch[], campaigns: Campaign[], rewards: Reward[], reloadRewards: () => Promise<void>, products: Product[], tierSettings: TierSettings, earningSettings: EarningSettings, redemptionSettings: RedemptionSettings, referralSettings: ReferralSettings, taxSettings: TaxSettings, printerSettings: PrinterSettings, timeZone: string, addSmsLog: (log: SmsLog) => void }> = ({ currentUser, customers, customerActions, branches, campaigns, rewards, reloadRewards, products, tierSettings, earningSettings, redemptionSettings, referralSettings, taxSettings, printerSettings, timeZone, addSmsLog }) => {
     const [countryCode, setCountryCode] = useState('+91');
     const [mobile, setMobile] = useState('');
     const [name, setName] = useState('');
     const [pin, setPin] = useState('');
     const [billAmount, setBillAmount] = useState('');
-    const [cashGiven, setCashGiven] = useState('');
+    // Once the bill has lines, its amount is their total
+    const [billItems, setBillItems] = useState<BillItem[]>([]);
+    const [selectedProductId, setSelectedProductId] = useState('');
+    const [itemQuantity, setItemQuantity] = useState('1');
+    const [freeItemName, setFreeItemName] = useState('');
+    const [freeItemAmount, setFreeItemAmount] = useState('');
+    const [tenders, setTenders] = useState<TenderDraft[]>([EMPTY_TENDER]);
+    // Each till remembers which branch it stands in
+    const [tillBranchId, setTillBranchId] = useLocalStorage('tillBranchId', '', currentUser?.businessId ?? null);
+    const tillBranch = branches.find(b => b.id === tillBranchId);
     
     const [currentCustomer, setCurrentCustomer] = useState<Customer | null>(null);
     const [isNewCustomer, setIsNewCustomer] = useState(false);
@@ -235,39 +392,99 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
     const [canUsePoints, setCanUsePoints] = useState(false);
     const [usePointsAndDiscount, setUsePointsAndDiscount] = useState(false);
     const [pointsToUse, setPointsToUse] = useState('');
+    const [referrerMobile, setReferrerMobile] = useState('');
+    const [dateOfBirth, setDateOfBirth] = useState('');
+    const [memberSince, setMemberSince] = useState(todayDateOnly());
+    const [useCelebration, setUseCelebration] = useState(false);
+    const [selectedRewardId, setSelectedRewardId] = useState('');
+    // Each reward is its own redemption of points, so the customer enters their PIN for it.
+    const [rewardPin, setRewardPin] = useState('');
+    const [rewardNotice, setRewardNotice] = useState('');
+    const [rewardError, setRewardError] = useState('');
+    const [couponCode, setCouponCode] = useState('');
+    const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+    const [couponError, setCouponError] = useState('');
     
     const [pinStatus, setPinStatus] = useState('');
     const [pinError, setPinError] = useState('');
-    const [eligibility, setEligibility] = useState<{ eligible: boolean; daysSinceLastTxn: number | null; deadline: number | null; pointsTier: Tier | null }>({ eligible: true, daysSinceLastTxn: null, deadline: null, pointsTier: null });
+    const [pinNotice, setPinNotice] = useState('');
+    type PinResetStage = 'closed' | 'open' | 'sending' | 'code-sent';
+    const [pinResetStage, setPinResetStage] = useState<PinResetStage>('closed');
+    const [resetCode, setResetCode] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [pinResetError, setPinResetError] = useState('');
+    const [eligibility, setEligibility] = useState<DiscountEligibility>({ eligible: true, daysSinceLastTxn: null, deadline: null, tier: null });
 
     const [lastTransactionDetails, setLastTransactionDetails] = useState<LastTransactionDetails | null>(null);
     type SmsStatus = 'idle' | 'sending' | 'sent' | 'failed';
     const [smsStatus, setSmsStatus] = useState<SmsStatus>('idle');
+    const [smsError, setSmsError] = useState('');
+    const [printStatus, setPrintStatus] = useState<'idle' | 'printing' | 'printed' | 'failed'>('idle');
+    const [printError, setPrintError] = useState('');
 
     const custNameRef = useRef<HTMLInputElement>(null);
+    // The customer whose PIN was verified for this entry. Redeeming a reward updates them without asking for the PIN again.
+    const verifiedMobile = useRef<string | null>(null);
+    // The server's proof of that PIN entry, sent with a bill that spends points.
+    const pinToken = useRef<string | undefined>(undefined);
 
     const resetForm = useCallback(() => {
         setMobile('');
         setName('');
         setPin('');
         setBillAmount('');
-        setCashGiven('');
+        setBillItems([]);
+        setSelectedProductId('');
+        setItemQuantity('1');
+        setFreeItemName('');
+        setFreeItemAmount('');
+        setTenders([EMPTY_TENDER]);
         setCurrentCustomer(null);
         setIsNewCustomer(false);
         setShowPinSection(false);
         setShowTransactionForm(true);
         setPinStatus('');
         setPinError('');
+        setPinNotice('');
+        setPinResetStage('closed');
+        setResetCode('');
+        setNewPin('');
+        setPinResetError('');
         setCanUsePoints(false);
         setUsePointsAndDiscount(false);
-        setEligibility({ eligible: true, daysSinceLastTxn: null, deadline: null, pointsTier: null });
+        setReferrerMobile('');
+        setDateOfBirth('');
+        setMemberSince(todayDateOnly());
+        setUseCelebration(false);
+        setSelectedRewardId('');
+        setRewardPin('');
+        setRewardNotice('');
+        setRewardError('');
+        verifiedMobile.current = null;
+        pinToken.current = undefined;
+        setCouponCode('');
+        setAppliedCoupon(null);
+        setCouponError('');
+        setEligibility({ eligible: true, daysSinceLastTxn: null, deadline: null, tier: null });
         setLastTransactionDetails(null);
         setSmsStatus('idle');
+        setSmsError('');
+        setPrintStatus('idle');
+        setPrintError('');
     }, []);
     
     useEffect(() => {
+        const verified = verifiedMobile.current && mobile.length >= 10 ? customers.find(c => c.mobile === verifiedMobile.current) : null;
+        if (verified && [`${countryCode}${mobile}`, mobile].includes(verified.mobile)) {
+            setCurrentCustomer(verified);
+            setCanUsePoints(verified.points > 0);
+            return;
+        }
+        verifiedMobile.current = null;
+        pinToken.current = undefined;
         setCanUsePoints(false);
         setUsePointsAndDiscount(false);
+        setUseCelebration(false);
         if(mobile.length >= 10) {
             if(lastTransactionDetails) return; // Don't search while confirmation is shown
             const fullMobile = `${countryCode}${mobile}`;
@@ -279,7 +496,10 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                 setName(existingCustomer.name);
                 setIsNewCustomer(false);
                 setPinStatus("Existing User Verification");
-                setEligibility(checkDiscountEligibility(existingCustomer, deadlineSettings, tierSettings));
+                if (existingCustomer.lockedUntil) {
+                    setPinError(`PIN entry is locked until ${new Date(existingCustomer.lockedUntil).toLocaleTimeString()}.`);
+                }
+                setEligibility(checkDiscountEligibility(existingCustomer, tierSettings));
                 if (existingCustomer.points > 0) {
                     setCanUsePoints(true);
                 }
@@ -287,7 +507,7 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                 setName('');
                 setIsNewCustomer(true);
                 setPinStatus("Set New User PIN");
-                setEligibility({ eligible: true, daysSinceLastTxn: null, deadline: null, pointsTier: null });
+                setEligibility({ eligible: true, daysSinceLastTxn: null, deadline: null, tier: null });
                 custNameRef.current?.focus();
             }
         } else {
@@ -295,104 +515,238 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
             setCurrentCustomer(null);
             setName('');
         }
-    }, [mobile, countryCode, customers, deadlineSettings, tierSettings, lastTransactionDetails]);
+    }, [mobile, countryCode, customers, tierSettings, lastTransactionDetails]);
 
-    const handlePinVerify = () => {
+    const handlePinVerify = async () => {
         setPinError('');
         if (isNewCustomer) {
-            if (pin.length === 4) {
+            if (/^\d{4}$/.test(pin)) {
                 setShowPinSection(false);
                 setShowTransactionForm(true);
             } else {
                 setPinError("PIN must be 4 digits.");
             }
-        } else {
-            if (currentCustomer?.pin === pin) {
+        } else if (currentCustomer) {
+            try {
+                pinToken.current = await verifyPin(currentCustomer.mobile, pin);
+                verifiedMobile.current = currentCustomer.mobile;
                 setShowPinSection(false);
                 setShowTransactionForm(true);
-            } else {
-                setPinError("Incorrect PIN code.");
+            } catch (error) {
+                setPinError(describePinError(error));
+                setPin('');
             }
         }
     };
+
+    const handleSendResetCode = async () => {
+        if (!currentCustomer) return;
+        setPinResetError('');
+        setPinResetStage('sending');
+        try {
+            await requestPinReset(currentCustomer.mobile);
+            setPinResetStage('code-sent');
+        } catch (error) {
+            setPinResetError(describeSmsError(error));
+            setPinResetStage('open');
+        }
+    };
+
+    const handleConfirmPinReset = async () => {
+        if (!currentCustomer) return;
+        setPinResetError('');
+        if (!/^\d{4}$/.test(newPin)) {
+            setPinResetError("New PIN must be 4 digits.");
+            return;
+        }
+        try {
+            await customerActions.resetPin(currentCustomer.mobile, resetCode, newPin);
+            setPinResetStage('closed');
+            setResetCode('');
+            setNewPin('');
+            setPin('');
+            setPinError('');
+            setPinNotice('PIN updated. Enter the new PIN to continue.');
+        } catch (error) {
+            setPinResetError(describePinResetError(error));
+            setResetCode('');
+            if (error instanceof ApiError && error.status === 410) setPinResetStage('open');
+        }
+    };
     
-    const tierInfo = useMemo(() => {
-        if (!currentCustomer) return null;
-        const spendTier = getTierBySpend(currentCustomer, tierSettings);
-        const pointsTier = getTierByPoints(currentCustomer, tierSettings);
-        const effectiveTier = getCustomerTier(currentCustomer, tierSettings);
-        return { spendTier, pointsTier, effectiveTier };
-    }, [currentCustomer, tierSettings]);
+    const effectiveTier = useMemo(() => currentCustomer ? getCustomerTier(currentCustomer, tierSettings) : null, [currentCustomer, tierSettings]);
+    const qualifyingTotals = useMemo(() => currentCustomer ? getQualifyingTotals(currentCustomer, tierSettings) : null, [currentCustomer, tierSettings]);
+    // New customers earn and get campaign offers at the entry tier.
+    const billingTier = effectiveTier ?? tierSettings.tiers[0];
+
+    // A birthday or anniversary discount the customer has not used yet.
+    const availableCelebration = useMemo(() => currentCustomer ? getAvailableCelebrationDiscount(currentCustomer) : null, [currentCustomer]);
 
     const billDetails = useMemo(() => {
-        const subtotal = parseFloat(billAmount) || 0;
+        const subtotal = billItems.length > 0 ? getItemsTotal(billItems) : parseFloat(billAmount) || 0;
         let discountPercentage = 0;
         let discountAmount = 0;
         
-        if (usePointsAndDiscount && eligibility.eligible && currentCustomer && subtotal > 0 && tierInfo) {
-            discountPercentage = discountSettings[tierInfo.effectiveTier.toLowerCase() as keyof DiscountSettings] || 0;
+        if (usePointsAndDiscount && eligibility.eligible && currentCustomer && subtotal > 0 && effectiveTier) {
+            discountPercentage = effectiveTier.discountPercentage;
             discountAmount = subtotal * (discountPercentage / 100);
         }
 
-        const finalBill = subtotal - discountAmount;
+        const activeCampaigns = subtotal > 0 ? getActiveCampaigns(campaigns, billingTier, timeZone) : [];
+        const afterDiscounts = Math.max(0, subtotal - discountAmount - activeCampaigns.reduce((sum, c) => sum + getCampaignDiscount(c, subtotal), 0));
+        const celebrationDiscount = useCelebration && availableCelebration ? getCelebrationDiscount(availableCelebration, subtotal, afterDiscounts) : 0;
+        // A coupon comes off last, once the tier, campaign and celebration discounts are taken.
+        const couponProblem = appliedCoupon && subtotal > 0 ? checkCoupon(appliedCoupon, subtotal) : null;
+        const couponDiscount = appliedCoupon && !couponProblem ? getCouponDiscount(appliedCoupon, subtotal, afterDiscounts - celebrationDiscount) : 0;
+        // Tax is worked out on what the discounts leave; see calculateBillTax for the order.
+        const discountedTotal = afterDiscounts - celebrationDiscount - couponDiscount;
+        const tax = calculateBillTax(billItems.length > 0 ? billItems : [{ amount: subtotal }], discountedTotal, taxSettings);
+        const finalBill = discountedTotal + getAddedTax(tax);
         
-        let pointsUsed = 0;
-        if (usePointsAndDiscount && currentCustomer && currentCustomer.points > 0) {
-            const desiredPoints = parseFloat(pointsToUse) || 0;
-            pointsUsed = Math.min(currentCustomer.points, finalBill, desiredPoints);
-        }
-
-        const cashPayable = finalBill - pointsUsed;
+        const redeemablePoints = currentCustomer ? getRedeemablePoints(currentCustomer.points, finalBill, redemptionSettings) : 0;
+        const redemption = usePointsAndDiscount && currentCustomer && currentCustomer.points > 0
+            ? applyRedemption(parseFloat(pointsToUse) || 0, currentCustomer.points, finalBill, redemptionSettings)
+            : { points: 0, value: 0 };
+        const pointsUsed = redemption.points;
+        const pointsValue = redemption.value;
+
+        const cashPayable = finalBill - pointsValue;
         
-        const cash = parseFloat(cashGiven) || 0;
-        const pointsEarned = Math.max(0, Math.floor(cash - cashPayable));
+        const payments: Tender[] = tenders
+            .map(t => ({ method: t.method, amount: parseFloat(t.amount) || 0, ...(t.reference.trim() ? { reference: t.reference.trim() } : {}) }))
+            .filter(t => t.amount > 0);
+        const tendered = payments.reduce((sum, t) => sum + t.amount, 0);
+        const change = getChange(payments, cashPayable);
+        const leftToPay = Math.max(0, cashPayable - tendered);
+        const earning = calculatePointsEarned({ finalBill, amountPaid: cashPayable, cashGiven: tendered }, billingTier, earningSettings);
+        const appliedCampaigns = applyCampaigns(activeCampaigns, subtotal, earning.points);
+        const pointsEarned = earning.points + appliedCampaigns.reduce((sum, c) => sum + c.bonusPoints, 0);
         
-        return { subtotal, discountPercentage, discountAmount, finalBill, pointsUsed, cashPayable, pointsEarned };
-    }, [billAmount, cashGiven, usePointsAndDiscount, currentCustomer, discountSettings, tierInfo, eligibility.eligible, pointsToUse]);
+        return { subtotal, discountPercentage, discountAmount, appliedCampaigns, celebrationDiscount, couponDiscount, couponProblem, tax, finalBill, redeemablePoints, pointsUsed, pointsValue, cashPayable, payments, change, leftToPay, pointsEarned, earning };
+    }, [billAmount, billItems, tenders, usePointsAndDiscount, currentCustomer, effectiveTier, billingTier, campaigns, useCelebration, availableCelebration, appliedCoupon, eligibility.eligible, pointsToUse, earningSettings, redemptionSettings, taxSettings, timeZone]);
+
+
+    // Referrers are looked up with the same country code as the new customer.
+    const referrer = referrerMobile ? customers.find(c => c.mobile === `${countryCode}${referrerMobile}`) ?? null : null;
+
+    const handleApplyCoupon = async () => {
+        if (!couponCode.trim()) return;
+        setCouponError('');
+        try {
+            setAppliedCoupon(await checkCouponCode(couponCode, billDetails.subtotal));
+            setCouponCode('');
+        } catch (error) {
+            setCouponError(error instanceof Error ? error.message : String(error));
+        }
+    };
 
+    // Adding a product already on the bill raises its quantity.
+    const handleAddProduct = () => {
+        const product = products.find(p => p.id === selectedProductId);
+        const quantity = parseFloat(itemQuantity);
+        if (!product || !(quantity > 0)) return;
+        setBillItems(current => {
+            const existing = current.find(item => item.productId === product.id);
+            if (!existing) return [...current, toBillItem(product, quantity)];
+            return current.map(item => item === existing ? toBillItem(product, existing.quantity + quantity) : item);
+        });
+        setSelectedProductId('');
+        setItemQuantity('1');
+    };
+
+    const handleAddFreeItem = () => {
+        const amount = Math.round((parseFloat(freeItemAmount) || 0) * 100) / 100;
+        if (amount <= 0) return;
+        setBillItems(current => [...current, { name: freeItemName.trim() || FREE_AMOUNT_NAME, quantity: 1, unitPrice: amount, amount }]);
+        setFreeItemName('');
+        setFreeItemAmount('');
+    };
+
+    const handleRedeemReward = async () => {
+        const reward = rewards.find(r => r.id === selectedRewardId);
+        if (!currentCustomer || !reward) return;
+        setRewardNotice('');
+        setRewardError('');
+        if (branches.length > 0 && !tillBranch) { setRewardError("Please select this till's branch first."); return; }
+        const problem = checkRewardRedemption(reward, currentCustomer.points);
+        if (problem) { setRewardError(problem); return; }
+        let rewardPinToken: string;
+        try {
+            rewardPinToken = await verifyPin(currentCustomer.mobile, rewardPin);
+        } catch (error) {
+            setRewardError(describePinError(error));
+            setRewardPin('');
+            return;
+        }
+        try {
+            const updated = await customerActions.redeemReward(currentCustomer.mobile, reward.id, rewardPinToken, tillBranch?.id);
+            setSelectedRewardId('');
+            setRewardPin('');
+            setRewardNotice(`Gave ${reward.name} for ${reward.pointsCost.toLocaleString()} points. ${updated.points.toLocaleString()} points left.`);
+            await reloadRewards();
+        } catch (error) {
+            setRewardError(error instanceof Error ? error.message : String(error));
+        }
+    };
 
-    const handleTransactionSubmit = () => {
-        const { subtotal, finalBill, pointsUsed, pointsEarned, cashPayable } = billDetails;
-        const cash = parseFloat(cashGiven);
+    const handleTransactionSubmit = async () => {
+        const { subtotal, finalBill, pointsUsed, pointsEarned, cashPayable, payments } = billDetails;
+        const paymentProblem = checkPayments(payments, cashPayable);
 
         if (!subtotal || subtotal <= 0) { alert("Please enter a valid Bill Amount"); return; }
-        if (cash < cashPayable) { alert("Cash Given cannot be less than the amount payable."); return; }
+        if (branches.length > 0 && !tillBranch) { alert("Please select this till's branch first."); return; }
+        if (paymentProblem) { alert(paymentProblem); return; }
+        if (billDetails.couponProblem) { alert(billDetails.couponProblem); return; }
+        if (isNewCustomer && referrerMobile && !referrer) { alert("No customer has the referrer's mobile. Clear it or correct it."); return; }
         
         const newHistoryEntry: TransactionHistory = { 
             date: new Date().toISOString(), 
             bill: subtotal,
+            items: billItems.length > 0 ? billItems : undefined,
+            tax: billDetails.tax,
             discountPercentage: usePointsAndDiscount && eligibility.eligible ? billDetails.discountPercentage : undefined,
             finalBill,
             pointsUsed: usePointsAndDiscount && eligibility.eligible ? pointsUsed : 0,
             points: pointsEarned,
+            branchId: tillBranch?.id,
+            campaigns: billDetails.appliedCampaigns,
+            celebration: availableCelebration && billDetails.celebrationDiscount > 0
+                ? { grantId: availableCelebration.id, occasion: availableCelebration.occasion, discountAmount: billDetails.celebrationDiscount }
+                : undefined,
+            coupon: appliedCoupon ? { couponId: appliedCoupon.id, code: appliedCoupon.code, discountAmount: billDetails.couponDiscount } : undefined,
+            payments,
         };
         
-        let newTotalPoints = 0;
+        let savedCustomer: Customer;
         let deadlineDays: number | null = null;
         
         const targetMobile = currentCustomer ? currentCustomer.mobile : `${countryCode}${mobile}`;
 
+        try {
+            // A new customer is saved first, then their bill is recorded like any other. They have just set their PIN,
+            // so they count as verified, and a retry after a failed bill does not create them twice.
+            if (isNewCustomer) {
+                const newCustomer: Customer = { mobile: targetMobile, name: name || "Guest", pin, points: 0, totalSpent: 0, history: [], referredBy: referrer?.mobile, dateOfBirth: dateOfBirth || undefined, memberSince };
+                await customerActions.createCustomer(newCustomer);
+                verifiedMobile.current = targetMobile;
+                setIsNewCustomer(false);
+            }
+            savedCustomer = await customerActions.recordTransaction(targetMobile, newHistoryEntry, pinToken.current);
+        } catch (error) {
+            console.error('Transaction Error:', error);
+            alert(`Transaction could not be saved: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
         if (isNewCustomer) {
-            newTotalPoints = pointsEarned;
-            const newCustomer: Customer = { mobile: targetMobile, name: name || "Guest", pin, points: newTotalPoints, totalSpent: finalBill, history: [newHistoryEntry] };
-            setCustomers(prev => [...prev, newCustomer]);
-            deadlineDays = deadlineSettings.bronze;
-        } else {
-             const updatedCustomers = customers.map(c => {
-                if (c.mobile !== targetMobile) return c;
-                const finalPoints = (c.points - pointsUsed) + pointsEarned;
-                newTotalPoints = finalPoints;
-                return { ...c, points: finalPoints, totalSpent: c.totalSpent + finalBill, history: [...(c.history || []), newHistoryEntry] };
-             })
-             setCustomers(updatedCustomers);
-             if (eligibility.deadline !== null && eligibility.daysSinceLastTxn !== null) {
-                 deadlineDays = Math.max(0, eligibility.deadline - eligibility.daysSinceLastTxn);
-             } else if (currentCustomer) {
-                // Customer with no history
-                const currentPointsTier = getTierByPoints({ ...currentCustomer, points: newTotalPoints }, tierSettings);
-                deadlineDays = deadlineSettings[currentPointsTier.toLowerCase() as keyof DeadlineSettings];
-             }
+            deadlineDays = tierSettings.tiers[0].deadlineDays;
+        } else if (eligibility.deadline !== null && eligibility.daysSinceLastTxn !== null) {
+            deadlineDays = Math.max(0, eligibility.deadline - eligibility.daysSinceLastTxn);
+        } else if (currentCustomer) {
+            // Customer with no history: the tier this bill put them in
+            deadlineDays = getCustomerTier(savedCustomer, tierSettings).deadlineDays;
         }
+        const newTotalPoints = savedCustomer.points;
 
         setLastTransactionDetails({
             mobile: targetMobile,
@@ -402,7 +756,8 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
             pointsUsed,
             pointsEarned,
             newTotalPoints,
-            deadlineDays
+            deadlineDays,
+            receiptToken: savedCustomer.history[savedCustomer.history.length - 1]?.receiptToken,
         });
         
         setShowTransactionForm(false);
@@ -412,38 +767,40 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
     const handleSendSms = async () => {
         if (!lastTransactionDetails) return;
         setSmsStatus('sending');
+        setSmsError('');
 
-        const { mobile: txnMobile, customerName, businessName, newTotalPoints, deadlineDays } = lastTransactionDetails;
+        const { mobile: txnMobile, customerName, businessName, newTotalPoints, deadlineDays, receiptToken } = lastTransactionDetails;
         
         const message = 
-`Hi ${customerName}, thanks for visiting ${businessName}! Your new balance is ${newTotalPoints} points. Your points tier status is valid for the next ${deadlineDays} days. We look forward to seeing you again!`;
+`Hi ${customerName}, thanks for visiting ${businessName}! Your new balance is ${newTotalPoints} points. Your points tier status is valid for the next ${deadlineDays} days. We look forward to seeing you again!${receiptToken ? ` Receipt: ${getReceiptUrl(receiptToken)}` : ''}`;
 
         try {
-            const response = await fetch('/api/send-sms', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ to: txnMobile, body: message }),
-            });
-
-            const data = await response.json();
-
-            if (data.success) {
-                setSmsStatus('sent');
-                const newLog: SmsLog = {
-                    timestamp: new Date().toISOString(),
-                    recipientMobile: txnMobile,
-                    recipientName: customerName,
-                    message
-                };
-                setSmsLogs(prev => [newLog, ...prev]);
-            } else {
-                setSmsStatus('failed');
-            }
+            await sendSms(txnMobile, message);
+            setSmsStatus('sent');
+            const newLog: SmsLog = {
+                timestamp: new Date().toISOString(),
+                recipientMobile: txnMobile,
+                recipientName: customerName,
+                message
+            };
+            addSmsLog(newLog);
         } catch (error) {
             console.error('SMS Error:', error);
             setSmsStatus('failed');
+            setSmsError(describeSmsError(error));
+        }
+    };
+
+    const handlePrintReceipt = async () => {
+        if (!lastTransactionDetails?.receiptToken) return;
+        setPrintStatus('printing');
+        setPrintError('');
+        try {
+            await printReceipt(lastTransactionDetails.receiptToken);
+            setPrintStatus('printed');
+        } catch (error) {
+            setPrintStatus('failed');
+            setPrintError(error instanceof Error ? error.message : String(error));
         }
     };
 
@@ -463,6 +820,15 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                 {!lastTransactionDetails ? (
                 <>
                 <div className="space-y-6">
+                    {branches.length > 0 && (
+                        <div>
+                            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Branch</label>
+                            <select value={tillBranch?.id ?? ''} onChange={e => setTillBranchId(e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                                <option value="" disabled>Select this till's branch...</option>
+                                {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div>
                         <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Mobile Number</label>
                         <div className="flex items-center border-b border-brand-border focus-within:border-brand-accent transition-colors">
@@ -489,6 +855,28 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                         <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Name</label>
                         <input type="text" ref={custNameRef} value={name} onChange={e => setName(e.target.value)} placeholder="Customer Name" readOnly={!isNewCustomer && !!currentCustomer} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
                     </div> }
+                    {isNewCustomer && <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Referred By (optional)</label>
+                        <div className="flex items-center border-b border-brand-border focus-within:border-brand-accent transition-colors">
+                            <span className="text-brand-muted py-2 pr-2">{countryCode}</span>
+                            <input type="text" value={referrerMobile} onChange={e => setReferrerMobile(e.target.value.replace(/\D/g, ''))} maxLength={15} placeholder="Referrer's mobile number" className="w-full bg-transparent py-2 text-brand-text text-base outline-none" />
+                        </div>
+                        {referrerMobile && (
+                            referrer
+                                ? <p className="text-xs text-green-600 mt-1">Referred by {referrer.name}. {describeReferralRules(referralSettings)}</p>
+                                : <p className="text-xs text-red-500 mt-1">No customer has this mobile.</p>
+                        )}
+                    </div> }
+                    {isNewCustomer && <div className="grid grid-cols-2 gap-6">
+                        <div>
+                            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Date of Birth (optional)</label>
+                            <input type="date" value={dateOfBirth} max={todayDateOnly()} onChange={e => setDateOfBirth(e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Member Since</label>
+                            <input type="date" value={memberSince} max={todayDateOnly()} onChange={e => setMemberSince(e.target.value || todayDateOnly())} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                        </div>
+                    </div> }
                 </div>
 
                 {showPinSection && !showTransactionForm && (
@@ -502,29 +890,88 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                             <button onClick={handlePinVerify} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Verify</button>
                         </div>
                         {pinError && <p className="text-red-500 text-xs mt-2">{pinError}</p>}
+                        {pinNotice && !pinError && <p className="text-green-600 text-xs mt-2">{pinNotice}</p>}
+                        {!isNewCustomer && currentCustomer && pinResetStage === 'closed' && (
+                            <button onClick={() => { setPinResetStage('open'); setPinNotice(''); }} className="text-xs text-brand-accent hover:underline mt-3">Forgot PIN?</button>
+                        )}
+                        {!isNewCustomer && currentCustomer && pinResetStage !== 'closed' && (
+                            <div className="mt-4 pt-4 border-t border-brand-border space-y-3">
+                                <div className="flex justify-between items-center">
+                                    <label className="text-sm text-brand-text">Reset PIN</label>
+                                    <button onClick={() => { setPinResetStage('closed'); setPinResetError(''); setResetCode(''); setNewPin(''); }} className="text-xs text-brand-muted hover:underline">Cancel</button>
+                                </div>
+                                {pinResetStage !== 'code-sent' ? (
+                                    <div className="flex justify-between items-center gap-4">
+                                        <span className="text-xs text-brand-muted">A one-time code will be sent by SMS to {currentCustomer.mobile}.</span>
+                                        <button onClick={handleSendResetCode} disabled={pinResetStage === 'sending'} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors disabled:opacity-60 shrink-0">
+                                            {pinResetStage === 'sending' ? 'Sending...' : 'Send Code'}
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="flex gap-4">
+                                            <input type="text" value={resetCode} onChange={e => setResetCode(e.target.value.replace(/\D/g, ''))} maxLength={6} placeholder="SMS code" className="w-1/2 bg-transparent border-b border-brand-border py-2 text-brand-text text-base tracking-[0.3em] text-center outline-none focus:border-brand-accent transition-colors" />
+                                            <input type="password" value={newPin} onChange={e => setNewPin(e.target.value)} maxLength={4} placeholder="New PIN" className="w-1/2 bg-transparent border-b border-brand-border py-2 text-brand-text text-base tracking-[0.3em] text-center outline-none focus:border-brand-accent transition-colors" />
+                                        </div>
+                                        <div className="flex justify-between items-center">
+                                            <button onClick={handleSendResetCode} className="text-xs text-brand-muted hover:underline">Resend code</button>
+                                            <button onClick={handleConfirmPinReset} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Reset PIN</button>
+                                        </div>
+                                    </>
+                                )}
+                                {pinResetError && <p className="text-red-500 text-xs">{pinResetError}</p>}
+                            </div>
+                        )}
                     </div>
                 )}
                 
                 {showTransactionForm && (
                     <div className="mt-6 space-y-6 animate-fade-slide-up text-sm">
-                         <div className="grid grid-cols-2 gap-6">
-                            <div>
-                               <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Bill Amount (₹)</label>
+                        <div>
+                           <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Bill Amount (₹)</label>
+                           {billItems.length > 0 ? (
+                               <p className="py-2 text-brand-text text-base border-b border-brand-border">{getItemsTotal(billItems).toFixed(2)} <span className="text-xs text-brand-muted">from {billItems.length} {billItems.length === 1 ? 'line' : 'lines'}</span></p>
+                           ) : (
                                <input type="number" value={billAmount} onChange={e => setBillAmount(e.target.value)} placeholder="e.g. 900" className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-                           </div>
+                           )}
+                        </div>
+
+                        <div className="p-4 bg-gray-50 border border-brand-border/50 space-y-3">
                             <div>
-                               <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Amount Given (₹)</label>
-                               <input type="number" value={cashGiven} onChange={e => setCashGiven(e.target.value)} placeholder="e.g. 1000" className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-                           </div>
+                                <h4 className="font-bold text-brand-text">Bill Items</h4>
+                                <p className="text-xs text-brand-muted mt-1">Build the bill from the product catalog, with free-amount lines for anything else. Leave it empty to enter just the total.</p>
+                            </div>
+                            {billItems.map((item, index) => (
+                                <div key={index} className="flex items-center gap-3 text-sm">
+                                    <span className="flex-grow">{item.quantity} × {item.name}{item.sku && <span className="text-xs text-brand-muted"> {item.sku}</span>}</span>
+                                    <span>₹{item.amount.toFixed(2)}</span>
+                                    <button onClick={() => setBillItems(current => current.filter((_, i) => i !== index))} className="text-xs text-brand-muted hover:underline">Remove</button>
+                                </div>
+                            ))}
+                            {products.length > 0 && (
+                                <div className="flex items-center gap-2">
+                                    <select value={selectedProductId} onChange={e => setSelectedProductId(e.target.value)} className="flex-grow bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                                        <option value="">Choose a product...</option>
+                                        {products.map(p => <option key={p.id} value={p.id}>{p.category} · {p.name} · ₹{p.price.toLocaleString()}</option>)}
+                                    </select>
+                                    <input type="number" min="1" value={itemQuantity} onChange={e => setItemQuantity(e.target.value)} className="w-16 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                    <button onClick={handleAddProduct} disabled={!selectedProductId} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-60">Add</button>
+                                </div>
+                            )}
+                            <div className="flex items-center gap-2">
+                                <input type="text" value={freeItemName} onChange={e => setFreeItemName(e.target.value)} maxLength={100} placeholder={`Description (${FREE_AMOUNT_NAME})`} className="flex-grow bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                <input type="number" value={freeItemAmount} onChange={e => setFreeItemAmount(e.target.value)} placeholder="₹ Amount" className="w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                <button onClick={handleAddFreeItem} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Add Amount</button>
+                            </div>
                         </div>
 
-                        {tierInfo && (
+                        {currentCustomer && effectiveTier && qualifyingTotals && (
                              <div className="p-4 bg-gray-50 border border-brand-border/50 flex justify-between items-center">
                                 <div>
                                     <h4 className="font-bold text-brand-text uppercase tracking-wider">Effective Tier</h4>
-                                    <p className="text-xs text-brand-muted mt-1">Based on the higher of Spending Tier ({tierInfo.spendTier}) and Points Tier ({tierInfo.pointsTier}).</p>
+                                    <p className="text-xs text-brand-muted mt-1">Spend ₹{qualifyingTotals.spend.toLocaleString()} · {qualifyingTotals.points.toLocaleString()} points {describeTierWindow(tierSettings)}. {describeTierQualification(tierSettings)}</p>
                                 </div>
-                                <span className={`text-xs px-3 py-1 rounded-full font-bold ${TIER_COLORS[tierInfo.effectiveTier]}`}>{tierInfo.effectiveTier}</span>
+                                <TierBadge tier={effectiveTier} className="px-3 py-1 font-bold" />
                             </div>
                         )}
 
@@ -532,7 +979,7 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                             <div className="p-4 bg-red-100 border border-red-300 text-red-800">
                                 <h4 className="font-bold">Discount Ineligible</h4>
                                 <p className="text-xs mt-1">
-                                    Customer's last transaction was {eligibility.daysSinceLastTxn} days ago, exceeding the {eligibility.deadline} day deadline for their {eligibility.pointsTier} points tier.
+                                    Customer's last transaction was {eligibility.daysSinceLastTxn} days ago, exceeding the {eligibility.deadline} day deadline for their {eligibility.tier?.name} tier.
                                 </p>
                             </div>
                         )}
@@ -541,7 +988,12 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                             <div className="p-4 bg-gray-50 border border-brand-border/50 flex justify-between items-center">
                                 <div>
                                     <h4 className={`font-bold transition-colors ${!eligibility.eligible ? 'text-brand-muted' : 'text-brand-text'}`}>{eligibility.eligible ? 'Redeem Points & Get Tier Discount' : 'Redeem Points'}</h4>
-                                    <p className="text-xs text-brand-muted mt-1">Available: <span className="font-bold text-brand-text">{currentCustomer.points.toLocaleString()}</span> points</p>
+                                    <p className="text-xs text-brand-muted mt-1">Available: <span className="font-bold text-brand-text">{currentCustomer.points.toLocaleString()}</span> points (₹{pointsToRupees(currentCustomer.points, redemptionSettings).toLocaleString()})</p>
+                                    <p className="text-xs text-brand-muted">
+                                        {currentCustomer.points < redemptionSettings.minimumBalance
+                                            ? `Redeeming needs at least ${redemptionSettings.minimumBalance} points.`
+                                            : billDetails.finalBill > 0 && `Up to ${billDetails.redeemablePoints.toLocaleString()} points (₹${pointsToRupees(billDetails.redeemablePoints, redemptionSettings).toLocaleString()}) on this bill.`}
+                                    </p>
                                 </div>
                                 <div className="flex items-center gap-4">
                                     <input type="text" value={pointsToUse} onChange={e => setPointsToUse(e.target.value)} placeholder="Points to use" className="w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
@@ -550,6 +1002,97 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                             </div>
                         )}
                         
+                        {!isNewCustomer && currentCustomer && rewards.length > 0 && (
+                            <div className="p-4 bg-gray-50 border border-brand-border/50 space-y-2">
+                                <div className="flex justify-between items-center gap-4">
+                                    <div>
+                                        <h4 className="font-bold text-brand-text">Redeem Reward</h4>
+                                        <p className="text-xs text-brand-muted mt-1">Give an item from the rewards catalog for points, separately from this bill. The customer enters their PIN for it.</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <select value={selectedRewardId} onChange={e => { setSelectedRewardId(e.target.value); setRewardError(''); }} className="bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                                            <option value="">Choose a reward...</option>
+                                            {rewards.map(r => (
+                                                <option key={r.id} value={r.id} disabled={checkRewardRedemption(r, currentCustomer.points) !== null}>
+                                                    {r.name} · {r.pointsCost.toLocaleString()} pts{r.stock > 0 ? ` · ${r.stock} left` : ' · out of stock'}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <input type="password" value={rewardPin} onChange={e => { setRewardPin(e.target.value); setRewardError(''); }} maxLength={4} placeholder="PIN" className="w-14 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                        <button onClick={handleRedeemReward} disabled={!selectedRewardId || rewardPin.length !== 4} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-60">Redeem</button>
+                                    </div>
+                                </div>
+                                {rewardError && <p className="text-red-500 text-xs">{rewardError}</p>}
+                                {rewardNotice && !rewardError && <p className="text-green-600 text-xs">{rewardNotice}</p>}
+                            </div>
+                        )}
+
+                        {availableCelebration && (
+                            <div className="p-4 bg-gray-50 border border-brand-border/50 flex justify-between items-center">
+                                <div>
+                                    <h4 className="font-bold text-brand-text">{OCCASION_LABELS[availableCelebration.occasion]} Reward</h4>
+                                    <p className="text-xs text-brand-muted mt-1">{describeCelebrationReward(availableCelebration)}, until {new Date(availableCelebration.validUntil).toLocaleDateString()}.</p>
+                                </div>
+                                <input type="checkbox" checked={useCelebration} onChange={e => setUseCelebration(e.target.checked)} className="h-5 w-5 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent shrink-0" />
+                            </div>
+                        )}
+
+                        <div className="p-4 bg-gray-50 border border-brand-border/50 space-y-2">
+                            <div className="flex justify-between items-center gap-4">
+                                <div>
+                                    <h4 className="font-bold text-brand-text">Coupon</h4>
+                                    <p className="text-xs text-brand-muted mt-1">
+                                        {appliedCoupon ? `${appliedCoupon.code}: ${describeCoupon(appliedCoupon)}` : 'Enter the code on a voucher to apply it.'}
+                                    </p>
+                                </div>
+                                {appliedCoupon ? (
+                                    <button onClick={() => setAppliedCoupon(null)} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                ) : (
+                                    <div className="flex items-center gap-2">
+                                        <input type="text" value={couponCode} onChange={e => setCouponCode(e.target.value.toUpperCase())} placeholder="CODE" className="w-28 bg-transparent border-b border-brand-border py-1 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                                        <button onClick={handleApplyCoupon} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Apply</button>
+                                    </div>
+                                )}
+                            </div>
+                            {(couponError || billDetails.couponProblem) && <p className="text-red-500 text-xs">{couponError || billDetails.couponProblem}</p>}
+                        </div>
+
+                        <div className="p-4 bg-gray-50 border border-brand-border/50 space-y-2">
+                            <div className="flex justify-between items-center gap-4">
+                                <div>
+                                    <h4 className="font-bold text-brand-text">Payment</h4>
+                                    <p className="text-xs text-brand-muted mt-1">Split the bill across cash, card and UPI. Only cash gives change.</p>
+                                </div>
+                                <button
+                                    onClick={() => setTenders(current => [...current, { method: 'card', amount: billDetails.leftToPay > 0 ? String(Math.round(billDetails.leftToPay * 100) / 100) : '', reference: '' }])}
+                                    className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                                >
+                                    Add Payment
+                                </button>
+                            </div>
+                            {tenders.map((tender, index) => (
+                                <div key={index} className="flex items-center gap-3">
+                                    <select value={tender.method} onChange={e => setTenders(current => current.map((t, i) => i === index ? { ...t, method: e.target.value as PaymentMethod } : t))} className="bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                                        {PAYMENT_METHODS.map(method => <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>)}
+                                    </select>
+                                    <input type="number" value={tender.amount} onChange={e => setTenders(current => current.map((t, i) => i === index ? { ...t, amount: e.target.value } : t))} placeholder="₹ Amount" className="w-28 bg-transparent border-b border-brand-border py-1 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                                    {tender.method !== 'cash' && (
+                                        <input type="text" value={tender.reference} onChange={e => setTenders(current => current.map((t, i) => i === index ? { ...t, reference: e.target.value } : t))} maxLength={64} placeholder="Reference (optional)" className="flex-grow bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                    )}
+                                    {tenders.length > 1 && (
+                                        <button onClick={() => setTenders(current => current.filter((_, i) => i !== index))} className="ml-auto text-xs text-brand-muted hover:underline">Remove</button>
+                                    )}
+                                </div>
+                            ))}
+                            {billDetails.subtotal > 0 && (
+                                <p className={`text-xs ${billDetails.leftToPay > 0 ? 'text-red-500' : 'text-brand-muted'}`}>
+                                    {billDetails.leftToPay > 0
+                                        ? `₹${billDetails.leftToPay.toFixed(2)} left to pay.`
+                                        : billDetails.change > 0 ? `Change due: ₹${billDetails.change.toFixed(2)} in cash.` : 'Paid in full.'}
+                                </p>
+                            )}
+                        </div>
+
                         <div className="p-4 border border-dashed border-brand-border/50 space-y-2">
                              <h4 className="text-center font-serif text-lg mb-4">Bill Summary</h4>
                              <div className="flex justify-between items-center text-brand-muted">
@@ -558,14 +1101,43 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                              </div>
                              {billDetails.discountAmount > 0 && (
                                 <div className="flex justify-between items-center text-green-600">
-                                     <span>{tierInfo?.effectiveTier} Discount ({billDetails.discountPercentage}%)</span>
+                                     <span>{effectiveTier?.name} Discount ({billDetails.discountPercentage}%)</span>
                                      <span>-₹{billDetails.discountAmount.toFixed(2)}</span>
                                  </div>
                              )}
+                            {billDetails.appliedCampaigns.filter(c => c.discountAmount > 0).map(c => (
+                                <div key={c.campaignId} className="flex justify-between items-center text-green-600">
+                                     <span>{c.name}</span>
+                                     <span>-₹{c.discountAmount.toFixed(2)}</span>
+                                 </div>
+                            ))}
+                            {availableCelebration && billDetails.celebrationDiscount > 0 && (
+                                <div className="flex justify-between items-center text-green-600">
+                                     <span>{OCCASION_LABELS[availableCelebration.occasion]} Discount ({availableCelebration.discountPercentage}%)</span>
+                                     <span>-₹{billDetails.celebrationDiscount.toFixed(2)}</span>
+                                 </div>
+                            )}
+                            {appliedCoupon && billDetails.couponDiscount > 0 && (
+                                <div className="flex justify-between items-center text-green-600">
+                                     <span>Coupon {appliedCoupon.code}</span>
+                                     <span>-₹{billDetails.couponDiscount.toFixed(2)}</span>
+                                 </div>
+                            )}
+                            {billDetails.tax?.lines.map(line => billDetails.tax?.mode === 'exclusive' ? (
+                                <div key={line.rate} className="flex justify-between items-center text-brand-muted">
+                                     <span>{billDetails.tax.label} {line.rate}% on ₹{line.taxableValue.toFixed(2)}</span>
+                                     <span>+₹{line.amount.toFixed(2)}</span>
+                                 </div>
+                            ) : (
+                                <div key={line.rate} className="flex justify-between items-center text-xs text-brand-muted">
+                                     <span>Incl. {billDetails.tax?.label} {line.rate}% on ₹{line.taxableValue.toFixed(2)}</span>
+                                     <span>₹{line.amount.toFixed(2)}</span>
+                                 </div>
+                            ))}
                             {billDetails.pointsUsed > 0 && (
                                 <div className="flex justify-between items-center text-brand-muted">
-                                    <span>Paid by Points</span>
-                                    <span>-₹{billDetails.pointsUsed.toFixed(2)}</span>
+                                    <span>Paid by Points ({billDetails.pointsUsed.toLocaleString()} pts)</span>
+                                    <span>-₹{billDetails.pointsValue.toFixed(2)}</span>
                                 </div>
                              )}
                              <div className="flex justify-between items-center text-brand-text font-bold text-lg border-t border-brand-border/50 pt-2 mt-2">
@@ -575,6 +1147,21 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                              {billDetails.pointsEarned > 0 && (
                                  <p className="text-center text-green-600 pt-2 font-bold">+ {billDetails.pointsEarned} Points Earned</p>
                              )}
+                             {billDetails.appliedCampaigns.filter(c => c.bonusPoints > 0).map(c => (
+                                 <p key={c.campaignId} className="text-center text-xs text-green-600">incl. +{c.bonusPoints} bonus points from {c.name}</p>
+                             ))}
+                             {billDetails.subtotal > 0 && (
+                                 <p className="text-center text-xs text-brand-muted">
+                                     {billDetails.earning.belowMinimum
+                                         ? `No points: bills under ₹${earningSettings.minimumBill} do not earn points.`
+                                         : [
+                                             `${billDetails.earning.base} base points`,
+                                             billDetails.earning.multiplier !== 1 && `×${billDetails.earning.multiplier} for ${billingTier.name}`,
+                                             billDetails.earning.capped && `capped at ${earningSettings.maxPointsPerTransaction}`,
+                                         ].filter(Boolean).join(' · ')}
+                                     {' '}{describeEarningRules(earningSettings)}
+                                 </p>
+                             )}
                         </div>
 
                         <button onClick={handleTransactionSubmit} className="w-full mt-2 bg-brand-accent text-white border border-brand-accent py-3 font-semibold transition-all hover:opacity-90">
@@ -594,6 +1181,30 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
                     <button onClick={handleSendSms} disabled={smsStatus === 'sending' || smsStatus === 'sent'} className={`w-full flex items-center justify-center gap-2 mt-2 bg-brand-card text-brand-text border border-brand-border py-3 font-semibold transition-all hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed ${smsStatus === 'sent' ? '!bg-green-600 !border-green-500 !text-white' : ''}`}>
                          <FaCommentDots /> {smsButtonText()}
                     </button>
+                    {smsError && <p className="text-red-500 text-xs">{smsError}</p>}
+                    {lastTransactionDetails.receiptToken && (
+                        <div className="flex gap-2">
+                            <a href={getReceiptUrl(lastTransactionDetails.receiptToken)} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center justify-center gap-2 bg-brand-card text-brand-text border border-brand-border py-3 font-semibold transition-all hover:bg-gray-100">
+                                <FaPrint /> Print Receipt
+                            </a>
+                            <a href={`${getReceiptUrl(lastTransactionDetails.receiptToken)}/pdf`} className="flex-1 flex items-center justify-center gap-2 bg-brand-card text-brand-text border border-brand-border py-3 font-semibold transition-all hover:bg-gray-100">
+                                <FaFilePdf /> Download PDF
+                            </a>
+                        </div>
+                    )}
+                    {lastTransactionDetails.receiptToken && (
+                        <div className="flex gap-2">
+                            <a href={`${getReceiptUrl(lastTransactionDetails.receiptToken)}/escpos`} className="flex-1 flex items-center justify-center gap-2 bg-brand-card text-brand-text border border-brand-border py-3 font-semibold transition-all hover:bg-gray-100">
+                                <FaDownload /> Thermal Printer File
+                            </a>
+                            {printerSettings.host && (
+                                <button onClick={handlePrintReceipt} disabled={printStatus === 'printing'} className={`flex-1 flex items-center justify-center gap-2 bg-brand-card text-brand-text border border-brand-border py-3 font-semibold transition-all hover:bg-gray-100 disabled:opacity-50 ${printStatus === 'printed' ? '!bg-green-600 !border-green-500 !text-white' : ''}`}>
+                                    <FaPrint /> {printStatus === 'printing' ? 'Printing...' : printStatus === 'printed' ? 'Printed!' : 'Send to Printer'}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {printError && <p className="text-red-500 text-xs">{printError}</p>}
                     <button onClick={resetForm} className="w-full mt-2 bg-brand-accent text-white border border-brand-accent py-3 font-semibold transition-all hover:opacity-90">
                         Start New Transaction
                     </button>
@@ -604,7 +1215,7 @@ const TransactionSection: React.FC<{ currentUser: Admin | null, customers: Custo
     );
 };
 
-const SearchSection: React.FC<{ customers: Customer[], tierSettings: TierSettings, deadlineSettings: DeadlineSettings }> = ({ customers, tierSettings, deadlineSettings }) => {
+const SearchSection: React.FC<{ customers: Customer[], customerActions: CustomerActions, branches: Branch[], canReverse: boolean, tierSettings: TierSettings, timeZone: string }> = ({ customers, customerActions, branches, canReverse, tierSettings, timeZone }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [foundCustomer, setFoundCustomer] = useState<Customer | null>(null);
     const [notFound, setNotFound] = useState(false);
@@ -628,18 +1239,33 @@ const SearchSection: React.FC<{ customers: Customer[], tierSettings: TierSetting
                     <div className="mt-6 p-4 border border-brand-border bg-gray-50 animate-fade-slide-up">
                         <div className="flex justify-between items-center">
                             <h3 className="font-serif text-xl text-brand-accent">{foundCustomer.name}</h3>
-                            <span className={`text-xs px-2 py-1 rounded-full ${TIER_COLORS[getCustomerTier(foundCustomer, tierSettings)]}`}>{getCustomerTier(foundCustomer, tierSettings)}</span>
+                            <TierBadge tier={getCustomerTier(foundCustomer, tierSettings)} />
                         </div>
                         <p className="text-brand-muted mt-2">Mobile: <span className="text-brand-text font-mono">{foundCustomer.mobile}</span></p>
                         <p className="text-brand-muted">Points: <span className="text-brand-text">{foundCustomer.points.toLocaleString()}</span></p>
                         <p className="text-brand-muted">Total Spend: <span className="text-brand-text">₹{foundCustomer.totalSpent.toLocaleString()}</span></p>
+                        {foundCustomer.dateOfBirth && <p className="text-brand-muted">Date of Birth: <span className="text-brand-text">{foundCustomer.dateOfBirth}</span></p>}
+                        {foundCustomer.memberSince && <p className="text-brand-muted">Member Since: <span className="text-brand-text">{foundCustomer.memberSince}</span></p>}
+                        {tierSettings.windowMonths > 0 && (() => {
+                            const totals = getQualifyingTotals(foundCustomer, tierSettings);
+                            return <p className="text-brand-muted">Towards Tier ({describeTierWindow(tierSettings)}): <span className="text-brand-text">₹{totals.spend.toLocaleString()} and {totals.points.toLocaleString()} points</span></p>;
+                        })()}
+                        {(() => {
+                            const graceEnd = getGraceEnd(foundCustomer, tierSettings);
+                            return graceEnd && <p className="text-amber-600 text-sm">No longer qualifies for {getCustomerTier(foundCustomer, tierSettings).name}. Keeps it until {graceEnd.toLocaleDateString()} unless they qualify again.</p>;
+                        })()}
                         <p className="text-brand-muted">Days Left for Tier Benefits: <span className="text-brand-text font-bold">{(() => {
-                            const eligibility = checkDiscountEligibility(foundCustomer, deadlineSettings, tierSettings);
+                            const eligibility = checkDiscountEligibility(foundCustomer, tierSettings);
                             const deadlineDays = eligibility.deadline !== null && eligibility.daysSinceLastTxn !== null 
                                 ? Math.max(0, eligibility.deadline - eligibility.daysSinceLastTxn)
                                 : eligibility.deadline;
                             return deadlineDays !== null ? `${deadlineDays} days` : 'N/A';
                         })()}</span></p>
+                        <CustomerTransactions customer={foundCustomer} customerActions={customerActions} branches={branches} canReverse={canReverse} timeZone={timeZone} onChange={setFoundCustomer} />
+                        <CustomerLedger customer={foundCustomer} adjustBalance={canReverse ? async (adjustment) => setFoundCustomer(await customerActions.adjustBalance(foundCustomer.mobile, adjustment)) : undefined} />
+                        <CustomerTierHistory customer={foundCustomer} />
+                        <CustomerCelebrations customer={foundCustomer} />
+                        <CustomerRewardRedemptions customer={foundCustomer} branches={branches} />
                     </div>
                 )}
                 {notFound && <p className="text-red-500 text-sm mt-4">User not found in database.</p>}
@@ -648,13 +1274,269 @@ const SearchSection: React.FC<{ customers: Customer[], tierSettings: TierSetting
     );
 };
 
-const CustomersSection: React.FC<{ customers: Customer[], tierSettings: TierSettings, deadlineSettings: DeadlineSettings }> = ({ customers, tierSettings, deadlineSettings }) => {
+// A customer's bills with their voids and refunds. Voids are only offered for today's untouched bills.
+const CustomerTransactions: React.FC<{ customer: Customer, customerActions: CustomerActions, branches: Branch[], canReverse: boolean, timeZone: string, onChange: (customer: Customer) => void }> = ({ customer, customerActions, branches, canReverse, timeZone, onChange }) => {
+    type Reversing = { transactionId: string; kind: 'void' | 'refund' };
+    const [reversing, setReversing] = useState<Reversing | null>(null);
+    const [refundAmount, setRefundAmount] = useState('');
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+
+    const startReversal = (transactionId: string, kind: Reversing['kind']) => {
+        setReversing({ transactionId, kind });
+        setRefundAmount('');
+        setReason('');
+        setError('');
+    };
+
+    const handleConfirm = async () => {
+        if (!reversing) return;
+        setError('');
+        if (!reason.trim()) { setError('Please give a reason.'); return; }
+        const amount = refundAmount ? parseFloat(refundAmount) : undefined;
+        try {
+            const updated = reversing.kind === 'void'
+                ? await customerActions.voidTransaction(customer.mobile, reversing.transactionId, reason.trim())
+                : await customerActions.refundTransaction(customer.mobile, reversing.transactionId, reason.trim(), amount);
+            setReversing(null);
+            onChange(updated);
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const now = new Date();
+    const transactions = [...customer.history].reverse();
+
+    return (
+        <div className="mt-6 pt-4 border-t border-brand-border space-y-3">
+            <h4 className="text-xs text-brand-muted uppercase tracking-wider">Transactions</h4>
+            {transactions.length === 0 && <p className="text-brand-muted text-sm">No transactions yet.</p>}
+            {transactions.map((t, index) => {
+                const refunded = refundedAmount(t);
+                const voided = isVoided(t);
+                const remaining = t.finalBill - refunded;
+                return (
+                    <div key={t.id || index} className="text-sm border-b border-brand-border/50 pb-2">
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="text-brand-muted whitespace-nowrap">{new Date(t.date).toLocaleString()}</span>
+                            <span className={voided ? 'line-through text-brand-muted' : 'text-brand-text'}>₹{t.finalBill.toLocaleString()}</span>
+                            {t.actor && <span className="text-xs text-brand-muted">by {t.actor}{t.branchId && ` at ${branchName(branches, t.branchId)}`}</span>}
+                            {t.receiptToken && (
+                                <a href={getReceiptUrl(t.receiptToken)} target="_blank" rel="noopener noreferrer" className="text-xs px-2 py-0.5 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Receipt</a>
+                            )}
+                            {canReverse && t.id && !voided && remaining > 0 && (
+                                <div className="flex gap-2">
+                                    {refunded === 0 && isSameBusinessDay(new Date(t.date), now, timeZone) && (
+                                        <button onClick={() => startReversal(t.id!, 'void')} className="text-xs px-2 py-0.5 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Void</button>
+                                    )}
+                                    <button onClick={() => startReversal(t.id!, 'refund')} className="text-xs px-2 py-0.5 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Refund</button>
+                                </div>
+                            )}
+                        </div>
+                        {t.celebration && <p className="text-xs text-green-600 mt-1">{OCCASION_LABELS[t.celebration.occasion]} discount: -₹{t.celebration.discountAmount.toLocaleString()}</p>}
+                        {t.coupon && <p className="text-xs text-green-600 mt-1">Coupon {t.coupon.code}: -₹{t.coupon.discountAmount.toLocaleString()}</p>}
+                        {t.items && t.items.length > 0 && (
+                            <p className="text-xs text-brand-muted mt-1">{t.items.map(item => `${item.quantity} × ${item.name}`).join(', ')}</p>
+                        )}
+                        {t.tax && (
+                            <p className="text-xs text-brand-muted mt-1">
+                                {t.tax.mode === 'inclusive' ? 'Incl. ' : ''}{t.tax.label} ₹{getTaxTotal(t.tax).toLocaleString()} ({t.tax.lines.map(line => `${line.rate}% on ₹${line.taxableValue.toLocaleString()}`).join(', ')})
+                            </p>
+                        )}
+                        {t.payments && t.payments.length > 0 && (
+                            <p className="text-xs text-brand-muted mt-1">
+                                Paid {t.payments.map(p => `${PAYMENT_METHOD_LABELS[p.method]} ₹${p.amount.toLocaleString()}${p.reference ? ` (${p.reference})` : ''}`).join(' + ')}
+                            </p>
+                        )}
+                        {(t.reversals || []).map(r => (
+                            <p key={r.id} className="text-xs text-red-500 mt-1">
+                                {r.kind === 'void' ? 'Voided' : `Refunded ₹${r.amount.toLocaleString()}`} by {r.actor} on {new Date(r.createdAt).toLocaleDateString()}: {r.reason}
+                            </p>
+                        ))}
+                        {reversing?.transactionId === t.id && (
+                            <div className="flex gap-2 items-end mt-2">
+                                {reversing.kind === 'refund' && (
+                                    <input type="text" value={refundAmount} onChange={e => setRefundAmount(e.target.value.replace(/[^\d.]/g, ''))} placeholder={`₹${remaining.toLocaleString()}`} className="w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                )}
+                                <input type="text" value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason" className="flex-grow bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                <button onClick={handleConfirm} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-3 rounded-md hover:bg-gray-100 transition-colors">{reversing.kind === 'void' ? 'Void' : 'Refund'}</button>
+                                <button onClick={() => setReversing(null)} className="text-xs text-brand-muted hover:underline">Cancel</button>
+                            </div>
+                        )}
+                        {reversing?.transactionId === t.id && error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const LEDGER_TYPE_LABELS: Record<LedgerEntry['type'], string> = { earn: 'Earned', redeem: 'Redeemed', adjust: 'Adjustment', expire: 'Expired' };
+
+// Read-only history of every points/spend movement, plus a form to book a correction as a new entry.
+// `adjustBalance` is left out for roles that may not book corrections.
+const CustomerLedger: React.FC<{ customer: Customer, adjustBalance?: (adjustment: { points: number; note: string }) => Promise<void> }> = ({ customer, adjustBalance }) => {
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [adjustPoints, setAdjustPoints] = useState('');
+    const [adjustNote, setAdjustNote] = useState('');
+    const [adjustError, setAdjustError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchLedger(customer.mobile)
+            .then(loaded => { if (!cancelled) setEntries(loaded); })
+            .catch(error => console.warn('Error loading ledger:', error));
+        return () => { cancelled = true; };
+    }, [customer]);
+
+    const handleAdjust = async () => {
+        setAdjustError('');
+        const points = parseFloat(adjustPoints);
+        if (!points) { setAdjustError('Enter a non-zero number of points.'); return; }
+        if (!adjustNote.trim()) { setAdjustError('Please give a reason for the adjustment.'); return; }
+        if (!adjustBalance) return;
+        try {
+            await adjustBalance({ points, note: adjustNote.trim() });
+            setAdjustPoints('');
+            setAdjustNote('');
+        } catch (error) {
+            setAdjustError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    return (
+        <div className="mt-6 pt-4 border-t border-brand-border space-y-4">
+            <h4 className="text-xs text-brand-muted uppercase tracking-wider">Points Ledger</h4>
+            {entries.length === 0 ? (
+                <p className="text-brand-muted text-sm">No ledger entries yet.</p>
+            ) : (
+                <div className="overflow-x-auto max-h-64">
+                    <table className="w-full text-left text-xs">
+                        <thead>
+                            <tr className="border-b border-brand-border">
+                                <th className="p-2 text-brand-muted uppercase tracking-wider">Date</th>
+                                <th className="p-2 text-brand-muted uppercase tracking-wider">Type</th>
+                                <th className="p-2 text-brand-muted uppercase tracking-wider text-right">Points</th>
+                                <th className="p-2 text-brand-muted uppercase tracking-wider text-right">Spend</th>
+                                <th className="p-2 text-brand-muted uppercase tracking-wider">By</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(entry => (
+                                <tr key={entry.id} className="border-b border-brand-border/50" title={entry.note || entry.id}>
+                                    <td className="p-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                                    <td className="p-2">{LEDGER_TYPE_LABELS[entry.type]}</td>
+                                    <td className={`p-2 text-right ${entry.points < 0 ? 'text-red-500' : 'text-green-600'}`}>{entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}</td>
+                                    <td className="p-2 text-right">{entry.amount ? `₹${entry.amount.toLocaleString()}` : '-'}</td>
+                                    <td className="p-2">{entry.actor}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {adjustBalance && <div className="flex gap-2 items-end">
+                <input type="text" value={adjustPoints} onChange={e => setAdjustPoints(e.target.value.replace(/[^\d.-]/g, ''))} placeholder="± Points" className="w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                <input type="text" value={adjustNote} onChange={e => setAdjustNote(e.target.value)} placeholder="Reason" className="flex-grow bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                <button onClick={handleAdjust} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Adjust</button>
+            </div>}
+            {adjustError && <p className="text-red-500 text-xs">{adjustError}</p>}
+        </div>
+    );
+};
+
+// When and why the customer moved between tiers, newest first.
+const CustomerTierHistory: React.FC<{ customer: Customer }> = ({ customer }) => {
+    const [changes, setChanges] = useState<TierChange[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchTierChanges(customer.mobile)
+            .then(loaded => { if (!cancelled) setChanges(loaded); })
+            .catch(error => console.warn('Error loading tier history:', error));
+        return () => { cancelled = true; };
+    }, [customer]);
+
+    return (
+        <div className="mt-6 pt-4 border-t border-brand-border space-y-4">
+            <h4 className="text-xs text-brand-muted uppercase tracking-wider">Tier History</h4>
+            {changes.length === 0 ? (
+                <p className="text-brand-muted text-sm">No tier changes recorded yet.</p>
+            ) : (
+                <ul className="space-y-2 text-xs max-h-64 overflow-y-auto">
+                    {changes.map(change => (
+                        <li key={change.id} className="border-b border-brand-border/50 pb-2">
+                            <div className="flex justify-between gap-4">
+                                <span className="text-brand-text font-semibold">{change.fromTierName ? `${change.fromTierName} → ${change.toTierName}` : change.toTierName}</span>
+                                <span className="text-brand-muted whitespace-nowrap">{new Date(change.createdAt).toLocaleString()}</span>
+                            </div>
+                            <p className="text-brand-muted">{change.reason}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// Birthday and anniversary rewards granted to the customer, newest first.
+const CustomerCelebrations: React.FC<{ customer: Customer }> = ({ customer }) => {
+    const celebrations = customer.celebrations || [];
+    if (celebrations.length === 0) return null;
+    return (
+        <div className="mt-6 pt-4 border-t border-brand-border space-y-4">
+            <h4 className="text-xs text-brand-muted uppercase tracking-wider">Birthday &amp; Anniversary Rewards</h4>
+            <ul className="space-y-2 text-xs">
+                {celebrations.map(grant => (
+                    <li key={grant.id} className="border-b border-brand-border/50 pb-2">
+                        <div className="flex justify-between gap-4">
+                            <span className="text-brand-text font-semibold">{OCCASION_LABELS[grant.occasion]} {grant.year}: {describeCelebrationReward(grant)}</span>
+                            <span className="text-brand-muted whitespace-nowrap">{new Date(grant.grantedAt).toLocaleDateString()}</span>
+                        </div>
+                        <p className="text-brand-muted">
+                            {[
+                                grant.rewardType === 'discount' && (grant.redeemedTransactionId ? 'Used' : Date.now() < Date.parse(grant.validUntil) ? `Valid until ${new Date(grant.validUntil).toLocaleDateString()}` : 'Expired unused'),
+                                grant.smsSentAt && `SMS sent ${new Date(grant.smsSentAt).toLocaleDateString()}`,
+                            ].filter(Boolean).join(' · ')}
+                        </p>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+// Catalog rewards the customer took for points, newest first.
+const CustomerRewardRedemptions: React.FC<{ customer: Customer, branches: Branch[] }> = ({ customer, branches }) => {
+    const redemptions = customer.rewardRedemptions || [];
+    if (redemptions.length === 0) return null;
+    return (
+        <div className="mt-6 pt-4 border-t border-brand-border space-y-4">
+            <h4 className="text-xs text-brand-muted uppercase tracking-wider">Rewards Redeemed</h4>
+            <ul className="space-y-2 text-xs">
+                {redemptions.map(redemption => (
+                    <li key={redemption.id} className="flex justify-between gap-4 border-b border-brand-border/50 pb-2">
+                        <span className="text-brand-text font-semibold">{redemption.rewardName} · {redemption.points.toLocaleString()} points</span>
+                        <span className="text-brand-muted whitespace-nowrap">
+                            {new Date(redemption.createdAt).toLocaleString()} by {redemption.actor}{redemption.branchId && ` at ${branchName(branches, redemption.branchId)}`}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const CustomersSection: React.FC<{ customers: Customer[], tierSettings: TierSettings }> = ({ customers, tierSettings }) => {
     const [smsStatus, setSmsStatus] = useState<Record<string, 'idle' | 'sending' | 'sent' | 'failed'>>({});
+    const [smsErrors, setSmsErrors] = useState<Record<string, string>>({});
 
     const handleSendSms = async (customer: Customer) => {
         setSmsStatus(prev => ({ ...prev, [customer.mobile]: 'sending' }));
+        setSmsErrors(prev => ({ ...prev, [customer.mobile]: '' }));
 
-        const eligibility = checkDiscountEligibility(customer, deadlineSettings, tierSettings);
+        const eligibility = checkDiscountEligibility(customer, tierSettings);
         const deadlineDays = eligibility.deadline !== null && eligibility.daysSinceLastTxn !== null 
             ? Math.max(0, eligibility.deadline - eligibility.daysSinceLastTxn)
             : eligibility.deadline;
@@ -662,23 +1544,11 @@ const CustomersSection: React.FC<{ customers: Customer[], tierSettings: TierSett
         const message = `Hi ${customer.name}, you have ${customer.points} points. Your current tier benefits are valid for ${deadlineDays ?? 'N/A'} more days. We look forward to seeing you again!`;
 
         try {
-            const response = await fetch('/api/send-sms', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ to: customer.mobile, body: message }),
-            });
-
-            const data = await response.json();
-
-            if (data.success) {
-                setSmsStatus(prev => ({ ...prev, [customer.mobile]: 'sent' }));
-            } else {
-                setSmsStatus(prev => ({ ...prev, [customer.mobile]: 'failed' }));
-            }
+            await sendSms(customer.mobile, message);
+            setSmsStatus(prev => ({ ...prev, [customer.mobile]: 'sent' }));
         } catch (error) {
             setSmsStatus(prev => ({ ...prev, [customer.mobile]: 'failed' }));
+            setSmsErrors(prev => ({ ...prev, [customer.mobile]: describeSmsError(error) }));
         }
     };
 
@@ -715,9 +1585,9 @@ const CustomersSection: React.FC<{ customers: Customer[], tierSettings: TierSett
                                 <td className="p-3 font-mono">{c.mobile}</td>
                                 <td className="p-3">{c.points.toLocaleString()}</td>
                                 <td className="p-3">₹{c.totalSpent.toLocaleString()}</td>
-                                <td className="p-3"><span className={`text-xs px-2 py-1 rounded-full ${TIER_COLORS[getCustomerTier(c, tierSettings)]}`}>{getCustomerTier(c, tierSettings)}</span></td>
+                                <td className="p-3"><TierBadge tier={getCustomerTier(c, tierSettings)} /></td>
                                 <td className="p-3">{(() => {
-                                    const eligibility = checkDiscountEligibility(c, deadlineSettings, tierSettings);
+                                    const eligibility = checkDiscountEligibility(c, tierSettings);
                                     const deadlineDays = eligibility.deadline !== null && eligibility.daysSinceLastTxn !== null 
                                         ? Math.max(0, eligibility.deadline - eligibility.daysSinceLastTxn)
                                         : eligibility.deadline;
@@ -730,6 +1600,7 @@ const CustomersSection: React.FC<{ customers: Customer[], tierSettings: TierSett
                                         className={`text-xs px-3 py-1 rounded-md border transition-colors ${smsStatus[c.mobile] === 'sent' ? 'bg-green-100 border-green-300 text-green-800' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'}`}>
                                         {getButtonText(c.mobile)}
                                     </button>
+                                    {smsErrors[c.mobile] && <p className="text-red-500 text-xs mt-1">{smsErrors[c.mobile]}</p>}
                                 </td>
                             </tr>
                         ))}
@@ -777,29 +1648,106 @@ const SmsLogsSection: React.FC<{ smsLogs: SmsLog[] }> = ({ smsLogs }) => {
     );
 };
 
-const AnalyticsSection: React.FC<{ customers: Customer[], tierSettings: TierSettings }> = ({ customers, tierSettings }) => {
+const AnalyticsSection: React.FC<{ customers: Customer[], branches: Branch[], campaigns: Campaign[], rewards: Reward[], tierSettings: TierSettings }> = ({ customers, branches, campaigns, rewards, tierSettings }) => {
+    const [branchFilter, setBranchFilter] = useState('');
+
     const analyticsData = useMemo(() => {
+        const inBranch = matchesBranch(branchFilter);
+        // Balances are shared by every branch, so the liability is never filtered
         let totalRevenue = 0;
         let totalPoints = 0;
         let totalTxns = 0;
+        let totalReversed = 0;
+        let reversalCount = 0;
         customers.forEach(c => {
             totalRevenue += c.totalSpent || 0;
             totalPoints += c.points || 0;
-            totalTxns += c.history?.length || 0;
+            (c.history || []).filter(inBranch).forEach(t => {
+                if (!isVoided(t)) totalTxns++;
+                totalReversed += refundedAmount(t);
+                reversalCount += t.reversals?.length || 0;
+            });
+        });
+        const allTransactions = customers.flatMap(c => c.history || []);
+        const branchSummary = summarizeTransactions(allTransactions.filter(inBranch));
+        // Spend booked outside any bill (opening balances, adjustments) only counts towards the all-branch figure
+        const aov = branchFilter ? branchSummary.aov : (totalTxns > 0 ? Math.round(totalRevenue / totalTxns) : 0);
+        const pointsRedeemed = branchSummary.redeemed;
+
+        const branchComparison = [
+            ...branches.map(b => ({ id: b.id, name: b.name, ...summarizeTransactions(allTransactions.filter(matchesBranch(b.id))) })),
+            ...(allTransactions.some(t => !t.branchId) ? [{ id: UNASSIGNED_BRANCH, name: 'Unassigned', ...summarizeTransactions(allTransactions.filter(t => !t.branchId)) }] : []),
+        ];
+
+        // What each campaign gave away and the bills it applied to; voided bills gave nothing.
+        const campaignResults = campaigns.map(campaign => {
+            const applied = allTransactions.filter(inBranch).filter(t => t.campaigns?.some(c => c.campaignId === campaign.id));
+            const given = applied.filter(t => !isVoided(t)).flatMap(t => t.campaigns || []).filter(c => c.campaignId === campaign.id);
+            return {
+                campaign,
+                ...summarizeTransactions(applied),
+                discount: given.reduce((sum, c) => sum + c.discountAmount, 0),
+                bonusPoints: given.reduce((sum, c) => sum + c.bonusPoints, 0),
+            };
         });
-        const aov = totalTxns > 0 ? Math.round(totalRevenue / totalTxns) : 0;
+
+        // Catalog rewards given out, and the points they took.
+        const rewardRedemptions = customers.flatMap(c => c.rewardRedemptions || []).filter(inBranch);
+        const rewardResults = rewards.map(reward => {
+            const given = rewardRedemptions.filter(r => r.rewardId === reward.id);
+            return { reward, redeemed: given.length, points: given.reduce((sum, r) => sum + r.points, 0) };
+        }).sort((a, b) => b.redeemed - a.redeemed);
+        const rewardPoints = rewardRedemptions.reduce((sum, r) => sum + r.points, 0);
+
+        // Product sales from itemized bills that were not voided, at line prices (before bill-level discounts).
+        // Free-amount lines have no product, so they count only towards their category.
+        const soldItems = allTransactions.filter(inBranch).filter(t => !isVoided(t)).flatMap(t => t.items || []);
+        const byProduct = new Map<string, { name: string; category: string; quantity: number; revenue: number }>();
+        const byCategory = new Map<string, { lines: number; revenue: number }>();
+        soldItems.forEach(item => {
+            if (item.productId) {
+                const sold = byProduct.get(item.productId) ?? { name: item.name, category: item.category ?? FREE_AMOUNT_NAME, quantity: 0, revenue: 0 };
+                byProduct.set(item.productId, { ...sold, quantity: sold.quantity + item.quantity, revenue: sold.revenue + item.amount });
+            }
+            const category = item.category ?? FREE_AMOUNT_NAME;
+            const total = byCategory.get(category) ?? { lines: 0, revenue: 0 };
+            byCategory.set(category, { lines: total.lines + 1, revenue: total.revenue + item.amount });
+        });
+        const topProducts = [...byProduct].map(([id, sold]) => ({ id, ...sold })).sort((a, b) => b.revenue - a.revenue).slice(0, 10);
+        const itemizedRevenue = soldItems.reduce((sum, item) => sum + item.amount, 0);
+        const categoryRevenue = [...byCategory].map(([category, total]) => ({ category, ...total })).sort((a, b) => b.revenue - a.revenue);
+
+        const paymentMethods = summarizePayments(allTransactions.filter(inBranch));
+        const paymentTotal = paymentMethods.reduce((sum, m) => sum + m.amount, 0);
+        
+        // A referral converts once the referred customer's qualifying bill has paid out the bonuses.
+        const referred = customers.filter(c => c.referredBy);
+        const referralsConverted = referred.filter(c => c.referralBonusAt).length;
+        const referralConversion = referred.length > 0 ? Math.round(referralsConverted / referred.length * 100) : 0;
+        const byReferrer = new Map<string, Customer[]>();
+        referred.forEach(c => { if (c.referredBy) byReferrer.set(c.referredBy, [...(byReferrer.get(c.referredBy) || []), c]); });
+        const topReferrers = [...byReferrer]
+            .map(([mobile, list]) => ({
+                mobile,
+                name: customers.find(c => c.mobile === mobile)?.name ?? 'Deleted customer',
+                referrals: list.length,
+                converted: list.filter(c => c.referralBonusAt).length,
+                spend: list.reduce((sum, c) => sum + c.totalSpent, 0),
+            }))
+            .sort((a, b) => b.converted - a.converted || b.referrals - a.referrals)
+            .slice(0, 5);
         
         const tierCounts = customers.reduce((acc, c) => {
             const tier = getCustomerTier(c, tierSettings);
-            acc[tier] = (acc[tier] || 0) + 1;
+            acc[tier.id] = (acc[tier.id] || 0) + 1;
             return acc;
-        }, {} as Record<Tier, number>);
+        }, {} as Record<string, number>);
         
-        const pieData = Object.entries(tierCounts).map(([name, value]) => ({ name, value }));
+        const pieData = tierSettings.tiers.filter(tier => tierCounts[tier.id]).map(tier => ({ name: tier.name, value: tierCounts[tier.id], color: tier.color }));
         
         const topCustomers = [...customers].sort((a, b) => b.totalSpent - a.totalSpent).slice(0, 5);
 
-        const revenueHistory = customers.flatMap(c => c.history || []).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        const revenueHistory = allTransactions.filter(inBranch).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
         const aggregatedRevenue = revenueHistory.reduce((acc, curr) => {
             const date = new Date(curr.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
             if(!acc[date]){
@@ -808,28 +1756,41 @@ const AnalyticsSection: React.FC<{ customers: Customer[], tierSettings: TierSett
             acc[date] += curr.finalBill ?? curr.bill; // Use finalBill for accuracy, fallback to bill for old data
             return acc;
         }, {} as Record<string, number>);
+        // Voids and refunds come off the day they were made
+        allTransactions.filter(inBranch).flatMap(t => t.reversals || []).forEach(r => {
+            const date = new Date(r.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+            aggregatedRevenue[date] = (aggregatedRevenue[date] || 0) - r.amount;
+        });
 
         const lineChartData = Object.entries(aggregatedRevenue).map(([date, revenue]) => ({ date, revenue })).slice(-30);
 
-        return { aov, totalPoints, totalTxns, pieData, topCustomers, lineChartData };
-    }, [customers, tierSettings]);
+        return { aov, totalPoints, totalTxns, totalReversed, reversalCount, pointsRedeemed, branchComparison, campaignResults, topProducts, categoryRevenue, itemizedRevenue, paymentMethods, paymentTotal, rewardResults, rewardRedemptionCount: rewardRedemptions.length, rewardPoints, referralCount: referred.length, referralsConverted, referralConversion, topReferrers, pieData, topCustomers, lineChartData };
+    }, [customers, branches, campaigns, rewards, branchFilter, tierSettings]);
 
-    const PIE_CHART_COLORS: Record<Tier, string> = { Bronze: '#8d5b2d', Silver: '#a9a9a9', Gold: '#ffd700', Platinum: '#e5e4e2' };
-    const pieColors = analyticsData.pieData.map(entry => PIE_CHART_COLORS[entry.name as Tier]);
 
     return (
         <section>
             <div className="flex justify-between items-end mb-8 pb-5 border-b border-brand-border">
                 <h1 className="font-serif text-3xl md:text-4xl text-brand-accent mb-0">Intelligence Hub</h1>
-                <button onClick={() => exportDataToCsv(customers)} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md flex items-center gap-2 hover:bg-gray-100 transition-colors">
-                    <FaDownload /> Export CSV
-                </button>
+                <div className="flex items-center gap-3">
+                    {branches.length > 0 && (
+                        <select value={branchFilter} onChange={e => setBranchFilter(e.target.value)} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-3 rounded-md outline-none cursor-pointer">
+                            <option value="">All Branches</option>
+                            {analyticsData.branchComparison.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                        </select>
+                    )}
+                    <button onClick={() => exportDataToCsv(customers, branches, branchFilter)} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md flex items-center gap-2 hover:bg-gray-100 transition-colors">
+                        <FaDownload /> Export CSV
+                    </button>
+                </div>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-6 mb-6">
                 <Card className="flex items-center gap-4"><div className="text-2xl p-3 bg-brand-accent/10 text-brand-accent rounded-full"><FaWallet /></div><div><span className="block text-xs text-brand-muted uppercase">Avg. Order Value</span><div className="text-2xl font-serif text-brand-accent">₹{analyticsData.aov.toLocaleString()}</div></div></Card>
                 <Card className="flex items-center gap-4"><div className="text-2xl p-3 bg-brand-accent/10 text-brand-accent rounded-full"><FaCoins /></div><div><span className="block text-xs text-brand-muted uppercase">Points Liability</span><div className="text-2xl font-serif text-brand-accent">{analyticsData.totalPoints.toLocaleString()}</div></div></Card>
                 <Card className="flex items-center gap-4"><div className="text-2xl p-3 bg-brand-accent/10 text-brand-accent rounded-full"><FaShoppingBag /></div><div><span className="block text-xs text-brand-muted uppercase">Total Transactions</span><div className="text-2xl font-serif text-brand-accent">{analyticsData.totalTxns.toLocaleString()}</div></div></Card>
+                <Card className="flex items-center gap-4"><div className="text-2xl p-3 bg-brand-accent/10 text-brand-accent rounded-full"><FaGift /></div><div><span className="block text-xs text-brand-muted uppercase">Points Redeemed</span><div className="text-2xl font-serif text-brand-accent">{analyticsData.pointsRedeemed.toLocaleString()}</div></div></Card>
+                <Card className="flex items-center gap-4"><div className="text-2xl p-3 bg-brand-accent/10 text-brand-accent rounded-full"><FaUndo /></div><div><span className="block text-xs text-brand-muted uppercase">Refunds &amp; Voids ({analyticsData.reversalCount})</span><div className="text-2xl font-serif text-brand-accent">₹{analyticsData.totalReversed.toLocaleString()}</div></div></Card>
             </div>
             
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
@@ -847,12 +1808,12 @@ const AnalyticsSection: React.FC<{ customers: Customer[], tierSettings: TierSett
                     </ResponsiveContainer>
                 </Card>
                 <Card className="h-[400px]">
-                    <h3 className="font-serif text-lg text-brand-muted mb-4">Customer Segments</h3>
+                    <h3 className="font-serif text-lg text-brand-muted mb-4">Customer Segments <span className="text-xs font-sans">({QUALIFICATION_LABELS[tierSettings.qualification]})</span></h3>
                     <ResponsiveContainer width="100%" height="90%">
                          <PieChart>
                             <Pie data={analyticsData.pieData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} label>
                                 {analyticsData.pieData.map((entry, index) => (
-                                    <Cell key={`cell-${index}`} fill={pieColors[index % pieColors.length]} />
+                                    <Cell key={`cell-${index}`} fill={entry.color} />
                                 ))}
                             </Pie>
                             <Tooltip contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #d1d5db' }} />
@@ -862,6 +1823,221 @@ const AnalyticsSection: React.FC<{ customers: Customer[], tierSettings: TierSett
                 </Card>
             </div>
             
+            {branches.length > 0 && (
+                <Card className="mb-6">
+                    <h3 className="font-serif text-lg text-brand-muted mb-4">Branch Comparison</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Branch</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Revenue</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Transactions</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Avg. Order Value</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Points Redeemed</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analyticsData.branchComparison.map(b => (
+                                    <tr key={b.id} className={`border-b border-brand-border/50 ${b.id === branchFilter ? 'bg-gray-50' : ''}`}>
+                                        <td className="p-3">{b.name}</td>
+                                        <td className="p-3 font-bold">₹{b.revenue.toLocaleString()}</td>
+                                        <td className="p-3">{b.txns.toLocaleString()}</td>
+                                        <td className="p-3">₹{b.aov.toLocaleString()}</td>
+                                        <td className="p-3">{b.redeemed.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
+            {analyticsData.campaignResults.length > 0 && (
+                <Card className="mb-6">
+                    <h3 className="font-serif text-lg text-brand-muted mb-4">Campaign Results</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Campaign</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Runs</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Bills</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Revenue</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Discount Given</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Bonus Points</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analyticsData.campaignResults.map(r => (
+                                    <tr key={r.campaign.id} className="border-b border-brand-border/50">
+                                        <td className="p-3">{r.campaign.name}</td>
+                                        <td className="p-3 text-sm text-brand-muted">{new Date(r.campaign.startsAt).toLocaleDateString()} – {new Date(r.campaign.endsAt).toLocaleDateString()}</td>
+                                        <td className="p-3">{r.txns.toLocaleString()}</td>
+                                        <td className="p-3 font-bold">₹{r.revenue.toLocaleString()}</td>
+                                        <td className="p-3">₹{r.discount.toLocaleString()}</td>
+                                        <td className="p-3">{r.bonusPoints.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
+            {analyticsData.itemizedRevenue > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                    <Card>
+                        <h3 className="font-serif text-lg text-brand-muted mb-4">Top Products</h3>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left">
+                                <thead>
+                                    <tr className="border-b border-brand-border">
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Rank</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Product</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Sold</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Revenue</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {analyticsData.topProducts.map((p, index) => (
+                                        <tr key={p.id} className="border-b border-brand-border/50">
+                                            <td className="p-3 text-brand-muted">{index + 1}</td>
+                                            <td className="p-3">{p.name} <span className="text-xs text-brand-muted">{p.category}</span></td>
+                                            <td className="p-3">{p.quantity.toLocaleString()}</td>
+                                            <td className="p-3 font-bold">₹{p.revenue.toLocaleString()}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </Card>
+                    <Card>
+                        <h3 className="font-serif text-lg text-brand-muted mb-4">Revenue by Category</h3>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left">
+                                <thead>
+                                    <tr className="border-b border-brand-border">
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Category</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Lines</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Revenue</th>
+                                        <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Share</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {analyticsData.categoryRevenue.map(c => (
+                                        <tr key={c.category} className="border-b border-brand-border/50">
+                                            <td className="p-3">{c.category}</td>
+                                            <td className="p-3">{c.lines.toLocaleString()}</td>
+                                            <td className="p-3 font-bold">₹{c.revenue.toLocaleString()}</td>
+                                            <td className="p-3 text-sm text-brand-muted">{Math.round(c.revenue / analyticsData.itemizedRevenue * 100)}%</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="text-xs text-brand-muted mt-3">Itemized bills only, at line prices before bill discounts. Free-amount lines count as {FREE_AMOUNT_NAME}.</p>
+                    </Card>
+                </div>
+            )}
+
+            {analyticsData.paymentTotal > 0 && (
+                <Card className="mb-6">
+                    <h3 className="font-serif text-lg text-brand-muted mb-4">Payment Methods</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Method</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Bills</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Taken</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Share</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analyticsData.paymentMethods.map(m => (
+                                    <tr key={m.method} className="border-b border-brand-border/50">
+                                        <td className="p-3">{PAYMENT_METHOD_LABELS[m.method]}</td>
+                                        <td className="p-3">{m.bills.toLocaleString()}</td>
+                                        <td className="p-3 font-bold">₹{m.amount.toLocaleString()}</td>
+                                        <td className="p-3 text-sm text-brand-muted">{Math.round(m.amount / analyticsData.paymentTotal * 100)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="text-xs text-brand-muted mt-3">Cash is net of change. Bills from before split payments count as cash. Refunds are not split by method.</p>
+                </Card>
+            )}
+
+            <EndOfDayReport customers={customers} branches={branches} branchFilter={branchFilter} />
+
+            {analyticsData.rewardRedemptionCount > 0 && (
+                <Card className="mb-6">
+                    <h3 className="font-serif text-lg text-brand-muted mb-1">Rewards Catalog</h3>
+                    <p className="text-sm text-brand-muted mb-4">
+                        {analyticsData.rewardRedemptionCount.toLocaleString()} rewards redeemed for {analyticsData.rewardPoints.toLocaleString()} points
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Reward</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Cost</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Redeemed</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Points Spent</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Stock Left</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analyticsData.rewardResults.map(r => (
+                                    <tr key={r.reward.id} className="border-b border-brand-border/50">
+                                        <td className="p-3">{r.reward.name}</td>
+                                        <td className="p-3 text-sm text-brand-muted">{r.reward.pointsCost.toLocaleString()} pts</td>
+                                        <td className="p-3">{r.redeemed.toLocaleString()}</td>
+                                        <td className="p-3 font-bold">{r.points.toLocaleString()}</td>
+                                        <td className={`p-3 ${r.reward.stock === 0 ? 'text-red-500' : ''}`}>{r.reward.stock.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
+            {analyticsData.referralCount > 0 && (
+                <Card className="mb-6">
+                    <h3 className="font-serif text-lg text-brand-muted mb-1">Referrals</h3>
+                    <p className="text-sm text-brand-muted mb-4">
+                        {analyticsData.referralCount.toLocaleString()} referred customers · {analyticsData.referralsConverted.toLocaleString()} made a qualifying purchase ({analyticsData.referralConversion}% conversion)
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Rank</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Referrer</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Referred</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Converted</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Referred Spend</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analyticsData.topReferrers.map((r, index) => (
+                                    <tr key={r.mobile} className="border-b border-brand-border/50">
+                                        <td className="p-3 text-brand-muted">{index + 1}</td>
+                                        <td className="p-3">{r.name} <span className="text-xs text-brand-muted">{r.mobile}</span></td>
+                                        <td className="p-3">{r.referrals.toLocaleString()}</td>
+                                        <td className="p-3">{r.converted.toLocaleString()}</td>
+                                        <td className="p-3 font-bold">₹{r.spend.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
             <Card>
                 <h3 className="font-serif text-lg text-brand-muted mb-4">Top 5 "Whale" Customers</h3>
                  <div className="overflow-x-auto">
@@ -891,86 +2067,337 @@ const AnalyticsSection: React.FC<{ customers: Customer[], tierSettings: TierSett
     );
 };
 
-const SettingsSection: React.FC<{ tierSettings: TierSettings, setTierSettings: React.Dispatch<React.SetStateAction<TierSettings>>, discountSettings: DiscountSettings, setDiscountSettings: React.Dispatch<React.SetStateAction<DiscountSettings>>, deadlineSettings: DeadlineSettings, setDeadlineSettings: React.Dispatch<React.SetStateAction<DeadlineSettings>> }> = ({ tierSettings, setTierSettings, discountSettings, setDiscountSettings, deadlineSettings, setDeadlineSettings }) => {
-    
+const EndOfDayReport: React.FC<{ customers: Customer[], branches: Branch[], branchFilter: string }> = ({ customers, branches, branchFilter }) => {
+    const [day, setDay] = useState(todayDateOnly());
+
+    // Parsed as a local date so the report covers the till's own day.
+    const reportDay = useMemo(() => new Date(`${day}T00:00:00`), [day]);
+    const report = useMemo(
+        () => buildEndOfDayReport(customers.flatMap(c => c.history || []).filter(matchesBranch(branchFilter)), reportDay),
+        [customers, branchFilter, reportDay],
+    );
+    const branchLabel = !branchFilter ? 'All Branches' : branchName(branches, branchFilter === UNASSIGNED_BRANCH ? undefined : branchFilter);
+    const money = (amount: number) => `₹${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
     return (
-        <section>
+        <Card className="mb-6">
+            <div className="flex justify-between items-center mb-4 gap-4">
+                <h3 className="font-serif text-lg text-brand-muted">End of Day Report <span className="text-xs font-sans">({branchLabel})</span></h3>
+                <div className="flex items-center gap-3">
+                    <input type="date" value={day} max={todayDateOnly()} onChange={e => e.target.value && setDay(e.target.value)} className="bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                    <button onClick={() => exportEndOfDayCsv(report, reportDay, branchLabel)} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md flex items-center gap-2 hover:bg-gray-100 transition-colors">
+                        <FaDownload /> Download
+                    </button>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+                <div className="space-y-2">
+                    <div className="flex justify-between"><span className="text-brand-muted">Bills</span><span>{report.bills.toLocaleString()}</span></div>
+                    <div className="flex justify-between"><span className="text-brand-muted">Gross</span><span>{money(report.gross)}</span></div>
+                    <div className="flex justify-between text-green-600"><span>Discounts</span><span>-{money(report.discounts)}</span></div>
+                    <div className="flex justify-between font-bold"><span>Net Sales</span><span>{money(report.netSales)}</span></div>
+                    {report.tax > 0 && (
+                        <div className="flex justify-between text-brand-muted"><span>Tax on {money(report.taxableValue)} taxable</span><span>{money(report.tax)}</span></div>
+                    )}
+                    <div className="flex justify-between text-red-500">
+                        <span>Refunds ({report.refunds}) &amp; Voids ({report.voids})</span><span>-{money(report.reversed)}</span>
+                    </div>
+                    <div className="flex justify-between font-bold border-t border-brand-border/50 pt-2"><span>Net Takings</span><span>{money(report.net)}</span></div>
+                </div>
+                <div className="space-y-2">
+                    {report.takings.map(t => (
+                        <div key={t.method} className="flex justify-between"><span className="text-brand-muted">{PAYMENT_METHOD_LABELS[t.method]}</span><span>{money(t.amount)}</span></div>
+                    ))}
+                    <p className="text-xs text-brand-muted pt-2">Takings are for bills rung up on this day, with cash net of change. Refunds and voids are those made on this day.</p>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const SettingsSection: React.FC<{ tierSettings: TierSettings, setTierSettings: (settings: TierSettings) => Promise<void>, securitySettings: SecuritySettings, setSecuritySettings: (settings: SecuritySettings) => void, pointsExpirySettings: PointsExpirySettings, setPointsExpirySettings: (settings: PointsExpirySettings) => void, earningSettings: EarningSettings, setEarningSettings: (settings: EarningSettings) => void, redemptionSettings: RedemptionSettings, setRedemptionSettings: (settings: RedemptionSettings) => void, referralSettings: ReferralSettings, setReferralSettings: (settings: ReferralSettings) => void, celebrationSettings: CelebrationSettings, setCelebrationSettings: (settings: CelebrationSettings) => void, taxSettings: TaxSettings, setTaxSettings: (settings: TaxSettings) => void, printerSettings: PrinterSettings, setPrinterSettings: (settings: PrinterSettings) => void, timeZoneSettings: TimeZoneSettings, setTimeZoneSettings: (settings: TimeZoneSettings) => void, unlockCustomer: (mobile: string) => Promise<Customer>, reloadCustomers: () => Promise<void>, branches: Branch[], branchActions: BranchActions, campaigns: Campaign[], campaignActions: CampaignActions, rewards: Reward[], rewardActions: RewardActions, products: Product[], productActions: ProductActions }> = ({ tierSettings, setTierSettings, securitySettings, setSecuritySettings, pointsExpirySettings, setPointsExpirySettings, earningSettings, setEarningSettings, redemptionSettings, setRedemptionSettings, referralSettings, setReferralSettings, celebrationSettings, setCelebrationSettings, taxSettings, setTaxSettings, printerSettings, setPrinterSettings, timeZoneSettings, setTimeZoneSettings, unlockCustomer, reloadCustomers, branches, branchActions, campaigns, campaignActions, rewards, rewardActions, products, productActions }) => {
+    
+    return (
+        <section>
             <PageTitle>Settings</PageTitle>
             <div className="max-w-3xl mx-auto space-y-8">
-                <TierSettingsEditor tierSettings={tierSettings} setTierSettings={setTierSettings} />
-                <DiscountSettingsEditor discountSettings={discountSettings} setDiscountSettings={setDiscountSettings} />
-                <DeadlineSettingsEditor deadlineSettings={deadlineSettings} setDeadlineSettings={setDeadlineSettings} />
+                <TierSettingsEditor tierSettings={tierSettings} setTierSettings={setTierSettings} reloadCustomers={reloadCustomers} />
+                <EarningSettingsEditor tierSettings={tierSettings} earningSettings={earningSettings} setEarningSettings={setEarningSettings} />
+                <RedemptionSettingsEditor redemptionSettings={redemptionSettings} setRedemptionSettings={setRedemptionSettings} />
+                <ReferralSettingsEditor referralSettings={referralSettings} setReferralSettings={setReferralSettings} />
+                <CelebrationSettingsEditor celebrationSettings={celebrationSettings} setCelebrationSettings={setCelebrationSettings} reloadCustomers={reloadCustomers} />
+                <CampaignManager tierSettings={tierSettings} campaigns={campaigns} campaignActions={campaignActions} />
+                <RewardCatalogManager rewards={rewards} rewardActions={rewardActions} />
+                <ProductCatalogManager products={products} productActions={productActions} />
+                <TaxSettingsEditor taxSettings={taxSettings} setTaxSettings={setTaxSettings} products={products} />
+                <PrinterSettingsEditor printerSettings={printerSettings} setPrinterSettings={setPrinterSettings} />
+                <TimeZoneSettingsEditor timeZoneSettings={timeZoneSettings} setTimeZoneSettings={setTimeZoneSettings} />
+                <CouponManager />
+                <PointsExpirySettingsEditor tierSettings={tierSettings} pointsExpirySettings={pointsExpirySettings} setPointsExpirySettings={setPointsExpirySettings} reloadCustomers={reloadCustomers} />
+                <SecuritySettingsEditor securitySettings={securitySettings} setSecuritySettings={setSecuritySettings} />
+                <PinLockoutsLog unlockCustomer={unlockCustomer} />
+                <StaffManager />
+                <BranchManager branches={branches} branchActions={branchActions} />
             </div>
         </section>
     );
 };
 
 // Moved outside of TierSettingsEditor to prevent re-creation on every render.
-const TierSettingInput: React.FC<{
-    tier: keyof TierSettings;
-    tierName: string;
-    formState: { [key in keyof TierSettings]: { minSpend: string; minPoints: string; } };
-    handleInputChange: (tier: keyof TierSettings, field: keyof TierThreshold, value: string) => void;
-}> = ({ tier, tierName, formState, handleInputChange }) => (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
-        <h3 className="font-serif text-lg md:col-span-1 capitalize">{tierName}</h3>
-        <div className="md:col-span-2 grid grid-cols-2 gap-4">
-             <div>
-                <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Min. Spend (₹)</label>
-                <input type="text" pattern="\d*" value={formState[tier].minSpend} onChange={(e) => handleInputChange(tier, 'minSpend', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-             </div>
-             <div>
-                <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Min. Points</label>
-                <input type="text" pattern="\d*" value={formState[tier].minPoints} onChange={(e) => handleInputChange(tier, 'minPoints', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-            </div>
+const TierNumberInput: React.FC<{
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    suffix?: React.ReactNode;
+}> = ({ label, value, onChange, suffix }) => (
+    <div>
+        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">{label}</label>
+        <div className="relative">
+            <input type="text" pattern="\d*" value={value} onChange={(e) => onChange(e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 pr-6 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+            {suffix}
         </div>
     </div>
 );
 
-const TierSettingsEditor: React.FC<{ tierSettings: TierSettings, setTierSettings: React.Dispatch<React.SetStateAction<TierSettings>> }> = ({ tierSettings, setTierSettings }) => {
-    type FormState = { [key in keyof TierSettings]: { minSpend: string; minPoints: string }; };
+const QUALIFICATION_LABELS: Record<TierQualification, string> = {
+    spend: 'Spend only',
+    points: 'Points only',
+    either: 'Spend or points',
+    both: 'Spend and points',
+    weighted: 'Weighted score',
+};
 
-    const initialFormState = useCallback((settings: TierSettings): FormState => ({
-        bronze: { minSpend: settings.bronze.minSpend.toString(), minPoints: settings.bronze.minPoints.toString() },
-        silver: { minSpend: settings.silver.minSpend.toString(), minPoints: settings.silver.minPoints.toString() },
-        gold: { minSpend: settings.gold.minSpend.toString(), minPoints: settings.gold.minPoints.toString() },
-        platinum: { minSpend: settings.platinum.minSpend.toString(), minPoints: settings.platinum.minPoints.toString() },
-    }), []);
-    
-    const [formState, setFormState] = useState<FormState>(initialFormState(tierSettings));
+const TierSettingsEditor: React.FC<{ tierSettings: TierSettings, setTierSettings: (settings: TierSettings) => Promise<void>, reloadCustomers: () => Promise<void> }> = ({ tierSettings, setTierSettings, reloadCustomers }) => {
+    type FormRow = { [key in keyof TierDefinition]: string };
+
+    const initialFormState = useCallback((settings: TierSettings): FormRow[] => settings.tiers.map(tier => ({
+        id: tier.id,
+        name: tier.name,
+        color: tier.color,
+        minSpend: tier.minSpend.toString(),
+        minPoints: tier.minPoints.toString(),
+        discountPercentage: tier.discountPercentage.toString(),
+        deadlineDays: tier.deadlineDays.toString(),
+    })), []);
+
+    const [formState, setFormState] = useState<FormRow[]>(initialFormState(tierSettings));
+    const [qualification, setQualification] = useState<TierQualification>(tierSettings.qualification);
+    const [spendWeight, setSpendWeight] = useState(tierSettings.spendWeight.toString());
+    const [windowMonths, setWindowMonths] = useState(tierSettings.windowMonths.toString());
+    const [graceDays, setGraceDays] = useState(tierSettings.graceDays.toString());
     const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
 
-    useEffect(() => { setFormState(initialFormState(tierSettings)); }, [tierSettings, initialFormState]);
+    useEffect(() => {
+        setFormState(initialFormState(tierSettings));
+        setQualification(tierSettings.qualification);
+        setSpendWeight(tierSettings.spendWeight.toString());
+        setWindowMonths(tierSettings.windowMonths.toString());
+        setGraceDays(tierSettings.graceDays.toString());
+    }, [tierSettings, initialFormState]);
+
+    const rule = {
+        ...tierSettings,
+        qualification,
+        spendWeight: parseInt(spendWeight, 10) || 0,
+        windowMonths: parseInt(windowMonths, 10) || 0,
+        graceDays: parseInt(graceDays, 10) || 0,
+    };
 
-    const handleInputChange = (tier: keyof TierSettings, field: keyof TierThreshold, value: string) => {
-        if (/^\d*$/.test(value)) {
-            setFormState(prev => ({ ...prev, [tier]: { ...prev[tier], [field]: value } }));
-            setSaved(false);
+    const handleRuleChange = (setter: (value: string) => void) => (value: string) => {
+        if (/^\d*$/.test(value)) { setter(value); setSaved(false); setError(''); }
+    };
+
+    const updateRows = (update: (rows: FormRow[]) => FormRow[]) => {
+        setFormState(update);
+        setSaved(false);
+        setError('');
+    };
+
+    const handleInputChange = (index: number, field: keyof FormRow, value: string) => {
+        if (field === 'name' || field === 'color' || /^\d*$/.test(value)) {
+            updateRows(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
         }
     };
 
-    const handleSaveChanges = () => {
+    const moveTier = (index: number, offset: number) => updateRows(rows => {
+        const moved = [...rows];
+        [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+        return moved;
+    });
+
+    const handleAddTier = () => updateRows(rows => [
+        ...rows,
+        { id: crypto.randomUUID(), name: '', color: '#6b7280', minSpend: '', minPoints: '', discountPercentage: '0', deadlineDays: '90' },
+    ]);
+
+    const handleSaveChanges = async () => {
         const newSettings: TierSettings = {
-            bronze: { minSpend: parseInt(formState.bronze.minSpend, 10) || 0, minPoints: parseInt(formState.bronze.minPoints, 10) || 0 },
-            silver: { minSpend: parseInt(formState.silver.minSpend, 10) || 0, minPoints: parseInt(formState.silver.minPoints, 10) || 0 },
-            gold: { minSpend: parseInt(formState.gold.minSpend, 10) || 0, minPoints: parseInt(formState.gold.minPoints, 10) || 0 },
-            platinum: { minSpend: parseInt(formState.platinum.minSpend, 10) || 0, minPoints: parseInt(formState.platinum.minPoints, 10) || 0 },
+            ...rule,
+            tiers: formState.map((row, index) => ({
+                id: row.id,
+                name: row.name.trim(),
+                color: row.color,
+                minSpend: index === 0 ? 0 : parseInt(row.minSpend, 10) || 0,
+                minPoints: index === 0 ? 0 : parseInt(row.minPoints, 10) || 0,
+                discountPercentage: parseInt(row.discountPercentage, 10) || 0,
+                deadlineDays: parseInt(row.deadlineDays, 10) || 0,
+            })),
         };
-        setTierSettings(newSettings);
+        const problem = validateTierSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        await setTierSettings(newSettings);
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
+        // Saving re-reviews every customer's tier on the server.
+        await reloadCustomers();
     };
 
+    const smallButton = "text-xs px-2 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40";
+
     return (
         <Card>
             <div className="space-y-8">
                 <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Customer Tier Settings</h2>
-                <p className="text-sm text-brand-muted -mt-4">A customer achieves a tier if they meet <span className="font-bold text-brand-text">either</span> the minimum spend <span className="font-bold text-brand-text">or</span> minimum points requirement.</p>
-                <TierSettingInput tier="bronze" tierName="Bronze" formState={formState} handleInputChange={handleInputChange} />
-                <TierSettingInput tier="silver" tierName="Silver" formState={formState} handleInputChange={handleInputChange} />
-                <TierSettingInput tier="gold" tierName="Gold" formState={formState} handleInputChange={handleInputChange} />
-                <TierSettingInput tier="platinum" tierName="Platinum" formState={formState} handleInputChange={handleInputChange} />
-                <div className="flex justify-end pt-4">
+                <p className="text-sm text-brand-muted -mt-4">List tiers from lowest to highest. {describeTierQualification(rule)} The tier discount applies while the customer's last visit is within the tier's deadline.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Qualify By</label>
+                        <select value={qualification} onChange={e => { setQualification(e.target.value as TierQualification); setSaved(false); setError(''); }} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                            {TIER_QUALIFICATIONS.map(q => <option key={q} value={q}>{QUALIFICATION_LABELS[q]}</option>)}
+                        </select>
+                    </div>
+                    {qualification === 'weighted' && (
+                        <TierNumberInput label="Spend Weight" value={spendWeight} onChange={handleRuleChange(setSpendWeight)} suffix={<FaPercent className="absolute right-0 top-3 text-brand-muted" />} />
+                    )}
+                    <TierNumberInput label="Qualifying Window (Months, 0 = Lifetime)" value={windowMonths} onChange={handleRuleChange(setWindowMonths)} />
+                    <TierNumberInput label="Grace Period Before Downgrade (Days)" value={graceDays} onChange={handleRuleChange(setGraceDays)} />
+                </div>
+                {formState.map((row, index) => (
+                    <div key={row.id} className="space-y-4 pb-6 border-b border-brand-border/50">
+                        <div className="flex items-center gap-3">
+                            <input type="color" value={row.color} onChange={e => handleInputChange(index, 'color', e.target.value)} className="h-8 w-8 shrink-0 cursor-pointer bg-transparent" />
+                            <input type="text" value={row.name} onChange={e => handleInputChange(index, 'name', e.target.value)} placeholder="Tier name" className="flex-grow font-serif text-lg bg-transparent border-b border-brand-border py-1 text-brand-text outline-none focus:border-brand-accent transition-colors" />
+                            <button onClick={() => moveTier(index, -1)} disabled={index === 0} className={smallButton}>Up</button>
+                            <button onClick={() => moveTier(index, 1)} disabled={index === formState.length - 1} className={smallButton}>Down</button>
+                            <button onClick={() => updateRows(rows => rows.filter((_, i) => i !== index))} disabled={formState.length === 1} className={smallButton}>Remove</button>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {index === 0 ? (
+                                <p className="col-span-2 self-end pb-2 text-xs text-brand-muted">Entry tier: every customer starts here.</p>
+                            ) : (
+                                <>
+                                    <TierNumberInput label="Min. Spend (₹)" value={row.minSpend} onChange={value => handleInputChange(index, 'minSpend', value)} />
+                                    <TierNumberInput label="Min. Points" value={row.minPoints} onChange={value => handleInputChange(index, 'minPoints', value)} />
+                                </>
+                            )}
+                            <TierNumberInput label="Discount" value={row.discountPercentage} onChange={value => handleInputChange(index, 'discountPercentage', value)} suffix={<FaPercent className="absolute right-0 top-3 text-brand-muted" />} />
+                            <TierNumberInput label="Deadline (Days)" value={row.deadlineDays} onChange={value => handleInputChange(index, 'deadlineDays', value)} />
+                        </div>
+                    </div>
+                ))}
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleAddTier} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Add Tier</button>
+                        {error && <span className="text-red-500 text-xs">{error}</span>}
+                    </div>
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const EARNING_MODE_LABELS: Record<EarningMode, string> = {
+    change: 'Change left with the store',
+    spend: 'Points per amount spent',
+};
+
+const EarningSettingsEditor: React.FC<{ tierSettings: TierSettings, earningSettings: EarningSettings, setEarningSettings: (settings: EarningSettings) => void }> = ({ tierSettings, earningSettings, setEarningSettings }) => {
+    type FormState = { [key in Exclude<keyof EarningSettings, 'mode' | 'tierMultipliers'>]: string } & { mode: EarningMode; tierMultipliers: Record<string, string> };
+
+    const initialFormState = useCallback((settings: EarningSettings): FormState => ({
+        mode: settings.mode,
+        pointsPerUnit: settings.pointsPerUnit.toString(),
+        spendUnit: settings.spendUnit.toString(),
+        tierMultipliers: Object.fromEntries(Object.entries(settings.tierMultipliers).map(([tierId, multiplier]) => [tierId, multiplier.toString()])),
+        minimumBill: settings.minimumBill.toString(),
+        maxPointsPerTransaction: settings.maxPointsPerTransaction.toString(),
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(earningSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(earningSettings)); }, [earningSettings, initialFormState]);
+
+    const updateForm = (update: (prev: FormState) => FormState) => {
+        setFormState(update);
+        setSaved(false);
+        setError('');
+    };
+
+    const handleInputChange = (field: Exclude<keyof FormState, 'mode' | 'tierMultipliers'>, value: string) => {
+        if (/^\d*\.?\d*$/.test(value)) updateForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleMultiplierChange = (tierId: string, value: string) => {
+        if (/^\d*\.?\d*$/.test(value)) updateForm(prev => ({ ...prev, tierMultipliers: { ...prev.tierMultipliers, [tierId]: value } }));
+    };
+
+    const newSettings: EarningSettings = {
+        mode: formState.mode,
+        pointsPerUnit: parseFloat(formState.pointsPerUnit) || 0,
+        spendUnit: parseFloat(formState.spendUnit) || 0,
+        tierMultipliers: Object.fromEntries(tierSettings.tiers.map(tier => {
+            const multiplier = parseFloat(formState.tierMultipliers[tier.id] ?? '');
+            return [tier.id, Number.isNaN(multiplier) ? 1 : multiplier];
+        })),
+        minimumBill: parseFloat(formState.minimumBill) || 0,
+        maxPointsPerTransaction: parseInt(formState.maxPointsPerTransaction, 10) || 0,
+    };
+
+    const handleSaveChanges = () => {
+        const problem = validateEarningSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setEarningSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Points Earning Rules</h2>
+                <p className="text-sm text-brand-muted -mt-4">{describeEarningRules(newSettings)} The customer's tier multiplier applies before the cap.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Earn Points From</label>
+                        <select value={formState.mode} onChange={e => updateForm(prev => ({ ...prev, mode: e.target.value as EarningMode }))} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                            {EARNING_MODES.map(mode => <option key={mode} value={mode}>{EARNING_MODE_LABELS[mode]}</option>)}
+                        </select>
+                    </div>
+                    {formState.mode === 'spend' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <TierNumberInput label="Points" value={formState.pointsPerUnit} onChange={value => handleInputChange('pointsPerUnit', value)} />
+                            <TierNumberInput label="Per (₹)" value={formState.spendUnit} onChange={value => handleInputChange('spendUnit', value)} />
+                        </div>
+                    )}
+                    <TierNumberInput label="Minimum Bill (₹)" value={formState.minimumBill} onChange={value => handleInputChange('minimumBill', value)} />
+                    <TierNumberInput label="Max. Points per Bill (0 = No Cap)" value={formState.maxPointsPerTransaction} onChange={value => { if (/^\d*$/.test(value)) handleInputChange('maxPointsPerTransaction', value); }} />
+                </div>
+                <div className="space-y-4">
+                    <h3 className="text-xs text-brand-muted uppercase tracking-wider">Tier Multipliers</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {tierSettings.tiers.map(tier => (
+                            <TierNumberInput key={tier.id} label={tier.name} value={formState.tierMultipliers[tier.id] ?? '1'} onChange={value => handleMultiplierChange(tier.id, value)} suffix={<span className="absolute right-0 top-2 text-brand-muted">×</span>} />
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
                     <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
                         {saved ? 'Saved!' : 'Save Changes'}
                     </button>
@@ -980,67 +2407,306 @@ const TierSettingsEditor: React.FC<{ tierSettings: TierSettings, setTierSettings
     );
 };
 
-const DiscountInput: React.FC<{
-    tier: keyof DiscountSettings;
-    tierName: string;
-    formState: { [key in keyof DiscountSettings]: string };
-    handleInputChange: (tier: keyof DiscountSettings, value: string) => void;
-}> = ({ tier, tierName, formState, handleInputChange }) => (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
-        <h3 className="font-serif text-lg md:col-span-1 capitalize">{tierName}</h3>
-        <div className="md:col-span-2">
-            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Discount (%)</label>
-            <div className="relative">
-                <input type="text" pattern="\d*" value={formState[tier]} onChange={(e) => handleInputChange(tier, e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 pl-2 pr-6 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-                <FaPercent className="absolute right-0 top-3 text-brand-muted" />
+const RedemptionSettingsEditor: React.FC<{ redemptionSettings: RedemptionSettings, setRedemptionSettings: (settings: RedemptionSettings) => void }> = ({ redemptionSettings, setRedemptionSettings }) => {
+    type FormState = { [key in keyof RedemptionSettings]: string };
+
+    const initialFormState = useCallback((settings: RedemptionSettings): FormState => ({
+        pointValue: settings.pointValue.toString(),
+        minimumBalance: settings.minimumBalance.toString(),
+        maxBillPercentage: settings.maxBillPercentage.toString(),
+        blockSize: settings.blockSize.toString(),
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(redemptionSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(redemptionSettings)); }, [redemptionSettings, initialFormState]);
+
+    const handleInputChange = (field: keyof RedemptionSettings, value: string) => {
+        const pattern = field === 'pointValue' ? /^\d*\.?\d*$/ : /^\d*$/;
+        if (pattern.test(value)) {
+            setFormState(prev => ({ ...prev, [field]: value }));
+            setSaved(false);
+            setError('');
+        }
+    };
+
+    const newSettings: RedemptionSettings = {
+        pointValue: parseFloat(formState.pointValue) || 0,
+        minimumBalance: parseInt(formState.minimumBalance, 10) || 0,
+        maxBillPercentage: parseInt(formState.maxBillPercentage, 10) || 0,
+        blockSize: parseInt(formState.blockSize, 10) || 1,
+    };
+
+    const handleSaveChanges = () => {
+        const problem = validateRedemptionSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setRedemptionSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Points Redemption Rules</h2>
+                <p className="text-sm text-brand-muted -mt-4">{describeRedemptionRules(newSettings)}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TierNumberInput label="Value of 1 Point (₹)" value={formState.pointValue} onChange={value => handleInputChange('pointValue', value)} />
+                    <TierNumberInput label="Min. Balance to Redeem (Points)" value={formState.minimumBalance} onChange={value => handleInputChange('minimumBalance', value)} />
+                    <TierNumberInput label="Max. Share of Bill" value={formState.maxBillPercentage} onChange={value => handleInputChange('maxBillPercentage', value)} suffix={<FaPercent className="absolute right-0 top-3 text-brand-muted" />} />
+                    <TierNumberInput label="Redeem in Blocks of (Points)" value={formState.blockSize} onChange={value => handleInputChange('blockSize', value)} />
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
             </div>
-        </div>
-    </div>
-);
+        </Card>
+    );
+};
+
+const ReferralSettingsEditor: React.FC<{ referralSettings: ReferralSettings, setReferralSettings: (settings: ReferralSettings) => void }> = ({ referralSettings, setReferralSettings }) => {
+    type FormState = { [key in keyof ReferralSettings]: string };
+
+    const initialFormState = useCallback((settings: ReferralSettings): FormState => ({
+        referrerPoints: settings.referrerPoints.toString(),
+        refereePoints: settings.refereePoints.toString(),
+        minimumBill: settings.minimumBill.toString(),
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(referralSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(referralSettings)); }, [referralSettings, initialFormState]);
+
+    const handleInputChange = (field: keyof ReferralSettings, value: string) => {
+        const pattern = field === 'minimumBill' ? /^\d*\.?\d*$/ : /^\d*$/;
+        if (pattern.test(value)) {
+            setFormState(prev => ({ ...prev, [field]: value }));
+            setSaved(false);
+            setError('');
+        }
+    };
+
+    const newSettings: ReferralSettings = {
+        referrerPoints: parseInt(formState.referrerPoints, 10) || 0,
+        refereePoints: parseInt(formState.refereePoints, 10) || 0,
+        minimumBill: parseFloat(formState.minimumBill) || 0,
+    };
+
+    const handleSaveChanges = () => {
+        const problem = validateReferralSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setReferralSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Referral Bonuses</h2>
+                <p className="text-sm text-brand-muted -mt-4">The cashier can enter who referred a new customer when registering them. {describeReferralRules(newSettings)}</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <TierNumberInput label="Referrer Bonus (Points)" value={formState.referrerPoints} onChange={value => handleInputChange('referrerPoints', value)} />
+                    <TierNumberInput label="New Customer Bonus (Points)" value={formState.refereePoints} onChange={value => handleInputChange('refereePoints', value)} />
+                    <TierNumberInput label="Min. Qualifying Bill (₹)" value={formState.minimumBill} onChange={value => handleInputChange('minimumBill', value)} />
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const CELEBRATION_REWARD_TYPE_LABELS: Record<CelebrationRewardType, string> = { points: 'Bonus points', discount: 'Discount on one bill' };
+
+const CelebrationSettingsEditor: React.FC<{ celebrationSettings: CelebrationSettings, setCelebrationSettings: (settings: CelebrationSettings) => void, reloadCustomers: () => Promise<void> }> = ({ celebrationSettings, setCelebrationSettings, reloadCustomers }) => {
+    type RewardForm = Omit<CelebrationReward, 'points' | 'discountPercentage'> & { points: string; discountPercentage: string };
+    type FormState = Record<Occasion, RewardForm>;
+
+    const initialFormState = useCallback((settings: CelebrationSettings): FormState => ({
+        birthday: { ...settings.birthday, points: settings.birthday.points.toString(), discountPercentage: settings.birthday.discountPercentage.toString() },
+        anniversary: { ...settings.anniversary, points: settings.anniversary.points.toString(), discountPercentage: settings.anniversary.discountPercentage.toString() },
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(celebrationSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+    const [runStatus, setRunStatus] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(celebrationSettings)); }, [celebrationSettings, initialFormState]);
+
+    const updateReward = (occasion: Occasion, changes: Partial<RewardForm>) => {
+        setFormState(prev => ({ ...prev, [occasion]: { ...prev[occasion], ...changes } }));
+        setSaved(false);
+        setError('');
+    };
+
+    const handleNumberChange = (occasion: Occasion, field: 'points' | 'discountPercentage', value: string) => {
+        const pattern = field === 'discountPercentage' ? /^\d*\.?\d*$/ : /^\d*$/;
+        if (pattern.test(value)) updateReward(occasion, { [field]: value });
+    };
+
+    const toReward = (form: RewardForm): CelebrationReward => ({
+        ...form,
+        points: parseInt(form.points, 10) || 0,
+        discountPercentage: parseFloat(form.discountPercentage) || 0,
+    });
+
+    const handleSaveChanges = () => {
+        const newSettings: CelebrationSettings = { birthday: toReward(formState.birthday), anniversary: toReward(formState.anniversary) };
+        const problem = validateCelebrationSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setCelebrationSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    const handleRunNow = async () => {
+        setRunStatus('Running...');
+        try {
+            const run = await runCelebrations();
+            await reloadCustomers();
+            setRunStatus(`${run.granted} reward${run.granted === 1 ? '' : 's'} granted (${run.pointsGranted.toLocaleString()} points); ${run.smsSent} SMS sent.`);
+        } catch (error) {
+            setRunStatus(`Run failed: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Birthday &amp; Anniversary Rewards</h2>
+                <p className="text-sm text-brand-muted -mt-4">Customers get the reward once a year, in the week starting on their birthday or the anniversary of joining. A discount can be used on one bill that week. SMS templates can use {'{name}'}, {'{business}'} and {'{reward}'}.</p>
+                {OCCASIONS.map(occasion => {
+                    const reward = formState[occasion];
+                    return (
+                        <div key={occasion} className="space-y-4">
+                            <label className="flex items-center gap-3 font-serif text-lg">
+                                <input type="checkbox" checked={reward.enabled} onChange={e => updateReward(occasion, { enabled: e.target.checked })} className="h-4 w-4 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent" />
+                                {OCCASION_LABELS[occasion]}
+                            </label>
+                            {reward.enabled && (
+                                <>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Reward</label>
+                                            <select value={reward.rewardType} onChange={e => updateReward(occasion, { rewardType: e.target.value as CelebrationRewardType })} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                                                {(Object.keys(CELEBRATION_REWARD_TYPE_LABELS) as CelebrationRewardType[]).map(type => <option key={type} value={type}>{CELEBRATION_REWARD_TYPE_LABELS[type]}</option>)}
+                                            </select>
+                                        </div>
+                                        {reward.rewardType === 'points'
+                                            ? <TierNumberInput label="Bonus Points" value={reward.points} onChange={value => handleNumberChange(occasion, 'points', value)} />
+                                            : <TierNumberInput label="Discount (%)" value={reward.discountPercentage} onChange={value => handleNumberChange(occasion, 'discountPercentage', value)} />}
+                                    </div>
+                                    <label className="flex items-center gap-3 text-sm text-brand-text">
+                                        <input type="checkbox" checked={reward.sendSms} onChange={e => updateReward(occasion, { sendSms: e.target.checked })} className="h-4 w-4 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent" />
+                                        Send an SMS with the reward
+                                    </label>
+                                    {reward.sendSms && (
+                                        <textarea value={reward.smsTemplate} onChange={e => updateReward(occasion, { smsTemplate: e.target.value })} rows={2} className="w-full bg-transparent border border-brand-border p-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleRunNow} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Run Now</button>
+                        {error ? <span className="text-red-500 text-xs">{error}</span> : runStatus && <span className="text-xs text-brand-muted">{runStatus}</span>}
+                    </div>
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
 
-const DiscountSettingsEditor: React.FC<{ discountSettings: DiscountSettings, setDiscountSettings: React.Dispatch<React.SetStateAction<DiscountSettings>> }> = ({ discountSettings, setDiscountSettings }) => {
-    type FormState = { [key in keyof DiscountSettings]: string };
+const PointsExpirySettingsEditor: React.FC<{ tierSettings: TierSettings, pointsExpirySettings: PointsExpirySettings, setPointsExpirySettings: (settings: PointsExpirySettings) => void, reloadCustomers: () => Promise<void> }> = ({ tierSettings, pointsExpirySettings, setPointsExpirySettings, reloadCustomers }) => {
+    type FormState = { validityDays: Record<string, string>; reminderDays: string };
 
-    const initialFormState = useCallback((settings: DiscountSettings): FormState => ({
-        bronze: settings.bronze.toString(),
-        silver: settings.silver.toString(),
-        gold: settings.gold.toString(),
-        platinum: settings.platinum.toString(),
+    const initialFormState = useCallback((settings: PointsExpirySettings): FormState => ({
+        validityDays: Object.fromEntries(Object.entries(settings.validityDays).map(([tierId, days]) => [tierId, days.toString()])),
+        reminderDays: settings.reminderDays.toString(),
     }), []);
 
-    const [formState, setFormState] = useState<FormState>(initialFormState(discountSettings));
+    const [formState, setFormState] = useState<FormState>(initialFormState(pointsExpirySettings));
     const [saved, setSaved] = useState(false);
+    const [runStatus, setRunStatus] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(pointsExpirySettings)); }, [pointsExpirySettings, initialFormState]);
 
-    useEffect(() => { setFormState(initialFormState(discountSettings)); }, [discountSettings, initialFormState]);
+    const handleValidityChange = (tierId: string, value: string) => {
+        if (/^\d*$/.test(value)) {
+            setFormState(prev => ({ ...prev, validityDays: { ...prev.validityDays, [tierId]: value } }));
+            setSaved(false);
+        }
+    };
 
-    const handleInputChange = (tier: keyof DiscountSettings, value: string) => {
+    const handleReminderChange = (value: string) => {
         if (/^\d*$/.test(value)) {
-            setFormState(prev => ({ ...prev, [tier]: value }));
+            setFormState(prev => ({ ...prev, reminderDays: value }));
             setSaved(false);
         }
     };
 
     const handleSaveChanges = () => {
-        const newSettings: DiscountSettings = {
-            bronze: parseInt(formState.bronze, 10) || 0,
-            silver: parseInt(formState.silver, 10) || 0,
-            gold: parseInt(formState.gold, 10) || 0,
-            platinum: parseInt(formState.platinum, 10) || 0,
+        const newSettings: PointsExpirySettings = {
+            validityDays: Object.fromEntries(tierSettings.tiers.map(tier => [tier.id, parseInt(formState.validityDays[tier.id] ?? '', 10) || 0])),
+            reminderDays: parseInt(formState.reminderDays, 10) || 0,
         };
-        setDiscountSettings(newSettings);
+        setPointsExpirySettings(newSettings);
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
 
+    const handleRunNow = async () => {
+        setRunStatus('Running...');
+        try {
+            const run = await runPointsExpiry();
+            await reloadCustomers();
+            setRunStatus(`${run.pointsExpired.toLocaleString()} points expired for ${run.customersExpired} customer${run.customersExpired === 1 ? '' : 's'}; ${run.remindersSent} reminder${run.remindersSent === 1 ? '' : 's'} sent.`);
+        } catch (error) {
+            setRunStatus(`Expiry run failed: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
     return (
         <Card>
             <div className="space-y-8">
-                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Discount Settings</h2>
-                <DiscountInput tier="bronze" tierName="Bronze" formState={formState} handleInputChange={handleInputChange} />
-                <DiscountInput tier="silver" tierName="Silver" formState={formState} handleInputChange={handleInputChange} />
-                <DiscountInput tier="gold" tierName="Gold" formState={formState} handleInputChange={handleInputChange} />
-                <DiscountInput tier="platinum" tierName="Platinum" formState={formState} handleInputChange={handleInputChange} />
-                <div className="flex justify-end pt-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Points Expiry Settings</h2>
+                <p className="text-sm text-brand-muted -mt-4">Points are used oldest first. Each batch of points expires this many days after it was earned, based on the customer's current tier. Leave at 0 to keep points forever.</p>
+                {tierSettings.tiers.map(tier => (
+                    <div key={tier.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                        <h3 className="font-serif text-lg md:col-span-1">{tier.name}</h3>
+                        <div className="md:col-span-2">
+                            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Valid For (Days)</label>
+                            <input type="text" pattern="\d*" value={formState.validityDays[tier.id] ?? '0'} onChange={(e) => handleValidityChange(tier.id, e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                        </div>
+                    </div>
+                ))}
+                <div>
+                    <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Expiring-Soon SMS (Days Before, 0 = Off)</label>
+                    <input type="text" pattern="\d*" value={formState.reminderDays} onChange={(e) => handleReminderChange(e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleRunNow} className="bg-brand-card text-brand-text border border-brand-border text-xs py-1.5 px-4 rounded-md hover:bg-gray-100 transition-colors">Run Expiry Now</button>
+                        {runStatus && <span className="text-xs text-brand-muted">{runStatus}</span>}
+                    </div>
                     <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
                         {saved ? 'Saved!' : 'Save Changes'}
                     </button>
@@ -1050,51 +2716,36 @@ const DiscountSettingsEditor: React.FC<{ discountSettings: DiscountSettings, set
     );
 };
 
-const DeadlineInput: React.FC<{
-    tier: keyof DeadlineSettings;
-    tierName: string;
-    formState: { [key in keyof DeadlineSettings]: string };
-    handleInputChange: (tier: keyof DeadlineSettings, value: string) => void;
-}> = ({ tier, tierName, formState, handleInputChange }) => (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
-        <h3 className="font-serif text-lg md:col-span-1 capitalize">{tierName}</h3>
-        <div className="md:col-span-2">
-            <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Deadline (Days)</label>
-                <input type="text" pattern="\d*" value={formState[tier]} onChange={(e) => handleInputChange(tier, e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
-        </div>
-    </div>
-);
-
-const DeadlineSettingsEditor: React.FC<{ deadlineSettings: DeadlineSettings, setDeadlineSettings: React.Dispatch<React.SetStateAction<DeadlineSettings>> }> = ({ deadlineSettings, setDeadlineSettings }) => {
-    type FormState = { [key in keyof DeadlineSettings]: string };
+const SecuritySettingsEditor: React.FC<{ securitySettings: SecuritySettings, setSecuritySettings: (settings: SecuritySettings) => void }> = ({ securitySettings, setSecuritySettings }) => {
+    type FormState = { [key in keyof SecuritySettings]: string };
 
-    const initialFormState = useCallback((settings: DeadlineSettings): FormState => ({
-        bronze: settings.bronze.toString(),
-        silver: settings.silver.toString(),
-        gold: settings.gold.toString(),
-        platinum: settings.platinum.toString(),
+    const initialFormState = useCallback((settings: SecuritySettings): FormState => ({
+        maxPinAttempts: settings.maxPinAttempts.toString(),
+        pinLockoutMinutes: settings.pinLockoutMinutes.toString(),
+        otpExpiryMinutes: settings.otpExpiryMinutes.toString(),
+        maxOtpAttempts: settings.maxOtpAttempts.toString(),
     }), []);
 
-    const [formState, setFormState] = useState<FormState>(initialFormState(deadlineSettings));
+    const [formState, setFormState] = useState<FormState>(initialFormState(securitySettings));
     const [saved, setSaved] = useState(false);
 
-    useEffect(() => { setFormState(initialFormState(deadlineSettings)); }, [deadlineSettings, initialFormState]);
+    useEffect(() => { setFormState(initialFormState(securitySettings)); }, [securitySettings, initialFormState]);
 
-    const handleInputChange = (tier: keyof DeadlineSettings, value: string) => {
+    const handleInputChange = (field: keyof SecuritySettings, value: string) => {
         if (/^\d*$/.test(value)) {
-            setFormState(prev => ({ ...prev, [tier]: value }));
+            setFormState(prev => ({ ...prev, [field]: value }));
             setSaved(false);
         }
     };
 
     const handleSaveChanges = () => {
-        const newSettings: DeadlineSettings = {
-            bronze: parseInt(formState.bronze, 10) || 0,
-            silver: parseInt(formState.silver, 10) || 0,
-            gold: parseInt(formState.gold, 10) || 0,
-            platinum: parseInt(formState.platinum, 10) || 0,
+        const newSettings: SecuritySettings = {
+            maxPinAttempts: Math.max(1, parseInt(formState.maxPinAttempts, 10) || 1),
+            pinLockoutMinutes: Math.max(1, parseInt(formState.pinLockoutMinutes, 10) || 1),
+            otpExpiryMinutes: Math.max(1, parseInt(formState.otpExpiryMinutes, 10) || 1),
+            maxOtpAttempts: Math.max(1, parseInt(formState.maxOtpAttempts, 10) || 1),
         };
-        setDeadlineSettings(newSettings);
+        setSecuritySettings(newSettings);
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
@@ -1102,12 +2753,29 @@ const DeadlineSettingsEditor: React.FC<{ deadlineSettings: DeadlineSettings, set
     return (
         <Card>
             <div className="space-y-8">
-                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Points Deadline Settings</h2>
-                <p className="text-sm text-brand-muted -mt-4">Set the number of days a customer has to make a new transaction before their points-based tier status expires, making them ineligible for discounts.</p>
-                <DeadlineInput tier="bronze" tierName="Bronze" formState={formState} handleInputChange={handleInputChange} />
-                <DeadlineInput tier="silver" tierName="Silver" formState={formState} handleInputChange={handleInputChange} />
-                <DeadlineInput tier="gold" tierName="Gold" formState={formState} handleInputChange={handleInputChange} />
-                <DeadlineInput tier="platinum" tierName="Platinum" formState={formState} handleInputChange={handleInputChange} />
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">PIN Security Settings</h2>
+                <p className="text-sm text-brand-muted -mt-4">After this many incorrect PIN entries in a row, the customer's PIN entry is locked for the cooldown period.</p>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Max. Attempts</label>
+                        <input type="text" pattern="\d*" value={formState.maxPinAttempts} onChange={(e) => handleInputChange('maxPinAttempts', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Cooldown (Minutes)</label>
+                        <input type="text" pattern="\d*" value={formState.pinLockoutMinutes} onChange={(e) => handleInputChange('pinLockoutMinutes', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                </div>
+                <p className="text-sm text-brand-muted">A forgotten PIN can be reset with a one-time code sent by SMS. The code stops working after it expires or after too many incorrect entries.</p>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Code Expiry (Minutes)</label>
+                        <input type="text" pattern="\d*" value={formState.otpExpiryMinutes} onChange={(e) => handleInputChange('otpExpiryMinutes', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Max. Code Attempts</label>
+                        <input type="text" pattern="\d*" value={formState.maxOtpAttempts} onChange={(e) => handleInputChange('maxOtpAttempts', e.target.value)} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                </div>
                 <div className="flex justify-end pt-4">
                     <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
                         {saved ? 'Saved!' : 'Save Changes'}
@@ -1118,4 +2786,872 @@ const DeadlineSettingsEditor: React.FC<{ deadlineSettings: DeadlineSettings, set
     );
 };
 
+const PinLockoutsLog: React.FC<{ unlockCustomer: (mobile: string) => Promise<Customer> }> = ({ unlockCustomer }) => {
+    const [lockouts, setLockouts] = useState<PinLockout[]>([]);
+    const [unlocked, setUnlocked] = useState<Record<string, boolean>>({});
+
+    useEffect(() => {
+        fetchPinLockouts()
+            .then(setLockouts)
+            .catch(error => console.warn('Error loading PIN lockouts:', error));
+    }, []);
+
+    const handleUnlock = async (mobile: string) => {
+        try {
+            await unlockCustomer(mobile);
+            setUnlocked(prev => ({ ...prev, [mobile]: true }));
+        } catch (error) {
+            console.error('Unlock Error:', error);
+        }
+    };
+
+    const now = new Date().toISOString();
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Recent PIN Lockouts</h2>
+                {lockouts.length === 0 ? (
+                    <p className="text-brand-muted text-center py-4 text-sm">No customer has been locked out.</p>
+                ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="border-b border-brand-border">
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Locked At</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Customer</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Mobile</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Attempts</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {lockouts.map(lockout => (
+                                <tr key={`${lockout.mobile}-${lockout.lockedAt}`} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                    <td className="p-3 whitespace-nowrap">{new Date(lockout.lockedAt).toLocaleString()}</td>
+                                    <td className="p-3">{lockout.customerName}</td>
+                                    <td className="p-3 font-mono">{lockout.mobile}</td>
+                                    <td className="p-3">{lockout.failedAttempts}</td>
+                                    <td className="p-3 text-right">
+                                        {lockout.lockedUntil > now && !unlocked[lockout.mobile] ? (
+                                            <button onClick={() => handleUnlock(lockout.mobile)} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Unlock</button>
+                                        ) : (
+                                            <span className="text-xs text-brand-muted">Expired</span>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+// Owner-only list of the managers and cashiers who can sign in to this business.
+const StaffManager: React.FC = () => {
+    const [staff, setStaff] = useState<StaffMember[]>([]);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState<Exclude<StaffRole, 'owner'>>('cashier');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchStaff()
+            .then(setStaff)
+            .catch(error => console.warn('Error loading staff:', error));
+    }, []);
+
+    const run = async (action: () => Promise<StaffMember[]>) => {
+        setError('');
+        try {
+            setStaff(await action());
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const handleAdd = async () => {
+        if (!username || !password) { setError('Username and password are required.'); return; }
+        if (await run(() => createStaff(username, password, role))) {
+            setUsername('');
+            setPassword('');
+        }
+    };
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Staff Accounts</h2>
+                <p className="text-sm text-brand-muted">Cashiers can process transactions and search customers. Managers can also view customers and analytics, and void or refund transactions. Only the owner can change settings.</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="border-b border-brand-border">
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Username</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Role</th>
+                                <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {staff.map(member => (
+                                <tr key={member.username} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                    <td className="p-3 font-mono">{member.username}</td>
+                                    <td className="p-3">
+                                        {member.role === 'owner' ? 'Owner' : (
+                                            <select value={member.role} onChange={e => run(() => updateStaff(member.username, { role: e.target.value as Exclude<StaffRole, 'owner'> }))} className="bg-transparent border-b border-brand-border py-1 text-sm outline-none">
+                                                <option value="cashier">Cashier</option>
+                                                <option value="manager">Manager</option>
+                                            </select>
+                                        )}
+                                    </td>
+                                    <td className="p-3 text-right">
+                                        {member.role !== 'owner' && (
+                                            <button onClick={() => run(() => deleteStaff(member.username))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <input type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" className="bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                    <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Password (8+ characters)" className="bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                    <select value={role} onChange={e => setRole(e.target.value as Exclude<StaffRole, 'owner'>)} className="bg-transparent border-b border-brand-border py-2 text-sm outline-none">
+                        <option value="cashier">Cashier</option>
+                        <option value="manager">Manager</option>
+                    </select>
+                    <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Staff</button>
+                </div>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
+const EMPTY_CAMPAIGN: CampaignInput = { name: '', startsAt: '', endsAt: '', weekdays: [], startHour: 0, endHour: 24, tierIds: [], pointsMultiplier: 2, extraDiscountPercentage: 0 };
+
+const CampaignManager: React.FC<{ tierSettings: TierSettings, campaigns: Campaign[], campaignActions: CampaignActions }> = ({ tierSettings, campaigns, campaignActions }) => {
+    const [form, setForm] = useState<CampaignInput>(EMPTY_CAMPAIGN);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+    const handleAdd = async () => {
+        // The form holds local datetime-local values; the server stores instants.
+        const toIso = (value: string) => value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : value;
+        const campaign = { ...form, name: form.name.trim(), startsAt: toIso(form.startsAt), endsAt: toIso(form.endsAt), weekdays: [...form.weekdays].sort((a, b) => a - b) };
+        const problem = validateCampaign(campaign);
+        if (problem) { setError(problem); return; }
+        if (await run(() => campaignActions.createCampaign(campaign))) setForm(EMPTY_CAMPAIGN);
+    };
+
+    const handleEnd = (campaign: Campaign) => {
+        const { id, createdAt, ...input } = campaign;
+        return run(() => campaignActions.updateCampaign(id, { ...input, endsAt: new Date().toISOString() }));
+    };
+
+    const now = Date.now();
+    const inputClass = "w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Campaigns</h2>
+                <p className="text-sm text-brand-muted">A campaign gives extra points, an extra discount or both on bills rung up during its window. Narrow it to certain weekdays, hours or tiers, or leave those empty to cover everyone. Campaigns that overlap all apply. Campaigns that have been applied to bills can be ended but not removed.</p>
+                {campaigns.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Campaign</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Runs</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {campaigns.map(campaign => (
+                                    <tr key={campaign.id} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                        <td className="p-3">
+                                            <p>{campaign.name}</p>
+                                            <p className="text-xs text-brand-muted">{describeCampaign(campaign, tierSettings.tiers)}</p>
+                                        </td>
+                                        <td className="p-3 text-xs text-brand-muted">{new Date(campaign.startsAt).toLocaleString()} – {new Date(campaign.endsAt).toLocaleString()}</td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            {Date.parse(campaign.endsAt) > now && (
+                                                <button onClick={() => handleEnd(campaign)} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">End Now</button>
+                                            )}
+                                            <button onClick={() => run(() => campaignActions.deleteCampaign(campaign.id))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="md:col-span-2">
+                        <label className="block text-xs text-brand-muted mb-1">Name</label>
+                        <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Weekend double points" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Starts</label>
+                        <input type="datetime-local" value={form.startsAt} onChange={e => setForm({ ...form, startsAt: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Ends</label>
+                        <input type="datetime-local" value={form.endsAt} onChange={e => setForm({ ...form, endsAt: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Points multiplier</label>
+                        <input type="number" min="1" step="0.5" value={form.pointsMultiplier} onChange={e => setForm({ ...form, pointsMultiplier: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Extra discount (%)</label>
+                        <input type="number" min="0" max="100" value={form.extraDiscountPercentage} onChange={e => setForm({ ...form, extraDiscountPercentage: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">From hour</label>
+                        <input type="number" min="0" max="23" value={form.startHour} onChange={e => setForm({ ...form, startHour: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Until hour</label>
+                        <input type="number" min="1" max="24" value={form.endHour} onChange={e => setForm({ ...form, endHour: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-xs text-brand-muted mb-1">Weekdays (none ticked means every day)</label>
+                        <div className="flex flex-wrap gap-3 text-sm">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <label key={label} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={form.weekdays.includes(day)} onChange={() => setForm({ ...form, weekdays: toggle(form.weekdays, day) })} className="h-4 w-4 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent" />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-xs text-brand-muted mb-1">Tiers (none ticked means every tier)</label>
+                        <div className="flex flex-wrap gap-3 text-sm">
+                            {tierSettings.tiers.map(tier => (
+                                <label key={tier.id} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={form.tierIds.includes(tier.id)} onChange={() => setForm({ ...form, tierIds: toggle(form.tierIds, tier.id) })} className="h-4 w-4 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent" />
+                                    {tier.name}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Campaign</button>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
+const COUPON_DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+    percentage: 'Percentage off',
+    flat: 'Flat ₹ off',
+};
+
+const EMPTY_COUPON: CouponInput = { code: '', discountType: 'percentage', discountValue: 10, singleUse: true, expiresAt: null, minimumBill: 0 };
+
+const CouponManager: React.FC = () => {
+    const [coupons, setCoupons] = useState<Coupon[]>([]);
+    const [form, setForm] = useState<CouponInput>(EMPTY_COUPON);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchCoupons()
+            .then(setCoupons)
+            .catch(error => console.warn('Error loading coupons:', error));
+    }, []);
+
+    const run = async (action: () => Promise<Coupon[]>) => {
+        setError('');
+        try {
+            setCoupons(await action());
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const handleAdd = async () => {
+        // The date input gives a day; the coupon works until the end of it.
+        const coupon = { ...form, code: form.code.trim().toUpperCase(), expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59.999`).toISOString() : null };
+        const problem = validateCoupon(coupon);
+        if (problem) { setError(problem); return; }
+        if (await run(() => createCoupon(coupon))) setForm(EMPTY_COUPON);
+    };
+
+    const handleExpire = (coupon: Coupon) => {
+        const { id, redemptions, createdAt, ...input } = coupon;
+        return run(() => updateCoupon(id, { ...input, expiresAt: new Date().toISOString() }));
+    };
+
+    const now = Date.now();
+    const inputClass = "w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Coupons</h2>
+                <p className="text-sm text-brand-muted">Codes for printed vouchers. The cashier enters the code on the New Entry screen and it comes off the bill after the tier and campaign discounts. A single-use code stops working once redeemed. Coupons that have been redeemed can be expired but not removed.</p>
+                {coupons.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Code</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Redeemed</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {coupons.map(coupon => (
+                                    <tr key={coupon.id} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                        <td className="p-3">
+                                            <p className="font-mono">{coupon.code}</p>
+                                            <p className="text-xs text-brand-muted">{describeCoupon(coupon)}</p>
+                                        </td>
+                                        <td className="p-3">{coupon.redemptions.toLocaleString()}</td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            {(!coupon.expiresAt || Date.parse(coupon.expiresAt) > now) && (
+                                                <button onClick={() => handleExpire(coupon)} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Expire Now</button>
+                                            )}
+                                            <button onClick={() => run(() => deleteCoupon(coupon.id))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Code</label>
+                        <input type="text" value={form.code} onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })} placeholder="DIWALI10" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Discount</label>
+                        <select value={form.discountType} onChange={e => setForm({ ...form, discountType: e.target.value as CouponDiscountType })} className={inputClass}>
+                            {COUPON_DISCOUNT_TYPES.map(type => <option key={type} value={type}>{COUPON_DISCOUNT_TYPE_LABELS[type]}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">{form.discountType === 'percentage' ? 'Percent off' : 'Rupees off'}</label>
+                        <input type="number" min="0" value={form.discountValue} onChange={e => setForm({ ...form, discountValue: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Minimum bill (₹)</label>
+                        <input type="number" min="0" value={form.minimumBill} onChange={e => setForm({ ...form, minimumBill: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Expires (empty for never)</label>
+                        <input type="date" value={form.expiresAt ?? ''} onChange={e => setForm({ ...form, expiresAt: e.target.value || null })} className={inputClass} />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm self-end py-2">
+                        <input type="checkbox" checked={form.singleUse} onChange={e => setForm({ ...form, singleUse: e.target.checked })} className="h-4 w-4 rounded bg-brand-card border-brand-border text-brand-accent focus:ring-brand-accent" />
+                        Single use
+                    </label>
+                </div>
+                <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Coupon</button>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
+const EMPTY_REWARD: RewardInput = { name: '', pointsCost: 100, stock: 0 };
+
+const RewardCatalogManager: React.FC<{ rewards: Reward[], rewardActions: RewardActions }> = ({ rewards, rewardActions }) => {
+    const [form, setForm] = useState<RewardInput>(EMPTY_REWARD);
+    const [editing, setEditing] = useState<({ id: string } & RewardInput) | null>(null);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const handleAdd = async () => {
+        const reward = { ...form, name: form.name.trim() };
+        const problem = validateReward(reward);
+        if (problem) { setError(problem); return; }
+        if (await run(() => rewardActions.createReward(reward))) setForm(EMPTY_REWARD);
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const { id, ...reward } = { ...editing, name: editing.name.trim() };
+        const problem = validateReward(reward);
+        if (problem) { setError(problem); return; }
+        if (await run(() => rewardActions.updateReward(id, reward))) setEditing(null);
+    };
+
+    const inputClass = "w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+    const cellInputClass = "w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Rewards Catalog</h2>
+                <p className="text-sm text-brand-muted">Items customers can take for points, such as a free coffee. The cashier redeems them for a verified customer on the New Entry screen, which takes the points from their balance and one item from stock. Rewards that have been redeemed can be restocked but not removed.</p>
+                {rewards.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Reward</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Points</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Stock</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Redeemed</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rewards.map(reward => editing?.id === reward.id ? (
+                                    <tr key={reward.id} className="border-b border-brand-border/50">
+                                        <td className="p-3"><input type="text" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={cellInputClass} /></td>
+                                        <td className="p-3"><input type="number" min="1" value={editing.pointsCost} onChange={e => setEditing({ ...editing, pointsCost: Number(e.target.value) })} className={cellInputClass} /></td>
+                                        <td className="p-3"><input type="number" min="0" value={editing.stock} onChange={e => setEditing({ ...editing, stock: Number(e.target.value) })} className={cellInputClass} /></td>
+                                        <td className="p-3">{reward.redemptions.toLocaleString()}</td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            <button onClick={handleSave} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Save</button>
+                                            <button onClick={() => setEditing(null)} className="text-xs text-brand-muted hover:underline">Cancel</button>
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    <tr key={reward.id} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                        <td className="p-3">{reward.name}</td>
+                                        <td className="p-3">{reward.pointsCost.toLocaleString()}</td>
+                                        <td className={`p-3 ${reward.stock === 0 ? 'text-red-500' : ''}`}>{reward.stock.toLocaleString()}</td>
+                                        <td className="p-3">{reward.redemptions.toLocaleString()}</td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            <button onClick={() => setEditing({ id: reward.id, name: reward.name, pointsCost: reward.pointsCost, stock: reward.stock })} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Edit</button>
+                                            <button onClick={() => run(() => rewardActions.deleteReward(reward.id))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="md:col-span-2">
+                        <label className="block text-xs text-brand-muted mb-1">Reward</label>
+                        <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Free coffee" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Points</label>
+                        <input type="number" min="1" value={form.pointsCost} onChange={e => setForm({ ...form, pointsCost: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Stock</label>
+                        <input type="number" min="0" value={form.stock} onChange={e => setForm({ ...form, stock: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                </div>
+                <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Reward</button>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
+const TAX_MODE_LABELS: Record<TaxMode, string> = {
+    inclusive: 'Included in prices',
+    exclusive: 'Added to prices',
+};
+
+const TaxSettingsEditor: React.FC<{ taxSettings: TaxSettings, setTaxSettings: (settings: TaxSettings) => void, products: Product[] }> = ({ taxSettings, setTaxSettings, products }) => {
+    type FormState = { label: string; mode: TaxMode; defaultRate: string; categoryRates: Record<string, string> };
+
+    const initialFormState = useCallback((settings: TaxSettings): FormState => ({
+        label: settings.label,
+        mode: settings.mode,
+        defaultRate: settings.defaultRate.toString(),
+        categoryRates: Object.fromEntries(Object.entries(settings.categoryRates).map(([category, rate]) => [category, rate.toString()])),
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(taxSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(taxSettings)); }, [taxSettings, initialFormState]);
+
+    const updateForm = (update: (prev: FormState) => FormState) => {
+        setFormState(update);
+        setSaved(false);
+        setError('');
+    };
+
+    const handleRateChange = (category: string, value: string) => {
+        if (/^\d*\.?\d*$/.test(value)) updateForm(prev => ({ ...prev, categoryRates: { ...prev.categoryRates, [category]: value } }));
+    };
+
+    // Categories of the current products, and any that still have a rate saved. A blank rate uses the standard rate.
+    const categories = [...new Set([...products.map(p => p.category), ...Object.keys(formState.categoryRates)])].sort();
+    const newSettings: TaxSettings = {
+        label: formState.label.trim(),
+        mode: formState.mode,
+        defaultRate: parseFloat(formState.defaultRate) || 0,
+        categoryRates: Object.fromEntries(Object.entries(formState.categoryRates)
+            .filter(([, rate]) => rate.trim() !== '')
+            .map(([category, rate]) => [category, parseFloat(rate) || 0])),
+    };
+
+    const handleSaveChanges = () => {
+        const problem = validateTaxSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setTaxSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Tax</h2>
+                <p className="text-sm text-brand-muted -mt-4">{describeTaxRules(newSettings)} Tax is worked out after every discount. Points pay towards the bill with its tax, so they do not lower the tax.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Name</label>
+                        <input type="text" value={formState.label} onChange={e => updateForm(prev => ({ ...prev, label: e.target.value }))} maxLength={16} placeholder="GST" className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Prices</label>
+                        <select value={formState.mode} onChange={e => updateForm(prev => ({ ...prev, mode: e.target.value as TaxMode }))} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                            {TAX_MODES.map(mode => <option key={mode} value={mode}>{TAX_MODE_LABELS[mode]}</option>)}
+                        </select>
+                    </div>
+                    <TierNumberInput label="Standard Rate" value={formState.defaultRate} onChange={value => { if (/^\d*\.?\d*$/.test(value)) updateForm(prev => ({ ...prev, defaultRate: value })); }} suffix={<span className="absolute right-0 top-2 text-brand-muted">%</span>} />
+                </div>
+                {categories.length > 0 && (
+                    <div className="space-y-4">
+                        <h3 className="text-xs text-brand-muted uppercase tracking-wider">Rates by Product Category (blank = standard rate)</h3>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {categories.map(category => (
+                                <TierNumberInput key={category} label={category} value={formState.categoryRates[category] ?? ''} onChange={value => handleRateChange(category, value)} suffix={<span className="absolute right-0 top-2 text-brand-muted">%</span>} />
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const PrinterSettingsEditor: React.FC<{ printerSettings: PrinterSettings, setPrinterSettings: (settings: PrinterSettings) => void }> = ({ printerSettings, setPrinterSettings }) => {
+    type FormState = { paperWidth: PaperWidth; host: string; port: string };
+
+    const initialFormState = useCallback((settings: PrinterSettings): FormState => ({
+        paperWidth: settings.paperWidth,
+        host: settings.host,
+        port: settings.port.toString(),
+    }), []);
+
+    const [formState, setFormState] = useState<FormState>(initialFormState(printerSettings));
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setFormState(initialFormState(printerSettings)); }, [printerSettings, initialFormState]);
+
+    const updateForm = (update: (prev: FormState) => FormState) => {
+        setFormState(update);
+        setSaved(false);
+        setError('');
+    };
+
+    const handleSaveChanges = () => {
+        const newSettings: PrinterSettings = { paperWidth: formState.paperWidth, host: formState.host.trim(), port: parseInt(formState.port, 10) || 0 };
+        const problem = validatePrinterSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setPrinterSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Receipt Printer</h2>
+                <p className="text-sm text-brand-muted -mt-4">Receipts for thermal printers are laid out for the paper width below and end with a QR code of the receipt link. Without a printer address, the success screen offers the raw ESC/POS file to send to a printer attached to the till. With one, the server sends receipts straight to the printer, so it must be reachable from the server.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Paper</label>
+                        <select value={formState.paperWidth} onChange={e => updateForm(prev => ({ ...prev, paperWidth: Number(e.target.value) as PaperWidth }))} className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none cursor-pointer focus:border-brand-accent transition-colors">
+                            {PAPER_WIDTHS.map(width => <option key={width} value={width}>{PAPER_WIDTH_LABELS[width]}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Printer Address</label>
+                        <input type="text" value={formState.host} onChange={e => updateForm(prev => ({ ...prev, host: e.target.value }))} placeholder="192.168.1.50" className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                    </div>
+                    <TierNumberInput label="Port" value={formState.port} onChange={value => { if (/^\d*$/.test(value)) updateForm(prev => ({ ...prev, port: value })); }} />
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const TimeZoneSettingsEditor: React.FC<{ timeZoneSettings: TimeZoneSettings, setTimeZoneSettings: (settings: TimeZoneSettings) => void }> = ({ timeZoneSettings, setTimeZoneSettings }) => {
+    const [timeZone, setTimeZone] = useState(timeZoneSettings.timeZone);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setTimeZone(timeZoneSettings.timeZone); }, [timeZoneSettings]);
+
+    const handleSaveChanges = () => {
+        const newSettings: TimeZoneSettings = { timeZone: timeZone.trim() };
+        const problem = validateTimeZoneSettings(newSettings);
+        if (problem) { setError(problem); return; }
+        setTimeZoneSettings(newSettings);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-8">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Time Zone</h2>
+                <p className="text-sm text-brand-muted -mt-4">Campaign days and hours, and which bills are still today's for voiding, follow the business's clocks in this zone rather than the till's or the server's.</p>
+                <div>
+                    <label className="block text-xs text-brand-muted mb-2 uppercase tracking-wider">Time Zone</label>
+                    <input type="text" value={timeZone} onChange={e => { setTimeZone(e.target.value); setSaved(false); setError(''); }} placeholder="Asia/Kolkata" className="w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-base outline-none focus:border-brand-accent transition-colors" />
+                </div>
+                <div className="flex justify-between items-center pt-4 gap-4">
+                    {error ? <span className="text-red-500 text-xs">{error}</span> : <span />}
+                    <button onClick={handleSaveChanges} className={`bg-brand-accent text-white border border-brand-accent py-2 px-6 font-semibold transition-all ${saved ? 'bg-green-500 border-green-500' : 'hover:opacity-90'}`}>
+                        {saved ? 'Saved!' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const EMPTY_PRODUCT: ProductInput = { name: '', sku: '', price: 0, category: '' };
+
+const ProductCatalogManager: React.FC<{ products: Product[], productActions: ProductActions }> = ({ products, productActions }) => {
+    const [form, setForm] = useState<ProductInput>(EMPTY_PRODUCT);
+    const [editing, setEditing] = useState<({ id: string } & ProductInput) | null>(null);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const trimmed = (product: ProductInput): ProductInput => ({ ...product, name: product.name.trim(), sku: product.sku.trim(), category: product.category.trim() });
+
+    const handleAdd = async () => {
+        const product = trimmed(form);
+        const problem = validateProduct(product);
+        if (problem) { setError(problem); return; }
+        if (await run(() => productActions.createProduct(product))) setForm({ ...EMPTY_PRODUCT, category: product.category });
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const { id, ...product } = editing;
+        const problem = validateProduct(trimmed(product));
+        if (problem) { setError(problem); return; }
+        if (await run(() => productActions.updateProduct(id, trimmed(product)))) setEditing(null);
+    };
+
+    const inputClass = "w-full bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+    const cellInputClass = "w-24 bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors";
+    const categories = [...new Set(products.map(p => p.category))];
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Product Catalog</h2>
+                <p className="text-sm text-brand-muted">Products the cashier can put on a bill on the New Entry screen. Bills keep the name, SKU, category and price each product had when it was sold, so changing a product does not rewrite history. Products that have been sold cannot be removed.</p>
+                {products.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Product</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">SKU</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Category</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Price</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {products.map(product => editing?.id === product.id ? (
+                                    <tr key={product.id} className="border-b border-brand-border/50">
+                                        <td className="p-3"><input type="text" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={cellInputClass} /></td>
+                                        <td className="p-3"><input type="text" value={editing.sku} onChange={e => setEditing({ ...editing, sku: e.target.value })} className={cellInputClass} /></td>
+                                        <td className="p-3"><input type="text" list="product-categories" value={editing.category} onChange={e => setEditing({ ...editing, category: e.target.value })} className={cellInputClass} /></td>
+                                        <td className="p-3"><input type="number" min="0" value={editing.price} onChange={e => setEditing({ ...editing, price: Number(e.target.value) })} className={cellInputClass} /></td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            <button onClick={handleSave} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Save</button>
+                                            <button onClick={() => setEditing(null)} className="text-xs text-brand-muted hover:underline">Cancel</button>
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    <tr key={product.id} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                        <td className="p-3">{product.name}</td>
+                                        <td className="p-3 text-brand-muted">{product.sku}</td>
+                                        <td className="p-3">{product.category}</td>
+                                        <td className="p-3">₹{product.price.toLocaleString()}</td>
+                                        <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                            <button onClick={() => setEditing({ id: product.id, name: product.name, sku: product.sku, price: product.price, category: product.category })} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Edit</button>
+                                            <button onClick={() => run(() => productActions.deleteProduct(product.id))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <datalist id="product-categories">
+                    {categories.map(category => <option key={category} value={category} />)}
+                </datalist>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Product</label>
+                        <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Latte" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">SKU</label>
+                        <input type="text" value={form.sku} onChange={e => setForm({ ...form, sku: e.target.value })} maxLength={32} placeholder="COF-LAT" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Category</label>
+                        <input type="text" list="product-categories" value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} placeholder="Coffee" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-brand-muted mb-1">Price (₹)</label>
+                        <input type="number" min="0" value={form.price} onChange={e => setForm({ ...form, price: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                </div>
+                <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Product</button>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
+const BranchManager: React.FC<{ branches: Branch[], branchActions: BranchActions }> = ({ branches, branchActions }) => {
+    const [name, setName] = useState('');
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            setError(error instanceof Error ? error.message : String(error));
+            return false;
+        }
+    };
+
+    const handleAdd = async () => {
+        if (!name.trim()) { setError('Branch name is required.'); return; }
+        if (await run(() => branchActions.createBranch(name.trim()))) setName('');
+    };
+
+    const handleRename = async () => {
+        if (!renaming || !renaming.name.trim()) { setError('Branch name is required.'); return; }
+        if (await run(() => branchActions.renameBranch(renaming.id, renaming.name.trim()))) setRenaming(null);
+    };
+
+    return (
+        <Card>
+            <div className="space-y-4">
+                <h2 className="font-serif text-xl text-brand-muted pb-3 border-b border-brand-border">Branches</h2>
+                <p className="text-sm text-brand-muted">All branches share one customer base and one points balance. Each till picks its branch on the New Entry screen, and every transaction is tagged with it for per-branch analytics. Branches with transactions can be renamed but not removed.</p>
+                {branches.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-brand-border">
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider">Name</th>
+                                    <th className="p-3 text-xs text-brand-muted uppercase tracking-wider text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {branches.map(branch => (
+                                    <tr key={branch.id} className="border-b border-brand-border/50 hover:bg-gray-50">
+                                        <td className="p-3">
+                                            {renaming?.id === branch.id ? (
+                                                <input type="text" value={renaming.name} onChange={e => setRenaming({ id: branch.id, name: e.target.value })} className="bg-transparent border-b border-brand-border py-1 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                                            ) : branch.name}
+                                        </td>
+                                        <td className="p-3 text-right space-x-2">
+                                            {renaming?.id === branch.id ? (
+                                                <>
+                                                    <button onClick={handleRename} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Save</button>
+                                                    <button onClick={() => setRenaming(null)} className="text-xs text-brand-muted hover:underline">Cancel</button>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <button onClick={() => setRenaming({ id: branch.id, name: branch.name })} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Rename</button>
+                                                    <button onClick={() => run(() => branchActions.deleteBranch(branch.id))} className="text-xs px-3 py-1 rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50">Remove</button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Branch name" className="md:col-span-3 bg-transparent border-b border-brand-border py-2 text-brand-text text-sm outline-none focus:border-brand-accent transition-colors" />
+                    <button onClick={handleAdd} className="bg-brand-accent text-white border border-brand-accent py-2 px-4 text-sm font-semibold hover:opacity-90">Add Branch</button>
+                </div>
+                {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+        </Card>
+    );
+};
+
 export default Dashboard;
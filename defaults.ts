@@ -0,0 +1,94 @@
+import { TierSettings, SecuritySettings, PointsExpirySettings, EarningSettings, RedemptionSettings, ReferralSettings, CelebrationSettings, TaxSettings, PrinterSettings, TimeZoneSettings } from './types';
+
+// Defaults shared by the client and the server for settings a business has not saved yet.
+
+export const DEFAULT_TIER_SETTINGS: TierSettings = {
+  tiers: [
+    { id: 'bronze', name: 'Bronze', color: '#8d5b2d', minSpend: 0, minPoints: 0, discountPercentage: 0, deadlineDays: 365 },
+    { id: 'silver', name: 'Silver', color: '#a9a9a9', minSpend: 2000, minPoints: 100, discountPercentage: 5, deadlineDays: 180 },
+    { id: 'gold', name: 'Gold', color: '#ffd700', minSpend: 10000, minPoints: 500, discountPercentage: 10, deadlineDays: 90 },
+    { id: 'platinum', name: 'Platinum', color: '#c4b5fd', minSpend: 50000, minPoints: 2500, discountPercentage: 15, deadlineDays: 60 },
+  ],
+  qualification: 'either',
+  spendWeight: 50,
+  windowMonths: 0,
+  graceDays: 0,
+};
+
+// Change left with the store becomes points, as before earning rules were configurable.
+export const DEFAULT_EARNING_SETTINGS: EarningSettings = {
+  mode: 'change',
+  pointsPerUnit: 1,
+  spendUnit: 100,
+  tierMultipliers: {},
+  minimumBill: 0,
+  maxPointsPerTransaction: 0,
+};
+
+// One point pays one rupee, and points may pay the whole bill.
+export const DEFAULT_REDEMPTION_SETTINGS: RedemptionSettings = {
+  pointValue: 1,
+  minimumBalance: 0,
+  maxBillPercentage: 100,
+  blockSize: 1,
+};
+
+// Referrals are recorded from the start, but pay nothing until a business sets the bonuses.
+export const DEFAULT_REFERRAL_SETTINGS: ReferralSettings = {
+  referrerPoints: 0,
+  refereePoints: 0,
+  minimumBill: 0,
+};
+
+// No tax is charged until a business sets a rate. Prices in India usually include GST.
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  label: 'GST',
+  mode: 'inclusive',
+  defaultRate: 0,
+  categoryRates: {},
+};
+
+// An 80mm printer with no network address: receipts are downloaded until a host is set.
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  paperWidth: 48,
+  host: '',
+  port: 9100,
+};
+
+// Prices are in rupees, so the business is assumed to keep Indian time until it says otherwise.
+export const DEFAULT_TIME_ZONE_SETTINGS: TimeZoneSettings = {
+  timeZone: 'Asia/Kolkata',
+};
+
+// Birthdays and anniversaries are switched off until a business chooses a reward.
+export const DEFAULT_CELEBRATION_SETTINGS: CelebrationSettings = {
+  birthday: {
+    enabled: false,
+    rewardType: 'points',
+    points: 100,
+    discountPercentage: 10,
+    sendSms: false,
+    smsTemplate: 'Happy birthday, {name}! {business} has a gift for you this week: {reward}.',
+  },
+  anniversary: {
+    enabled: false,
+    rewardType: 'points',
+    points: 100,
+    discountPercentage: 10,
+    sendSms: false,
+    smsTemplate: 'Happy anniversary, {name}! Thank you for another year with {business}. Enjoy {reward}.',
+  },
+};
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  maxPinAttempts: 5,
+  pinLockoutMinutes: 15,
+  otpExpiryMinutes: 10,
+  maxOtpAttempts: 3,
+};
+
+// Points never expire until a business sets a validity period.
+export const DEFAULT_POINTS_EXPIRY_SETTINGS: PointsExpirySettings = {
+  validityDays: {},
+  reminderDays: 0,
+};
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Branch } from '../types';
+import * as api from '../src/services/api';
+
+export interface BranchActions {
+  createBranch: (name: string) => Promise<void>;
+  renameBranch: (id: string, name: string) => Promise<void>;
+  deleteBranch: (id: string) => Promise<void>;
+}
+
+// Loads the business's branches. Every write returns the full list, which replaces the local copy.
+export function useBranches(businessId: string | null = null): [Branch[], BranchActions] {
+  const [branches, setBranches] = useState<Branch[]>([]);
+
+  useEffect(() => {
+    setBranches([]);
+    if (!businessId) return;
+    let cancelled = false;
+    api.fetchBranches()
+      .then(loaded => { if (!cancelled) setBranches(loaded); })
+      .catch(error => console.warn('Error loading branches:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const createBranch = useCallback(async (name: string) => setBranches(await api.createBranch(name)), []);
+  const renameBranch = useCallback(async (id: string, name: string) => setBranches(await api.renameBranch(id, name)), []);
+  const deleteBranch = useCallback(async (id: string) => setBranches(await api.deleteBranch(id)), []);
+
+  return [branches, { createBranch, renameBranch, deleteBranch }];
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Campaign } from '../types';
+import { CampaignInput } from '../src/utils/campaignUtils';
+import * as api from '../src/services/api';
+
+export interface CampaignActions {
+  createCampaign: (campaign: CampaignInput) => Promise<void>;
+  updateCampaign: (id: string, campaign: CampaignInput) => Promise<void>;
+  deleteCampaign: (id: string) => Promise<void>;
+}
+
+// Loads the business's campaigns. Every write returns the full list, which replaces the local copy.
+export function useCampaigns(businessId: string | null = null): [Campaign[], CampaignActions] {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+
+  useEffect(() => {
+    setCampaigns([]);
+    if (!businessId) return;
+    let cancelled = false;
+    api.fetchCampaigns()
+      .then(loaded => { if (!cancelled) setCampaigns(loaded); })
+      .catch(error => console.warn('Error loading campaigns:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const createCampaign = useCallback(async (campaign: CampaignInput) => setCampaigns(await api.createCampaign(campaign)), []);
+  const updateCampaign = useCallback(async (id: string, campaign: CampaignInput) => setCampaigns(await api.updateCampaign(id, campaign)), []);
+  const deleteCampaign = useCallback(async (id: string) => setCampaigns(await api.deleteCampaign(id)), []);
+
+  return [campaigns, { createCampaign, updateCampaign, deleteCampaign }];
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Customer, TransactionHistory } from '../types';
+import * as api from '../src/services/api';
+
+export interface CustomerActions {
+  reloadCustomers: () => Promise<void>;
+  createCustomer: (customer: Customer) => Promise<Customer>;
+  recordTransaction: (mobile: string, entry: TransactionHistory, pinToken?: string) => Promise<Customer>;
+  unlockCustomer: (mobile: string) => Promise<Customer>;
+  resetPin: (mobile: string, code: string, newPin: string) => Promise<Customer>;
+  adjustBalance: (mobile: string, adjustment: { points?: number; amount?: number; note: string }) => Promise<Customer>;
+  redeemReward: (mobile: string, rewardId: string, pinToken: string, branchId?: string) => Promise<Customer>;
+  voidTransaction: (mobile: string, transactionId: string, reason: string) => Promise<Customer>;
+  refundTransaction: (mobile: string, transactionId: string, reason: string, amount?: number) => Promise<Customer>;
+}
+
+// Loads the business's customers from the server and keeps the local list in step with every write.
+export function useCustomers(businessId: string | null = null): [Customer[], CustomerActions] {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+
+  // For changes made on the server outside these actions, such as a points expiry run.
+  const reloadCustomers = useCallback(async () => {
+    if (businessId) setCustomers(await api.fetchCustomers());
+  }, [businessId]);
+
+  useEffect(() => {
+    setCustomers([]);
+    if (!businessId) return;
+    let cancelled = false;
+    api.fetchCustomers()
+      .then(loaded => { if (!cancelled) setCustomers(loaded); })
+      .catch(error => console.warn('Error loading customers:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const replaceCustomer = (updated: Customer) =>
+    setCustomers(prev => prev.some(c => c.mobile === updated.mobile)
+      ? prev.map(c => c.mobile === updated.mobile ? updated : c)
+      : [...prev, updated]);
+
+  const createCustomer = useCallback(async (customer: Customer) => {
+    const created = await api.createCustomer(customer);
+    replaceCustomer(created);
+    return created;
+  }, []);
+
+  const recordTransaction = useCallback(async (mobile: string, entry: TransactionHistory, pinToken?: string) => {
+    const updated = await api.recordTransaction(mobile, entry, pinToken);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const unlockCustomer = useCallback(async (mobile: string) => {
+    const updated = await api.unlockCustomer(mobile);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const resetPin = useCallback(async (mobile: string, code: string, newPin: string) => {
+    const updated = await api.confirmPinReset(mobile, code, newPin);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const adjustBalance = useCallback(async (mobile: string, adjustment: { points?: number; amount?: number; note: string }) => {
+    const updated = await api.adjustBalance(mobile, adjustment);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const redeemReward = useCallback(async (mobile: string, rewardId: string, pinToken: string, branchId?: string) => {
+    const updated = await api.redeemReward(mobile, rewardId, pinToken, branchId);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const voidTransaction = useCallback(async (mobile: string, transactionId: string, reason: string) => {
+    const updated = await api.voidTransaction(mobile, transactionId, reason);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  const refundTransaction = useCallback(async (mobile: string, transactionId: string, reason: string, amount?: number) => {
+    const updated = await api.refundTransaction(mobile, transactionId, reason, amount);
+    replaceCustomer(updated);
+    return updated;
+  }, []);
+
+  return [customers, { reloadCustomers, createCustomer, recordTransaction, unlockCustomer, resetPin, adjustBalance, redeemReward, voidTransaction, refundTransaction }];
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { importLocalData } from '../src/services/api';
+
+// localStorage keys used before data moved to the server, mapped to the settings they held.
+const LEGACY_SETTINGS_KEYS: Record<string, string> = {
+  tierSettings: 'loyaltySettings',
+  discountSettings: 'loyaltyDiscounts',
+  deadlineSettings: 'loyaltyDeadlines',
+};
+
+const readLegacyValue = (key: string) => {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : null;
+  } catch (error) {
+    console.warn(`Error reading localStorage key “${key}”:`, error);
+    return null;
+  }
+};
+
+// Pushes whatever the browser still holds for this business to the server once, then remembers that it did.
+// Returns true once the server is safe to read from.
+export function useLocalDataImport(username: string | null = null): boolean {
+  const [readyFor, setReadyFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!username) return;
+    const doneKey = `${username}_serverImportDone`;
+    if (window.localStorage.getItem(doneKey)) {
+      setReadyFor(username);
+      return;
+    }
+
+    const settings: Record<string, unknown> = {};
+    Object.entries(LEGACY_SETTINGS_KEYS).forEach(([settingsKey, storageKey]) => {
+      const value = readLegacyValue(`${username}_${storageKey}`);
+      if (value) settings[settingsKey] = value;
+    });
+
+    let cancelled = false;
+    importLocalData({
+      customers: readLegacyValue(`${username}_loyaltyDB`) || [],
+      settings,
+      smsLogs: readLegacyValue(`${username}_smsLogsDB`) || [],
+    })
+      .then(imported => {
+        console.log('Imported local data to server:', imported);
+        window.localStorage.setItem(doneKey, new Date().toISOString());
+      })
+      .catch(error => console.error('Error importing local data:', error))
+      .finally(() => {
+        if (!cancelled) setReadyFor(username);
+      });
+
+    return () => { cancelled = true; };
+  }, [username]);
+
+  return !!username && readyFor === username;
+}
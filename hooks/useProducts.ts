@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product } from '../types';
+import { ProductInput } from '../src/utils/productUtils';
+import * as api from '../src/services/api';
+
+export interface ProductActions {
+  createProduct: (product: ProductInput) => Promise<void>;
+  updateProduct: (id: string, product: ProductInput) => Promise<void>;
+  deleteProduct: (id: string) => Promise<void>;
+}
+
+// Loads the business's product catalog. Every write returns the full list, which replaces the local copy.
+export function useProducts(businessId: string | null = null): [Product[], ProductActions] {
+  const [products, setProducts] = useState<Product[]>([]);
+
+  useEffect(() => {
+    setProducts([]);
+    if (!businessId) return;
+    let cancelled = false;
+    api.fetchProducts()
+      .then(loaded => { if (!cancelled) setProducts(loaded); })
+      .catch(error => console.warn('Error loading products:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const createProduct = useCallback(async (product: ProductInput) => setProducts(await api.createProduct(product)), []);
+  const updateProduct = useCallback(async (id: string, product: ProductInput) => setProducts(await api.updateProduct(id, product)), []);
+  const deleteProduct = useCallback(async (id: string) => setProducts(await api.deleteProduct(id)), []);
+
+  return [products, { createProduct, updateProduct, deleteProduct }];
+}
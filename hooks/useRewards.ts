@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Reward } from '../types';
+import { RewardInput } from '../src/utils/rewardUtils';
+import * as api from '../src/services/api';
+
+export interface RewardActions {
+  reloadRewards: () => Promise<void>;
+  createReward: (reward: RewardInput) => Promise<void>;
+  updateReward: (id: string, reward: RewardInput) => Promise<void>;
+  deleteReward: (id: string) => Promise<void>;
+}
+
+// Loads the business's rewards catalog. Every write returns the full list, which replaces the local copy.
+export function useRewards(businessId: string | null = null): [Reward[], RewardActions] {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+
+  // For stock taken by a redemption at the till.
+  const reloadRewards = useCallback(async () => {
+    if (businessId) setRewards(await api.fetchRewards());
+  }, [businessId]);
+
+  useEffect(() => {
+    setRewards([]);
+    if (!businessId) return;
+    let cancelled = false;
+    api.fetchRewards()
+      .then(loaded => { if (!cancelled) setRewards(loaded); })
+      .catch(error => console.warn('Error loading rewards:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const createReward = useCallback(async (reward: RewardInput) => setRewards(await api.createReward(reward)), []);
+  const updateReward = useCallback(async (id: string, reward: RewardInput) => setRewards(await api.updateReward(id, reward)), []);
+  const deleteReward = useCallback(async (id: string) => setRewards(await api.deleteReward(id)), []);
+
+  return [rewards, { reloadRewards, createReward, updateReward, deleteReward }];
+}
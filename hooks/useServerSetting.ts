@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchSetting, saveSetting } from '../src/services/api';
+
+// Server-backed counterpart of useLocalStorage for a single settings document. Stored documents are merged over
+// the initial value, as on the server, so documents saved before a field existed still work. The setter resolves
+// once the server has the new value.
+export function useServerSetting<T>(key: string, initialValue: T, businessId: string | null = null): [T, (value: T) => Promise<void>] {
+  const [storedValue, setStoredValue] = useState<T>(initialValue);
+
+  useEffect(() => {
+    setStoredValue(initialValue);
+    if (!businessId) return;
+    let cancelled = false;
+    fetchSetting<T>(key)
+      .then(value => {
+        if (!cancelled && value !== null) setStoredValue({ ...initialValue, ...value });
+      })
+      .catch(error => console.warn(`Error loading setting “${key}”:`, error));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, businessId]);
+
+  const setValue = useCallback((value: T) => {
+    setStoredValue(value);
+    return saveSetting(key, value).catch(error => console.warn(`Error saving setting “${key}”:`, error));
+  }, [key]);
+
+  return [storedValue, setValue];
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SmsLog } from '../types';
+import { fetchSmsLogs, createSmsLog } from '../src/services/api';
+
+export function useSmsLogs(businessId: string | null = null): [SmsLog[], (log: SmsLog) => void] {
+  const [smsLogs, setSmsLogs] = useState<SmsLog[]>([]);
+
+  useEffect(() => {
+    setSmsLogs([]);
+    if (!businessId) return;
+    let cancelled = false;
+    fetchSmsLogs()
+      .then(loaded => { if (!cancelled) setSmsLogs(loaded); })
+      .catch(error => console.warn('Error loading SMS logs:', error));
+    return () => { cancelled = true; };
+  }, [businessId]);
+
+  const addSmsLog = useCallback((log: SmsLog) => {
+    setSmsLogs(prev => [log, ...prev]);
+    createSmsLog(log).catch(error => console.warn('Error saving SMS log:', error));
+  }, []);
+
+  return [smsLogs, addSmsLog];
+}
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { requireSession, requireSessionOrApiKey, requireRole } from './middleware';
+import authRouter from './routes/auth';
+import customersRouter from './routes/customers';
+import settingsRouter from './routes/settings';
+import smsLogsRouter from './routes/smsLogs';
+import importDataRouter from './routes/importData';
+import smsRouter from './routes/sms';
+import apiKeysRouter from './routes/apiKeys';
+import pinLockoutsRouter from './routes/pinLockouts';
+import pointsExpiryRouter from './routes/pointsExpiry';
+import tierReviewRouter from './routes/tierReview';
+import celebrationsRouter from './routes/celebrations';
+import staffRouter from './routes/staff';
+import branchesRouter from './routes/branches';
+import campaignsRouter from './routes/campaigns';
+import couponsRouter from './routes/coupons';
+import rewardsRouter from './routes/rewards';
+import productsRouter from './routes/products';
+import receiptsRouter from './routes/receipts';
+
+// API routes shared by the dev server (server.ts) and the Vercel handler (api/index.ts).
+export const createApiRouter = () => {
+  const router = Router();
+  router.use('/auth', authRouter);
+  router.use('/customers', requireSession, customersRouter);
+  router.use('/settings', requireSession, settingsRouter);
+  router.use('/sms-logs', requireSession, smsLogsRouter);
+  router.use('/pin-lockouts', requireSession, requireRole('owner'), pinLockoutsRouter);
+  router.use('/import', requireSession, requireRole('owner'), importDataRouter);
+  router.use('/api-keys', requireSession, requireRole('owner'), apiKeysRouter);
+  router.use('/staff', requireSession, requireRole('owner'), staffRouter);
+  router.use('/branches', requireSession, branchesRouter);
+  router.use('/campaigns', requireSession, campaignsRouter);
+  router.use('/coupons', requireSession, couponsRouter);
+  router.use('/rewards', requireSession, rewardsRouter);
+  router.use('/products', requireSession, productsRouter);
+  router.use('/receipts', receiptsRouter);
+  router.use('/send-sms', requireSessionOrApiKey, smsRouter);
+  router.use('/points-expiry', requireSessionOrApiKey, requireRole('owner'), pointsExpiryRouter);
+  router.use('/tier-review', requireSessionOrApiKey, requireRole('owner'), tierReviewRouter);
+  router.use('/celebrations', requireSessionOrApiKey, requireRole('owner'), celebrationsRouter);
+  return router;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { runCelebrations } from './celebrations';
+import { createCustomer, getCustomer } from './stores/customerStore';
+import { saveSetting } from './stores/settingsStore';
+import { listSmsLogs } from './stores/smsLogStore';
+import { sendSms } from './sms';
+import { DEFAULT_CELEBRATION_SETTINGS } from '../defaults';
+
+vi.mock('./sms', () => ({ sendSms: vi.fn(async () => 'SM1') }));
+
+const now = new Date('2026-06-30T12:00:00.000Z');
+
+// 100 points and a text on birthdays; 10% off, without a text, on anniversaries.
+beforeAll(() => {
+  saveSetting('cafe', 'celebrationSettings', {
+    birthday: { ...DEFAULT_CELEBRATION_SETTINGS.birthday, enabled: true, rewardType: 'points', points: 100, sendSms: true },
+    anniversary: { ...DEFAULT_CELEBRATION_SETTINGS.anniversary, enabled: true, rewardType: 'discount', discountPercentage: 10, sendSms: false },
+  });
+});
+
+describe('runCelebrations', () => {
+  it('grants each reward once in the occasion week and texts the greeting', async () => {
+    createCustomer('cafe', { mobile: '+911', name: 'Asha', history: [], pinHash: 'hash', dateOfBirth: '1990-06-28', memberSince: '2024-06-29' }, 'owner');
+    createCustomer('cafe', { mobile: '+912', name: 'Ravi', history: [], pinHash: 'hash', dateOfBirth: '1990-06-20', memberSince: '2024-07-01' }, 'owner');
+    vi.mocked(sendSms).mockClear();
+
+    expect(await runCelebrations('cafe', now)).toEqual({ granted: 2, pointsGranted: 100, smsSent: 1 });
+    const customer = getCustomer('cafe', '+911');
+    expect(customer?.points).toBe(100);
+    expect(customer?.celebrations?.map(grant => [grant.occasion, grant.rewardType])).toEqual(expect.arrayContaining([['birthday', 'points'], ['anniversary', 'discount']]));
+    expect(getCustomer('cafe', '+912')?.celebrations).toEqual([]);
+    expect(vi.mocked(sendSms).mock.lastCall).toEqual(['cafe', '+911', expect.stringMatching(/^Happy birthday, Asha! Pay Loop has a gift for you this week: /)]);
+    expect(listSmsLogs('cafe').map(log => log.recipientMobile)).toEqual(['+911']);
+
+    expect(await runCelebrations('cafe', now)).toEqual({ granted: 0, pointsGranted: 0, smsSent: 0 });
+    expect(getCustomer('cafe', '+911')?.points).toBe(100);
+  });
+
+  it('tries a greeting that failed again on the next run', async () => {
+    createCustomer('cafe', { mobile: '+913', name: 'Meera', history: [], pinHash: 'hash', dateOfBirth: '1985-06-29', memberSince: '2020-01-01' }, 'owner');
+    vi.mocked(sendSms).mockRejectedValueOnce(new Error('Twilio is down'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await runCelebrations('cafe', now)).toEqual({ granted: 1, pointsGranted: 100, smsSent: 0 });
+    expect(await runCelebrations('cafe', now)).toEqual({ granted: 0, pointsGranted: 0, smsSent: 1 });
+  });
+
+  it('grants nothing while the rewards are switched off', async () => {
+    createCustomer('closed', { mobile: '+921', name: 'Asha', history: [], pinHash: 'hash', dateOfBirth: '1990-06-28' }, 'owner');
+    expect(await runCelebrations('closed', now)).toEqual({ granted: 0, pointsGranted: 0, smsSent: 0 });
+  });
+});
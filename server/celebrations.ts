@@ -0,0 +1,89 @@
+import { db } from './db';
+import { sendSms } from './sms';
+import { listCustomers, getCustomer, appendLedgerEntry } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { addSmsLog } from './stores/smsLogStore';
+import { getAdmin } from './stores/adminStore';
+import { recordCelebrationGrant, listUnsentCelebrationGrants, markCelebrationSmsSent } from './stores/celebrationStore';
+import { OCCASIONS, OCCASION_LABELS, getOccasionWeek, describeCelebrationReward, fillCelebrationTemplate } from '../src/utils/celebrationUtils';
+import { DEFAULT_CELEBRATION_SETTINGS } from '../defaults';
+
+// How often the background job runs in a long-lived server. Serverless deployments call the run route instead.
+const CELEBRATION_INTERVAL_MINUTES = Number(process.env.CELEBRATION_INTERVAL_MINUTES) || 60;
+
+export interface CelebrationRun {
+  granted: number;
+  pointsGranted: number;
+  smsSent: number;
+}
+
+// Grants each switched-on reward once to every customer whose birthday or anniversary week has started, then texts
+// the greeting for grants that have not had one. A greeting that cannot be sent is retried on the next run until
+// the week is over.
+export const runCelebrations = async (businessId: string, now = new Date()): Promise<CelebrationRun> => {
+  const settings = getSettingOrDefault(businessId, 'celebrationSettings', DEFAULT_CELEBRATION_SETTINGS);
+  const result: CelebrationRun = { granted: 0, pointsGranted: 0, smsSent: 0 };
+
+  listCustomers(businessId).forEach(customer => OCCASIONS.forEach(occasion => {
+    const reward = settings[occasion];
+    const week = reward.enabled ? getOccasionWeek(customer, occasion, now) : null;
+    if (!week) return;
+    db.transaction(() => {
+      const grant = recordCelebrationGrant(businessId, customer.mobile, {
+        occasion,
+        year: week.year,
+        rewardType: reward.rewardType,
+        points: reward.rewardType === 'points' ? reward.points : 0,
+        discountPercentage: reward.rewardType === 'discount' ? reward.discountPercentage : 0,
+        validUntil: week.endsAt.toISOString(),
+        grantedAt: now.toISOString(),
+      });
+      if (!grant) return;
+      if (grant.points > 0) {
+        appendLedgerEntry(businessId, customer.mobile, {
+          type: 'adjust', points: grant.points, note: `${OCCASION_LABELS[occasion]} bonus ${week.year}`, createdAt: now.toISOString(),
+        }, 'system');
+      }
+      result.granted++;
+      result.pointsGranted += grant.points;
+    })();
+  }));
+
+  const businessName = getAdmin(businessId)?.businessName || 'Pay Loop';
+  for (const grant of listUnsentCelebrationGrants(businessId, now)) {
+    const reward = settings[grant.occasion];
+    const customer = reward.sendSms ? getCustomer(businessId, grant.mobile) : null;
+    if (!customer) continue;
+    const message = fillCelebrationTemplate(reward.smsTemplate, { name: customer.name, business: businessName, reward: describeCelebrationReward(grant) });
+    try {
+      await sendSms(businessId, customer.mobile, message);
+    } catch (error) {
+      console.warn(`${OCCASION_LABELS[grant.occasion]} greeting to ${customer.mobile} not sent:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    const sentAt = new Date().toISOString();
+    markCelebrationSmsSent(businessId, grant.id, sentAt);
+    addSmsLog(businessId, { timestamp: sentAt, recipientMobile: customer.mobile, recipientName: customer.name, message });
+    result.smsSent++;
+  }
+  return result;
+};
+
+export const runCelebrationsForAllBusinesses = async () => {
+  const businesses = db.prepare('SELECT DISTINCT business_id FROM customers').all() as { business_id: string }[];
+  for (const { business_id: businessId } of businesses) {
+    try {
+      const run = await runCelebrations(businessId);
+      if (run.granted > 0 || run.smsSent > 0) console.log(`Celebrations for ${businessId}:`, run);
+    } catch (error) {
+      console.error(`Celebrations failed for ${businessId}:`, error);
+    }
+  }
+};
+
+// Runs the celebrations pass once at start-up and then on a fixed interval.
+export const startCelebrationJob = () => {
+  const run = () => { runCelebrationsForAllBusinesses(); };
+  run();
+  return setInterval(run, CELEBRATION_INTERVAL_MINUTES * 60 * 1000);
+};
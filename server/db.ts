@@ -0,0 +1,555 @@
+import 'dotenv/config';
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { hashSecretSync } from './passwords';
+import { tierSettingsFromLegacy, LegacyTierDocuments } from './legacyTierSettings';
+
+// Location of the embedded database file. Override with DATABASE_PATH (e.g. ':memory:' for throwaway runs).
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'payloop.db');
+
+type Migration = string | ((database: Database.Database) => void);
+
+// Schema migrations, applied in order. The index of each entry is tracked in SQLite's user_version,
+// so new tables or columns must be appended here rather than edited in place.
+// Entries are SQL scripts, or functions for changes SQL alone cannot make.
+const MIGRATIONS: Migration[] = [
+  `
+  CREATE TABLE customers (
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    name TEXT NOT NULL,
+    pin TEXT NOT NULL,
+    points REAL NOT NULL DEFAULT 0,
+    total_spent REAL NOT NULL DEFAULT 0,
+    PRIMARY KEY (business_id, mobile)
+  );
+
+  CREATE TABLE transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    date TEXT NOT NULL,
+    bill REAL NOT NULL,
+    discount_percentage REAL,
+    final_bill REAL NOT NULL,
+    points_used REAL NOT NULL DEFAULT 0,
+    points REAL NOT NULL DEFAULT 0,
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_transactions_customer ON transactions (business_id, mobile);
+
+  CREATE TABLE settings (
+    business_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (business_id, key)
+  );
+
+  CREATE TABLE sms_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    recipient_mobile TEXT NOT NULL,
+    recipient_name TEXT NOT NULL,
+    message TEXT NOT NULL
+  );
+  CREATE INDEX idx_sms_logs_business ON sms_logs (business_id, timestamp);
+  `,
+  `
+  CREATE TABLE admins (
+    username TEXT PRIMARY KEY,
+    business_name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    username TEXT NOT NULL REFERENCES admins (username) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_sessions_expiry ON sessions (expires_at);
+  `,
+  `
+  CREATE TABLE api_keys (
+    key_hash TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sms_sends (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL,
+    recipient_mobile TEXT NOT NULL,
+    sent_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_sms_sends_business ON sms_sends (business_id, sent_at);
+  `,
+  (database) => {
+    // Customer PINs were stored in clear text; replace each with a salted scrypt hash.
+    database.exec(`
+      ALTER TABLE customers RENAME COLUMN pin TO pin_hash;
+      ALTER TABLE customers ADD COLUMN failed_pin_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE customers ADD COLUMN locked_until TEXT;
+
+      CREATE TABLE pin_lockouts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id TEXT NOT NULL,
+        mobile TEXT NOT NULL,
+        failed_attempts INTEGER NOT NULL,
+        locked_at TEXT NOT NULL,
+        locked_until TEXT NOT NULL
+      );
+      CREATE INDEX idx_pin_lockouts_business ON pin_lockouts (business_id, locked_at);
+    `);
+    const rows = database.prepare('SELECT business_id, mobile, pin_hash FROM customers').all() as { business_id: string; mobile: string; pin_hash: string }[];
+    const update = database.prepare('UPDATE customers SET pin_hash = ? WHERE business_id = ? AND mobile = ?');
+    rows.forEach(row => update.run(hashSecretSync(row.pin_hash), row.business_id, row.mobile));
+  },
+  `
+  CREATE TABLE pin_reset_codes (
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    PRIMARY KEY (business_id, mobile),
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  `,
+  (database) => {
+    // Balances move from mutable customer columns to an append-only ledger. Transactions get string IDs and an actor,
+    // each one is replayed as earn/redeem entries, and any gap to the old stored totals is booked as an adjustment.
+    database.exec(`
+      CREATE TABLE transactions_new (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        mobile TEXT NOT NULL,
+        date TEXT NOT NULL,
+        bill REAL NOT NULL,
+        discount_percentage REAL,
+        final_bill REAL NOT NULL,
+        points_used REAL NOT NULL DEFAULT 0,
+        points REAL NOT NULL DEFAULT 0,
+        actor TEXT NOT NULL,
+        FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+      );
+
+      CREATE TABLE ledger_entries (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        mobile TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('earn', 'redeem', 'adjust', 'expire')),
+        points REAL NOT NULL DEFAULT 0,
+        amount REAL NOT NULL DEFAULT 0,
+        transaction_id TEXT REFERENCES transactions_new (id),
+        actor TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+      );
+      CREATE INDEX idx_ledger_entries_customer ON ledger_entries (business_id, mobile, created_at);
+    `);
+
+    const insertTransaction = database.prepare(`
+      INSERT INTO transactions_new (id, business_id, mobile, date, bill, discount_percentage, final_bill, points_used, points, actor)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'system')
+    `);
+    const insertEntry = database.prepare(`
+      INSERT INTO ledger_entries (id, business_id, mobile, type, points, amount, transaction_id, actor, note, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'system', ?, ?)
+    `);
+    const transactions = database.prepare('SELECT * FROM transactions ORDER BY id').all() as {
+      business_id: string; mobile: string; date: string; bill: number; discount_percentage: number | null; final_bill: number; points_used: number; points: number;
+    }[];
+    transactions.forEach(t => {
+      const id = crypto.randomUUID();
+      insertTransaction.run(id, t.business_id, t.mobile, t.date, t.bill, t.discount_percentage, t.final_bill, t.points_used, t.points);
+      insertEntry.run(crypto.randomUUID(), t.business_id, t.mobile, 'earn', t.points, t.final_bill, id, null, t.date);
+      if (t.points_used > 0) insertEntry.run(crypto.randomUUID(), t.business_id, t.mobile, 'redeem', -t.points_used, 0, id, null, t.date);
+    });
+
+    const gaps = database.prepare(`
+      SELECT c.business_id, c.mobile,
+        c.points - COALESCE(SUM(l.points), 0) AS points,
+        c.total_spent - COALESCE(SUM(l.amount), 0) AS amount
+      FROM customers c LEFT JOIN ledger_entries l ON l.business_id = c.business_id AND l.mobile = c.mobile
+      GROUP BY c.business_id, c.mobile
+    `).all() as { business_id: string; mobile: string; points: number; amount: number }[];
+    const now = new Date().toISOString();
+    gaps.filter(g => Math.abs(g.points) > 1e-9 || Math.abs(g.amount) > 1e-9).forEach(g => {
+      insertEntry.run(crypto.randomUUID(), g.business_id, g.mobile, 'adjust', g.points, g.amount, null, 'Opening balance carried over from stored totals', now);
+    });
+
+    database.exec(`
+      DROP TABLE transactions;
+      ALTER TABLE transactions_new RENAME TO transactions;
+      CREATE INDEX idx_transactions_customer ON transactions (business_id, mobile);
+      ALTER TABLE customers DROP COLUMN points;
+      ALTER TABLE customers DROP COLUMN total_spent;
+
+      -- Rows only ever leave these tables along with their customer.
+      CREATE TRIGGER transactions_append_only_update BEFORE UPDATE ON transactions
+      BEGIN SELECT RAISE(ABORT, 'Transactions are append-only.'); END;
+      CREATE TRIGGER transactions_append_only_delete BEFORE DELETE ON transactions
+      WHEN EXISTS (SELECT 1 FROM customers WHERE business_id = OLD.business_id AND mobile = OLD.mobile)
+      BEGIN SELECT RAISE(ABORT, 'Transactions are append-only.'); END;
+      CREATE TRIGGER ledger_entries_append_only_update BEFORE UPDATE ON ledger_entries
+      BEGIN SELECT RAISE(ABORT, 'Ledger entries are append-only.'); END;
+      CREATE TRIGGER ledger_entries_append_only_delete BEFORE DELETE ON ledger_entries
+      WHEN EXISTS (SELECT 1 FROM customers WHERE business_id = OLD.business_id AND mobile = OLD.mobile)
+      BEGIN SELECT RAISE(ABORT, 'Ledger entries are append-only.'); END;
+    `);
+  },
+  `
+  CREATE TABLE transaction_reversals (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    transaction_id TEXT NOT NULL REFERENCES transactions (id),
+    kind TEXT NOT NULL CHECK (kind IN ('void', 'refund')),
+    amount REAL NOT NULL,
+    points_reversed REAL NOT NULL,
+    points_restored REAL NOT NULL,
+    reason TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_transaction_reversals_transaction ON transaction_reversals (transaction_id);
+
+  ALTER TABLE ledger_entries ADD COLUMN reversal_id TEXT REFERENCES transaction_reversals (id);
+
+  CREATE TRIGGER transaction_reversals_append_only_update BEFORE UPDATE ON transaction_reversals
+  BEGIN SELECT RAISE(ABORT, 'Reversals are append-only.'); END;
+  CREATE TRIGGER transaction_reversals_append_only_delete BEFORE DELETE ON transaction_reversals
+  WHEN EXISTS (SELECT 1 FROM customers WHERE business_id = OLD.business_id AND mobile = OLD.mobile)
+  BEGIN SELECT RAISE(ABORT, 'Reversals are append-only.'); END;
+  `,
+  `
+  CREATE TABLE points_expiry_reminders (
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    lot_entry_id TEXT NOT NULL REFERENCES ledger_entries (id),
+    sent_at TEXT NOT NULL,
+    PRIMARY KEY (business_id, lot_entry_id),
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  `,
+  `
+  -- Every existing account becomes the owner of its own business; staff rows point at their owner.
+  ALTER TABLE admins ADD COLUMN business_id TEXT REFERENCES admins (username) ON DELETE CASCADE;
+  ALTER TABLE admins ADD COLUMN role TEXT NOT NULL DEFAULT 'owner' CHECK (role IN ('owner', 'manager', 'cashier'));
+  UPDATE admins SET business_id = username;
+  CREATE INDEX idx_admins_business ON admins (business_id);
+  `,
+  `
+  CREATE TABLE branches (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (business_id, name)
+  );
+  -- Transactions recorded before a business added branches stay untagged.
+  ALTER TABLE transactions ADD COLUMN branch_id TEXT REFERENCES branches (id);
+  CREATE INDEX idx_transactions_branch ON transactions (business_id, branch_id);
+  `,
+  (database) => {
+    // Tier thresholds, discounts and deadlines merge into one ordered tier list.
+    const rows = database.prepare(`
+      SELECT business_id, key, value FROM settings WHERE key IN ('tierSettings', 'discountSettings', 'deadlineSettings')
+    `).all() as { business_id: string; key: keyof LegacyTierDocuments; value: string }[];
+    const byBusiness = new Map<string, LegacyTierDocuments>();
+    rows.forEach(row => byBusiness.set(row.business_id, { ...byBusiness.get(row.business_id), [row.key]: JSON.parse(row.value) }));
+
+    const save = database.prepare(`
+      INSERT INTO settings (business_id, key, value) VALUES (?, 'tierSettings', ?)
+      ON CONFLICT (business_id, key) DO UPDATE SET value = excluded.value
+    `);
+    byBusiness.forEach((legacy, businessId) => save.run(businessId, JSON.stringify(tierSettingsFromLegacy(legacy))));
+    database.exec("DELETE FROM settings WHERE key IN ('discountSettings', 'deadlineSettings')");
+  },
+  `
+  -- The tier each customer holds. Customers get a row the first time their tier is reviewed.
+  CREATE TABLE customer_tiers (
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    tier_id TEXT NOT NULL,
+    since TEXT NOT NULL,
+    below_since TEXT,
+    PRIMARY KEY (business_id, mobile),
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  -- Names are copied so the log still reads correctly after a tier is renamed or removed.
+  CREATE TABLE tier_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    from_tier_id TEXT,
+    from_tier_name TEXT,
+    to_tier_id TEXT NOT NULL,
+    to_tier_name TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    spend REAL NOT NULL,
+    points REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_tier_changes_customer ON tier_changes (business_id, mobile, created_at);
+  CREATE TRIGGER tier_changes_append_only_update BEFORE UPDATE ON tier_changes
+  BEGIN SELECT RAISE(ABORT, 'Tier changes are append-only.'); END;
+  CREATE TRIGGER tier_changes_append_only_delete BEFORE DELETE ON tier_changes
+  WHEN EXISTS (SELECT 1 FROM customers WHERE business_id = OLD.business_id AND mobile = OLD.mobile)
+  BEGIN SELECT RAISE(ABORT, 'Tier changes are append-only.'); END;
+  `,
+  `
+  -- Bills from before the conversion rate was configurable were paid at one rupee a point.
+  ALTER TABLE transactions ADD COLUMN points_value REAL;
+  `,
+  `
+  CREATE TABLE campaigns (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    starts_at TEXT NOT NULL,
+    ends_at TEXT NOT NULL,
+    weekdays TEXT NOT NULL, -- JSON array of day numbers
+    start_hour INTEGER NOT NULL,
+    end_hour INTEGER NOT NULL,
+    tier_ids TEXT NOT NULL, -- JSON array of tier ids
+    points_multiplier REAL NOT NULL,
+    extra_discount_percentage REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (business_id, name)
+  );
+  -- What each campaign gave on each bill, for per-campaign results. Written with the bill and never changed.
+  CREATE TABLE transaction_campaigns (
+    business_id TEXT NOT NULL,
+    transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+    campaign_id TEXT NOT NULL REFERENCES campaigns (id),
+    name TEXT NOT NULL,
+    discount_amount REAL NOT NULL,
+    bonus_points REAL NOT NULL,
+    PRIMARY KEY (transaction_id, campaign_id)
+  );
+  CREATE INDEX idx_transaction_campaigns_campaign ON transaction_campaigns (business_id, campaign_id);
+  `,
+  `
+  CREATE TABLE coupons (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    code TEXT NOT NULL, -- Upper case
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'flat')),
+    discount_value REAL NOT NULL,
+    single_use INTEGER NOT NULL,
+    expires_at TEXT,
+    minimum_bill REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (business_id, code)
+  );
+  -- At most one coupon per bill. Written with the bill and never changed.
+  CREATE TABLE transaction_coupons (
+    transaction_id TEXT PRIMARY KEY REFERENCES transactions (id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL,
+    coupon_id TEXT NOT NULL REFERENCES coupons (id),
+    code TEXT NOT NULL,
+    discount_amount REAL NOT NULL
+  );
+  CREATE INDEX idx_transaction_coupons_coupon ON transaction_coupons (business_id, coupon_id);
+  `,
+  `
+  -- Who referred whom. The referrer is not a foreign key so the referral survives the referrer being deleted.
+  CREATE TABLE referrals (
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    referrer_mobile TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    bonus_transaction_id TEXT REFERENCES transactions (id),
+    bonus_at TEXT,
+    PRIMARY KEY (business_id, mobile),
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_referrals_referrer ON referrals (business_id, referrer_mobile);
+  `,
+  `
+  ALTER TABLE customers ADD COLUMN date_of_birth TEXT;
+  ALTER TABLE customers ADD COLUMN member_since TEXT;
+  -- Existing customers have been members since their first bill.
+  UPDATE customers SET member_since = (
+    SELECT substr(MIN(t.date), 1, 10) FROM transactions t WHERE t.business_id = customers.business_id AND t.mobile = customers.mobile
+  );
+
+  CREATE TABLE celebration_grants (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    occasion TEXT NOT NULL CHECK (occasion IN ('birthday', 'anniversary')),
+    year INTEGER NOT NULL,
+    reward_type TEXT NOT NULL CHECK (reward_type IN ('points', 'discount')),
+    points REAL NOT NULL,
+    discount_percentage REAL NOT NULL,
+    valid_until TEXT NOT NULL,
+    granted_at TEXT NOT NULL,
+    sms_sent_at TEXT,
+    redeemed_transaction_id TEXT REFERENCES transactions (id),
+    redeemed_amount REAL,
+    UNIQUE (business_id, mobile, occasion, year),
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_celebration_grants_transaction ON celebration_grants (redeemed_transaction_id);
+  `,
+  `
+  CREATE TABLE rewards (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    points_cost REAL NOT NULL,
+    stock INTEGER NOT NULL CHECK (stock >= 0),
+    created_at TEXT NOT NULL,
+    UNIQUE (business_id, name)
+  );
+  CREATE TABLE reward_redemptions (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    reward_id TEXT NOT NULL REFERENCES rewards (id),
+    reward_name TEXT NOT NULL,
+    points REAL NOT NULL,
+    ledger_entry_id TEXT NOT NULL REFERENCES ledger_entries (id),
+    branch_id TEXT REFERENCES branches (id),
+    actor TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_reward_redemptions_customer ON reward_redemptions (business_id, mobile);
+  CREATE INDEX idx_reward_redemptions_reward ON reward_redemptions (reward_id);
+
+  CREATE TRIGGER reward_redemptions_append_only_update BEFORE UPDATE ON reward_redemptions
+  BEGIN SELECT RAISE(ABORT, 'Reward redemptions are append-only.'); END;
+  CREATE TRIGGER reward_redemptions_append_only_delete BEFORE DELETE ON reward_redemptions
+  WHEN EXISTS (SELECT 1 FROM customers WHERE business_id = OLD.business_id AND mobile = OLD.mobile)
+  BEGIN SELECT RAISE(ABORT, 'Reward redemptions are append-only.'); END;
+  `,
+  `
+  -- How each bill was paid, in the order taken. Written with the bill and never changed. Bills from before
+  -- this have no rows; they were paid in cash.
+  CREATE TABLE transaction_payments (
+    transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('cash', 'card', 'upi')),
+    amount REAL NOT NULL,
+    reference TEXT,
+    PRIMARY KEY (transaction_id, position)
+  );
+  `,
+  `
+  CREATE TABLE products (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    price REAL NOT NULL CHECK (price >= 0),
+    category TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (business_id, sku)
+  );
+  -- The lines of each itemized bill, in order. Written with the bill and never changed. Product details are copied;
+  -- free-amount lines have no product.
+  CREATE TABLE transaction_items (
+    transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    product_id TEXT REFERENCES products (id),
+    name TEXT NOT NULL,
+    sku TEXT,
+    category TEXT,
+    quantity REAL NOT NULL,
+    unit_price REAL NOT NULL,
+    amount REAL NOT NULL,
+    PRIMARY KEY (transaction_id, position)
+  );
+  CREATE INDEX idx_transaction_items_product ON transaction_items (business_id, product_id);
+  `,
+  `
+  -- The tax each bill was charged, one row per rate. Written with the bill and never changed. Bills from before
+  -- this, and bills no tax applied to, have no rows.
+  CREATE TABLE transaction_taxes (
+    transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('exclusive', 'inclusive')),
+    rate REAL NOT NULL,
+    taxable_value REAL NOT NULL,
+    tax_amount REAL NOT NULL,
+    PRIMARY KEY (transaction_id, rate)
+  );
+  `,
+  `
+  -- Key to the bill's public receipt page. Bills from before this have no receipt.
+  ALTER TABLE transactions ADD COLUMN receipt_token TEXT;
+  CREATE UNIQUE INDEX idx_transactions_receipt ON transactions (receipt_token);
+  `,
+  `
+  -- Recent login attempts per username, for the login rate limit. Cleared on a successful login.
+  CREATE TABLE login_attempts (
+    username TEXT NOT NULL,
+    attempted_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_login_attempts_username ON login_attempts (username, attempted_at);
+  `,
+  `
+  -- Proof that a customer just entered their PIN, needed to spend their points on a bill. Each is used once.
+  CREATE TABLE pin_verifications (
+    token_hash TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL,
+    mobile TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    FOREIGN KEY (business_id, mobile) REFERENCES customers (business_id, mobile) ON DELETE CASCADE
+  );
+  `,
+  `
+  -- The referral bonuses as paid, so they can be taken back if the qualifying bill is voided or refunded. Bonuses
+  -- paid before this are read back from their ledger entries, which were written at the moment of payment.
+  ALTER TABLE referrals ADD COLUMN referee_bonus_points REAL NOT NULL DEFAULT 0;
+  ALTER TABLE referrals ADD COLUMN referrer_bonus_points REAL NOT NULL DEFAULT 0;
+  UPDATE referrals SET
+    referee_bonus_points = COALESCE((
+      SELECT SUM(l.points) FROM ledger_entries l
+      WHERE l.business_id = referrals.business_id AND l.mobile = referrals.mobile AND l.type = 'adjust'
+        AND l.created_at = referrals.bonus_at AND l.note = 'Referral bonus for joining through ' || referrals.referrer_mobile
+    ), 0),
+    referrer_bonus_points = COALESCE((
+      SELECT SUM(l.points) FROM ledger_entries l
+      WHERE l.business_id = referrals.business_id AND l.mobile = referrals.referrer_mobile AND l.type = 'adjust'
+        AND l.created_at = referrals.bonus_at AND l.note = 'Referral bonus for referring ' || referrals.mobile
+    ), 0)
+  WHERE bonus_at IS NOT NULL;
+  `,
+];
+
+const migrate = (database: Database.Database) => {
+  const currentVersion = database.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(currentVersion).forEach((migration, offset) => {
+    database.transaction(() => {
+      if (typeof migration === 'string') database.exec(migration);
+      else migration(database);
+      database.pragma(`user_version = ${currentVersion + offset + 1}`);
+    })();
+  });
+};
+
+if (DATABASE_PATH !== ':memory:') {
+  fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+}
+
+export const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+migrate(db);
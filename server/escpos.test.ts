@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { renderEscPos } from './escpos';
+
+const lines = [
+  { text: 'Chai Point', bold: true },
+  { text: 'Café ₹945' },
+];
+const url = 'https://example.com/api/receipts/abc';
+
+describe('renderEscPos', () => {
+  const job = renderEscPos(lines, 48, url);
+
+  it('initializes the printer first and cuts the paper last', () => {
+    expect([...job.subarray(0, 2)]).toEqual([0x1b, 0x40]);
+    expect([...job.subarray(-4)]).toEqual([0x1d, 0x56, 0x42, 0x03]);
+  });
+
+  it('wraps bold lines in bold on and off', () => {
+    expect(job.includes(Buffer.from([0x1b, 0x45, 1, ...Buffer.from('Chai Point\n'), 0x1b, 0x45, 0]))).toBe(true);
+  });
+
+  it('prints characters outside ASCII as question marks', () => {
+    expect(job.includes(Buffer.from('Caf? ?945\n'))).toBe(true);
+  });
+
+  it('stores the receipt link in a QR code sized to the paper', () => {
+    const store = Buffer.from([0x1d, 0x28, 0x6b, url.length + 3, 0, 0x31, 0x50, 0x30, ...Buffer.from(url)]);
+    expect(job.includes(store)).toBe(true);
+    const moduleSize = (width: 32 | 48) => {
+      const qr = renderEscPos(lines, width, url);
+      return qr[qr.indexOf(Buffer.from([0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43])) + 7];
+    };
+    expect(moduleSize(48)).toBe(6);
+    expect(moduleSize(32)).toBe(4);
+  });
+});
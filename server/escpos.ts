@@ -0,0 +1,52 @@
+import net from 'net';
+import { ReceiptLine } from '../src/utils/receiptUtils';
+import { PaperWidth } from '../types';
+
+// How long to wait for a network printer to accept a job.
+const PRINTER_TIMEOUT_MS = 5000;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INITIALIZE = [ESC, 0x40];
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+const align = (position: 'left' | 'center') => [ESC, 0x61, position === 'center' ? 1 : 0];
+const FEED_AND_CUT = [GS, 0x56, 0x42, 0x03]; // Feed three lines past the cutter, then a partial cut
+
+// Printers start in code page 437, which matches ASCII and little else; anything outside it prints as "?".
+const toPrinterText = (text: string) => [...Buffer.from(text.replace(/[^\x20-\x7e]/g, '?'), 'ascii'), LF];
+
+// GS ( k function: a QR code of `data`, model 2 with medium error correction. Modules are larger on wider paper.
+const qrCode = (data: string, width: PaperWidth) => {
+  const bytes = Buffer.from(data, 'utf8');
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // Model 2
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, width === 48 ? 6 : 4, // Module size in dots
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31, // Error correction level M
+    GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...bytes, // Store the data
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30, // Print it
+    LF,
+  ];
+};
+
+// The receipt lines as an ESC/POS job: bold where the layout asks for it, then a QR code of the receipt link and a cut.
+export const renderEscPos = (lines: ReceiptLine[], width: PaperWidth, receiptUrl: string): Buffer => Buffer.from([
+  ...INITIALIZE,
+  ...lines.flatMap(line => (line.bold ? [...bold(true), ...toPrinterText(line.text), ...bold(false)] : toPrinterText(line.text))),
+  LF,
+  ...align('center'),
+  ...toPrinterText('Scan for your receipt'),
+  ...qrCode(receiptUrl, width),
+  ...align('left'),
+  ...FEED_AND_CUT,
+]);
+
+// Sends a job to a network printer's raw port (JetDirect, usually 9100). Resolves once the printer has taken it.
+export const sendToPrinter = (host: string, port: number, job: Buffer): Promise<void> => new Promise((resolve, reject) => {
+  const socket = net.createConnection({ host, port });
+  socket.setTimeout(PRINTER_TIMEOUT_MS, () => socket.destroy(new Error(`No answer within ${PRINTER_TIMEOUT_MS / 1000} seconds.`)));
+  socket.on('error', reject);
+  socket.on('connect', () => socket.end(job, () => resolve()));
+});
@@ -0,0 +1,28 @@
+import { TierSettings, TierDefinition } from '../types';
+import { DEFAULT_TIER_SETTINGS } from '../defaults';
+
+// Before tiers were configurable, thresholds, discounts and deadlines were three documents keyed by the four fixed tiers.
+type LegacyTierId = 'bronze' | 'silver' | 'gold' | 'platinum';
+type ByLegacyTier<T> = Partial<Record<LegacyTierId, T>>;
+
+export interface LegacyTierDocuments {
+  tierSettings?: ByLegacyTier<Partial<Pick<TierDefinition, 'minSpend' | 'minPoints'>>> | null;
+  discountSettings?: ByLegacyTier<number> | null;
+  deadlineSettings?: ByLegacyTier<number> | null;
+}
+
+// Builds the tier list those documents describe. The default tiers use the old keys as ids, so per-tier settings
+// such as points validity carry over; anything missing keeps its default.
+export const tierSettingsFromLegacy = ({ tierSettings, discountSettings, deadlineSettings }: LegacyTierDocuments): TierSettings => ({
+  ...DEFAULT_TIER_SETTINGS,
+  tiers: DEFAULT_TIER_SETTINGS.tiers.map(tier => {
+    const id = tier.id as LegacyTierId;
+    return {
+      ...tier,
+      minSpend: tierSettings?.[id]?.minSpend ?? tier.minSpend,
+      minPoints: tierSettings?.[id]?.minPoints ?? tier.minPoints,
+      discountPercentage: discountSettings?.[id] ?? tier.discountPercentage,
+      deadlineDays: deadlineSettings?.[id] ?? tier.deadlineDays,
+    };
+  }),
+});
@@ -0,0 +1,24 @@
+import { db } from './db';
+
+// Can be tuned per deployment, like the SMS limits. The default leaves room for a few mistyped passwords.
+const LOGIN_LIMIT_PER_WINDOW = Number(process.env.LOGIN_LIMIT_PER_15_MINUTES) || 10;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// Counts a login attempt before the password is checked, so guesses sent in parallel are all counted. Returns the
+// seconds to wait when the username has used up its attempts, or null if this one may go ahead.
+export const reserveLoginAttempt = (username: string): number | null => db.transaction(() => {
+  const now = Date.now();
+  const since = new Date(now - LOGIN_WINDOW_MS).toISOString();
+  db.prepare('DELETE FROM login_attempts WHERE attempted_at <= ?').run(since);
+  const { count, oldest } = db.prepare('SELECT COUNT(*) AS count, MIN(attempted_at) AS oldest FROM login_attempts WHERE username = ?')
+    .get(username) as { count: number; oldest: string | null };
+  if (count >= LOGIN_LIMIT_PER_WINDOW) {
+    return Math.max(1, Math.ceil((Date.parse(oldest!) + LOGIN_WINDOW_MS - now) / 1000));
+  }
+  db.prepare('INSERT INTO login_attempts (username, attempted_at) VALUES (?, ?)').run(username, new Date(now).toISOString());
+  return null;
+})();
+
+export const clearLoginAttempts = (username: string) => {
+  db.prepare('DELETE FROM login_attempts WHERE username = ?').run(username);
+};
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { getSessionUsername, SESSION_TTL_MS } from './stores/sessionStore';
+import { getAdmin } from './stores/adminStore';
+import { getApiKeyBusiness } from './stores/apiKeyStore';
+import { Admin, StaffRole } from '../types';
+
+export const SESSION_COOKIE = 'payloop_session';
+
+export const sessionCookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SESSION_TTL_MS,
+};
+
+export const readCookie = (req: Request, name: string): string | null => {
+  const header = req.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+};
+
+const getSessionAdmin = (req: Request) => {
+  const token = readCookie(req, SESSION_COOKIE);
+  const username = token ? getSessionUsername(token) : null;
+  return username ? getAdmin(username) : null;
+};
+
+// Every data route is scoped to the business of the logged-in admin.
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  const admin = getSessionAdmin(req);
+  if (!admin) {
+    return res.status(401).json({ success: false, message: 'Not logged in.' });
+  }
+  res.locals.admin = admin;
+  res.locals.businessId = admin.businessId;
+  next();
+};
+
+// Limits a route to the given staff roles. API-key callers act for the business as a whole and are let through.
+export const requireRole = (...roles: StaffRole[]) => <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  const admin = res.locals.admin as Admin | undefined;
+  if (admin && !roles.includes(admin.role)) {
+    return res.status(403).json({ success: false, message: 'Your role does not allow this action.' });
+  }
+  next();
+};
+
+// For routes other systems may call: accepts a session, or an API key sent as `Authorization: Bearer <key>`.
+export const requireSessionOrApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const businessId = getApiKeyBusiness(authorization.slice('Bearer '.length).trim());
+    if (!businessId) {
+      return res.status(401).json({ success: false, message: 'Invalid API key.' });
+    }
+    res.locals.businessId = businessId;
+    return next();
+  }
+  requireSession(req, res, next);
+};
+
+export const getBusinessId = (res: Response): string => res.locals.businessId;
+
+// Who performed a write, recorded on transactions and ledger entries. API-key callers are recorded as 'api'.
+export const getActor = (res: Response): string => res.locals.admin?.username ?? 'api';
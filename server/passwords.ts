@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// scrypt cost parameters. Stored with every hash so they can be raised later without breaking old hashes.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+const scrypt = (secret: string, salt: Buffer, n: number, r: number, p: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(secret, salt, KEY_LENGTH, { N: n, r, p, maxmem: 128 * n * r * 2 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+// Returns `scrypt$N$r$p$salt$hash`, with salt and hash hex-encoded.
+export const hashSecret = async (secret: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(secret, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('hex'), hash.toString('hex')].join('$');
+};
+
+// Blocking variant for schema migrations, which run before the server accepts requests.
+export const hashSecretSync = (secret: string): string => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(secret, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: 128 * SCRYPT_N * SCRYPT_R * 2 });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('hex'), hash.toString('hex')].join('$');
+};
+
+export const verifySecret = async (secret: string, stored: string): Promise<boolean> => {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(secret, Buffer.from(salt, 'hex'), Number(n), Number(r), Number(p));
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
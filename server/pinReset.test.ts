@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { requestPinReset, completePinReset } from './pinReset';
+import { sendSms } from './sms';
+import { createCustomer } from './stores/customerStore';
+import { saveSetting } from './stores/settingsStore';
+import { DEFAULT_SECURITY_SETTINGS } from '../defaults';
+
+vi.mock('./sms', () => ({ sendSms: vi.fn(async () => 'SM1') }));
+
+// Sends a reset code to the customer and returns it, as read from the SMS.
+const sendCode = async (mobile: string) => {
+  await requestPinReset('cafe', mobile, 'Cafe');
+  return /code is (\d{6})/.exec(vi.mocked(sendSms).mock.lastCall![2])![1];
+};
+const wrongCode = (code: string, i = 0) => String((Number(code) + 1 + i) % 1000000).padStart(6, '0');
+
+describe('requestPinReset', () => {
+  it('falls back to the default expiry when the saved one is unusable', async () => {
+    createCustomer('cafe', { mobile: '+911', name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+    for (const otpExpiryMinutes of ['abc', -5, 0, null]) {
+      saveSetting('cafe', 'securitySettings', { ...DEFAULT_SECURITY_SETTINGS, otpExpiryMinutes });
+      const before = Date.now();
+      const expiresAt = Date.parse(await requestPinReset('cafe', '+911', 'Cafe'));
+      expect(expiresAt - before).toBeGreaterThanOrEqual(DEFAULT_SECURITY_SETTINGS.otpExpiryMinutes * 60 * 1000 - 1000);
+      expect(expiresAt - before).toBeLessThanOrEqual(DEFAULT_SECURITY_SETTINGS.otpExpiryMinutes * 60 * 1000 + 1000);
+    }
+  });
+});
+
+describe('completePinReset', () => {
+  it('sets the new PIN once, with the right code', async () => {
+    createCustomer('cafe', { mobile: '+921', name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+    const code = await sendCode('+921');
+    expect(await completePinReset('cafe', '+921', code, '4321')).toEqual({ status: 'ok' });
+    expect(await completePinReset('cafe', '+921', code, '1111')).toEqual({ status: 'expired' });
+  });
+
+  it('discards the code after too many wrong entries', async () => {
+    createCustomer('cafe', { mobile: '+922', name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+    const code = await sendCode('+922');
+    expect(await completePinReset('cafe', '+922', wrongCode(code), '4321')).toEqual({ status: 'invalid', attemptsRemaining: 2 });
+    expect(await completePinReset('cafe', '+922', wrongCode(code), '4321')).toEqual({ status: 'invalid', attemptsRemaining: 1 });
+    expect(await completePinReset('cafe', '+922', wrongCode(code), '4321')).toEqual({ status: 'expired' });
+    expect(await completePinReset('cafe', '+922', code, '4321')).toEqual({ status: 'expired' });
+  });
+
+  it('counts codes guessed in parallel before checking any of them', async () => {
+    createCustomer('cafe', { mobile: '+923', name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+    const code = await sendCode('+923');
+    const guesses = Array.from({ length: 20 }, (_, i) => (i === 10 ? code : wrongCode(code, i)));
+    const results = await Promise.all(guesses.map(guess => completePinReset('cafe', '+923', guess, '4321')));
+    expect(results.filter(result => result.status === 'ok')).toEqual([]);
+    expect(results.filter(result => result.status === 'invalid').length).toBeLessThanOrEqual(2);
+  });
+});
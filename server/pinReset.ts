@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { db } from './db';
+import { hashSecret, verifySecret } from './passwords';
+import { sendSms } from './sms';
+import { updateCustomer, resetFailedPinAttempts } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { DEFAULT_SECURITY_SETTINGS } from '../defaults';
+
+interface ResetCodeRow {
+  code_hash: string;
+  failed_attempts: number;
+  expires_at: string;
+}
+
+export type PinResetResult =
+  | { status: 'ok' }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'expired' };
+
+// The configured code lifetime, or the default when settings saved before they were validated hold something unusable.
+const getOtpExpiryMinutes = (businessId: string): number => {
+  const { otpExpiryMinutes } = getSettingOrDefault(businessId, 'securitySettings', DEFAULT_SECURITY_SETTINGS);
+  return Number.isInteger(otpExpiryMinutes) && otpExpiryMinutes > 0 ? otpExpiryMinutes : DEFAULT_SECURITY_SETTINGS.otpExpiryMinutes;
+};
+
+// Sends a fresh one-time code to the customer's mobile, replacing any earlier one. Returns when it expires.
+export const requestPinReset = async (businessId: string, mobile: string, businessName: string): Promise<string> => {
+  const otpExpiryMinutes = getOtpExpiryMinutes(businessId);
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  const now = Date.now();
+  const expiresAt = new Date(now + otpExpiryMinutes * 60 * 1000).toISOString();
+
+  db.prepare(`
+    INSERT INTO pin_reset_codes (business_id, mobile, code_hash, failed_attempts, created_at, expires_at)
+    VALUES (?, ?, ?, 0, ?, ?)
+    ON CONFLICT (business_id, mobile) DO UPDATE SET
+      code_hash = excluded.code_hash, failed_attempts = 0, created_at = excluded.created_at, expires_at = excluded.expires_at
+  `).run(businessId, mobile, await hashSecret(code), new Date(now).toISOString(), expiresAt);
+
+  try {
+    await sendSms(businessId, mobile, `Your ${businessName} PIN reset code is ${code}. It expires in ${otpExpiryMinutes} minutes. Do not share it with anyone.`);
+  } catch (error) {
+    db.prepare('DELETE FROM pin_reset_codes WHERE business_id = ? AND mobile = ?').run(businessId, mobile);
+    throw error;
+  }
+  return expiresAt;
+};
+
+// Checks the code and, if it matches, sets the new PIN and lifts any PIN lockout.
+// A code is discarded once it expires, is used, or has been guessed wrong too often. Each entry is counted before
+// the (slow) hash check, so codes guessed in parallel cannot get more tries than the limit allows.
+export const completePinReset = async (businessId: string, mobile: string, code: string, newPin: string): Promise<PinResetResult> => {
+  const { maxOtpAttempts } = getSettingOrDefault(businessId, 'securitySettings', DEFAULT_SECURITY_SETTINGS);
+  const row = db.prepare(`
+    UPDATE pin_reset_codes SET failed_attempts = failed_attempts + 1
+    WHERE business_id = ? AND mobile = ? AND expires_at > ? AND failed_attempts < ?
+    RETURNING code_hash, failed_attempts, expires_at
+  `).get(businessId, mobile, new Date().toISOString(), maxOtpAttempts) as ResetCodeRow | undefined;
+  const deleteCode = db.prepare('DELETE FROM pin_reset_codes WHERE business_id = ? AND mobile = ? AND code_hash = ?');
+  if (!row) {
+    db.prepare('DELETE FROM pin_reset_codes WHERE business_id = ? AND mobile = ?').run(businessId, mobile);
+    return { status: 'expired' };
+  }
+
+  if (!await verifySecret(code, row.code_hash)) {
+    if (row.failed_attempts >= maxOtpAttempts) {
+      deleteCode.run(businessId, mobile, row.code_hash);
+      return { status: 'expired' };
+    }
+    return { status: 'invalid', attemptsRemaining: maxOtpAttempts - row.failed_attempts };
+  }
+
+  const pinHash = await hashSecret(newPin);
+  // The code may have been used, replaced or guessed out while the new PIN was hashed.
+  const used = db.transaction(() => {
+    if (deleteCode.run(businessId, mobile, row.code_hash).changes !== 1) return false;
+    updateCustomer(businessId, mobile, { pinHash });
+    resetFailedPinAttempts(businessId, mobile);
+    return true;
+  })();
+  return used ? { status: 'ok' } : { status: 'expired' };
+};
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { db } from './db';
+import { verifySecret } from './passwords';
+import { reservePinAttempt, clearPinAttempts, settleFailedPinAttempt } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { DEFAULT_SECURITY_SETTINGS } from '../defaults';
+
+// How long a correct PIN entry allows the customer's points to be spent.
+const PIN_VERIFICATION_MINUTES = 10;
+
+export type PinCheckResult =
+  | { status: 'ok' }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'locked'; lockedUntil: string }
+  | { status: 'not-found' };
+
+export const isValidPin = (pin: unknown): pin is string => typeof pin === 'string' && /^\d{4}$/.test(pin);
+
+// Checks a customer's PIN, counting failures and locking PIN entry once the business's limit is reached. Each entry
+// is counted before the (slow) hash check, so parallel guesses cannot outrun the lock, and a correct PIN only counts
+// if PIN entry was not locked in the meantime.
+export const verifyCustomerPin = async (businessId: string, mobile: string, pin: string): Promise<PinCheckResult> => {
+  const { maxPinAttempts, pinLockoutMinutes } = getSettingOrDefault(businessId, 'securitySettings', DEFAULT_SECURITY_SETTINGS);
+  const lockoutUntil = () => new Date(Date.now() + pinLockoutMinutes * 60 * 1000).toISOString();
+
+  const reserved = reservePinAttempt(businessId, mobile, maxPinAttempts, lockoutUntil());
+  if (!reserved) return { status: 'not-found' };
+  if ('lockedUntil' in reserved) return { status: 'locked', lockedUntil: reserved.lockedUntil };
+
+  if (await verifySecret(pin, reserved.pinHash)) {
+    const lockedUntil = clearPinAttempts(businessId, mobile);
+    return lockedUntil ? { status: 'locked', lockedUntil } : { status: 'ok' };
+  }
+
+  const failed = settleFailedPinAttempt(businessId, mobile, reserved.attempt, maxPinAttempts, lockoutUntil());
+  return 'lockedUntil' in failed ? { status: 'locked', ...failed } : { status: 'invalid', ...failed };
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issued after a correct PIN; the till sends it back with a bill that spends points.
+export const issuePinVerification = (businessId: string, mobile: string): string => {
+  const token = crypto.randomBytes(24).toString('base64url');
+  const now = new Date();
+  db.prepare('DELETE FROM pin_verifications WHERE expires_at <= ?').run(now.toISOString());
+  db.prepare('INSERT INTO pin_verifications (token_hash, business_id, mobile, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), businessId, mobile, new Date(now.getTime() + PIN_VERIFICATION_MINUTES * 60 * 1000).toISOString());
+  return token;
+};
+
+// Uses up a verification for this customer. False if the token is unknown, expired, already used, or someone else's.
+export const consumePinVerification = (businessId: string, mobile: string, token: unknown): boolean => {
+  if (typeof token !== 'string' || !token) return false;
+  return db.prepare('DELETE FROM pin_verifications WHERE token_hash = ? AND business_id = ? AND mobile = ? AND expires_at > ?')
+    .run(hashToken(token), businessId, mobile, new Date().toISOString()).changes === 1;
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { getOpenLots, runPointsExpiry } from './pointsExpiry';
+import { createCustomer, appendLedgerEntry, getCustomer, listLedgerEntries } from './stores/customerStore';
+import { saveSetting } from './stores/settingsStore';
+import { sendSms } from './sms';
+
+vi.mock('./sms', () => ({ sendSms: vi.fn(async () => 'SM1') }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-30T12:00:00.000Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS).toISOString();
+
+// A customer whose ledger is the given point movements, oldest first.
+const addCustomer = (mobile: string, movements: { points: number; daysAgo: number }[]) => {
+  createCustomer('cafe', { mobile, name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+  movements.forEach(({ points, daysAgo: days }) => appendLedgerEntry('cafe', mobile, {
+    type: points > 0 ? 'adjust' : 'redeem', points, createdAt: daysAgo(days),
+  }, 'owner'));
+};
+
+beforeAll(() => {
+  saveSetting('cafe', 'pointsExpirySettings', { validityDays: { bronze: 30, silver: 30, gold: 30, platinum: 30 }, reminderDays: 0 });
+});
+
+describe('getOpenLots', () => {
+  it('uses up the oldest points first', () => {
+    addCustomer('+911', [{ points: 100, daysAgo: 50 }, { points: 50, daysAgo: 20 }, { points: -120, daysAgo: 10 }, { points: 25, daysAgo: 5 }]);
+    expect(getOpenLots('cafe', '+911').map(lot => [lot.earnedAt, lot.remaining])).toEqual([[daysAgo(20), 30], [daysAgo(5), 25]]);
+  });
+});
+
+describe('runPointsExpiry', () => {
+  it('expires what is left of lots past their validity, once', async () => {
+    addCustomer('+921', [{ points: 100, daysAgo: 40 }, { points: 50, daysAgo: 10 }, { points: -80, daysAgo: 5 }]);
+    const run = await runPointsExpiry('cafe', now);
+    expect(run).toMatchObject({ customersExpired: 1, pointsExpired: 20 });
+    expect(getCustomer('cafe', '+921')?.points).toBe(50);
+    expect(listLedgerEntries('cafe', '+921').filter(entry => entry.type === 'expire').map(entry => entry.points)).toEqual([-20]);
+
+    await runPointsExpiry('cafe', now);
+    expect(getCustomer('cafe', '+921')?.points).toBe(50);
+  });
+
+  it('keeps points forever for tiers with no validity', async () => {
+    saveSetting('other', 'pointsExpirySettings', { validityDays: {}, reminderDays: 0 });
+    createCustomer('other', { mobile: '+931', name: 'Ravi', history: [], pinHash: 'hash' }, 'owner');
+    appendLedgerEntry('other', '+931', { type: 'adjust', points: 100, createdAt: daysAgo(1000) }, 'owner');
+    expect(await runPointsExpiry('other', now)).toEqual({ customersExpired: 0, pointsExpired: 0, remindersSent: 0 });
+  });
+
+  it('reminds customers once before their points expire', async () => {
+    saveSetting('remind', 'pointsExpirySettings', { validityDays: { bronze: 30 }, reminderDays: 7 });
+    createCustomer('remind', { mobile: '+941', name: 'Meera', history: [], pinHash: 'hash' }, 'owner');
+    appendLedgerEntry('remind', '+941', { type: 'adjust', points: 60, createdAt: daysAgo(25) }, 'owner');
+    appendLedgerEntry('remind', '+941', { type: 'adjust', points: 10, createdAt: daysAgo(1) }, 'owner');
+    vi.mocked(sendSms).mockClear();
+
+    expect((await runPointsExpiry('remind', now)).remindersSent).toBe(1);
+    expect(vi.mocked(sendSms).mock.lastCall?.[2]).toMatch(/^Hi Meera, 60 of your .* points expire on /);
+    expect((await runPointsExpiry('remind', now)).remindersSent).toBe(0);
+    expect(sendSms).toHaveBeenCalledTimes(1);
+  });
+});
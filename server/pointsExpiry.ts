@@ -0,0 +1,127 @@
+import { db } from './db';
+import { sendSms } from './sms';
+import { listCustomers, listLedgerEntries, appendLedgerEntry } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { addSmsLog } from './stores/smsLogStore';
+import { getAdmin } from './stores/adminStore';
+import { getCustomerTier } from '../src/utils/tierUtils';
+import { refreshCustomerTier } from './tierReview';
+import { DEFAULT_POINTS_EXPIRY_SETTINGS, DEFAULT_TIER_SETTINGS } from '../defaults';
+import { Customer, PointsExpirySettings, TierSettings } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the background job runs in a long-lived server. Serverless deployments call the run route instead.
+const POINTS_EXPIRY_INTERVAL_MINUTES = Number(process.env.POINTS_EXPIRY_INTERVAL_MINUTES) || 60;
+
+export interface PointsLot {
+  entryId: string;
+  earnedAt: string;
+  remaining: number;
+}
+
+export interface PointsExpiryRun {
+  customersExpired: number;
+  pointsExpired: number;
+  remindersSent: number;
+}
+
+// Replays the ledger oldest first: every credit opens a lot and every debit (redemption, reversal, negative
+// adjustment or expiry) uses up the oldest lots. What is left are the lots the current balance is made of.
+export const getOpenLots = (businessId: string, mobile: string): PointsLot[] => {
+  const lots: PointsLot[] = [];
+  listLedgerEntries(businessId, mobile).forEach(entry => {
+    if (entry.points > 0) {
+      lots.push({ entryId: entry.id, earnedAt: entry.createdAt, remaining: entry.points });
+      return;
+    }
+    let debit = -entry.points;
+    while (debit > 1e-9 && lots.length > 0) {
+      const used = Math.min(lots[0].remaining, debit);
+      lots[0].remaining -= used;
+      debit -= used;
+      if (lots[0].remaining <= 1e-9) lots.shift();
+    }
+  });
+  return lots;
+};
+
+const validityFor = (customer: Customer, settings: PointsExpirySettings, tierSettings: TierSettings) =>
+  settings.validityDays[getCustomerTier(customer, tierSettings).id] || 0;
+
+const expiresAt = (lot: PointsLot, validityDays: number) => new Date(new Date(lot.earnedAt).getTime() + validityDays * DAY_MS);
+
+// Writes an 'expire' entry for each customer whose oldest lots are past their validity (set by the customer's
+// current tier), then texts customers whose points expire within the reminder window. A reminder is sent once per lot;
+// one that cannot be sent is retried on the next run.
+export const runPointsExpiry = async (businessId: string, now = new Date()): Promise<PointsExpiryRun> => {
+  const settings = getSettingOrDefault(businessId, 'pointsExpirySettings', DEFAULT_POINTS_EXPIRY_SETTINGS);
+  const tierSettings = getSettingOrDefault(businessId, 'tierSettings', DEFAULT_TIER_SETTINGS);
+  const result: PointsExpiryRun = { customersExpired: 0, pointsExpired: 0, remindersSent: 0 };
+  const reminders: { customer: Customer; lots: PointsLot[]; expiresOn: Date }[] = [];
+
+  listCustomers(businessId).forEach(customer => {
+    const validityDays = validityFor(customer, settings, tierSettings);
+    if (validityDays <= 0) return;
+
+    const lots = getOpenLots(businessId, customer.mobile);
+    const expired = lots.filter(lot => expiresAt(lot, validityDays) <= now);
+    const points = Math.round(expired.reduce((sum, lot) => sum + lot.remaining, 0) * 100) / 100;
+    if (points > 0) {
+      appendLedgerEntry(businessId, customer.mobile, {
+        type: 'expire',
+        points: -points,
+        note: `Points earned before ${new Date(now.getTime() - validityDays * DAY_MS).toLocaleDateString()} expired after ${validityDays} days`,
+        createdAt: now.toISOString(),
+      }, 'system');
+      refreshCustomerTier(businessId, customer.mobile, now);
+      result.customersExpired++;
+      result.pointsExpired += points;
+    }
+
+    if (settings.reminderDays > 0) {
+      const reminded = db.prepare('SELECT 1 FROM points_expiry_reminders WHERE business_id = ? AND lot_entry_id = ?');
+      const due = lots.filter(lot => !expired.includes(lot)
+        && expiresAt(lot, validityDays).getTime() <= now.getTime() + settings.reminderDays * DAY_MS
+        && !reminded.get(businessId, lot.entryId));
+      if (due.length > 0) reminders.push({ customer, lots: due, expiresOn: expiresAt(due[0], validityDays) });
+    }
+  });
+
+  const businessName = getAdmin(businessId)?.businessName || 'Pay Loop';
+  for (const { customer, lots, expiresOn } of reminders) {
+    const points = Math.round(lots.reduce((sum, lot) => sum + lot.remaining, 0));
+    const message = `Hi ${customer.name}, ${points} of your ${businessName} points expire on ${expiresOn.toLocaleDateString()}. Visit us before then to use them!`;
+    try {
+      await sendSms(businessId, customer.mobile, message);
+    } catch (error) {
+      console.warn(`Expiry reminder to ${customer.mobile} not sent:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    const sentAt = new Date().toISOString();
+    const record = db.prepare('INSERT OR IGNORE INTO points_expiry_reminders (business_id, mobile, lot_entry_id, sent_at) VALUES (?, ?, ?, ?)');
+    lots.forEach(lot => record.run(businessId, customer.mobile, lot.entryId, sentAt));
+    addSmsLog(businessId, { timestamp: sentAt, recipientMobile: customer.mobile, recipientName: customer.name, message });
+    result.remindersSent++;
+  }
+  return result;
+};
+
+export const runPointsExpiryForAllBusinesses = async () => {
+  const businesses = db.prepare('SELECT DISTINCT business_id FROM customers').all() as { business_id: string }[];
+  for (const { business_id: businessId } of businesses) {
+    try {
+      const run = await runPointsExpiry(businessId);
+      if (run.pointsExpired > 0 || run.remindersSent > 0) console.log(`Points expiry for ${businessId}:`, run);
+    } catch (error) {
+      console.error(`Points expiry failed for ${businessId}:`, error);
+    }
+  }
+};
+
+// Runs the expiry pass once at start-up and then on a fixed interval.
+export const startPointsExpiryJob = () => {
+  const run = () => { runPointsExpiryForAllBusinesses(); };
+  run();
+  return setInterval(run, POINTS_EXPIRY_INTERVAL_MINUTES * 60 * 1000);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { renderReceiptPdf } from './receiptPdf';
+
+describe('renderReceiptPdf', () => {
+  const pdf = renderReceiptPdf([
+    { text: 'Chai Point (Indiranagar)', bold: true },
+    { text: '-'.repeat(24), rule: true },
+    { text: 'Back\\slash  Café  ₹945.00' },
+  ]);
+  const text = pdf.toString('latin1');
+
+  it('is a one-page PDF sized to the lines', () => {
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text).toContain('/MediaBox [0 0 198 84]');
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('points the cross-reference table at each object', () => {
+    const xref = Number(/startxref\n(\d+)\n/.exec(text)![1]);
+    expect(text.slice(xref, xref + 5)).toBe('xref\n');
+    const offsets = text.slice(xref).split('\n').slice(3, 9).map(entry => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, index) => expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+  });
+
+  it('sets bold lines in Courier-Bold and escapes PDF string characters', () => {
+    expect(text).toContain('/F2 10 Tf (Chai Point \\(Indiranagar\\)) Tj T*');
+    expect(text).toContain('/F1 10 Tf (Back\\\\slash  Caf\xe9  ?945.00) Tj T*');
+  });
+});
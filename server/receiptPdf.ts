@@ -0,0 +1,45 @@
+import { ReceiptLine } from '../src/utils/receiptUtils';
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 12;
+const CHAR_WIDTH = 6; // Courier glyphs are 0.6em wide
+const MARGIN = 24;
+
+// PDF strings are bytes in the font's encoding; the standard fonts have no glyphs beyond Latin-1.
+const toPdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/[\\()]/g, match => `\\${match}`)})`;
+
+// A one-page PDF of the receipt lines in Courier, sized to the receipt like a till roll. Written by hand because
+// fixed-width text on one page needs none of what a PDF library brings.
+export const renderReceiptPdf = (lines: ReceiptLine[]): Buffer => {
+  const width = Math.max(...lines.map(line => line.text.length)) * CHAR_WIDTH + MARGIN * 2;
+  const height = lines.length * LINE_HEIGHT + MARGIN * 2;
+  const content = [
+    'BT',
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${height - MARGIN - FONT_SIZE} Td`,
+    ...lines.map(line => `/${line.bold ? 'F2' : 'F1'} ${FONT_SIZE} Tf ${toPdfString(line.text)} Tj T*`),
+    'ET',
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
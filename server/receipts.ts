@@ -0,0 +1,101 @@
+import { getCustomer, findReceiptTransaction, getBalanceAfterTransaction } from './stores/customerStore';
+import { getAdmin } from './stores/adminStore';
+import { getBranch } from './stores/branchStore';
+import { renderReceiptPdf } from './receiptPdf';
+import { renderEscPos } from './escpos';
+import { getChange } from '../src/utils/paymentUtils';
+import { getReceiptLines } from '../src/utils/receiptUtils';
+import { OCCASION_LABELS } from '../src/utils/celebrationUtils';
+import { PaperWidth, Receipt, Tender } from '../types';
+
+// Characters per line on the receipt page and in the PDF.
+const PAGE_WIDTH = 40;
+
+// The receipt a token links to and the business it belongs to, or null. The token is the only key: anyone holding
+// the link can see the bill, so it carries no more than a till receipt would.
+export const findReceipt = (token: string): { businessId: string; receipt: Receipt } | null => {
+  const found = findReceiptTransaction(token);
+  if (!found) return null;
+  const { businessId, mobile, transactionId } = found;
+  const customer = getCustomer(businessId, mobile);
+  const transaction = customer?.history.find(t => t.id === transactionId);
+  if (!customer || !transaction) return null;
+
+  const pointsValue = transaction.pointsValue ?? transaction.pointsUsed ?? 0;
+  const amountPayable = transaction.finalBill - pointsValue;
+  // Bills from before split payments were paid in cash.
+  const payments: Tender[] = transaction.payments ?? (amountPayable > 0 ? [{ method: 'cash', amount: amountPayable }] : []);
+  const discounts = [
+    ...(transaction.discountPercentage ? [{ label: `Discount (${transaction.discountPercentage}%)`, amount: transaction.bill * transaction.discountPercentage / 100 }] : []),
+    ...(transaction.campaigns ?? []).map(c => ({ label: c.name, amount: c.discountAmount })),
+    ...(transaction.celebration ? [{ label: `${OCCASION_LABELS[transaction.celebration.occasion]} discount`, amount: transaction.celebration.discountAmount }] : []),
+    ...(transaction.coupon ? [{ label: `Coupon ${transaction.coupon.code}`, amount: transaction.coupon.discountAmount }] : []),
+  ].filter(discount => discount.amount > 0);
+
+  const receipt: Receipt = {
+    businessName: getAdmin(businessId)?.businessName ?? businessId,
+    branchName: transaction.branchId ? getBranch(businessId, transaction.branchId)?.name : undefined,
+    transactionId,
+    date: transaction.date,
+    customerName: customer.name,
+    mobile,
+    bill: transaction.bill,
+    items: transaction.items,
+    discounts,
+    tax: transaction.tax,
+    finalBill: transaction.finalBill,
+    pointsUsed: transaction.pointsUsed ?? 0,
+    pointsValue,
+    payments,
+    change: getChange(payments, amountPayable),
+    pointsEarned: transaction.points,
+    balance: getBalanceAfterTransaction(businessId, mobile, transactionId),
+    refunded: (transaction.reversals ?? []).reduce((sum, r) => sum + r.amount, 0),
+  };
+  return { businessId, receipt };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// A standalone page laid out like a till receipt. The buttons are hidden when printing.
+export const renderReceiptHtml = (receipt: Receipt, pdfUrl: string): string => {
+  const body = getReceiptLines(receipt, PAGE_WIDTH)
+    .map(line => (line.bold ? `<strong>${escapeHtml(line.text)}</strong>` : escapeHtml(line.text)))
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Receipt from ${escapeHtml(receipt.businessName)}</title>
+<style>
+  body { margin: 0; padding: 24px 12px; background: #f3f4f6; font-family: system-ui, sans-serif; }
+  .receipt { width: max-content; margin: 0 auto; padding: 16px; background: #fff; border: 1px solid #e5e7eb; }
+  pre { margin: 0; font: 13px/1.5 ui-monospace, Menlo, Consolas, monospace; }
+  .actions { display: flex; gap: 8px; justify-content: center; margin-top: 16px; }
+  .actions a, .actions button { padding: 8px 16px; font: inherit; font-size: 14px; color: #374151; background: #fff; border: 1px solid #d1d5db; border-radius: 6px; cursor: pointer; text-decoration: none; }
+  @media print {
+    body { padding: 0; background: #fff; }
+    .receipt { border: 0; padding: 0; }
+    .actions { display: none; }
+  }
+</style>
+</head>
+<body>
+<div class="receipt"><pre>${body}</pre></div>
+<div class="actions">
+  <button type="button" onclick="window.print()">Print</button>
+  <a href="${escapeHtml(pdfUrl)}">Download PDF</a>
+</div>
+</body>
+</html>
+`;
+};
+
+// The standard PDF fonts and thermal printers have no rupee sign.
+export const getReceiptPdf = (receipt: Receipt): Buffer => renderReceiptPdf(getReceiptLines(receipt, PAGE_WIDTH, 'Rs.'));
+
+export const getReceiptEscPos = (receipt: Receipt, width: PaperWidth, receiptUrl: string): Buffer =>
+  renderEscPos(getReceiptLines(receipt, width, 'Rs.'), width, receiptUrl);
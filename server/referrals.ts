@@ -0,0 +1,58 @@
+import { db } from './db';
+import { getCustomer, appendLedgerEntry } from './stores/customerStore';
+import { getReferral, markReferralBonusPaid, clearReferralBonus } from './stores/referralStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { isQualifyingReferralBill } from '../src/utils/referralUtils';
+import { DEFAULT_REFERRAL_SETTINGS } from '../defaults';
+
+// Pays both referral bonuses once the referred customer has a qualifying bill. Called after every bill is recorded;
+// does nothing for customers who were not referred or whose bonuses were already paid. Each bonus is a ledger
+// adjustment. A referrer who has since been deleted gets nothing. Returns whether the bonuses were paid.
+export const payReferralBonuses = (businessId: string, mobile: string, actor: string, now = new Date()): boolean => db.transaction(() => {
+  const referral = getReferral(businessId, mobile);
+  const customer = referral && !referral.bonusAt ? getCustomer(businessId, mobile) : null;
+  if (!referral || !customer) return false;
+
+  const settings = getSettingOrDefault(businessId, 'referralSettings', DEFAULT_REFERRAL_SETTINGS);
+  const qualifying = customer.history.find(t => t.id && isQualifyingReferralBill(t, settings));
+  const refereePoints = settings.refereePoints;
+  const referrerPoints = getCustomer(businessId, referral.referrerMobile) ? settings.referrerPoints : 0;
+  if (!qualifying?.id || !markReferralBonusPaid(businessId, mobile, { transactionId: qualifying.id, paidAt: now.toISOString(), refereePoints, referrerPoints })) {
+    return false;
+  }
+
+  if (refereePoints > 0) {
+    appendLedgerEntry(businessId, mobile, {
+      type: 'adjust', points: refereePoints, note: `Referral bonus for joining through ${referral.referrerMobile}`, createdAt: now.toISOString(),
+    }, actor);
+  }
+  if (referrerPoints > 0) {
+    appendLedgerEntry(businessId, referral.referrerMobile, {
+      type: 'adjust', points: referrerPoints, note: `Referral bonus for referring ${mobile}`, createdAt: now.toISOString(),
+    }, actor);
+  }
+  return true;
+})();
+
+// Takes both bonuses back once the bill they were paid on no longer qualifies, after a void or refund, so the
+// referral waits for another qualifying bill. Called after every void and refund. Returns whether they were taken back.
+export const reverseReferralBonuses = (businessId: string, mobile: string, transactionId: string, actor: string, now = new Date()): boolean => db.transaction(() => {
+  const referral = getReferral(businessId, mobile);
+  if (referral?.bonusTransactionId !== transactionId) return false;
+
+  const settings = getSettingOrDefault(businessId, 'referralSettings', DEFAULT_REFERRAL_SETTINGS);
+  const transaction = getCustomer(businessId, mobile)?.history.find(t => t.id === transactionId);
+  if ((transaction && isQualifyingReferralBill(transaction, settings)) || !clearReferralBonus(businessId, mobile, transactionId)) return false;
+
+  if (referral.refereeBonusPoints !== 0) {
+    appendLedgerEntry(businessId, mobile, {
+      type: 'adjust', points: -referral.refereeBonusPoints, note: `Referral bonus for joining through ${referral.referrerMobile} taken back: the bill was reversed`, createdAt: now.toISOString(),
+    }, actor);
+  }
+  if (referral.referrerBonusPoints !== 0 && getCustomer(businessId, referral.referrerMobile)) {
+    appendLedgerEntry(businessId, referral.referrerMobile, {
+      type: 'adjust', points: -referral.referrerBonusPoints, note: `Referral bonus for referring ${mobile} taken back: the bill was reversed`, createdAt: now.toISOString(),
+    }, actor);
+  }
+  return true;
+})();
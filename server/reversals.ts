@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { db } from './db';
+import { getCustomer, appendLedgerEntry } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { isSameBusinessDay } from '../src/utils/timeZoneUtils';
+import { DEFAULT_TIME_ZONE_SETTINGS } from '../defaults';
+import { ReversalKind, TransactionReversal } from '../types';
+
+export class ReversalError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ReversalError';
+    this.status = status;
+  }
+}
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+// Voids (same business day, whole bill) or refunds part or all of a transaction. The earned points and spend are taken back and
+// redeemed points given back in proportion to the amount refunded so far; each movement is a new ledger entry.
+// `amount` defaults to whatever has not been refunded yet.
+export const reverseTransaction = (
+  businessId: string, mobile: string, transactionId: string, kind: ReversalKind, reason: string, actor: string, amount?: number,
+): TransactionReversal => db.transaction(() => {
+  const customer = getCustomer(businessId, mobile);
+  const transaction = customer?.history.find(t => t.id === transactionId);
+  if (!customer || !transaction) throw new ReversalError(404, 'Transaction not found.');
+
+  const reversals = transaction.reversals || [];
+  if (reversals.some(r => r.kind === 'void')) throw new ReversalError(409, 'This transaction has already been voided.');
+
+  const refunded = reversals.reduce((sum, r) => sum + r.amount, 0);
+  const remaining = roundPoints(transaction.finalBill - refunded);
+  if (kind === 'void') {
+    if (reversals.length > 0) throw new ReversalError(409, 'This transaction has been partly refunded. Refund the rest instead.');
+    const { timeZone } = getSettingOrDefault(businessId, 'timeZoneSettings', DEFAULT_TIME_ZONE_SETTINGS);
+    if (!isSameBusinessDay(new Date(transaction.date), new Date(), timeZone)) {
+      throw new ReversalError(409, 'Only transactions from today can be voided. Issue a refund instead.');
+    }
+    amount = transaction.finalBill;
+  } else {
+    amount = amount ?? remaining;
+    if (remaining <= 0) throw new ReversalError(409, 'This transaction has already been fully refunded.');
+    if (!(amount > 0) || amount > remaining) throw new ReversalError(400, `Refund amount must be between 0 and ${remaining}.`);
+  }
+
+  // Work from running totals so rounding never leaves points behind once the bill is fully reversed.
+  const share = transaction.finalBill > 0 ? (refunded + amount) / transaction.finalBill : 1;
+  const pointsReversed = roundPoints(transaction.points * share - reversals.reduce((sum, r) => sum + r.pointsReversed, 0));
+  const pointsRestored = roundPoints((transaction.pointsUsed ?? 0) * share - reversals.reduce((sum, r) => sum + r.pointsRestored, 0));
+  if (customer.points - pointsReversed + pointsRestored < 0) {
+    throw new ReversalError(409, `The customer has already spent the points earned on this bill (${customer.points} left). Adjust their balance first.`);
+  }
+
+  const reversal: TransactionReversal = {
+    id: crypto.randomUUID(), kind, amount, pointsReversed, pointsRestored, reason, actor, createdAt: new Date().toISOString(),
+  };
+  db.prepare(`
+    INSERT INTO transaction_reversals (id, business_id, mobile, transaction_id, kind, amount, points_reversed, points_restored, reason, actor, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(reversal.id, businessId, mobile, transactionId, kind, amount, pointsReversed, pointsRestored, reason, actor, reversal.createdAt);
+
+  const note = `${kind === 'void' ? 'Void' : 'Refund'}: ${reason}`;
+  const link = { transactionId, reversalId: reversal.id, note, createdAt: reversal.createdAt };
+  appendLedgerEntry(businessId, mobile, { type: 'earn', points: -pointsReversed, amount: -amount, ...link }, actor);
+  if (pointsRestored > 0) appendLedgerEntry(businessId, mobile, { type: 'redeem', points: pointsRestored, ...link }, actor);
+  return reversal;
+})();
@@ -0,0 +1,38 @@
+import { db } from './db';
+import { getCustomer, appendLedgerEntry } from './stores/customerStore';
+import { consumePinVerification } from './pinVerification';
+import { getReward, takeRewardStock, recordRewardRedemption } from './stores/rewardStore';
+import { checkRewardRedemption } from '../src/utils/rewardUtils';
+import { RewardRedemption } from '../types';
+
+export class RewardRedemptionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RewardRedemptionError';
+    this.status = status;
+  }
+}
+
+// Gives the customer one of a catalog reward: uses up their PIN verification, takes the reward out of stock, books
+// its cost as a 'redeem' ledger entry and records the redemption against that entry, all in one step. A redemption
+// that fails leaves the verification unused.
+export const redeemReward = (
+  businessId: string, mobile: string, rewardId: string, pinToken: unknown, branchId: string | null, actor: string, now = new Date(),
+): RewardRedemption => db.transaction(() => {
+  const customer = getCustomer(businessId, mobile);
+  if (!customer) throw new RewardRedemptionError(404, 'Customer not found.');
+  if (!consumePinVerification(businessId, mobile, pinToken)) {
+    throw new RewardRedemptionError(403, "Verify the customer's PIN again before redeeming points.");
+  }
+  const reward = getReward(businessId, rewardId);
+  if (!reward) throw new RewardRedemptionError(404, 'Reward not found.');
+  const problem = checkRewardRedemption(reward, customer.points);
+  if (problem) throw new RewardRedemptionError(409, problem);
+
+  takeRewardStock(businessId, reward.id);
+  const at = now.toISOString();
+  const entry = appendLedgerEntry(businessId, mobile, { type: 'redeem', points: -reward.pointsCost, note: `Reward: ${reward.name}`, createdAt: at }, actor);
+  return recordRewardRedemption(businessId, mobile, reward, entry.id, branchId, actor, at);
+})();
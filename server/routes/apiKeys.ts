@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { createApiKey, listApiKeys, deleteApiKey } from '../stores/apiKeyStore';
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json({ success: true, apiKeys: listApiKeys(getBusinessId(res)) });
+});
+
+// The plaintext key is only returned here; store it somewhere safe.
+router.post('/', (req, res) => {
+  const label = String(req.body?.label || 'API key');
+  const { key, info } = createApiKey(getBusinessId(res), label);
+  res.status(201).json({ success: true, key, apiKey: info });
+});
+
+router.delete('/:id', (req, res) => {
+  const { id } = req.params;
+  if (!/^[0-9a-f]{12}$/.test(id) || !deleteApiKey(getBusinessId(res), id)) {
+    return res.status(404).json({ success: false, message: 'API key not found.' });
+  }
+  res.json({ success: true });
+});
+
+export default router;
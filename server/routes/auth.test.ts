@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { app, signUpOwner } from '../testApp';
+import { db } from '../db';
+
+describe('POST /api/auth/register', () => {
+  it('creates the owner and signs them in', async () => {
+    const agent = request.agent(app);
+    const res = await agent.post('/api/auth/register').send({ businessName: 'Cafe', username: 'reg-owner', password: 'password1' });
+    expect(res.status).toBe(201);
+    expect(res.body.admin).toEqual({ businessName: 'Cafe', username: 'reg-owner', businessId: 'reg-owner', role: 'owner' });
+    expect((await agent.get('/api/auth/me')).body.admin.username).toBe('reg-owner');
+  });
+
+  it('rejects missing fields, short passwords and taken usernames', async () => {
+    await signUpOwner('reg-taken');
+    const register = (body: object) => request(app).post('/api/auth/register').send({ businessName: 'Cafe', password: 'password1', ...body });
+    expect((await register({ username: '' })).status).toBe(400);
+    expect((await register({ username: 'reg-short', password: 'short' })).status).toBe(400);
+    expect((await register({ username: 'reg-taken' })).status).toBe(409);
+  });
+});
+
+describe('POST /api/auth/login', () => {
+  it('signs in with the right password only', async () => {
+    await signUpOwner('login-owner');
+    expect((await request(app).post('/api/auth/login').send({ username: 'login-owner', password: 'wrong-password' })).status).toBe(401);
+    expect((await request(app).post('/api/auth/login').send({ username: 'nobody', password: 'password1' })).status).toBe(401);
+
+    const agent = request.agent(app);
+    const res = await agent.post('/api/auth/login').send({ username: 'login-owner', password: 'password1' });
+    expect(res.status).toBe(200);
+    expect(res.headers['set-cookie'][0]).toMatch(/^payloop_session=.*HttpOnly/);
+    expect((await agent.get('/api/customers')).status).toBe(200);
+  });
+
+  it('stops taking guesses for a username after too many attempts', async () => {
+    await signUpOwner('limit-owner');
+    const guesses = await Promise.all(Array.from({ length: 12 }, (_, i) =>
+      request(app).post('/api/auth/login').send({ username: 'limit-owner', password: `guess-${i}` })));
+    expect(guesses.filter(res => res.status === 401)).toHaveLength(10);
+    expect(guesses.filter(res => res.status === 429)).toHaveLength(2);
+
+    const res = await request(app).post('/api/auth/login').send({ username: 'limit-owner', password: 'password1' });
+    expect(res.status).toBe(429);
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('forgets earlier mistakes after a successful login', async () => {
+    await signUpOwner('reset-owner');
+    for (let i = 0; i < 9; i++) await request(app).post('/api/auth/login').send({ username: 'reset-owner', password: 'wrong-password' });
+    await request(app).post('/api/auth/login').send({ username: 'reset-owner', password: 'password1' }).expect(200);
+    expect((await request(app).post('/api/auth/login').send({ username: 'reset-owner', password: 'wrong-password' })).status).toBe(401);
+  });
+});
+
+describe('sessions', () => {
+  it('end on logout', async () => {
+    const owner = await signUpOwner('logout-owner');
+    await owner.post('/api/auth/logout').expect(200);
+    expect((await owner.get('/api/auth/me')).status).toBe(401);
+  });
+
+  it('end when they expire', async () => {
+    const owner = await signUpOwner('expiry-owner');
+    db.prepare('UPDATE sessions SET expires_at = ? WHERE username = ?').run(new Date(Date.now() - 1000).toISOString(), 'expiry-owner');
+    const res = await owner.get('/api/customers');
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ success: false, message: 'Not logged in.' });
+  });
+});
+
+describe('POST /api/auth/dev-login', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('is off unless switched on', async () => {
+    expect((await request(app).post('/api/auth/dev-login')).status).toBe(404);
+  });
+
+  it('signs in to the sample business when switched on, outside production', async () => {
+    vi.stubEnv('ENABLE_DEV_LOGIN', 'true');
+    const res = await request(app).post('/api/auth/dev-login');
+    expect(res.status).toBe(200);
+    expect(res.body.admin.username).toBe('developer');
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect((await request(app).post('/api/auth/dev-login')).status).toBe(404);
+  });
+});
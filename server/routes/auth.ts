@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { Router, Response } from 'express';
+import { hashSecret, verifySecret, MIN_PASSWORD_LENGTH } from '../passwords';
+import { getAdmin, getPasswordHash, createAdmin } from '../stores/adminStore';
+import { createSession, deleteSession } from '../stores/sessionStore';
+import { reserveLoginAttempt, clearLoginAttempts } from '../loginLimit';
+import { requireSession, readCookie, SESSION_COOKIE, sessionCookieOptions } from '../middleware';
+
+// Verified against when the username is unknown, so response timing does not reveal which usernames exist.
+const dummyHashPromise = hashSecret(crypto.randomBytes(16).toString('hex'));
+
+const router = Router();
+
+const startSession = (res: Response, username: string) => {
+  res.cookie(SESSION_COOKIE, createSession(username), sessionCookieOptions);
+};
+
+router.post('/register', async (req, res) => {
+  const { businessName, username, password } = req.body;
+
+  if (!businessName || !username || !password) {
+    return res.status(400).json({ success: false, message: 'All fields are required.' });
+  }
+  if (String(password).length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+  }
+
+  const admin = { businessName: String(businessName), username: String(username) };
+  if (!createAdmin(admin, await hashSecret(String(password)))) {
+    return res.status(409).json({ success: false, message: 'Username already exists.' });
+  }
+
+  startSession(res, admin.username);
+  res.status(201).json({ success: true, admin: getAdmin(admin.username) });
+});
+
+router.post('/login', async (req, res) => {
+  const { username, password } = req.body;
+
+  if (!username || !password) {
+    return res.status(400).json({ success: false, message: 'Missing `username` or `password` in request.' });
+  }
+
+  const retryAfterSeconds = reserveLoginAttempt(String(username));
+  if (retryAfterSeconds) {
+    res.set('Retry-After', String(retryAfterSeconds));
+    return res.status(429).json({ success: false, message: 'Too many login attempts. Please wait a few minutes and try again.' });
+  }
+
+  const storedHash = getPasswordHash(String(username));
+  const isValid = await verifySecret(String(password), storedHash || await dummyHashPromise);
+  if (!storedHash || !isValid) {
+    return res.status(401).json({ success: false, message: 'Invalid username or password.' });
+  }
+
+  clearLoginAttempts(String(username));
+  startSession(res, String(username));
+  res.json({ success: true, admin: getAdmin(String(username)) });
+});
+
+router.post('/logout', (req, res) => {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) deleteSession(token);
+  res.clearCookie(SESSION_COOKIE, { ...sessionCookieOptions, maxAge: undefined });
+  res.json({ success: true });
+});
+
+router.get('/me', requireSession, (req, res) => {
+  res.json({ success: true, admin: res.locals.admin });
+});
+
+// Passwordless login to a sample business. Off unless the deployment sets ENABLE_DEV_LOGIN=true, and never in
+// production builds, so a server started without NODE_ENV is not left open.
+router.post('/dev-login', async (req, res) => {
+  if (process.env.ENABLE_DEV_LOGIN !== 'true' || process.env.NODE_ENV === 'production') {
+    return res.status(404).json({ success: false, message: 'Not found.' });
+  }
+
+  const admin = { businessName: 'Dev Mode', username: 'developer' };
+  if (!getAdmin(admin.username)) {
+    createAdmin(admin, await hashSecret(crypto.randomBytes(16).toString('hex')));
+  }
+
+  startSession(res, admin.username);
+  res.json({ success: true, admin: getAdmin(admin.username) });
+});
+
+export default router;
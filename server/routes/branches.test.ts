@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+const addBranch = async (owner: Agent, name: string): Promise<string> => {
+  const res = await owner.post('/api/branches').send({ name }).expect(201);
+  return res.body.branches.find((b: { name: string }) => b.name === name).id;
+};
+
+describe('/api/branches', () => {
+  it('adds, renames and lists branches with unique names', async () => {
+    const owner = await signUpOwner('branch-owner');
+    const id = await addBranch(owner, 'Indiranagar');
+    await addBranch(owner, 'Koramangala');
+    expect((await owner.post('/api/branches').send({ name: ' Indiranagar ' })).status).toBe(409);
+    expect((await owner.post('/api/branches').send({ name: ' ' })).status).toBe(400);
+
+    expect((await owner.put(`/api/branches/${id}`).send({ name: 'Koramangala' })).status).toBe(409);
+    const renamed = await owner.put(`/api/branches/${id}`).send({ name: 'HSR Layout' });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.branches.map((b: { name: string }) => b.name)).toEqual(['HSR Layout', 'Koramangala']);
+    expect((await owner.put('/api/branches/missing').send({ name: 'X' })).status).toBe(404);
+  });
+
+  it('keeps branches to their own business', async () => {
+    const owner = await signUpOwner('branch-mine');
+    const other = await signUpOwner('branch-theirs');
+    const id = await addBranch(owner, 'Indiranagar');
+    expect((await other.get('/api/branches')).body.branches).toEqual([]);
+    expect((await other.delete(`/api/branches/${id}`)).status).toBe(404);
+  });
+
+  it('needs every bill to name a branch once there are any', async () => {
+    const owner = await signUpOwner('branch-bills');
+    await owner.post('/api/customers').send({ mobile: '+911', name: 'Asha', pin: '1234' }).expect(201);
+    const id = await addBranch(owner, 'Indiranagar');
+    const bill = { bill: 100, finalBill: 100, points: 0, payments: [{ method: 'cash', amount: 100 }] };
+
+    expect((await owner.post('/api/customers/+911/transactions').send(bill)).body.message).toBe('Choose the branch this transaction was made at.');
+    expect((await owner.post('/api/customers/+911/transactions').send({ ...bill, branchId: 'elsewhere' })).body.message).toBe('Unknown branch.');
+    const res = await owner.post('/api/customers/+911/transactions').send({ ...bill, branchId: id });
+    expect(res.status).toBe(201);
+    expect(res.body.customer.history[0].branchId).toBe(id);
+  });
+
+  it('only removes branches no bill was rung up at', async () => {
+    const owner = await signUpOwner('branch-delete');
+    await owner.post('/api/customers').send({ mobile: '+912', name: 'Asha', pin: '1234' }).expect(201);
+    const used = await addBranch(owner, 'Indiranagar');
+    const unused = await addBranch(owner, 'Koramangala');
+    await owner.post('/api/customers/+912/transactions').send({ bill: 100, finalBill: 100, points: 0, branchId: used, payments: [{ method: 'cash', amount: 100 }] }).expect(201);
+
+    const refused = await owner.delete(`/api/branches/${used}`);
+    expect(refused.status).toBe(409);
+    expect(refused.body.message).toBe('This branch has transactions and cannot be removed. Rename it instead.');
+    const removed = await owner.delete(`/api/branches/${unused}`);
+    expect(removed.status).toBe(200);
+    expect(removed.body.branches.map((b: { id: string }) => b.id)).toEqual([used]);
+  });
+
+  it('keeps branches a reward was redeemed at', async () => {
+    const owner = await signUpOwner('branch-reward');
+    await owner.post('/api/customers').send({ mobile: '+913', name: 'Asha', pin: '1234' }).expect(201);
+    await owner.post('/api/customers/+913/adjustments').send({ points: 200, note: 'Opening balance' }).expect(201);
+    const branchId = await addBranch(owner, 'Jayanagar');
+    const rewardId = (await owner.post('/api/rewards').send({ name: 'Free coffee', pointsCost: 150, stock: 1 }).expect(201)).body.rewards[0].id;
+    const { pinToken } = (await owner.post('/api/customers/+913/verify-pin').send({ pin: '1234' }).expect(200)).body;
+    await owner.post('/api/customers/+913/rewards').send({ rewardId, branchId, pinToken }).expect(201);
+
+    const refused = await owner.delete(`/api/branches/${branchId}`);
+    expect(refused.status).toBe(409);
+    expect(refused.body.message).toBe('This branch has transactions and cannot be removed. Rename it instead.');
+  });
+});
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { listBranches, getBranch, createBranch, renameBranch, branchHasTransactions, deleteBranch } from '../stores/branchStore';
+
+const router = Router();
+
+// Every role can list branches; the till needs them to tag transactions.
+router.get('/', (req, res) => {
+  res.json({ success: true, branches: listBranches(getBusinessId(res)) });
+});
+
+router.post('/', requireRole('owner'), (req, res) => {
+  const name = String(req.body.name ?? '').trim();
+  if (!name) {
+    return res.status(400).json({ success: false, message: 'Missing `name` in request.' });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createBranch(businessId, name)) {
+    return res.status(409).json({ success: false, message: 'A branch with this name already exists.' });
+  }
+  res.status(201).json({ success: true, branches: listBranches(businessId) });
+});
+
+router.put('/:id', requireRole('owner'), (req, res) => {
+  const name = String(req.body.name ?? '').trim();
+  if (!name) {
+    return res.status(400).json({ success: false, message: 'Missing `name` in request.' });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!getBranch(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Branch not found.' });
+  }
+  if (!renameBranch(businessId, req.params.id, name)) {
+    return res.status(409).json({ success: false, message: 'A branch with this name already exists.' });
+  }
+  res.json({ success: true, branches: listBranches(businessId) });
+});
+
+router.delete('/:id', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getBranch(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Branch not found.' });
+  }
+  if (branchHasTransactions(businessId, req.params.id)) {
+    return res.status(409).json({ success: false, message: 'This branch has transactions and cannot be removed. Rename it instead.' });
+  }
+  deleteBranch(businessId, req.params.id);
+  res.json({ success: true, branches: listBranches(businessId) });
+});
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { listCampaigns, getCampaign, createCampaign, updateCampaign, campaignHasTransactions, deleteCampaign } from '../stores/campaignStore';
+import { validateCampaign, CampaignInput } from '../../src/utils/campaignUtils';
+
+const router = Router();
+
+const toInput = (body: CampaignInput): CampaignInput => ({
+  name: body.name.trim(),
+  startsAt: new Date(body.startsAt).toISOString(),
+  endsAt: new Date(body.endsAt).toISOString(),
+  weekdays: [...new Set(body.weekdays)].sort((a, b) => a - b),
+  startHour: body.startHour,
+  endHour: body.endHour,
+  tierIds: [...new Set(body.tierIds)],
+  pointsMultiplier: body.pointsMultiplier,
+  extraDiscountPercentage: body.extraDiscountPercentage,
+});
+
+// Every role can list campaigns; the till applies them to bills.
+router.get('/', (req, res) => {
+  res.json({ success: true, campaigns: listCampaigns(getBusinessId(res)) });
+});
+
+router.post('/', requireRole('owner'), (req, res) => {
+  const error = validateCampaign(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createCampaign(businessId, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A campaign with this name already exists.' });
+  }
+  res.status(201).json({ success: true, campaigns: listCampaigns(businessId) });
+});
+
+router.put('/:id', requireRole('owner'), (req, res) => {
+  const error = validateCampaign(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!getCampaign(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Campaign not found.' });
+  }
+  if (!updateCampaign(businessId, req.params.id, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A campaign with this name already exists.' });
+  }
+  res.json({ success: true, campaigns: listCampaigns(businessId) });
+});
+
+router.delete('/:id', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCampaign(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Campaign not found.' });
+  }
+  if (campaignHasTransactions(businessId, req.params.id)) {
+    return res.status(409).json({ success: false, message: 'This campaign has been applied to bills and cannot be removed. End it instead.' });
+  }
+  deleteCampaign(businessId, req.params.id);
+  res.json({ success: true, campaigns: listCampaigns(businessId) });
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { runCelebrations } from '../celebrations';
+
+const router = Router();
+
+// Grants this business's birthday and anniversary rewards now. Lets an external scheduler drive them where no
+// long-lived server runs the background job (e.g. Vercel), using an API key.
+router.post('/run', async (req, res) => {
+  const run = await runCelebrations(getBusinessId(res));
+  res.json({ success: true, run });
+});
+
+export default router;
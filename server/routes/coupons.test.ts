@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+const coupon = (overrides: object = {}) => ({
+  code: 'take20', discountType: 'flat', discountValue: 20, singleUse: true, expiresAt: null, minimumBill: 0, ...overrides,
+});
+
+const addCoupon = async (owner: Agent, overrides: object = {}) => {
+  const res = await owner.post('/api/coupons').send(coupon(overrides)).expect(201);
+  return res.body.coupons[0] as { id: string; code: string; redemptions: number };
+};
+
+// A ₹100 bill less the coupon's ₹20, paid with ₹100 cash: 20 points of change.
+const couponBill = (couponId: string) => ({
+  bill: 100, finalBill: 80, points: 20, payments: [{ method: 'cash', amount: 100 }],
+  coupon: { couponId, code: 'TAKE20', discountAmount: 20 },
+});
+
+describe('coupon management', () => {
+  it('creates, edits and removes coupons with unique codes', async () => {
+    const owner = await signUpOwner('coupon-owner');
+    const created = await addCoupon(owner);
+    expect(created).toMatchObject({ code: 'TAKE20', redemptions: 0 });
+
+    expect((await owner.post('/api/coupons').send(coupon({ code: 'TAKE20' }))).status).toBe(409);
+    expect((await owner.post('/api/coupons').send(coupon({ discountValue: 0 }))).body.message).toBe('The discount must be more than zero.');
+    const edited = await owner.put(`/api/coupons/${created.id}`).send(coupon({ code: 'take-30', discountValue: 30 }));
+    expect(edited.body.coupons[0]).toMatchObject({ code: 'TAKE-30', discountValue: 30 });
+    expect((await owner.put('/api/coupons/missing').send(coupon())).status).toBe(404);
+
+    expect((await owner.delete(`/api/coupons/${created.id}`)).body.coupons).toEqual([]);
+    expect((await owner.delete(`/api/coupons/${created.id}`)).status).toBe(404);
+  });
+
+  it('lets only the owner list and change coupons, and anyone check a code', async () => {
+    const owner = await signUpOwner('coupon-roles');
+    const { id } = await addCoupon(owner, { minimumBill: 500 });
+    const manager = await signInStaff(owner, 'coupon-manager', 'manager');
+    expect((await manager.get('/api/coupons')).status).toBe(403);
+    expect((await manager.post('/api/coupons').send(coupon({ code: 'OTHER' }))).status).toBe(403);
+    expect((await manager.delete(`/api/coupons/${id}`)).status).toBe(403);
+
+    const cashier = await signInStaff(owner, 'coupon-cashier', 'cashier');
+    expect((await cashier.post('/api/coupons/check').send({ code: 'take20', bill: 600 })).body.coupon).toMatchObject({ id });
+    expect((await cashier.post('/api/coupons/check').send({ code: 'take20', bill: 100 })).body.message).toBe('Coupon TAKE20 needs a bill of at least ₹500.');
+    expect((await cashier.post('/api/coupons/check').send({ code: 'nope', bill: 600 })).status).toBe(404);
+  });
+
+  it("keeps each business's codes to itself", async () => {
+    const owner = await signUpOwner('coupon-mine');
+    const { id } = await addCoupon(owner);
+    const other = await signUpOwner('coupon-theirs');
+    expect((await other.post('/api/coupons/check').send({ code: 'take20', bill: 100 })).status).toBe(404);
+    expect((await other.delete(`/api/coupons/${id}`)).status).toBe(404);
+    await addCoupon(other);
+  });
+});
+
+describe('single-use coupons', () => {
+  it('work once, are freed by voiding the bill, and cannot be removed once redeemed', async () => {
+    const owner = await signUpOwner('single-use-owner');
+    await owner.post('/api/customers').send({ mobile: '+911', name: 'Asha', pin: '1234' }).expect(201);
+    const { id } = await addCoupon(owner);
+
+    const first = await owner.post('/api/customers/+911/transactions').send(couponBill(id));
+    expect(first.status).toBe(201);
+    expect(first.body.customer.history[0].coupon).toEqual({ couponId: id, code: 'TAKE20', discountAmount: 20 });
+    const again = await owner.post('/api/customers/+911/transactions').send(couponBill(id));
+    expect(again.status).toBe(400);
+    expect(again.body.message).toBe('Coupon TAKE20 has already been used.');
+    expect((await owner.delete(`/api/coupons/${id}`)).status).toBe(409);
+
+    await owner.post(`/api/customers/+911/transactions/${first.body.customer.history[0].id}/void`).send({ reason: 'Wrong customer' }).expect(201);
+    expect((await owner.get('/api/coupons')).body.coupons[0].redemptions).toBe(0);
+    expect((await owner.post('/api/customers/+911/transactions').send(couponBill(id))).status).toBe(201);
+  });
+
+  it('stay used after a refund', async () => {
+    const owner = await signUpOwner('single-use-refund');
+    await owner.post('/api/customers').send({ mobile: '+912', name: 'Ravi', pin: '1234' }).expect(201);
+    const { id } = await addCoupon(owner);
+    const first = await owner.post('/api/customers/+912/transactions').send(couponBill(id)).expect(201);
+    await owner.post(`/api/customers/+912/transactions/${first.body.customer.history[0].id}/refund`).send({ reason: 'Returned' }).expect(201);
+    expect((await owner.post('/api/customers/+912/transactions').send(couponBill(id))).status).toBe(400);
+  });
+});
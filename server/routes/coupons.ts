@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { listCoupons, getCoupon, findCouponByCode, createCoupon, updateCoupon, couponHasTransactions, deleteCoupon } from '../stores/couponStore';
+import { validateCoupon, checkCoupon, normalizeCouponCode, CouponInput } from '../../src/utils/couponUtils';
+
+const router = Router();
+
+const toInput = (body: CouponInput): CouponInput => ({
+  code: normalizeCouponCode(body.code),
+  discountType: body.discountType,
+  discountValue: body.discountValue,
+  singleUse: body.singleUse,
+  expiresAt: body.expiresAt === null ? null : new Date(body.expiresAt).toISOString(),
+  minimumBill: body.minimumBill,
+});
+
+// The till looks a code up before applying it; the bill is checked again when it is recorded.
+router.post('/check', (req, res) => {
+  const { code, bill } = req.body as { code?: string; bill?: number };
+  if (typeof code !== 'string' || typeof bill !== 'number') {
+    return res.status(400).json({ success: false, message: 'Missing `code` or `bill` in request.' });
+  }
+
+  const coupon = findCouponByCode(getBusinessId(res), code);
+  if (!coupon) {
+    return res.status(404).json({ success: false, message: 'No coupon has this code.' });
+  }
+  const problem = checkCoupon(coupon, bill);
+  if (problem) {
+    return res.status(400).json({ success: false, message: problem });
+  }
+  res.json({ success: true, coupon });
+});
+
+// Only owners see the full list of codes.
+router.get('/', requireRole('owner'), (req, res) => {
+  res.json({ success: true, coupons: listCoupons(getBusinessId(res)) });
+});
+
+router.post('/', requireRole('owner'), (req, res) => {
+  const error = validateCoupon(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createCoupon(businessId, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A coupon with this code already exists.' });
+  }
+  res.status(201).json({ success: true, coupons: listCoupons(businessId) });
+});
+
+router.put('/:id', requireRole('owner'), (req, res) => {
+  const error = validateCoupon(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!getCoupon(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Coupon not found.' });
+  }
+  if (!updateCoupon(businessId, req.params.id, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A coupon with this code already exists.' });
+  }
+  res.json({ success: true, coupons: listCoupons(businessId) });
+});
+
+router.delete('/:id', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCoupon(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Coupon not found.' });
+  }
+  if (couponHasTransactions(businessId, req.params.id)) {
+    return res.status(409).json({ success: false, message: 'This coupon has been redeemed and cannot be removed. Expire it instead.' });
+  }
+  deleteCoupon(businessId, req.params.id);
+  res.json({ success: true, coupons: listCoupons(businessId) });
+});
+
+export default router;
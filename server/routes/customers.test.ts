@@ -0,0 +1,441 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+import { getZonedTime, isSameBusinessDay } from '../../src/utils/timeZoneUtils';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+// A customer with PIN 1234 and `points` to spend.
+const addCustomer = async (agent: Agent, mobile: string, points = 0) => {
+  await agent.post('/api/customers').send({ mobile, name: 'Asha', pin: '1234' }).expect(201);
+  if (points) await agent.post(`/api/customers/${mobile}/adjustments`).send({ points, note: 'Opening balance' }).expect(201);
+};
+
+// A ₹100 bill paid partly with points.
+const redeemingBill = (pointsUsed: number) => ({
+  date: new Date().toISOString(), bill: 100, finalBill: 100, points: 0, pointsUsed,
+  payments: [{ method: 'cash', amount: 100 - pointsUsed }],
+});
+
+describe('POST /api/customers/:mobile/transactions', () => {
+  it('needs a PIN verification to redeem points', async () => {
+    const owner = await signUpOwner('pin-owner');
+    await addCustomer(owner, '+911', 50);
+
+    const unverified = await owner.post('/api/customers/+911/transactions').send(redeemingBill(50));
+    expect(unverified.status).toBe(403);
+    const forged = await owner.post('/api/customers/+911/transactions').send({ ...redeemingBill(50), pinToken: 'made-up' });
+    expect(forged.status).toBe(403);
+    expect((await owner.get('/api/customers/+911/transactions')).body.transactions).toEqual([]);
+
+    const { pinToken } = (await owner.post('/api/customers/+911/verify-pin').send({ pin: '1234' }).expect(200)).body;
+    const verified = await owner.post('/api/customers/+911/transactions').send({ ...redeemingBill(50), pinToken });
+    expect(verified.status).toBe(201);
+    expect(verified.body.customer.points).toBe(0);
+  });
+
+  it('uses each verification once and only for its own customer', async () => {
+    const owner = await signUpOwner('pin-once');
+    await addCustomer(owner, '+912', 50);
+    await addCustomer(owner, '+913', 50);
+    const { pinToken } = (await owner.post('/api/customers/+912/verify-pin').send({ pin: '1234' }).expect(200)).body;
+
+    expect((await owner.post('/api/customers/+913/transactions').send({ ...redeemingBill(10), pinToken })).status).toBe(403);
+    expect((await owner.post('/api/customers/+912/transactions').send({ ...redeemingBill(10), pinToken })).status).toBe(201);
+    expect((await owner.post('/api/customers/+912/transactions').send({ ...redeemingBill(10), pinToken })).status).toBe(403);
+  });
+
+  it('records bills that spend no points without a verification', async () => {
+    const owner = await signUpOwner('pin-none');
+    await addCustomer(owner, '+914');
+    const res = await owner.post('/api/customers/+914/transactions').send(redeemingBill(0));
+    expect(res.status).toBe(201);
+  });
+});
+
+describe('PIN entry', () => {
+  const verify = (agent: Agent, mobile: string, pin: string) => agent.post(`/api/customers/${mobile}/verify-pin`).send({ pin });
+
+  it('locks after too many wrong PINs, until the owner unlocks it', async () => {
+    const owner = await signUpOwner('lock-owner');
+    await addCustomer(owner, '+941');
+    for (const attemptsRemaining of [4, 3, 2, 1]) {
+      const res = await verify(owner, '+941', '0000');
+      expect(res.status).toBe(403);
+      expect(res.body.attemptsRemaining).toBe(attemptsRemaining);
+    }
+    expect((await verify(owner, '+941', '0000')).status).toBe(423);
+    expect((await verify(owner, '+941', '1234')).status).toBe(423);
+    expect((await owner.get('/api/pin-lockouts')).body.pinLockouts).toHaveLength(1);
+
+    await owner.post('/api/customers/+941/unlock').expect(200);
+    expect((await verify(owner, '+941', '1234')).status).toBe(200);
+  });
+
+  it('starts counting again after a correct PIN', async () => {
+    const owner = await signUpOwner('count-owner');
+    await addCustomer(owner, '+942');
+    for (let i = 0; i < 4; i++) await verify(owner, '+942', '0000').expect(403);
+    await verify(owner, '+942', '1234').expect(200);
+    expect((await verify(owner, '+942', '0000')).body.attemptsRemaining).toBe(4);
+  });
+
+  it('counts guesses sent in parallel before checking any of them', async () => {
+    const owner = await signUpOwner('parallel-owner');
+    await addCustomer(owner, '+943');
+    const pins = Array.from({ length: 60 }, (_, i) => (i === 40 ? '1234' : String(i).padStart(4, '0')));
+    const results = await Promise.all(pins.map(pin => verify(owner, '+943', pin)));
+    expect(results.filter(res => res.status === 200)).toEqual([]);
+    expect(results.filter(res => res.status === 403).length).toBeLessThanOrEqual(4);
+    expect(results.filter(res => res.status === 423).length).toBeGreaterThanOrEqual(56);
+    expect((await verify(owner, '+943', '1234')).status).toBe(423);
+    expect((await owner.get('/api/pin-lockouts')).body.pinLockouts).toHaveLength(1);
+  });
+});
+
+describe('bill dates', () => {
+  it('are stamped by the server, whatever the till sends', async () => {
+    const owner = await signUpOwner('date-owner');
+    await addCustomer(owner, '+915');
+    const before = new Date().toISOString();
+    const res = await owner.post('/api/customers/+915/transactions').send({ ...redeemingBill(0), date: '2020-01-01T00:00:00.000Z' });
+    expect(res.status).toBe(201);
+    const [bill] = res.body.customer.history;
+    expect(bill.date >= before).toBe(true);
+    const ledger = (await owner.get('/api/customers/+915/ledger')).body.entries;
+    expect(ledger.every((e: { createdAt: string }) => e.createdAt >= before)).toBe(true);
+  });
+});
+
+describe('bill amounts', () => {
+  const bill = (overrides: object) => ({ bill: 100, finalBill: 100, points: 0, payments: [{ method: 'cash', amount: 100 }], ...overrides });
+
+  it('rejects points the bill does not earn', async () => {
+    const owner = await signUpOwner('earn-owner');
+    await addCustomer(owner, '+921');
+    const res = await owner.post('/api/customers/+921/transactions').send({ bill: 1, finalBill: 1, points: 99999, payments: [{ method: 'cash', amount: 1 }] });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('This bill earns 0 points. Ring the bill up again.');
+    expect((await owner.get('/api/customers/+921')).body.customer.points).toBe(0);
+  });
+
+  it('works out change points from what was handed over', async () => {
+    const owner = await signUpOwner('change-owner');
+    await addCustomer(owner, '+922');
+    const paid = [{ method: 'cash', amount: 110 }];
+    expect((await owner.post('/api/customers/+922/transactions').send(bill({ points: 11, payments: paid }))).status).toBe(400);
+    const res = await owner.post('/api/customers/+922/transactions').send(bill({ points: 10, payments: paid }));
+    expect(res.status).toBe(201);
+    expect(res.body.customer.points).toBe(10);
+  });
+
+  it('rejects bills of zero or less', async () => {
+    const owner = await signUpOwner('negative-owner');
+    await addCustomer(owner, '+926');
+    for (const amounts of [{ bill: -500, finalBill: 0 }, { bill: 0, finalBill: 0 }, { bill: 100, finalBill: -100 }]) {
+      const res = await owner.post('/api/customers/+926/transactions').send(bill({ ...amounts, payments: [] }));
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('The bill must be more than zero and its total zero or more.');
+    }
+    expect((await owner.get('/api/customers/+926')).body.customer.history).toEqual([]);
+  });
+
+  it('rejects a total that does not follow from the discounts', async () => {
+    const owner = await signUpOwner('total-owner');
+    await addCustomer(owner, '+923');
+    const res = await owner.post('/api/customers/+923/transactions').send(bill({ finalBill: 1, payments: [{ method: 'cash', amount: 1 }] }));
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('The bill total does not match its discounts. Ring the bill up again.');
+  });
+
+  it("allows only the customer's own tier discount", async () => {
+    const owner = await signUpOwner('tier-owner');
+    await addCustomer(owner, '+924', 150); // Silver: 5% off
+    const discounted = { discountPercentage: 5, finalBill: 95, payments: [{ method: 'cash', amount: 95 }] };
+    const wrong = await owner.post('/api/customers/+924/transactions').send(bill({ ...discounted, discountPercentage: 15 }));
+    expect(wrong.status).toBe(400);
+    expect(wrong.body.message).toBe('Silver customers get 5% off. Ring the bill up again.');
+    expect((await owner.post('/api/customers/+924/transactions').send(bill(discounted))).status).toBe(201);
+  });
+
+  it('refuses the tier discount once it has lapsed', async () => {
+    const owner = await signUpOwner('lapsed-owner');
+    const history = [{ date: '2020-01-01T10:00:00.000Z', bill: 3000, finalBill: 3000, points: 150 }];
+    await owner.post('/api/import').send({ customers: [{ mobile: '+925', name: 'Ravi', pin: '1234', points: 150, totalSpent: 3000, history }] }).expect(200);
+    const res = await owner.post('/api/customers/+925/transactions').send(bill({ discountPercentage: 5, finalBill: 95, payments: [{ method: 'cash', amount: 95 }] }));
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/^The Silver discount has lapsed/);
+  });
+});
+
+describe('bill payments', () => {
+  const bill = (payments: unknown) => ({ bill: 90, finalBill: 90, points: 0, payments });
+
+  it('must be given, and settle the bill', async () => {
+    const owner = await signUpOwner('payments-owner');
+    await addCustomer(owner, '+925');
+    const missing = await owner.post('/api/customers/+925/transactions').send({ bill: 90, finalBill: 90, points: 0 });
+    expect(missing.status).toBe(400);
+    expect(missing.body.message).toBe('Missing `payments` in request.');
+    expect((await owner.post('/api/customers/+925/transactions').send(bill([{ method: 'cash', amount: 80 }]))).body.message).toBe('₹10 is still to be paid.');
+    expect((await owner.post('/api/customers/+925/transactions').send(bill([{ method: 'cheque', amount: 90 }]))).body.message).toBe('Each payment must be cash, card or UPI.');
+    expect((await owner.post('/api/customers/+925/transactions').send(bill([]))).status).toBe(400);
+    expect((await owner.get('/api/customers/+925')).body.customer.history).toEqual([]);
+  });
+
+  it('split across methods, with change only from cash', async () => {
+    const owner = await signUpOwner('split-owner');
+    await addCustomer(owner, '+926');
+    const overCard = await owner.post('/api/customers/+926/transactions').send(bill([{ method: 'card', amount: 100 }]));
+    expect(overCard.body.message).toBe('Card and UPI payments cannot be more than is left to pay; only cash gives change.');
+
+    // ₹50 on card and ₹60 in cash leaves ₹20 of change, which becomes points.
+    const payments = [{ method: 'card', amount: 50, reference: ' 4242 ' }, { method: 'cash', amount: 60, reference: ' ' }];
+    const res = await owner.post('/api/customers/+926/transactions').send({ ...bill(payments), points: 20 });
+    expect(res.status).toBe(201);
+    expect(res.body.customer.history[0].payments).toEqual([{ method: 'card', amount: 50, reference: '4242' }, { method: 'cash', amount: 60 }]);
+    expect(res.body.customer.points).toBe(20);
+  });
+
+  it('are empty on a bill paid entirely with points', async () => {
+    const owner = await signUpOwner('points-only-owner');
+    await addCustomer(owner, '+927', 100);
+    const { pinToken } = (await owner.post('/api/customers/+927/verify-pin').send({ pin: '1234' }).expect(200)).body;
+    const res = await owner.post('/api/customers/+927/transactions').send({ ...redeemingBill(100), payments: [], pinToken });
+    expect(res.status).toBe(201);
+    expect(res.body.customer.points).toBe(0);
+  });
+});
+
+describe('POST /api/customers', () => {
+  it('refuses bills sent with a new customer, whoever sends them', async () => {
+    const owner = await signUpOwner('history-owner');
+    const cashier = await signInStaff(owner, 'history-cashier', 'cashier');
+    const history = [{ date: '2020-01-01T10:00:00.000Z', bill: 1, finalBill: 1, points: 5000 }];
+    for (const agent of [cashier, owner]) {
+      const res = await agent.post('/api/customers').send({ mobile: '+931', name: 'Asha', pin: '1234', history });
+      expect(res.status).toBe(400);
+    }
+    expect((await owner.get('/api/customers')).body.customers).toEqual([]);
+  });
+
+  it('creates the customer, whose first bill is then recorded like any other', async () => {
+    const owner = await signUpOwner('first-bill-owner');
+    const cashier = await signInStaff(owner, 'first-bill-cashier', 'cashier');
+    const created = await cashier.post('/api/customers').send({ mobile: '+932', name: 'Asha', pin: '1234', history: [] });
+    expect(created.status).toBe(201);
+    expect(created.body.customer.points).toBe(0);
+    const res = await cashier.post('/api/customers/+932/transactions').send({ bill: 90, finalBill: 90, points: 10, payments: [{ method: 'cash', amount: 100 }] });
+    expect(res.status).toBe(201);
+    expect(res.body.customer.points).toBe(10);
+  });
+});
+
+describe('voids and refunds', () => {
+  // Records a ₹90 bill paid with ₹100 cash, which earns the 10 rupees of change as points, and returns its id.
+  const ringUp = async (agent: Agent, mobile: string) => {
+    const res = await agent.post(`/api/customers/${mobile}/transactions`).send({ bill: 90, finalBill: 90, points: 10, payments: [{ method: 'cash', amount: 100 }] });
+    expect(res.status).toBe(201);
+    return res.body.customer.history.at(-1).id as string;
+  };
+
+  it("voids today's bill, taking back its points and spend in new ledger entries", async () => {
+    const owner = await signUpOwner('void-owner');
+    await addCustomer(owner, '+951');
+    const id = await ringUp(owner, '+951');
+
+    const res = await owner.post(`/api/customers/+951/transactions/${id}/void`).send({ reason: 'Wrong customer' });
+    expect(res.status).toBe(201);
+    expect(res.body.reversal).toMatchObject({ kind: 'void', amount: 90, pointsReversed: 10, pointsRestored: 0, actor: 'void-owner' });
+    expect(res.body.customer).toMatchObject({ points: 0, totalSpent: 0 });
+    const entries = (await owner.get('/api/customers/+951/ledger')).body.entries;
+    expect(entries).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'earn', points: 10, amount: 90, transactionId: id }),
+      expect.objectContaining({ type: 'earn', points: -10, amount: -90, transactionId: id, reversalId: res.body.reversal.id, note: 'Void: Wrong customer' }),
+    ]));
+
+    expect((await owner.post(`/api/customers/+951/transactions/${id}/void`).send({ reason: 'Again' })).status).toBe(409);
+    expect((await owner.post(`/api/customers/+951/transactions/${id}/refund`).send({ reason: 'Again' })).status).toBe(409);
+  });
+
+  it('only voids bills from today, and refunds older ones', async () => {
+    const owner = await signUpOwner('old-void-owner');
+    const history = [{ date: '2020-01-01T10:00:00.000Z', bill: 100, finalBill: 100, points: 10 }];
+    await owner.post('/api/import').send({ customers: [{ mobile: '+952', name: 'Ravi', pin: '1234', points: 10, totalSpent: 100, history }] }).expect(200);
+    const [bill] = (await owner.get('/api/customers/+952')).body.customer.history;
+
+    const voided = await owner.post(`/api/customers/+952/transactions/${bill.id}/void`).send({ reason: 'Too late' });
+    expect(voided.status).toBe(409);
+    expect(voided.body.message).toBe('Only transactions from today can be voided. Issue a refund instead.');
+
+    const refunded = await owner.post(`/api/customers/+952/transactions/${bill.id}/refund`).send({ reason: 'Stale cake', amount: 40 });
+    expect(refunded.status).toBe(201);
+    expect(refunded.body.reversal).toMatchObject({ kind: 'refund', amount: 40, pointsReversed: 4 });
+    expect(refunded.body.customer).toMatchObject({ points: 6, totalSpent: 60 });
+  });
+
+  it("counts today on the business's clocks", async () => {
+    const owner = await signUpOwner('zone-void-owner');
+    const date = new Date(Date.now() - 12 * 60 * 60 * 1000);
+    // Twelve hours ago is still today wherever it is past noon now, and yesterday wherever it is not. These zones are
+    // spread around the clock closely enough that there is always one of each.
+    const zones = ['Pacific/Pago_Pago', 'America/New_York', 'UTC', 'Asia/Kolkata', 'Asia/Tokyo', 'Pacific/Kiritimati'];
+    const sameDay = zones.find(zone => isSameBusinessDay(date, new Date(), zone));
+    const dayBefore = zones.find(zone => !isSameBusinessDay(date, new Date(), zone));
+    const history = [{ date: date.toISOString(), bill: 100, finalBill: 100, points: 10 }];
+    await owner.post('/api/import').send({ customers: [{ mobile: '+954', name: 'Ravi', pin: '1234', points: 10, totalSpent: 100, history }] }).expect(200);
+    const [bill] = (await owner.get('/api/customers/+954')).body.customer.history;
+
+    await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: dayBefore } }).expect(200);
+    expect((await owner.post(`/api/customers/+954/transactions/${bill.id}/void`).send({ reason: 'Yesterday' })).status).toBe(409);
+    await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: sameDay } }).expect(200);
+    expect((await owner.post(`/api/customers/+954/transactions/${bill.id}/void`).send({ reason: 'Today' })).status).toBe(201);
+  });
+
+  it('refunds in parts up to the bill, and then no more', async () => {
+    const owner = await signUpOwner('refund-owner');
+    await addCustomer(owner, '+953');
+    const id = await ringUp(owner, '+953');
+    const refund = (body: object) => owner.post(`/api/customers/+953/transactions/${id}/refund`).send({ reason: 'Returned', ...body });
+
+    expect((await refund({ amount: 100 })).status).toBe(400);
+    expect((await refund({ reason: ' ' })).status).toBe(400);
+    expect((await refund({ amount: 30 })).body.reversal.pointsReversed).toBeCloseTo(3.33);
+    expect((await owner.post(`/api/customers/+953/transactions/${id}/void`).send({ reason: 'Whole bill' })).status).toBe(409);
+    const rest = await refund({});
+    expect(rest.body.reversal.amount).toBe(60);
+    expect(rest.body.customer).toMatchObject({ points: 0, totalSpent: 0 });
+    expect((await refund({ amount: 1 })).status).toBe(409);
+  });
+
+  it('gives back the points a bill redeemed', async () => {
+    const owner = await signUpOwner('restore-owner');
+    await addCustomer(owner, '+954', 50);
+    const { pinToken } = (await owner.post('/api/customers/+954/verify-pin').send({ pin: '1234' }).expect(200)).body;
+    const bill = await owner.post('/api/customers/+954/transactions').send({ ...redeemingBill(50), pinToken }).expect(201);
+    const id = bill.body.customer.history.at(-1).id;
+
+    const res = await owner.post(`/api/customers/+954/transactions/${id}/void`).send({ reason: 'Wrong customer' });
+    expect(res.body.reversal).toMatchObject({ pointsRestored: 50 });
+    expect(res.body.customer.points).toBe(50);
+  });
+});
+
+describe('campaigns on a bill', () => {
+  const campaign = (overrides: object) => ({
+    name: 'Double points', startsAt: '2020-01-01T00:00:00.000Z', endsAt: '2100-01-01T00:00:00.000Z', weekdays: [], startHour: 0, endHour: 24,
+    tierIds: [], pointsMultiplier: 2, extraDiscountPercentage: 10, ...overrides,
+  });
+  // ₹100 less 10%, paid with ₹100 cash: 10 points of change, doubled.
+  const campaignBill = (campaignId: string, overrides: object = {}) => ({
+    bill: 100, finalBill: 90, points: 20, payments: [{ method: 'cash', amount: 100 }],
+    campaigns: [{ campaignId, name: 'Anything', discountAmount: 10, bonusPoints: 10 }], ...overrides,
+  });
+  const addCampaign = async (owner: Agent, overrides: object = {}) =>
+    (await owner.post('/api/campaigns').send(campaign(overrides)).expect(201)).body.campaigns[0].id as string;
+
+  it('records a running campaign with the discount and bonus worked out on the server', async () => {
+    const owner = await signUpOwner('campaign-owner');
+    await addCustomer(owner, '+941');
+    const id = await addCampaign(owner);
+    const res = await owner.post('/api/customers/+941/transactions').send(campaignBill(id));
+    expect(res.status).toBe(201);
+    expect(res.body.customer.history[0].campaigns).toEqual([{ campaignId: id, name: 'Double points', discountAmount: 10, bonusPoints: 10 }]);
+    expect(res.body.customer.points).toBe(20);
+  });
+
+  it('rejects a campaign that has ended', async () => {
+    const owner = await signUpOwner('campaign-ended');
+    await addCustomer(owner, '+942');
+    const id = await addCampaign(owner, { endsAt: '2021-01-01T00:00:00.000Z' });
+    const res = await owner.post('/api/customers/+942/transactions').send(campaignBill(id));
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Double points is not running for this customer now. Ring the bill up again.');
+  });
+
+  it("reads the campaign's hours on the business's clocks", async () => {
+    const owner = await signUpOwner('campaign-zone');
+    await addCustomer(owner, '+945');
+    // Only this hour in Kiritimati, which is fourteen hours ahead of UTC, so never this hour there.
+    const hour = getZonedTime(new Date(), 'Pacific/Kiritimati').hour;
+    const id = await addCampaign(owner, { startHour: hour, endHour: hour + 1 });
+
+    await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: 'UTC' } }).expect(200);
+    expect((await owner.post('/api/customers/+945/transactions').send(campaignBill(id))).status).toBe(400);
+    await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: 'Pacific/Kiritimati' } }).expect(200);
+    expect((await owner.post('/api/customers/+945/transactions').send(campaignBill(id))).status).toBe(201);
+  });
+
+  it('rejects a campaign for another tier', async () => {
+    const owner = await signUpOwner('campaign-tier');
+    await addCustomer(owner, '+943');
+    const id = await addCampaign(owner, { tierIds: ['gold'] });
+    expect((await owner.post('/api/customers/+943/transactions').send(campaignBill(id))).status).toBe(400);
+  });
+
+  it('rejects inflated discounts, bonuses and repeats', async () => {
+    const owner = await signUpOwner('campaign-inflated');
+    await addCustomer(owner, '+944');
+    const id = await addCampaign(owner);
+    const inflatedDiscount = campaignBill(id, { finalBill: 10, payments: [{ method: 'cash', amount: 10 }], campaigns: [{ campaignId: id, name: 'x', discountAmount: 90, bonusPoints: 0 }] });
+    expect((await owner.post('/api/customers/+944/transactions').send(inflatedDiscount)).status).toBe(400);
+    const inflatedBonus = campaignBill(id, { points: 1010, campaigns: [{ campaignId: id, name: 'x', discountAmount: 10, bonusPoints: 1000 }] });
+    expect((await owner.post('/api/customers/+944/transactions').send(inflatedBonus)).status).toBe(400);
+    const twice = campaignBill(id, { campaigns: [campaignBill(id).campaigns[0], campaignBill(id).campaigns[0]] });
+    expect((await owner.post('/api/customers/+944/transactions').send(twice)).status).toBe(400);
+    expect((await owner.get('/api/customers/+944')).body.customer.points).toBe(0);
+  });
+});
+
+describe('referral bonuses on reversed bills', () => {
+  // Asha referred Ravi. Bills of ₹50 or more pay Asha 100 points and Ravi 50.
+  const setUp = async (username: string) => {
+    const owner = await signUpOwner(username);
+    await owner.put('/api/settings/referralSettings').send({ value: { referrerPoints: 100, refereePoints: 50, minimumBill: 50 } }).expect(200);
+    await addCustomer(owner, '+961');
+    await owner.post('/api/customers').send({ mobile: '+962', name: 'Ravi', pin: '1234', referredBy: '+961' }).expect(201);
+    return owner;
+  };
+  // A ₹90 bill paid with exactly ₹90, so it earns no points of its own.
+  const ringUp = async (owner: Agent) =>
+    (await owner.post('/api/customers/+962/transactions').send({ bill: 90, finalBill: 90, points: 0, payments: [{ method: 'upi', amount: 90 }] }).expect(201))
+      .body.customer.history.at(-1).id as string;
+  const points = async (owner: Agent, mobile: string) => (await owner.get(`/api/customers/${mobile}`)).body.customer.points;
+
+  it('takes both bonuses back when the bill is voided, and pays them on the next qualifying bill', async () => {
+    const owner = await setUp('referral-void');
+    const id = await ringUp(owner);
+    expect([await points(owner, '+961'), await points(owner, '+962')]).toEqual([100, 50]);
+
+    const voided = await owner.post(`/api/customers/+962/transactions/${id}/void`).send({ reason: 'Wrong customer' }).expect(201);
+    expect(voided.body.customer).toMatchObject({ points: 0, referralBonusAt: null });
+    expect(await points(owner, '+961')).toBe(0);
+    const entries = (await owner.get('/api/customers/+961/ledger')).body.entries;
+    expect(entries.map((e: { points: number; note: string }) => [e.points, e.note])).toEqual(expect.arrayContaining([
+      [-100, 'Referral bonus for referring +962 taken back: the bill was reversed'],
+    ]));
+
+    await ringUp(owner);
+    expect([await points(owner, '+961'), await points(owner, '+962')]).toEqual([100, 50]);
+  });
+
+  it('keeps the bonuses until refunds take the bill below the minimum', async () => {
+    const owner = await setUp('referral-refund');
+    const id = await ringUp(owner);
+    await owner.post(`/api/customers/+962/transactions/${id}/refund`).send({ reason: 'One item', amount: 40 }).expect(201);
+    expect([await points(owner, '+961'), await points(owner, '+962')]).toEqual([100, 50]);
+
+    const refunded = await owner.post(`/api/customers/+962/transactions/${id}/refund`).send({ reason: 'Another item', amount: 1 }).expect(201);
+    expect(refunded.body.customer.referralBonusAt).toBeNull();
+    expect([await points(owner, '+961'), await points(owner, '+962')]).toEqual([0, 0]);
+  });
+
+  it('moves the bonuses to another bill that still qualifies', async () => {
+    const owner = await setUp('referral-move');
+    const first = await ringUp(owner);
+    await ringUp(owner);
+    await owner.post(`/api/customers/+962/transactions/${first}/refund`).send({ reason: 'Returned' }).expect(201);
+    const customer = (await owner.get('/api/customers/+962')).body.customer;
+    expect(customer.referralBonusAt).not.toBeNull();
+    expect([await points(owner, '+961'), customer.points]).toEqual([100, 50]);
+  });
+});
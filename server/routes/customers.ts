@@ -0,0 +1,529 @@
+import { Router, Request, Response } from 'express';
+import { getBusinessId, getActor, requireRole } from '../middleware';
+import { listCustomers, getCustomer, createCustomer, updateCustomer, deleteCustomer, addTransaction, resetFailedPinAttempts, listLedgerEntries, appendLedgerEntry, CelebrationUsedError } from '../stores/customerStore';
+import { hashSecret } from '../passwords';
+import { verifyCustomerPin, isValidPin, issuePinVerification, consumePinVerification } from '../pinVerification';
+import { requestPinReset, completePinReset } from '../pinReset';
+import { respondWithSmsError } from './sms';
+import { reverseTransaction, ReversalError } from '../reversals';
+import { redeemReward, RewardRedemptionError } from '../rewards';
+import { listBranches, getBranch } from '../stores/branchStore';
+import { getCampaign } from '../stores/campaignStore';
+import { getCoupon } from '../stores/couponStore';
+import { getCelebrationGrant } from '../stores/celebrationStore';
+import { getProduct } from '../stores/productStore';
+import { listTierChanges } from '../stores/tierStore';
+import { refreshCustomerTier } from '../tierReview';
+import { payReferralBonuses, reverseReferralBonuses } from '../referrals';
+import { getSettingOrDefault } from '../stores/settingsStore';
+import { checkRedemption, pointsToRupees } from '../../src/utils/redemptionUtils';
+import { checkDiscountEligibility, getCustomerTier } from '../../src/utils/tierUtils';
+import { isCampaignActive, getCampaignDiscount, applyCampaigns } from '../../src/utils/campaignUtils';
+import { calculatePointsEarned } from '../../src/utils/earningUtils';
+import { checkCoupon, getCouponDiscount } from '../../src/utils/couponUtils';
+import { getCelebrationDiscount, isValidDateOnly, todayDateOnly } from '../../src/utils/celebrationUtils';
+import { checkPayments } from '../../src/utils/paymentUtils';
+import { checkBillItems, getItemsTotal, FREE_AMOUNT_NAME } from '../../src/utils/productUtils';
+import { calculateBillTax, getAddedTax } from '../../src/utils/taxUtils';
+import { DEFAULT_REDEMPTION_SETTINGS, DEFAULT_TAX_SETTINGS, DEFAULT_TIER_SETTINGS, DEFAULT_EARNING_SETTINGS, DEFAULT_TIME_ZONE_SETTINGS } from '../../defaults';
+import { Customer, TransactionHistory, ReversalKind, Campaign, AppliedCampaign, AppliedCoupon, AppliedCelebration, Tender, BillItem, BillTax, TaxSettings, TierSettings, TierDefinition, EarningSettings } from '../../types';
+
+const router = Router();
+
+// Once a business has branches, every bill must say which one it was rung up at. Returns an error message, if any.
+const checkBranch = (businessId: string, branchId: unknown): string | null => {
+  if (branchId === undefined || branchId === null) {
+    return listBranches(businessId).length > 0 ? 'Choose the branch this transaction was made at.' : null;
+  }
+  return getBranch(businessId, String(branchId)) ? null : 'Unknown branch.';
+};
+
+// Campaigns the till applied to a bill must be this business's own, running now for a customer in `tier`, and each
+// applied once. Their discounts are worked out again here; bonus points follow once the bill's points are known.
+const resolveCampaigns = (businessId: string, entry: TransactionHistory, tier: TierDefinition): { campaigns: Campaign[] } | { error: string } => {
+  const applied = entry.campaigns as unknown;
+  if (applied === undefined) return { campaigns: [] };
+  if (!Array.isArray(applied)) return { error: '`campaigns` must be a list.' };
+  const { timeZone } = getSettingOrDefault(businessId, 'timeZoneSettings', DEFAULT_TIME_ZONE_SETTINGS);
+  const campaigns: Campaign[] = [];
+  for (const item of applied as Partial<AppliedCampaign>[]) {
+    const campaign = typeof item?.campaignId === 'string' ? getCampaign(businessId, item.campaignId) : null;
+    if (!campaign) return { error: 'Unknown campaign.' };
+    if (campaigns.some(c => c.id === campaign.id)) return { error: `${campaign.name} can only apply once.` };
+    if (!isCampaignActive(campaign, tier, timeZone)) return { error: `${campaign.name} is not running for this customer now. Ring the bill up again.` };
+    const discountAmount = getCampaignDiscount(campaign, entry.bill);
+    if (typeof item.discountAmount !== 'number' || Math.abs(item.discountAmount - discountAmount) > 0.01) {
+      return { error: `${campaign.name} gives ₹${discountAmount.toLocaleString()} off this bill. Ring the bill up again.` };
+    }
+    campaigns.push(campaign);
+  }
+  return { campaigns };
+};
+
+// Dates of birth and membership are optional calendar dates, and cannot be in the future.
+const checkCustomerDates = (dateOfBirth: unknown, memberSince: unknown): string | null => {
+  if (dateOfBirth !== undefined && dateOfBirth !== null && (!isValidDateOnly(dateOfBirth) || dateOfBirth > todayDateOnly())) {
+    return 'Date of birth must be a past date (YYYY-MM-DD).';
+  }
+  if (memberSince !== undefined && (!isValidDateOnly(memberSince) || memberSince > todayDateOnly())) {
+    return 'Member since must be a date no later than today (YYYY-MM-DD).';
+  }
+  return null;
+};
+
+// What is left of the bill after the tier and campaign discounts.
+const afterTierAndCampaigns = (entry: TransactionHistory, campaigns: Campaign[]) =>
+  Math.max(0, entry.bill * (1 - (entry.discountPercentage ?? 0) / 100) - campaigns.reduce((sum, c) => sum + getCampaignDiscount(c, entry.bill), 0));
+
+// The tier discount is optional (the cashier may leave it off), but when given it must be the customer's recorded
+// tier's discount, and the customer must have been back within that tier's deadline.
+const resolveTierDiscount = (entry: TransactionHistory, customer: Customer, settings: TierSettings): { discountPercentage?: number } | { error: string } => {
+  const applied = entry.discountPercentage;
+  if (applied === undefined || applied === null || applied === 0) return {};
+  const { eligible } = checkDiscountEligibility(customer, settings);
+  const tier = getCustomerTier(customer, settings);
+  if (!eligible) return { error: `The ${tier.name} discount has lapsed: the customer's last visit was more than ${tier.deadlineDays} days ago.` };
+  if (applied !== tier.discountPercentage) return { error: `${tier.name} customers get ${tier.discountPercentage}% off. Ring the bill up again.` };
+  return { discountPercentage: tier.discountPercentage };
+};
+
+// A birthday or anniversary discount must be one of this customer's unused discount grants, used before its week is
+// over, and take off what the grant gives on this bill.
+const resolveCelebration = (businessId: string, mobile: string, entry: TransactionHistory, campaigns: Campaign[]): { celebration?: AppliedCelebration } | { error: string } => {
+  const applied = entry.celebration as Partial<AppliedCelebration> | undefined;
+  if (applied === undefined || applied === null) return {};
+  const grant = typeof applied.grantId === 'string' ? getCelebrationGrant(businessId, applied.grantId) : null;
+  if (!grant || grant.mobile !== mobile || grant.rewardType !== 'discount') return { error: 'Unknown birthday or anniversary reward.' };
+  if (grant.redeemedTransactionId) return { error: 'This reward has already been used.' };
+  if (Date.now() >= Date.parse(grant.validUntil)) return { error: 'This reward has expired.' };
+  const discountAmount = getCelebrationDiscount(grant, entry.bill, afterTierAndCampaigns(entry, campaigns));
+  if (typeof applied.discountAmount !== 'number' || Math.abs(applied.discountAmount - discountAmount) > 0.01) {
+    return { error: `The ${grant.occasion} reward gives ₹${discountAmount.toLocaleString()} off this bill.` };
+  }
+  return { celebration: { grantId: grant.id, occasion: grant.occasion, discountAmount } };
+};
+
+// A coupon on a bill must still be redeemable, and its discount must be what the coupon gives after the tier,
+// campaign and celebration discounts. The code is taken from the stored coupon.
+const resolveCoupon = (
+  businessId: string, entry: TransactionHistory, campaigns: Campaign[], celebration?: AppliedCelebration,
+): { coupon?: AppliedCoupon } | { error: string } => {
+  const applied = entry.coupon as Partial<AppliedCoupon> | undefined;
+  if (applied === undefined || applied === null) return {};
+  const coupon = typeof applied.couponId === 'string' ? getCoupon(businessId, applied.couponId) : null;
+  if (!coupon) return { error: 'Unknown coupon.' };
+  const problem = checkCoupon(coupon, entry.bill);
+  if (problem) return { error: problem };
+  const remaining = afterTierAndCampaigns(entry, campaigns) - (celebration?.discountAmount ?? 0);
+  const discountAmount = getCouponDiscount(coupon, entry.bill, remaining);
+  if (typeof applied.discountAmount !== 'number' || Math.abs(applied.discountAmount - discountAmount) > 0.01) {
+    return { error: `Coupon ${coupon.code} gives ₹${discountAmount.toLocaleString()} off this bill. Apply the code again.` };
+  }
+  return { coupon: { couponId: coupon.id, code: coupon.code, discountAmount } };
+};
+
+// Every bill says how it was paid: the payments must settle what is left after points, with any change coming from
+// cash. A bill paid entirely with points has none. Blank references are dropped. Only imported bills, from before
+// split payments, go without.
+const resolvePayments = (value: unknown, amountPayable: number): { payments: Tender[] } | { error: string } => {
+  if (value === undefined || value === null) return { error: 'Missing `payments` in request.' };
+  const problem = checkPayments(value, amountPayable);
+  if (problem) return { error: problem };
+  const payments = (value as Tender[]).map(({ method, amount, reference }) => ({
+    method, amount, ...(reference?.trim() ? { reference: reference.trim() } : {}),
+  }));
+  return { payments };
+};
+
+// Bill lines are optional. Product lines take their name, SKU and category from the catalog and must be at the
+// product's current price; free-amount lines keep the cashier's description. Together they must make up `bill`.
+const resolveItems = (businessId: string, value: unknown, bill: number): { items?: BillItem[] } | { error: string } => {
+  if (value === undefined || value === null) return {};
+  const problem = checkBillItems(value);
+  if (problem) return { error: problem };
+  const items: BillItem[] = [];
+  for (const { productId, name, quantity, unitPrice, amount } of value as BillItem[]) {
+    if (productId === undefined) {
+      items.push({ name: name.trim() || FREE_AMOUNT_NAME, quantity, unitPrice, amount });
+      continue;
+    }
+    const product = getProduct(businessId, productId);
+    if (!product) return { error: 'Unknown product.' };
+    if (Math.abs(unitPrice - product.price) > 0.01) {
+      return { error: `${product.name} now costs ₹${product.price.toLocaleString()}. Add it to the bill again.` };
+    }
+    items.push({ productId, name: product.name, sku: product.sku, category: product.category, quantity, unitPrice: product.price, amount });
+  }
+  if (Math.abs(getItemsTotal(items) - bill) > 0.01) return { error: 'The bill lines do not add up to the bill amount.' };
+  return { items };
+};
+
+// The server works out the tax from its own settings, on what is left after every discount (calculateBillTax gives
+// the order). The bill's total must be that amount plus any exclusive tax, so a till with out-of-date settings, or
+// a made-up total, cannot charge the wrong amount.
+const resolveTax = (
+  entry: TransactionHistory, items: BillItem[] | undefined, campaigns: Campaign[], celebration: AppliedCelebration | undefined,
+  coupon: AppliedCoupon | undefined, settings: TaxSettings,
+): { tax?: BillTax } | { error: string } => {
+  const discounted = afterTierAndCampaigns(entry, campaigns) - (celebration?.discountAmount ?? 0) - (coupon?.discountAmount ?? 0);
+  const tax = calculateBillTax(items ?? [{ amount: entry.bill }], discounted, settings);
+  if (Math.abs(entry.finalBill - discounted - getAddedTax(tax)) > 0.01) {
+    return { error: `The bill total does not match its discounts${tax ? ` and ${tax.label}` : ''}. Ring the bill up again.` };
+  }
+  return { tax };
+};
+
+// Points are earned by the business's rules at the customer's tier, on what was paid after points, plus each
+// campaign's bonus; change left with the store counts as given. Returns the campaigns as recorded on the bill.
+const resolvePointsEarned = (
+  entry: TransactionHistory, pointsValue: number, payments: Tender[], campaigns: Campaign[], tier: TierDefinition,
+  settings: EarningSettings,
+): { campaigns: AppliedCampaign[] } | { error: string } => {
+  const amountPaid = entry.finalBill - pointsValue;
+  const cashGiven = payments.reduce((sum, p) => sum + p.amount, 0);
+  const earning = calculatePointsEarned({ finalBill: entry.finalBill, amountPaid, cashGiven }, tier, settings);
+  const applied = applyCampaigns(campaigns, entry.bill, earning.points);
+  const points = earning.points + applied.reduce((sum, c) => sum + c.bonusPoints, 0);
+  return entry.points === points ? { campaigns: applied } : { error: `This bill earns ${points} points. Ring the bill up again.` };
+};
+
+router.get('/', (req, res) => {
+  res.json({ success: true, customers: listCustomers(getBusinessId(res)) });
+});
+
+router.get('/:mobile', (req, res) => {
+  const customer = getCustomer(getBusinessId(res), req.params.mobile);
+  if (!customer) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true, customer });
+});
+
+router.post('/', async (req, res) => {
+  // Balances and bills are not accepted here: a new customer's first bill is recorded like any other, and past
+  // bills can only be brought in by the owner's import.
+  const { mobile, name, pin, referredBy, dateOfBirth, memberSince, history } = req.body as Partial<Customer>;
+
+  if (!mobile || !pin) {
+    return res.status(400).json({ success: false, message: 'Missing `mobile` or `pin` in request.' });
+  }
+  if (history !== undefined && !(Array.isArray(history) && history.length === 0)) {
+    return res.status(400).json({ success: false, message: 'Create the customer without `history`, then record their bill with POST /customers/:mobile/transactions.' });
+  }
+  if (!isValidPin(pin)) {
+    return res.status(400).json({ success: false, message: 'PIN must be 4 digits.' });
+  }
+  const datesError = checkCustomerDates(dateOfBirth, memberSince ?? undefined);
+  if (datesError) {
+    return res.status(400).json({ success: false, message: datesError });
+  }
+
+  // Hashed before the checks below so the referrer cannot be deleted between checking and saving.
+  const pinHash = await hashSecret(pin);
+  const businessId = getBusinessId(res);
+  if (referredBy !== undefined && referredBy !== null) {
+    if (referredBy === mobile) {
+      return res.status(400).json({ success: false, message: 'A customer cannot refer themselves.' });
+    }
+    if (typeof referredBy !== 'string' || !getCustomer(businessId, referredBy)) {
+      return res.status(400).json({ success: false, message: 'No customer has the referrer\'s mobile.' });
+    }
+  }
+  const created = createCustomer(businessId, { mobile, name: name || 'Guest', pinHash, referredBy, dateOfBirth, memberSince, history: [] }, getActor(res));
+  if (!created) {
+    return res.status(409).json({ success: false, message: 'A customer with this mobile already exists.' });
+  }
+  refreshCustomerTier(businessId, mobile);
+  res.status(201).json({ success: true, customer: getCustomer(businessId, mobile) });
+});
+
+router.put('/:mobile', requireRole('owner', 'manager'), async (req, res) => {
+  const { name, pin, points, totalSpent, dateOfBirth, memberSince } = req.body as Partial<Customer>;
+  if (points !== undefined || totalSpent !== undefined) {
+    return res.status(400).json({ success: false, message: 'Balances come from the ledger. Post an adjustment instead.' });
+  }
+  const datesError = checkCustomerDates(dateOfBirth, memberSince ?? undefined);
+  if (datesError) {
+    return res.status(400).json({ success: false, message: datesError });
+  }
+  if (pin !== undefined && !isValidPin(pin)) {
+    return res.status(400).json({ success: false, message: 'PIN must be 4 digits.' });
+  }
+  const pinHash = pin !== undefined ? await hashSecret(pin) : undefined;
+  const customer = updateCustomer(getBusinessId(res), req.params.mobile, { name, pinHash, dateOfBirth, memberSince: memberSince ?? undefined });
+  if (!customer) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true, customer });
+});
+
+router.delete('/:mobile', requireRole('owner', 'manager'), (req, res) => {
+  if (!deleteCustomer(getBusinessId(res), req.params.mobile)) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true });
+});
+
+router.post('/:mobile/verify-pin', async (req, res) => {
+  const { pin } = req.body;
+  if (typeof pin !== 'string') {
+    return res.status(400).json({ success: false, message: 'Missing `pin` in request.' });
+  }
+
+  const result = await verifyCustomerPin(getBusinessId(res), req.params.mobile, pin);
+  switch (result.status) {
+    case 'ok':
+      return res.json({
+        success: true,
+        customer: getCustomer(getBusinessId(res), req.params.mobile),
+        pinToken: issuePinVerification(getBusinessId(res), req.params.mobile),
+      });
+    case 'invalid':
+      return res.status(403).json({ success: false, message: 'Incorrect PIN code.', attemptsRemaining: result.attemptsRemaining });
+    case 'locked':
+      return res.status(423).json({ success: false, message: 'Too many incorrect attempts. PIN entry is locked.', lockedUntil: result.lockedUntil });
+    case 'not-found':
+      return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+});
+
+// Lets the owner lift a PIN lockout before its cooldown ends.
+router.post('/:mobile/unlock', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCustomer(businessId, req.params.mobile)) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  resetFailedPinAttempts(businessId, req.params.mobile);
+  res.json({ success: true, customer: getCustomer(businessId, req.params.mobile) });
+});
+
+// Forgotten PIN: texts a one-time code to the customer's mobile.
+router.post('/:mobile/pin-reset', async (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCustomer(businessId, req.params.mobile)) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+
+  try {
+    const expiresAt = await requestPinReset(businessId, req.params.mobile, res.locals.admin?.businessName || 'Pay Loop');
+    res.json({ success: true, expiresAt });
+  } catch (error) {
+    respondWithSmsError(res, error);
+  }
+});
+
+router.post('/:mobile/pin-reset/confirm', async (req, res) => {
+  const { code, newPin } = req.body;
+  if (typeof code !== 'string' || !code) {
+    return res.status(400).json({ success: false, message: 'Missing `code` in request.' });
+  }
+  if (!isValidPin(newPin)) {
+    return res.status(400).json({ success: false, message: 'PIN must be 4 digits.' });
+  }
+
+  const result = await completePinReset(getBusinessId(res), req.params.mobile, code, newPin);
+  switch (result.status) {
+    case 'ok':
+      return res.json({ success: true, customer: getCustomer(getBusinessId(res), req.params.mobile) });
+    case 'invalid':
+      return res.status(403).json({ success: false, message: 'Incorrect reset code.', attemptsRemaining: result.attemptsRemaining });
+    case 'expired':
+      return res.status(410).json({ success: false, message: 'This reset code has expired. Please request a new one.' });
+  }
+});
+
+router.get('/:mobile/transactions', (req, res) => {
+  const customer = getCustomer(getBusinessId(res), req.params.mobile);
+  if (!customer) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true, transactions: customer.history });
+});
+
+// Spending points needs the `pinToken` from a correct PIN entry for this customer; the bill uses it up.
+router.post('/:mobile/transactions', (req, res) => {
+  const { pinToken, ...entry } = req.body as TransactionHistory & { pinToken?: string };
+
+  if (typeof entry.bill !== 'number' || typeof entry.finalBill !== 'number' || typeof entry.points !== 'number') {
+    return res.status(400).json({ success: false, message: 'Transaction requires numeric `bill`, `finalBill` and `points`.' });
+  }
+  // The upper bound on `finalBill` is checked with the tax below: exclusive tax can take it past `bill`.
+  if (!Number.isFinite(entry.bill) || entry.bill <= 0 || !Number.isFinite(entry.finalBill) || entry.finalBill < 0) {
+    return res.status(400).json({ success: false, message: 'The bill must be more than zero and its total zero or more.' });
+  }
+  const pointsUsed = entry.pointsUsed ?? 0;
+  if (typeof pointsUsed !== 'number' || pointsUsed < 0 || entry.points < 0) {
+    return res.status(400).json({ success: false, message: '`points` and `pointsUsed` cannot be negative.' });
+  }
+
+  const businessId = getBusinessId(res);
+  const existing = getCustomer(businessId, req.params.mobile);
+  if (!existing) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  if (pointsUsed > existing.points) {
+    return res.status(400).json({ success: false, message: `Only ${existing.points} points are available to redeem.` });
+  }
+  const redemptionSettings = getSettingOrDefault(businessId, 'redemptionSettings', DEFAULT_REDEMPTION_SETTINGS);
+  const redemptionError = checkRedemption(pointsUsed, existing.points, entry.finalBill, redemptionSettings);
+  if (redemptionError) {
+    return res.status(400).json({ success: false, message: redemptionError });
+  }
+  const branchError = checkBranch(businessId, entry.branchId);
+  if (branchError) {
+    return res.status(400).json({ success: false, message: branchError });
+  }
+  const tierSettings = getSettingOrDefault(businessId, 'tierSettings', DEFAULT_TIER_SETTINGS);
+  const resolvedDiscount = resolveTierDiscount(entry, existing, tierSettings);
+  if ('error' in resolvedDiscount) {
+    return res.status(400).json({ success: false, message: resolvedDiscount.error });
+  }
+  const tier = getCustomerTier(existing, tierSettings);
+
+  const resolved = resolveCampaigns(businessId, entry, tier);
+  if ('error' in resolved) {
+    return res.status(400).json({ success: false, message: resolved.error });
+  }
+  const resolvedCelebration = resolveCelebration(businessId, req.params.mobile, entry, resolved.campaigns);
+  if ('error' in resolvedCelebration) {
+    return res.status(400).json({ success: false, message: resolvedCelebration.error });
+  }
+  const resolvedCoupon = resolveCoupon(businessId, entry, resolved.campaigns, resolvedCelebration.celebration);
+  if ('error' in resolvedCoupon) {
+    return res.status(400).json({ success: false, message: resolvedCoupon.error });
+  }
+
+  const { bill, finalBill, points, branchId } = entry;
+  const { discountPercentage } = resolvedDiscount;
+  const pointsValue = pointsToRupees(pointsUsed, redemptionSettings);
+  const resolvedPayments = resolvePayments(entry.payments, finalBill - pointsValue);
+  if ('error' in resolvedPayments) {
+    return res.status(400).json({ success: false, message: resolvedPayments.error });
+  }
+  const resolvedItems = resolveItems(businessId, entry.items, bill);
+  if ('error' in resolvedItems) {
+    return res.status(400).json({ success: false, message: resolvedItems.error });
+  }
+  const taxSettings = getSettingOrDefault(businessId, 'taxSettings', DEFAULT_TAX_SETTINGS);
+  const resolvedTax = resolveTax(entry, resolvedItems.items, resolved.campaigns, resolvedCelebration.celebration, resolvedCoupon.coupon, taxSettings);
+  if ('error' in resolvedTax) {
+    return res.status(400).json({ success: false, message: resolvedTax.error });
+  }
+  const earningSettings = getSettingOrDefault(businessId, 'earningSettings', DEFAULT_EARNING_SETTINGS);
+  const resolvedPoints = resolvePointsEarned(entry, pointsValue, resolvedPayments.payments, resolved.campaigns, tier, earningSettings);
+  if ('error' in resolvedPoints) {
+    return res.status(400).json({ success: false, message: resolvedPoints.error });
+  }
+  if (pointsUsed > 0 && !consumePinVerification(businessId, req.params.mobile, pinToken)) {
+    return res.status(403).json({ success: false, message: "Verify the customer's PIN again before redeeming points." });
+  }
+  try {
+    // Stamped here: a till's clock, or a forged date, must not move a bill into another day, tier window or campaign.
+    addTransaction(businessId, req.params.mobile, { date: new Date().toISOString(), bill, discountPercentage, finalBill, pointsUsed, pointsValue, points, branchId, campaigns: resolvedPoints.campaigns, coupon: resolvedCoupon.coupon, celebration: resolvedCelebration.celebration, payments: resolvedPayments.payments, items: resolvedItems.items, tax: resolvedTax.tax }, getActor(res));
+  } catch (error) {
+    if (error instanceof CelebrationUsedError) {
+      return res.status(409).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+  payReferralBonuses(businessId, req.params.mobile, getActor(res));
+  refreshCustomerTier(businessId, req.params.mobile);
+  res.status(201).json({ success: true, customer: getCustomer(businessId, req.params.mobile) });
+});
+
+// Voids (same day) or refunds (`amount` optional, defaults to the rest of the bill) a recorded transaction.
+const reverse = (kind: ReversalKind) => (req: Request<{ mobile: string; id: string }>, res: Response) => {
+  const { reason, amount } = req.body as { reason?: string; amount?: number };
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return res.status(400).json({ success: false, message: 'Please give a reason.' });
+  }
+  if (amount !== undefined && typeof amount !== 'number') {
+    return res.status(400).json({ success: false, message: '`amount` must be a number.' });
+  }
+
+  const businessId = getBusinessId(res);
+  try {
+    const reversal = reverseTransaction(businessId, req.params.mobile, req.params.id, kind, reason.trim(), getActor(res), kind === 'refund' ? amount : undefined);
+    // Referral bonuses paid on this bill are taken back, and paid again on another bill if one still qualifies.
+    if (reverseReferralBonuses(businessId, req.params.mobile, req.params.id, getActor(res))) {
+      payReferralBonuses(businessId, req.params.mobile, getActor(res));
+    }
+    refreshCustomerTier(businessId, req.params.mobile);
+    res.status(201).json({ success: true, reversal, customer: getCustomer(businessId, req.params.mobile) });
+  } catch (error) {
+    if (error instanceof ReversalError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+};
+
+router.post('/:mobile/transactions/:id/void', requireRole('owner', 'manager'), reverse('void'));
+router.post('/:mobile/transactions/:id/refund', requireRole('owner', 'manager'), reverse('refund'));
+
+router.get('/:mobile/ledger', (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCustomer(businessId, req.params.mobile)) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true, entries: listLedgerEntries(businessId, req.params.mobile) });
+});
+
+router.get('/:mobile/tier-changes', (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getCustomer(businessId, req.params.mobile)) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  res.json({ success: true, changes: listTierChanges(businessId, req.params.mobile) });
+});
+
+// Gives the customer an item from the rewards catalog for its points cost. Like spending points on a bill, it needs
+// a fresh PIN verification.
+router.post('/:mobile/rewards', (req, res) => {
+  const { rewardId, branchId, pinToken } = req.body as { rewardId?: string; branchId?: string; pinToken?: string };
+  if (typeof rewardId !== 'string') {
+    return res.status(400).json({ success: false, message: 'Missing `rewardId` in request.' });
+  }
+
+  const businessId = getBusinessId(res);
+  const branchError = checkBranch(businessId, branchId);
+  if (branchError) {
+    return res.status(400).json({ success: false, message: branchError });
+  }
+  try {
+    const redemption = redeemReward(businessId, req.params.mobile, rewardId, pinToken, branchId ?? null, getActor(res));
+    refreshCustomerTier(businessId, req.params.mobile);
+    res.status(201).json({ success: true, redemption, customer: getCustomer(businessId, req.params.mobile) });
+  } catch (error) {
+    if (error instanceof RewardRedemptionError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+});
+
+// Manual corrections are new 'adjust' entries with a reason; existing entries are never changed.
+router.post('/:mobile/adjustments', requireRole('owner', 'manager'), (req, res) => {
+  const { points = 0, amount = 0, note } = req.body as { points?: number; amount?: number; note?: string };
+  if (typeof points !== 'number' || typeof amount !== 'number' || !Number.isFinite(points) || !Number.isFinite(amount) || (points === 0 && amount === 0)) {
+    return res.status(400).json({ success: false, message: 'An adjustment needs a non-zero numeric `points` or `amount`.' });
+  }
+  if (typeof note !== 'string' || !note.trim()) {
+    return res.status(400).json({ success: false, message: 'Please give a reason for the adjustment.' });
+  }
+
+  const businessId = getBusinessId(res);
+  const existing = getCustomer(businessId, req.params.mobile);
+  if (!existing) {
+    return res.status(404).json({ success: false, message: 'Customer not found.' });
+  }
+  if (existing.points + points < 0) {
+    return res.status(400).json({ success: false, message: `The customer only has ${existing.points} points.` });
+  }
+
+  const entry = appendLedgerEntry(businessId, req.params.mobile, { type: 'adjust', points, amount, note: note.trim() }, getActor(res));
+  refreshCustomerTier(businessId, req.params.mobile);
+  res.status(201).json({ success: true, entry, customer: getCustomer(businessId, req.params.mobile) });
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+
+describe('POST /api/import', () => {
+  it('rejects a bill without a date with a JSON 400', async () => {
+    const owner = await signUpOwner('import-owner');
+    const res = await owner.post('/api/import').send({ customers: [{ mobile: '+911', pin: '1234', history: [{ bill: 100, finalBill: 100, points: 10 }] }] });
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ success: false, message: '+911: Every imported bill needs a valid date.' });
+  });
+
+  it('rejects negative or non-numeric amounts', async () => {
+    const owner = await signUpOwner('import-amounts');
+    const date = '2025-01-01T10:00:00.000Z';
+    for (const bill of [{ date, bill: -1, finalBill: 0, points: 0 }, { date, bill: 10, finalBill: '10', points: 0 }, { date, bill: 10, finalBill: 10, points: 0, pointsUsed: -5 }]) {
+      const res = await owner.post('/api/import').send({ customers: [{ mobile: '+912', pin: '1234', history: [bill] }] });
+      expect(res.status).toBe(400);
+    }
+    const list = await owner.get('/api/customers');
+    expect(list.body.customers).toEqual([]);
+  });
+
+  it('imports valid history with only the fields the browser kept', async () => {
+    const owner = await signUpOwner('import-valid');
+    const res = await owner.post('/api/import').send({
+      customers: [{ mobile: '+913', pin: '1234', name: 'A', points: 10, totalSpent: 100, history: [
+        { date: '2025-01-01T10:00:00.000Z', bill: 100, finalBill: 100, points: 10, coupon: { couponId: 'x', code: 'FREE', discountAmount: 50 } },
+      ] }],
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.imported.customers).toBe(1);
+    const customer = (await owner.get('/api/customers/+913')).body.customer;
+    expect(customer.points).toBe(10);
+    expect(customer.history[0].coupon).toBeUndefined();
+  });
+
+  it('checks imported settings like saved ones', async () => {
+    const owner = await signUpOwner('import-settings');
+    const res = await owner.post('/api/import').send({ settings: { securitySettings: { maxPinAttempts: 0, pinLockoutMinutes: 15, maxOtpAttempts: 3, otpExpiryMinutes: 10 } } });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/^securitySettings: /);
+    expect((await owner.post('/api/import').send({ settings: { redemptionSettings: 'all of it' } })).status).toBe(400);
+    expect((await owner.get('/api/settings/securitySettings')).body.value).toBeNull();
+
+    const valid = await owner.post('/api/import').send({ settings: { redemptionSettings: { pointValue: 0.5, minimumBalance: 0, maxBillPercentage: 50, blockSize: 1 } } });
+    expect(valid.body.imported.settings).toBe(1);
+  });
+
+  it('is owner-only', async () => {
+    const owner = await signUpOwner('import-roles');
+    const cashier = await signInStaff(owner, 'import-cashier', 'cashier');
+    expect((await cashier.post('/api/import').send({ customers: [] })).status).toBe(403);
+  });
+});
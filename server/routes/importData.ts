@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { getBusinessId, getActor } from '../middleware';
+import { createCustomer, NewCustomer } from '../stores/customerStore';
+import { hashSecret } from '../passwords';
+import { getSetting, saveSetting, isSettingsKey } from '../stores/settingsStore';
+import { tierSettingsFromLegacy, LegacyTierDocuments } from '../legacyTierSettings';
+import { listSmsLogs, addSmsLog } from '../stores/smsLogStore';
+import { runTierReview } from '../tierReview';
+import { validateSetting } from './settings';
+import { Customer, SmsLog, TransactionHistory } from '../../types';
+
+const router = Router();
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Bills kept by the browser had a date, amounts and points, and nothing else. Returns the first problem, or null.
+const checkImportedBill = (value: unknown): string | null => {
+  const bill = (value ?? {}) as Partial<TransactionHistory>;
+  if (typeof bill.date !== 'string' || Number.isNaN(Date.parse(bill.date))) return 'Every imported bill needs a valid date.';
+  if (!isAmount(bill.bill) || !isAmount(bill.finalBill) || !isAmount(bill.points)) {
+    return 'Imported bills need a bill amount, final bill and points of zero or more.';
+  }
+  if (bill.pointsUsed !== undefined && !isAmount(bill.pointsUsed)) return 'Points used on an imported bill must be zero or more.';
+  if (bill.discountPercentage !== undefined && !(isAmount(bill.discountPercentage) && bill.discountPercentage <= 100)) {
+    return 'Discounts on imported bills must be between 0 and 100%.';
+  }
+  return null;
+};
+
+// One-time import of data that used to live in the browser's localStorage.
+// Existing server data always wins: known customers, stored settings and an existing SMS log are left untouched.
+router.post('/', async (req, res) => {
+  const { customers = [], settings = {}, smsLogs = [] } = req.body as { customers?: Customer[]; settings?: Record<string, unknown>; smsLogs?: SmsLog[] };
+  // The browser kept tiers in the old fixed four-tier documents.
+  const { tierSettings, discountSettings, deadlineSettings, ...otherSettings } = settings as Record<string, unknown> & LegacyTierDocuments;
+  const importableSettings: Record<string, unknown> = tierSettings || discountSettings || deadlineSettings
+    ? { ...otherSettings, tierSettings: tierSettingsFromLegacy({ tierSettings, discountSettings, deadlineSettings }) }
+    : otherSettings;
+  for (const [key, value] of Object.entries(importableSettings)) {
+    if (!isSettingsKey(key) || !value) continue;
+    const problem = typeof value === 'object' ? validateSetting(key, value) : 'Settings must be objects.';
+    if (problem) {
+      return res.status(400).json({ success: false, message: `${key}: ${problem}` });
+    }
+  }
+  const businessId = getBusinessId(res);
+  const actor = getActor(res);
+
+  // PINs are hashed up front; the database transaction below cannot wait on async work.
+  const newCustomers: NewCustomer[] = [];
+  for (const c of customers) {
+    if (!c || !c.mobile || c.pin === undefined) continue;
+    if (c.history !== undefined && !Array.isArray(c.history)) {
+      return res.status(400).json({ success: false, message: `History for ${c.mobile} must be a list.` });
+    }
+    const problem = (c.history || []).map(checkImportedBill).find(Boolean);
+    if (problem) {
+      return res.status(400).json({ success: false, message: `${c.mobile}: ${problem}` });
+    }
+    newCustomers.push({
+      mobile: c.mobile,
+      name: c.name || 'Guest',
+      pinHash: await hashSecret(String(c.pin)),
+      points: Number(c.points) || 0,
+      totalSpent: Number(c.totalSpent) || 0,
+      // Only what the browser kept; discounts, coupons and payments are checked on live bills, never imported.
+      history: (c.history || []).map(({ date, bill, discountPercentage, finalBill, pointsUsed, points }) => ({
+        date: new Date(date).toISOString(), bill, discountPercentage, finalBill, pointsUsed, points,
+      })),
+    });
+  }
+
+  const summary = db.transaction(() => {
+    const importedCustomers = newCustomers.filter(c => createCustomer(businessId, c, actor)).length;
+
+    let importedSettings = 0;
+    Object.entries(importableSettings).forEach(([key, value]) => {
+      if (isSettingsKey(key) && value && getSetting(businessId, key) === null) {
+        saveSetting(businessId, key, value);
+        importedSettings++;
+      }
+    });
+
+    let importedSmsLogs = 0;
+    if (listSmsLogs(businessId).length === 0) {
+      smsLogs.forEach(log => addSmsLog(businessId, log));
+      importedSmsLogs = smsLogs.length;
+    }
+
+    // Imported customers start in the tier their history earns under the (possibly imported) tier settings.
+    runTierReview(businessId);
+    return { customers: importedCustomers, settings: importedSettings, smsLogs: importedSmsLogs };
+  })();
+
+  res.json({ success: true, imported: summary });
+});
+
+export default router;
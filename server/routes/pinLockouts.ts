@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { listPinLockouts } from '../stores/customerStore';
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json({ success: true, pinLockouts: listPinLockouts(getBusinessId(res)) });
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { runPointsExpiry } from '../pointsExpiry';
+
+const router = Router();
+
+// Runs the expiry pass for this business now. Also lets an external scheduler drive expiry where no
+// long-lived server keeps the background job running (e.g. Vercel), using an API key.
+router.post('/run', async (req, res) => {
+  const run = await runPointsExpiry(getBusinessId(res));
+  res.json({ success: true, run });
+});
+
+export default router;
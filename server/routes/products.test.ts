@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+// Adds a product to an empty catalog and returns it.
+const addProduct = async (owner: Agent, overrides: object = {}) => {
+  const res = await owner.post('/api/products').send({ name: 'Latte', sku: 'LAT-1', price: 120, category: 'Coffee', ...overrides }).expect(201);
+  return res.body.products[0] as { id: string; name: string };
+};
+
+// A bill of the given lines, paid exactly in cash.
+const itemizedBill = (items: object[], bill: number) => ({ bill, finalBill: bill, points: 0, items, payments: [{ method: 'cash', amount: bill }] });
+
+describe('product catalog', () => {
+  it('adds, edits and removes products with unique SKUs', async () => {
+    const owner = await signUpOwner('product-owner');
+    const { id } = await addProduct(owner, { name: ' Latte ', sku: ' LAT-1 ' });
+    expect((await owner.get('/api/products')).body.products[0]).toMatchObject({ id, name: 'Latte', sku: 'LAT-1', price: 120 });
+    expect((await owner.post('/api/products').send({ name: 'Other', sku: 'LAT-1', price: 10, category: 'Coffee' })).status).toBe(409);
+    expect((await owner.post('/api/products').send({ name: 'Free', sku: 'F-1', price: -1, category: 'Coffee' })).status).toBe(400);
+
+    const edited = await owner.put(`/api/products/${id}`).send({ name: 'Latte', sku: 'LAT-1', price: 130, category: 'Coffee' });
+    expect(edited.body.products[0].price).toBe(130);
+    expect((await owner.put('/api/products/missing').send({ name: 'Latte', sku: 'LAT-2', price: 130, category: 'Coffee' })).status).toBe(404);
+    expect((await owner.delete(`/api/products/${id}`)).body.products).toEqual([]);
+  });
+
+  it('lets every role list products but only the owner change them', async () => {
+    const owner = await signUpOwner('product-roles');
+    const { id } = await addProduct(owner);
+    const manager = await signInStaff(owner, 'product-manager', 'manager');
+    expect((await manager.get('/api/products')).body.products).toHaveLength(1);
+    expect((await manager.post('/api/products').send({ name: 'Tea', sku: 'TEA-1', price: 40, category: 'Coffee' })).status).toBe(403);
+    expect((await manager.put(`/api/products/${id}`).send({ name: 'Latte', sku: 'LAT-1', price: 1, category: 'Coffee' })).status).toBe(403);
+    expect((await manager.delete(`/api/products/${id}`)).status).toBe(403);
+
+    const other = await signUpOwner('product-other');
+    expect((await other.get('/api/products')).body.products).toEqual([]);
+    expect((await other.delete(`/api/products/${id}`)).status).toBe(404);
+  });
+});
+
+describe('itemized bills', () => {
+  it('take names from the catalog and keep products on recorded bills', async () => {
+    const owner = await signUpOwner('itemized-owner');
+    await owner.post('/api/customers').send({ mobile: '+911', name: 'Asha', pin: '1234' }).expect(201);
+    const { id } = await addProduct(owner);
+    const items = [
+      { productId: id, name: 'Anything', quantity: 2, unitPrice: 120, amount: 240 },
+      { name: ' ', quantity: 1, unitPrice: 30, amount: 30 },
+    ];
+
+    const res = await owner.post('/api/customers/+911/transactions').send(itemizedBill(items, 270));
+    expect(res.status).toBe(201);
+    expect(res.body.customer.history[0].items).toEqual([
+      { productId: id, name: 'Latte', sku: 'LAT-1', category: 'Coffee', quantity: 2, unitPrice: 120, amount: 240 },
+      { name: 'Other', quantity: 1, unitPrice: 30, amount: 30 },
+    ]);
+    expect((await owner.delete(`/api/products/${id}`)).status).toBe(409);
+  });
+
+  it('must be at current prices and add up to the bill', async () => {
+    const owner = await signUpOwner('itemized-prices');
+    await owner.post('/api/customers').send({ mobile: '+912', name: 'Ravi', pin: '1234' }).expect(201);
+    const { id } = await addProduct(owner);
+    const line = (unitPrice: number, quantity = 1) => ({ productId: id, name: 'Latte', quantity, unitPrice, amount: unitPrice * quantity });
+
+    const stale = await owner.post('/api/customers/+912/transactions').send(itemizedBill([line(100)], 100));
+    expect(stale.body.message).toBe('Latte now costs ₹120. Add it to the bill again.');
+    const short = await owner.post('/api/customers/+912/transactions').send(itemizedBill([line(120)], 150));
+    expect(short.body.message).toBe('The bill lines do not add up to the bill amount.');
+    const miscounted = await owner.post('/api/customers/+912/transactions').send(itemizedBill([{ ...line(120, 2), amount: 120 }], 120));
+    expect(miscounted.body.message).toBe('The amount for Latte does not match its quantity and price.');
+    const unknown = await owner.post('/api/customers/+912/transactions').send(itemizedBill([{ ...line(120), productId: 'missing' }], 120));
+    expect(unknown.body.message).toBe('Unknown product.');
+    expect((await owner.post('/api/customers/+912/transactions').send(itemizedBill([], 120))).body.message).toBe('An itemized bill needs at least one line.');
+  });
+});
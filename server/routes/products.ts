@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { listProducts, getProduct, createProduct, updateProduct, productHasSales, deleteProduct } from '../stores/productStore';
+import { validateProduct, ProductInput } from '../../src/utils/productUtils';
+
+const router = Router();
+
+const toInput = (body: ProductInput): ProductInput => ({
+  name: body.name.trim(),
+  sku: body.sku.trim(),
+  price: body.price,
+  category: body.category.trim(),
+});
+
+// Every role can list products; the till builds bills from them.
+router.get('/', (req, res) => {
+  res.json({ success: true, products: listProducts(getBusinessId(res)) });
+});
+
+router.post('/', requireRole('owner'), (req, res) => {
+  const error = validateProduct(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createProduct(businessId, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A product with this SKU already exists.' });
+  }
+  res.status(201).json({ success: true, products: listProducts(businessId) });
+});
+
+router.put('/:id', requireRole('owner'), (req, res) => {
+  const error = validateProduct(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!getProduct(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Product not found.' });
+  }
+  if (!updateProduct(businessId, req.params.id, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A product with this SKU already exists.' });
+  }
+  res.json({ success: true, products: listProducts(businessId) });
+});
+
+router.delete('/:id', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getProduct(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Product not found.' });
+  }
+  if (productHasSales(businessId, req.params.id)) {
+    return res.status(409).json({ success: false, message: 'This product is on recorded bills and cannot be removed.' });
+  }
+  deleteProduct(businessId, req.params.id);
+  res.json({ success: true, products: listProducts(businessId) });
+});
+
+export default router;
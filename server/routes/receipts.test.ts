@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import net from 'node:net';
+import request from 'supertest';
+import { signUpOwner, signInStaff, app } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+// Rings up a ₹90 bill paid with ₹100 cash and returns the token of its receipt.
+const ringUp = async (owner: Agent, mobile: string): Promise<string> => {
+  await owner.post('/api/customers').send({ mobile, name: 'Asha', pin: '1234' }).expect(201);
+  const res = await owner.post(`/api/customers/${mobile}/transactions`).send({ bill: 90, finalBill: 90, points: 10, payments: [{ method: 'cash', amount: 100 }] }).expect(201);
+  return res.body.customer.history[0].receiptToken;
+};
+
+describe('GET /api/receipts/:token', () => {
+  it('shows the receipt to anyone with the link', async () => {
+    const token = await ringUp(await signUpOwner('receipt-owner'), '+911');
+    expect(token).toMatch(/^[\w-]{20,}$/);
+
+    const res = await request(app).get(`/api/receipts/${token}`);
+    expect(res.status).toBe(200);
+    expect(res.type).toBe('text/html');
+    expect(res.text).toContain('<title>Receipt from Cafe</title>');
+    expect(res.text).toContain(`${token}/pdf`);
+  });
+
+  it('offers the receipt as a PDF', async () => {
+    const token = await ringUp(await signUpOwner('receipt-pdf'), '+912');
+    const res = await request(app).get(`/api/receipts/${token}/pdf`).buffer(true);
+    expect(res.status).toBe(200);
+    expect(res.type).toBe('application/pdf');
+    expect(res.headers['content-disposition']).toMatch(/^attachment; filename="receipt-[\w-]{8}\.pdf"$/);
+    expect(res.body.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('does not find receipts for unknown tokens', async () => {
+    for (const path of ['/api/receipts/not-a-token', '/api/receipts/not-a-token/pdf', '/api/receipts/not-a-token/escpos']) {
+      const res = await request(app).get(path);
+      expect(res.status).toBe(404);
+      expect(res.body.message).toBe('Receipt not found.');
+    }
+  });
+});
+
+// Starts a stand-in printer on a free local port that collects whatever it is sent.
+const startPrinter = async () => {
+  const received: Buffer[] = [];
+  const server = net.createServer(socket => socket.on('data', chunk => received.push(chunk)));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, received, port: (server.address() as net.AddressInfo).port };
+};
+
+describe('ESC/POS receipts', () => {
+  it('downloads at the saved paper width unless another is asked for', async () => {
+    const owner = await signUpOwner('escpos-width');
+    const token = await ringUp(owner, '+921');
+
+    const byDefault = await request(app).get(`/api/receipts/${token}/escpos`).buffer(true);
+    expect(byDefault.status).toBe(200);
+    expect(byDefault.type).toBe('application/octet-stream');
+
+    expect((await request(app).get(`/api/receipts/${token}/escpos?width=32`)).status).toBe(200);
+    for (const width of ['40', 'wide']) {
+      const res = await request(app).get(`/api/receipts/${token}/escpos?width=${width}`);
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('Paper width must be 32 or 48 characters.');
+    }
+  });
+
+  it('prints only for signed-in staff of the same business', async () => {
+    const token = await ringUp(await signUpOwner('escpos-print'), '+922');
+    const other = await signUpOwner('escpos-other');
+
+    expect((await request(app).post(`/api/receipts/${token}/print`)).status).toBe(401);
+    const res = await other.post(`/api/receipts/${token}/print`);
+    expect(res.status).toBe(404);
+    expect(res.body.message).toBe('Receipt not found.');
+  });
+
+  it('asks for a printer address before printing', async () => {
+    const owner = await signUpOwner('escpos-no-host');
+    const token = await ringUp(owner, '+923');
+    const res = await owner.post(`/api/receipts/${token}/print`);
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('No receipt printer is set up. Add its address in Settings.');
+  });
+
+  it('sends the receipt to the printer', async () => {
+    const owner = await signUpOwner('escpos-send');
+    const cashier = await signInStaff(owner, 'escpos-till', 'cashier');
+    const token = await ringUp(owner, '+924');
+    const printer = await startPrinter();
+    try {
+      await owner.put('/api/settings/printerSettings').send({ value: { paperWidth: 48, host: '127.0.0.1', port: printer.port } }).expect(200);
+      expect((await cashier.post(`/api/receipts/${token}/print`)).body).toEqual({ success: true });
+      await vi.waitFor(() => expect(Buffer.concat(printer.received).subarray(0, 2)).toEqual(Buffer.from([0x1b, 0x40])));
+    } finally {
+      printer.server.close();
+    }
+  });
+
+  it('reports a printer that cannot be reached', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const owner = await signUpOwner('escpos-offline');
+    const token = await ringUp(owner, '+925');
+    const printer = await startPrinter();
+    await new Promise(resolve => printer.server.close(resolve));
+
+    await owner.put('/api/settings/printerSettings').send({ value: { paperWidth: 48, host: '127.0.0.1', port: printer.port } }).expect(200);
+    const res = await owner.post(`/api/receipts/${token}/print`);
+    expect(res.status).toBe(502);
+    expect(res.body.message).toMatch(new RegExp(`^Could not reach the printer at 127\\.0\\.0\\.1:${printer.port}\\.`));
+  });
+});
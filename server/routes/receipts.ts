@@ -0,0 +1,70 @@
+import { Router, Request } from 'express';
+import { getBusinessId, requireSession } from '../middleware';
+import { findReceipt, renderReceiptHtml, getReceiptPdf, getReceiptEscPos } from '../receipts';
+import { sendToPrinter } from '../escpos';
+import { getSettingOrDefault } from '../stores/settingsStore';
+import { PAPER_WIDTHS } from '../../src/utils/receiptUtils';
+import { DEFAULT_PRINTER_SETTINGS } from '../../defaults';
+import { PaperWidth } from '../../types';
+
+// Public: the token in the link is the only credential, so customers can open receipts sent to them by SMS.
+// Printing to the counter's printer needs a session.
+const router = Router();
+
+// The receipt page as the customer's phone reaches it, for the QR code on printed receipts.
+const getReceiptPageUrl = (req: Request<{ token: string }>) =>
+  `${req.get('X-Forwarded-Proto')?.split(',')[0] ?? req.protocol}://${req.get('Host')}${req.baseUrl}/${req.params.token}`;
+
+router.get('/:token', (req, res) => {
+  const found = findReceipt(req.params.token);
+  if (!found) {
+    return res.status(404).json({ success: false, message: 'Receipt not found.' });
+  }
+  res.type('html').send(renderReceiptHtml(found.receipt, `${req.params.token}/pdf`));
+});
+
+router.get('/:token/pdf', (req, res) => {
+  const found = findReceipt(req.params.token);
+  if (!found) {
+    return res.status(404).json({ success: false, message: 'Receipt not found.' });
+  }
+  res.type('pdf').attachment(`receipt-${found.receipt.transactionId.slice(0, 8)}.pdf`).send(getReceiptPdf(found.receipt));
+});
+
+// The raw ESC/POS job, for printers attached to the till rather than the network. `width` overrides the business's paper width.
+router.get('/:token/escpos', (req, res) => {
+  const found = findReceipt(req.params.token);
+  if (!found) {
+    return res.status(404).json({ success: false, message: 'Receipt not found.' });
+  }
+  const width = req.query.width === undefined
+    ? getSettingOrDefault(found.businessId, 'printerSettings', DEFAULT_PRINTER_SETTINGS).paperWidth
+    : Number(req.query.width) as PaperWidth;
+  if (!PAPER_WIDTHS.includes(width)) {
+    return res.status(400).json({ success: false, message: 'Paper width must be 32 or 48 characters.' });
+  }
+  res.type('application/octet-stream').attachment(`receipt-${found.receipt.transactionId.slice(0, 8)}.bin`)
+    .send(getReceiptEscPos(found.receipt, width, getReceiptPageUrl(req)));
+});
+
+router.post<{ token: string }>('/:token/print', requireSession, async (req, res) => {
+  const businessId = getBusinessId(res);
+  const found = findReceipt(req.params.token);
+  if (!found || found.businessId !== businessId) {
+    return res.status(404).json({ success: false, message: 'Receipt not found.' });
+  }
+  const { host, port, paperWidth } = getSettingOrDefault(businessId, 'printerSettings', DEFAULT_PRINTER_SETTINGS);
+  if (!host) {
+    return res.status(409).json({ success: false, message: 'No receipt printer is set up. Add its address in Settings.' });
+  }
+
+  try {
+    await sendToPrinter(host, port, getReceiptEscPos(found.receipt, paperWidth, getReceiptPageUrl(req)));
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Printing to ${host}:${port} failed:`, error);
+    res.status(502).json({ success: false, message: `Could not reach the printer at ${host}:${port}. ${error instanceof Error ? error.message : ''}`.trim() });
+  }
+});
+
+export default router;
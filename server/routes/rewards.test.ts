@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+
+const addReward = async (owner: Agent, overrides: object = {}): Promise<string> => {
+  const res = await owner.post('/api/rewards').send({ name: 'Free coffee', pointsCost: 150, stock: 1, ...overrides }).expect(201);
+  return res.body.rewards[0].id;
+};
+
+// A customer with PIN 1234 and `points` to spend.
+const addCustomer = async (owner: Agent, mobile: string, points: number) => {
+  await owner.post('/api/customers').send({ mobile, name: 'Asha', pin: '1234' }).expect(201);
+  await owner.post(`/api/customers/${mobile}/adjustments`).send({ points, note: 'Opening balance' }).expect(201);
+};
+
+const verifyPin = async (agent: Agent, mobile: string): Promise<string> =>
+  (await agent.post(`/api/customers/${mobile}/verify-pin`).send({ pin: '1234' }).expect(200)).body.pinToken;
+
+describe('rewards catalog', () => {
+  it('lets only the owner add, change and remove rewards', async () => {
+    const owner = await signUpOwner('reward-owner');
+    const id = await addReward(owner);
+    expect((await owner.post('/api/rewards').send({ name: 'Free coffee', pointsCost: 100, stock: 5 })).status).toBe(409);
+    expect((await owner.post('/api/rewards').send({ name: 'Cake', pointsCost: 0, stock: 5 })).body.message).toBe('The points cost must be a whole number above zero.');
+
+    const cashier = await signInStaff(owner, 'reward-cashier', 'cashier');
+    expect((await cashier.get('/api/rewards')).body.rewards.map((r: { id: string }) => r.id)).toEqual([id]);
+    expect((await cashier.put(`/api/rewards/${id}`).send({ name: 'Free tea', pointsCost: 100, stock: 5 })).status).toBe(403);
+
+    const edited = await owner.put(`/api/rewards/${id}`).send({ name: 'Free tea', pointsCost: 100, stock: 5 });
+    expect(edited.body.rewards[0]).toMatchObject({ name: 'Free tea', pointsCost: 100, stock: 5 });
+    expect((await owner.delete(`/api/rewards/${id}`)).body.rewards).toEqual([]);
+  });
+});
+
+describe('POST /api/customers/:mobile/rewards', () => {
+  it("needs a fresh verification of the customer's PIN", async () => {
+    const owner = await signUpOwner('redeem-pin');
+    await addCustomer(owner, '+911', 500);
+    const rewardId = await addReward(owner, { stock: 5 });
+
+    const unverified = await owner.post('/api/customers/+911/rewards').send({ rewardId });
+    expect(unverified.status).toBe(403);
+    expect(unverified.body.message).toBe("Verify the customer's PIN again before redeeming points.");
+    expect((await owner.post('/api/customers/+911/rewards').send({ rewardId, pinToken: 'forged' })).status).toBe(403);
+
+    const pinToken = await verifyPin(owner, '+911');
+    const redeemed = await owner.post('/api/customers/+911/rewards').send({ rewardId, pinToken });
+    expect(redeemed.status).toBe(201);
+    expect(redeemed.body.customer.points).toBe(350);
+    expect((await owner.post('/api/customers/+911/rewards').send({ rewardId, pinToken })).status).toBe(403);
+    expect((await owner.get('/api/customers/+911')).body.customer.points).toBe(350);
+  });
+
+  it("does not accept another customer's verification", async () => {
+    const owner = await signUpOwner('redeem-other');
+    await addCustomer(owner, '+912', 500);
+    await addCustomer(owner, '+913', 500);
+    const rewardId = await addReward(owner);
+    const pinToken = await verifyPin(owner, '+913');
+    expect((await owner.post('/api/customers/+912/rewards').send({ rewardId, pinToken })).status).toBe(403);
+  });
+
+  it('refuses rewards out of stock or beyond the balance, keeping the verification for another try', async () => {
+    const owner = await signUpOwner('redeem-stock');
+    await addCustomer(owner, '+914', 100);
+    const rewardId = await addReward(owner);
+    const pinToken = await verifyPin(owner, '+914');
+
+    const short = await owner.post('/api/customers/+914/rewards').send({ rewardId, pinToken });
+    expect(short.status).toBe(409);
+    expect(short.body.message).toBe('Free coffee needs 150 points; the customer has 100.');
+
+    await owner.post('/api/customers/+914/adjustments').send({ points: 200, note: 'Goodwill' }).expect(201);
+    expect((await owner.post('/api/customers/+914/rewards').send({ rewardId, pinToken })).status).toBe(201);
+    const nextToken = await verifyPin(owner, '+914');
+    const soldOut = await owner.post('/api/customers/+914/rewards').send({ rewardId, pinToken: nextToken });
+    expect(soldOut.status).toBe(409);
+    expect(soldOut.body.message).toBe('Free coffee is out of stock.');
+    expect((await owner.delete(`/api/rewards/${rewardId}`)).status).toBe(409);
+  });
+});
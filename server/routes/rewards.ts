@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { listRewards, getReward, createReward, updateReward, rewardHasRedemptions, deleteReward } from '../stores/rewardStore';
+import { validateReward, RewardInput } from '../../src/utils/rewardUtils';
+
+const router = Router();
+
+const toInput = (body: RewardInput): RewardInput => ({
+  name: body.name.trim(),
+  pointsCost: body.pointsCost,
+  stock: body.stock,
+});
+
+// Every role can list rewards; the till offers them to customers.
+router.get('/', (req, res) => {
+  res.json({ success: true, rewards: listRewards(getBusinessId(res)) });
+});
+
+router.post('/', requireRole('owner'), (req, res) => {
+  const error = validateReward(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createReward(businessId, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A reward with this name already exists.' });
+  }
+  res.status(201).json({ success: true, rewards: listRewards(businessId) });
+});
+
+router.put('/:id', requireRole('owner'), (req, res) => {
+  const error = validateReward(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!getReward(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Reward not found.' });
+  }
+  if (!updateReward(businessId, req.params.id, toInput(req.body))) {
+    return res.status(409).json({ success: false, message: 'A reward with this name already exists.' });
+  }
+  res.json({ success: true, rewards: listRewards(businessId) });
+});
+
+router.delete('/:id', requireRole('owner'), (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!getReward(businessId, req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Reward not found.' });
+  }
+  if (rewardHasRedemptions(businessId, req.params.id)) {
+    return res.status(409).json({ success: false, message: 'This reward has been redeemed and cannot be removed. Set its stock to 0 instead.' });
+  }
+  deleteReward(businessId, req.params.id);
+  res.json({ success: true, rewards: listRewards(businessId) });
+});
+
+export default router;
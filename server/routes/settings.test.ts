@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { signUpOwner } from '../testApp';
+import { DEFAULT_SECURITY_SETTINGS } from '../../defaults';
+
+describe('PUT /api/settings/securitySettings', () => {
+  it('rejects settings that are not positive whole numbers', async () => {
+    const owner = await signUpOwner('security-owner');
+    for (const value of [{ ...DEFAULT_SECURITY_SETTINGS, otpExpiryMinutes: 'abc' }, { ...DEFAULT_SECURITY_SETTINGS, maxPinAttempts: 0 }, {}]) {
+      const res = await owner.put('/api/settings/securitySettings').send({ value });
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    }
+    const saved = await owner.get('/api/settings/securitySettings');
+    expect(saved.body.value ?? null).toBeNull();
+  });
+
+  it('saves valid settings', async () => {
+    const owner = await signUpOwner('security-valid');
+    const value = { ...DEFAULT_SECURITY_SETTINGS, pinLockoutMinutes: 30 };
+    await owner.put('/api/settings/securitySettings').send({ value }).expect(200);
+    const saved = await owner.get('/api/settings/securitySettings');
+    expect(saved.body.value).toEqual(value);
+  });
+});
+
+describe('PUT /api/settings/pointsExpirySettings', () => {
+  it('rejects negative or fractional periods', async () => {
+    const owner = await signUpOwner('expiry-owner');
+    for (const value of [{ validityDays: { bronze: -30 }, reminderDays: 0 }, { validityDays: {}, reminderDays: 2.5 }]) {
+      const res = await owner.put('/api/settings/pointsExpirySettings').send({ value });
+      expect(res.status).toBe(400);
+    }
+    await owner.put('/api/settings/pointsExpirySettings').send({ value: { validityDays: { bronze: 365 }, reminderDays: 7 } }).expect(200);
+  });
+});
+
+describe('PUT /api/settings/timeZoneSettings', () => {
+  it('only saves time zones the server knows', async () => {
+    const owner = await signUpOwner('zone-owner');
+    const res = await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: 'Somewhere/Nice' } });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Somewhere/Nice is not a time zone. Use a name such as Asia/Kolkata.');
+    await owner.put('/api/settings/timeZoneSettings').send({ value: { timeZone: 'Asia/Dubai' } }).expect(200);
+  });
+});
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { getBusinessId, requireRole } from '../middleware';
+import { getSetting, saveSetting, isSettingsKey, SettingsKey } from '../stores/settingsStore';
+import { validateTierSettings } from '../../src/utils/tierUtils';
+import { validateEarningSettings } from '../../src/utils/earningUtils';
+import { validateRedemptionSettings } from '../../src/utils/redemptionUtils';
+import { validateReferralSettings } from '../../src/utils/referralUtils';
+import { validateCelebrationSettings } from '../../src/utils/celebrationUtils';
+import { validateTaxSettings } from '../../src/utils/taxUtils';
+import { validatePrinterSettings } from '../../src/utils/receiptUtils';
+import { validateTimeZoneSettings } from '../../src/utils/timeZoneUtils';
+import { validateSecuritySettings } from '../../src/utils/securityUtils';
+import { validatePointsExpirySettings } from '../../src/utils/pointsExpiryUtils';
+import { runTierReview } from '../tierReview';
+
+// Settings the server itself depends on are checked before they are saved. Each returns an error message, or null.
+const VALIDATORS: Partial<Record<SettingsKey, (value: unknown) => string | null>> = {
+  tierSettings: validateTierSettings,
+  securitySettings: validateSecuritySettings,
+  pointsExpirySettings: validatePointsExpirySettings,
+  earningSettings: validateEarningSettings,
+  redemptionSettings: validateRedemptionSettings,
+  referralSettings: validateReferralSettings,
+  celebrationSettings: validateCelebrationSettings,
+  taxSettings: validateTaxSettings,
+  printerSettings: validatePrinterSettings,
+  timeZoneSettings: validateTimeZoneSettings,
+};
+
+// Used by PUT below and by the import, so imported documents meet the same rules as saved ones.
+export const validateSetting = (key: SettingsKey, value: unknown): string | null => VALIDATORS[key]?.(value) ?? null;
+
+const router = Router();
+
+router.get('/:key', (req, res) => {
+  const { key } = req.params;
+  if (!isSettingsKey(key)) {
+    return res.status(404).json({ success: false, message: `Unknown settings key \`${key}\`.` });
+  }
+  res.json({ success: true, value: getSetting(getBusinessId(res), key) });
+});
+
+router.put('/:key', requireRole('owner'), (req, res) => {
+  const { key } = req.params;
+  if (!isSettingsKey(key)) {
+    return res.status(404).json({ success: false, message: `Unknown settings key \`${key}\`.` });
+  }
+  const { value } = req.body;
+  if (value === undefined || value === null || typeof value !== 'object') {
+    return res.status(400).json({ success: false, message: 'Missing `value` object in request.' });
+  }
+  const error = validateSetting(key, value);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+  saveSetting(getBusinessId(res), key, value);
+  // New thresholds or a new window apply to everyone straight away, subject to the grace period.
+  if (key === 'tierSettings') runTierReview(getBusinessId(res));
+  res.json({ success: true, value });
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import request from 'supertest';
+import { app, signUpOwner } from '../testApp';
+
+const create = vi.fn(async () => ({ sid: 'SM1' }));
+vi.mock('twilio', () => ({ default: () => ({ messages: { create } }) }));
+
+beforeAll(() => {
+  vi.stubEnv('TWILIO_ACCOUNT_SID', 'AC1');
+  vi.stubEnv('TWILIO_AUTH_TOKEN', 'token');
+});
+
+// A business with one customer to message.
+const setUp = async (username: string, mobile: string) => {
+  const owner = await signUpOwner(username);
+  await owner.post('/api/customers').send({ mobile, name: 'Asha', pin: '1234' }).expect(201);
+  return owner;
+};
+
+describe('POST /api/send-sms', () => {
+  it('needs a session or a valid API key', async () => {
+    const owner = await setUp('sms-auth', '+911');
+    expect((await request(app).post('/api/send-sms').send({ to: '+911', body: 'Hi' })).status).toBe(401);
+    expect((await request(app).post('/api/send-sms').set('Authorization', 'Bearer made-up').send({ to: '+911', body: 'Hi' })).status).toBe(401);
+
+    const { key } = (await owner.post('/api/api-keys').send({ label: 'POS' }).expect(201)).body;
+    const res = await request(app).post('/api/send-sms').set('Authorization', `Bearer ${key}`).send({ to: '+911', body: 'Hi' });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, sid: 'SM1' });
+  });
+
+  it("only messages the business's own customers", async () => {
+    const owner = await setUp('sms-recipient', '+912');
+    const other = await setUp('sms-other', '+913');
+    create.mockClear();
+    expect((await owner.post('/api/send-sms').send({ to: '+913', body: 'Hi' })).status).toBe(403);
+    expect((await other.post('/api/send-sms').send({ to: '+912', body: 'Hi' })).status).toBe(403);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('caps the message length', async () => {
+    const owner = await setUp('sms-length', '+914');
+    const res = await owner.post('/api/send-sms').send({ to: '+914', body: 'x'.repeat(481) });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Message is too long (481/480 characters).');
+    expect((await owner.post('/api/send-sms').send({ to: '+914', body: 'x'.repeat(480) })).status).toBe(200);
+  });
+
+  it('limits sends per minute and says when to retry', async () => {
+    const owner = await setUp('sms-rate', '+915');
+    for (let i = 0; i < 10; i++) await owner.post('/api/send-sms').send({ to: '+915', body: `Message ${i}` }).expect(200);
+    const res = await owner.post('/api/send-sms').send({ to: '+915', body: 'One too many' });
+    expect(res.status).toBe(429);
+    expect(res.body.message).toBe('SMS limit of 10 per minute reached. Please wait a moment.');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+  });
+});
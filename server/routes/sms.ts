@@ -0,0 +1,33 @@
+import { Router, Response } from 'express';
+import { getBusinessId } from '../middleware';
+import { sendSms, SmsError } from '../sms';
+
+const router = Router();
+
+// Maps a failed send to the JSON error shape the client expects, including Retry-After on rate limits.
+export const respondWithSmsError = (res: Response, error: unknown) => {
+  if (error instanceof SmsError) {
+    if (error.retryAfterSeconds) res.set('Retry-After', String(error.retryAfterSeconds));
+    return res.status(error.status).json({ success: false, message: error.message });
+  }
+  console.error('Error sending SMS:', error);
+  res.status(500).json({ success: false, message: 'Failed to send SMS.', error: error instanceof Error ? error.message : String(error) });
+};
+
+router.post('/', async (req, res) => {
+  const { to, body } = req.body;
+
+  if (!to || !body) {
+    return res.status(400).json({ success: false, message: 'Missing `to` or `body` in request.' });
+  }
+
+  try {
+    const sid = await sendSms(getBusinessId(res), String(to), String(body));
+    console.log('SMS sent successfully:', sid);
+    res.json({ success: true, sid });
+  } catch (error) {
+    respondWithSmsError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { listSmsLogs, addSmsLog } from '../stores/smsLogStore';
+import { SmsLog } from '../../types';
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json({ success: true, smsLogs: listSmsLogs(getBusinessId(res)) });
+});
+
+router.post('/', (req, res) => {
+  const { timestamp, recipientMobile, recipientName, message } = req.body as Partial<SmsLog>;
+
+  if (!recipientMobile || !message) {
+    return res.status(400).json({ success: false, message: 'Missing `recipientMobile` or `message` in request.' });
+  }
+
+  const log: SmsLog = { timestamp: timestamp || new Date().toISOString(), recipientMobile, recipientName: recipientName || '', message };
+  addSmsLog(getBusinessId(res), log);
+  res.status(201).json({ success: true, smsLog: log });
+});
+
+export default router;
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { signUpOwner, signInStaff } from '../testApp';
+
+type Agent = Awaited<ReturnType<typeof signUpOwner>>;
+type Role = 'owner' | 'manager' | 'cashier';
+
+// Who may call what. Requests carry no valid body: a role that is let through gets a 400 or 404, never a 403.
+const MATRIX: [method: 'get' | 'post' | 'put' | 'delete', path: string, allowed: Role[]][] = [
+  ['get', '/api/customers', ['owner', 'manager', 'cashier']],
+  ['post', '/api/customers', ['owner', 'manager', 'cashier']],
+  ['post', '/api/customers/+911/transactions', ['owner', 'manager', 'cashier']],
+  ['put', '/api/customers/+911', ['owner', 'manager']],
+  ['delete', '/api/customers/+999', ['owner', 'manager']],
+  ['post', '/api/customers/+911/adjustments', ['owner', 'manager']],
+  ['post', '/api/customers/+911/transactions/none/void', ['owner', 'manager']],
+  ['post', '/api/customers/+911/transactions/none/refund', ['owner', 'manager']],
+  ['post', '/api/customers/+999/unlock', ['owner']],
+  ['get', '/api/settings/tierSettings', ['owner', 'manager', 'cashier']],
+  ['put', '/api/settings/tierSettings', ['owner']],
+  ['get', '/api/staff', ['owner']],
+  ['get', '/api/api-keys', ['owner']],
+  ['get', '/api/pin-lockouts', ['owner']],
+  ['post', '/api/import', ['owner']],
+  ['post', '/api/branches', ['owner']],
+  ['post', '/api/campaigns', ['owner']],
+  ['get', '/api/coupons', ['owner']],
+  ['post', '/api/products', ['owner']],
+  ['post', '/api/rewards', ['owner']],
+  ['post', '/api/points-expiry/run', ['owner']],
+  ['post', '/api/tier-review/run', ['owner']],
+  ['post', '/api/celebrations/run', ['owner']],
+];
+
+describe('role permissions', () => {
+  const agents = {} as Record<Role, Agent>;
+
+  beforeAll(async () => {
+    agents.owner = await signUpOwner('matrix-owner');
+    agents.manager = await signInStaff(agents.owner, 'matrix-manager', 'manager');
+    agents.cashier = await signInStaff(agents.owner, 'matrix-cashier', 'cashier');
+    await agents.owner.post('/api/customers').send({ mobile: '+911', name: 'Asha', pin: '1234' }).expect(201);
+  });
+
+  it.each(MATRIX)('%s %s is allowed for %j only', async (method, path, allowed) => {
+    for (const role of ['owner', 'manager', 'cashier'] as const) {
+      const res = await agents[role][method](path).send(method === 'put' && path.startsWith('/api/settings') ? { value: null } : {});
+      expect(res.status).not.toBe(401);
+      expect({ role, refused: res.status === 403 }).toEqual({ role, refused: !allowed.includes(role) });
+    }
+  });
+});
+
+describe('staff accounts', () => {
+  it('share the business of the owner who added them', async () => {
+    const owner = await signUpOwner('team-owner');
+    const cashier = await signInStaff(owner, 'team-cashier', 'cashier');
+    await owner.post('/api/customers').send({ mobile: '+921', name: 'Asha', pin: '1234' }).expect(201);
+    expect((await cashier.get('/api/customers')).body.customers.map((c: { mobile: string }) => c.mobile)).toEqual(['+921']);
+
+    const bill = await cashier.post('/api/customers/+921/transactions').send({ bill: 90, finalBill: 90, points: 10, payments: [{ method: 'cash', amount: 100 }] });
+    expect(bill.body.customer.history[0].actor).toBe('team-cashier');
+    expect((await cashier.get('/api/auth/me')).body.admin).toMatchObject({ businessId: 'team-owner', businessName: 'Cafe', role: 'cashier' });
+  });
+
+  it('are signed out when their role changes, and gone when removed', async () => {
+    const owner = await signUpOwner('change-owner');
+    const cashier = await signInStaff(owner, 'change-cashier', 'cashier');
+    await owner.put('/api/staff/change-cashier').send({ role: 'manager' }).expect(200);
+    expect((await cashier.get('/api/customers')).status).toBe(401);
+
+    const manager = await signInStaff(owner, 'change-manager', 'manager');
+    await owner.delete('/api/staff/change-manager').expect(200);
+    expect((await manager.get('/api/customers')).status).toBe(401);
+    expect((await owner.delete('/api/staff/change-owner')).status).toBe(404);
+  });
+});
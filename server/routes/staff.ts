@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { hashSecret, MIN_PASSWORD_LENGTH } from '../passwords';
+import { listStaff, createStaff, updateStaff, deleteStaff } from '../stores/adminStore';
+import { deleteSessionsFor } from '../stores/sessionStore';
+import { StaffRole } from '../../types';
+
+const STAFF_ROLES = ['manager', 'cashier'] as const;
+const isStaffRole = (role: unknown): role is Exclude<StaffRole, 'owner'> => (STAFF_ROLES as readonly unknown[]).includes(role);
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json({ success: true, staff: listStaff(getBusinessId(res)) });
+});
+
+router.post('/', async (req, res) => {
+  const { username, password, role } = req.body;
+  if (!username || !password) {
+    return res.status(400).json({ success: false, message: 'Missing `username` or `password` in request.' });
+  }
+  if (!isStaffRole(role)) {
+    return res.status(400).json({ success: false, message: 'Role must be `manager` or `cashier`.' });
+  }
+  if (String(password).length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+  }
+
+  const businessId = getBusinessId(res);
+  if (!createStaff(businessId, String(username), role, await hashSecret(String(password)))) {
+    return res.status(409).json({ success: false, message: 'Username already exists.' });
+  }
+  res.status(201).json({ success: true, staff: listStaff(businessId) });
+});
+
+// Changing a role or password signs the staff member out so the change applies straight away.
+router.put('/:username', async (req, res) => {
+  const { role, password } = req.body;
+  if (role !== undefined && !isStaffRole(role)) {
+    return res.status(400).json({ success: false, message: 'Role must be `manager` or `cashier`.' });
+  }
+  if (password !== undefined && String(password).length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+  }
+
+  const businessId = getBusinessId(res);
+  const passwordHash = password !== undefined ? await hashSecret(String(password)) : undefined;
+  if (!updateStaff(businessId, req.params.username, { role, passwordHash })) {
+    return res.status(404).json({ success: false, message: 'Staff member not found.' });
+  }
+  deleteSessionsFor(req.params.username);
+  res.json({ success: true, staff: listStaff(businessId) });
+});
+
+router.delete('/:username', (req, res) => {
+  const businessId = getBusinessId(res);
+  if (!deleteStaff(businessId, req.params.username)) {
+    return res.status(404).json({ success: false, message: 'Staff member not found.' });
+  }
+  res.json({ success: true, staff: listStaff(businessId) });
+});
+
+export default router;
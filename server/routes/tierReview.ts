@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getBusinessId } from '../middleware';
+import { runTierReview } from '../tierReview';
+
+const router = Router();
+
+// Reviews every customer's tier now. Lets an external scheduler move customers down once their spend leaves the
+// qualifying window or their grace period ends, where no long-lived server runs the background job (e.g. Vercel).
+router.post('/run', (req, res) => {
+  res.json({ success: true, run: runTierReview(getBusinessId(res)) });
+});
+
+export default router;
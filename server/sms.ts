@@ -0,0 +1,83 @@
+import twilio from 'twilio';
+import { db } from './db';
+import { getCustomer } from './stores/customerStore';
+
+// Limits can be tuned per deployment; defaults keep a single till well inside normal use.
+const SMS_MAX_BODY_LENGTH = Number(process.env.SMS_MAX_BODY_LENGTH) || 480;
+const SMS_LIMIT_PER_MINUTE = Number(process.env.SMS_LIMIT_PER_MINUTE) || 10;
+const SMS_LIMIT_PER_DAY = Number(process.env.SMS_LIMIT_PER_DAY) || 500;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export class SmsError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'SmsError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+let twilioClient: twilio.Twilio | null = null;
+
+// Created on first use so credentials loaded by dotenv after import are still picked up.
+const getTwilioClient = (): twilio.Twilio | null => {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!twilioClient && accountSid && authToken) {
+    twilioClient = twilio(accountSid, authToken);
+  }
+  return twilioClient;
+};
+
+const countSendsSince = (businessId: string, since: number) =>
+  (db.prepare('SELECT COUNT(*) AS count FROM sms_sends WHERE business_id = ? AND sent_at > ?')
+    .get(businessId, new Date(since).toISOString()) as { count: number }).count;
+
+// Seconds until the oldest send inside the window drops out of it.
+const secondsUntilWindowFrees = (businessId: string, windowMs: number, now: number) => {
+  const oldest = db.prepare('SELECT MIN(sent_at) AS sentAt FROM sms_sends WHERE business_id = ? AND sent_at > ?')
+    .get(businessId, new Date(now - windowMs).toISOString()) as { sentAt: string | null };
+  const freesAt = oldest.sentAt ? new Date(oldest.sentAt).getTime() + windowMs : now;
+  return Math.max(1, Math.ceil((freesAt - now) / 1000));
+};
+
+const checkRateLimit = (businessId: string) => {
+  const now = Date.now();
+  if (countSendsSince(businessId, now - MINUTE_MS) >= SMS_LIMIT_PER_MINUTE) {
+    throw new SmsError(429, `SMS limit of ${SMS_LIMIT_PER_MINUTE} per minute reached. Please wait a moment.`, secondsUntilWindowFrees(businessId, MINUTE_MS, now));
+  }
+  if (countSendsSince(businessId, now - DAY_MS) >= SMS_LIMIT_PER_DAY) {
+    throw new SmsError(429, `Daily SMS limit of ${SMS_LIMIT_PER_DAY} reached.`, secondsUntilWindowFrees(businessId, DAY_MS, now));
+  }
+};
+
+// Sends an SMS on behalf of a business. Only the business's own customers can be messaged,
+// and every attempt counts towards its rate limits.
+export const sendSms = async (businessId: string, to: string, body: string): Promise<string> => {
+  const client = getTwilioClient();
+  if (!client) {
+    throw new SmsError(500, 'Twilio client not configured. Check environment variables.');
+  }
+  if (body.length > SMS_MAX_BODY_LENGTH) {
+    throw new SmsError(400, `Message is too long (${body.length}/${SMS_MAX_BODY_LENGTH} characters).`);
+  }
+  if (!getCustomer(businessId, to)) {
+    throw new SmsError(403, 'SMS can only be sent to registered customers of this business.');
+  }
+  checkRateLimit(businessId);
+
+  db.prepare('INSERT INTO sms_sends (business_id, recipient_mobile, sent_at) VALUES (?, ?, ?)')
+    .run(businessId, to, new Date().toISOString());
+
+  const message = await client.messages.create({
+    body,
+    from: process.env.TWILIO_PHONE_NUMBER,
+    to,
+  });
+  return message.sid;
+};
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { Admin, StaffMember, StaffRole } from '../../types';
+
+interface AdminRow {
+  username: string;
+  business_id: string;
+  business_name: string;
+  role: StaffRole;
+  password_hash: string;
+  created_at: string;
+}
+
+const toAdmin = (row: AdminRow): Admin => ({
+  businessName: row.business_name,
+  username: row.username,
+  businessId: row.business_id,
+  role: row.role,
+});
+
+// Staff rows carry no business name of their own; it is always read from the owner's row.
+export const getAdmin = (username: string): Admin | null => {
+  const row = db.prepare(`
+    SELECT a.username, a.business_id, a.role, o.business_name
+    FROM admins a JOIN admins o ON o.username = a.business_id
+    WHERE a.username = ?
+  `).get(username) as AdminRow | undefined;
+  return row ? toAdmin(row) : null;
+};
+
+export const getPasswordHash = (username: string): string | null => {
+  const row = db.prepare('SELECT password_hash FROM admins WHERE username = ?').get(username) as Pick<AdminRow, 'password_hash'> | undefined;
+  return row ? row.password_hash : null;
+};
+
+// Registers a business owner. Returns false if the username is taken.
+export const createAdmin = (admin: Pick<Admin, 'businessName' | 'username'>, passwordHash: string): boolean => {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO admins (username, business_name, password_hash, created_at, business_id, role)
+    VALUES (?, ?, ?, ?, ?, 'owner')
+  `).run(admin.username, admin.businessName, passwordHash, new Date().toISOString(), admin.username);
+  return result.changes > 0;
+};
+
+export const listStaff = (businessId: string): StaffMember[] => {
+  const rows = db.prepare('SELECT username, role, created_at FROM admins WHERE business_id = ? ORDER BY created_at, username')
+    .all(businessId) as Pick<AdminRow, 'username' | 'role' | 'created_at'>[];
+  return rows.map(row => ({ username: row.username, role: row.role, createdAt: row.created_at }));
+};
+
+// Adds a manager or cashier under a business. Returns false if the username is taken anywhere.
+export const createStaff = (businessId: string, username: string, role: Exclude<StaffRole, 'owner'>, passwordHash: string): boolean => {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO admins (username, business_name, password_hash, created_at, business_id, role)
+    VALUES (?, '', ?, ?, ?, ?)
+  `).run(username, passwordHash, new Date().toISOString(), businessId, role);
+  return result.changes > 0;
+};
+
+// Changes a staff member's role or password. The owner's own row is never matched.
+export const updateStaff = (businessId: string, username: string, changes: { role?: Exclude<StaffRole, 'owner'>; passwordHash?: string }): boolean => {
+  const row = db.prepare("SELECT role, password_hash FROM admins WHERE business_id = ? AND username = ? AND role != 'owner'")
+    .get(businessId, username) as Pick<AdminRow, 'role' | 'password_hash'> | undefined;
+  if (!row) return false;
+  db.prepare('UPDATE admins SET role = ?, password_hash = ? WHERE username = ?')
+    .run(changes.role ?? row.role, changes.passwordHash ?? row.password_hash, username);
+  return true;
+};
+
+// Removes a staff member; their sessions go with them.
+export const deleteStaff = (businessId: string, username: string): boolean => {
+  const result = db.prepare("DELETE FROM admins WHERE business_id = ? AND username = ? AND role != 'owner'").run(businessId, username);
+  return result.changes > 0;
+};
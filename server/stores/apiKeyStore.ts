@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { db } from '../db';
+
+export interface ApiKeyInfo {
+  id: string;
+  label: string;
+  createdAt: string;
+}
+
+interface ApiKeyRow {
+  key_hash: string;
+  business_id: string;
+  label: string;
+  created_at: string;
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+// Keys are listed by a short prefix of their hash; the key itself is only ever returned on creation.
+const toInfo = (row: ApiKeyRow): ApiKeyInfo => ({ id: row.key_hash.slice(0, 12), label: row.label, createdAt: row.created_at });
+
+export const createApiKey = (businessId: string, label: string): { key: string; info: ApiKeyInfo } => {
+  const key = `pl_${crypto.randomBytes(24).toString('base64url')}`;
+  const row: ApiKeyRow = { key_hash: hashKey(key), business_id: businessId, label, created_at: new Date().toISOString() };
+  db.prepare('INSERT INTO api_keys (key_hash, business_id, label, created_at) VALUES (?, ?, ?, ?)')
+    .run(row.key_hash, row.business_id, row.label, row.created_at);
+  return { key, info: toInfo(row) };
+};
+
+export const listApiKeys = (businessId: string): ApiKeyInfo[] => {
+  const rows = db.prepare('SELECT * FROM api_keys WHERE business_id = ? ORDER BY created_at').all(businessId) as ApiKeyRow[];
+  return rows.map(toInfo);
+};
+
+export const deleteApiKey = (businessId: string, id: string): boolean => {
+  const result = db.prepare("DELETE FROM api_keys WHERE business_id = ? AND key_hash LIKE ? || '%'").run(businessId, id);
+  return result.changes > 0;
+};
+
+// Returns the business the key belongs to, or null if it is unknown.
+export const getApiKeyBusiness = (key: string): string | null => {
+  const row = db.prepare('SELECT business_id FROM api_keys WHERE key_hash = ?').get(hashKey(key)) as Pick<ApiKeyRow, 'business_id'> | undefined;
+  return row ? row.business_id : null;
+};
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { Branch } from '../../types';
+
+interface BranchRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+const toBranch = (row: BranchRow): Branch => ({ id: row.id, name: row.name, createdAt: row.created_at });
+
+export const listBranches = (businessId: string): Branch[] => {
+  const rows = db.prepare('SELECT id, name, created_at FROM branches WHERE business_id = ? ORDER BY created_at, name').all(businessId) as BranchRow[];
+  return rows.map(toBranch);
+};
+
+export const getBranch = (businessId: string, id: string): Branch | null => {
+  const row = db.prepare('SELECT id, name, created_at FROM branches WHERE business_id = ? AND id = ?').get(businessId, id) as BranchRow | undefined;
+  return row ? toBranch(row) : null;
+};
+
+// Returns false if the business already has a branch with this name.
+export const createBranch = (businessId: string, name: string): boolean => {
+  const result = db.prepare('INSERT OR IGNORE INTO branches (id, business_id, name, created_at) VALUES (?, ?, ?, ?)')
+    .run(crypto.randomUUID(), businessId, name, new Date().toISOString());
+  return result.changes > 0;
+};
+
+// Returns false if the branch does not exist or another branch already has the name.
+export const renameBranch = (businessId: string, id: string, name: string): boolean => {
+  const result = db.prepare('UPDATE OR IGNORE branches SET name = ? WHERE business_id = ? AND id = ?').run(name, businessId, id);
+  return result.changes > 0;
+};
+
+// Reward redemptions are recorded against the branch too, so they count.
+export const branchHasTransactions = (businessId: string, id: string): boolean =>
+  db.prepare(`
+    SELECT 1 FROM transactions WHERE business_id = ? AND branch_id = ?
+    UNION ALL SELECT 1 FROM reward_redemptions WHERE business_id = ? AND branch_id = ?
+    LIMIT 1
+  `).get(businessId, id, businessId, id) !== undefined;
+
+// Branches with transactions are kept so their history stays attributed; callers check first.
+export const deleteBranch = (businessId: string, id: string): boolean => {
+  const result = db.prepare('DELETE FROM branches WHERE business_id = ? AND id = ?').run(businessId, id);
+  return result.changes > 0;
+};
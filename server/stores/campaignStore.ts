@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { Campaign } from '../../types';
+import { CampaignInput } from '../../src/utils/campaignUtils';
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  weekdays: string;
+  start_hour: number;
+  end_hour: number;
+  tier_ids: string;
+  points_multiplier: number;
+  extra_discount_percentage: number;
+  created_at: string;
+}
+
+const toCampaign = (row: CampaignRow): Campaign => ({
+  id: row.id,
+  name: row.name,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  weekdays: JSON.parse(row.weekdays),
+  startHour: row.start_hour,
+  endHour: row.end_hour,
+  tierIds: JSON.parse(row.tier_ids),
+  pointsMultiplier: row.points_multiplier,
+  extraDiscountPercentage: row.extra_discount_percentage,
+  createdAt: row.created_at,
+});
+
+const toParams = (campaign: CampaignInput) => [
+  campaign.name, campaign.startsAt, campaign.endsAt, JSON.stringify(campaign.weekdays), campaign.startHour, campaign.endHour,
+  JSON.stringify(campaign.tierIds), campaign.pointsMultiplier, campaign.extraDiscountPercentage,
+];
+
+// Newest first.
+export const listCampaigns = (businessId: string): Campaign[] => {
+  const rows = db.prepare('SELECT * FROM campaigns WHERE business_id = ? ORDER BY starts_at DESC, name').all(businessId) as CampaignRow[];
+  return rows.map(toCampaign);
+};
+
+export const getCampaign = (businessId: string, id: string): Campaign | null => {
+  const row = db.prepare('SELECT * FROM campaigns WHERE business_id = ? AND id = ?').get(businessId, id) as CampaignRow | undefined;
+  return row ? toCampaign(row) : null;
+};
+
+// Returns false if the business already has a campaign with this name.
+export const createCampaign = (businessId: string, campaign: CampaignInput): boolean => {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO campaigns (id, business_id, name, starts_at, ends_at, weekdays, start_hour, end_hour, tier_ids, points_multiplier, extra_discount_percentage, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(crypto.randomUUID(), businessId, ...toParams(campaign), new Date().toISOString());
+  return result.changes > 0;
+};
+
+// Returns false if the campaign does not exist or another campaign already has the name.
+export const updateCampaign = (businessId: string, id: string, campaign: CampaignInput): boolean => {
+  const result = db.prepare(`
+    UPDATE OR IGNORE campaigns SET name = ?, starts_at = ?, ends_at = ?, weekdays = ?, start_hour = ?, end_hour = ?, tier_ids = ?,
+      points_multiplier = ?, extra_discount_percentage = ?
+    WHERE business_id = ? AND id = ?
+  `).run(...toParams(campaign), businessId, id);
+  return result.changes > 0;
+};
+
+export const campaignHasTransactions = (businessId: string, id: string): boolean =>
+  db.prepare('SELECT 1 FROM transaction_campaigns WHERE business_id = ? AND campaign_id = ? LIMIT 1').get(businessId, id) !== undefined;
+
+// Campaigns that applied to bills are kept so their results stay attributed; callers check first.
+export const deleteCampaign = (businessId: string, id: string): boolean => {
+  const result = db.prepare('DELETE FROM campaigns WHERE business_id = ? AND id = ?').run(businessId, id);
+  return result.changes > 0;
+};
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { AppliedCelebration, CelebrationGrant } from '../../types';
+
+export interface CelebrationGrantRow {
+  id: string;
+  mobile: string;
+  occasion: CelebrationGrant['occasion'];
+  year: number;
+  reward_type: CelebrationGrant['rewardType'];
+  points: number;
+  discount_percentage: number;
+  valid_until: string;
+  granted_at: string;
+  sms_sent_at: string | null;
+  redeemed_transaction_id: string | null;
+  redeemed_amount: number | null;
+}
+
+export const toCelebrationGrant = (row: CelebrationGrantRow): CelebrationGrant => ({
+  id: row.id,
+  occasion: row.occasion,
+  year: row.year,
+  rewardType: row.reward_type,
+  points: row.points,
+  discountPercentage: row.discount_percentage,
+  validUntil: row.valid_until,
+  grantedAt: row.granted_at,
+  smsSentAt: row.sms_sent_at,
+  redeemedTransactionId: row.redeemed_transaction_id,
+});
+
+export const toAppliedCelebration = (row: CelebrationGrantRow): AppliedCelebration => ({
+  grantId: row.id,
+  occasion: row.occasion,
+  discountAmount: row.redeemed_amount ?? 0,
+});
+
+export const getCelebrationGrant = (businessId: string, id: string): (CelebrationGrant & { mobile: string }) | null => {
+  const row = db.prepare('SELECT * FROM celebration_grants WHERE business_id = ? AND id = ?').get(businessId, id) as CelebrationGrantRow | undefined;
+  return row ? { ...toCelebrationGrant(row), mobile: row.mobile } : null;
+};
+
+// Returns null if the customer already has a grant for this occasion and year, so the job never grants twice.
+export const recordCelebrationGrant = (businessId: string, mobile: string, grant: Omit<CelebrationGrant, 'id' | 'smsSentAt' | 'redeemedTransactionId'>): CelebrationGrant | null => {
+  const row = db.prepare(`
+    INSERT OR IGNORE INTO celebration_grants (id, business_id, mobile, occasion, year, reward_type, points, discount_percentage, valid_until, granted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(
+    crypto.randomUUID(), businessId, mobile, grant.occasion, grant.year, grant.rewardType, grant.points, grant.discountPercentage,
+    grant.validUntil, grant.grantedAt,
+  ) as CelebrationGrantRow | undefined;
+  return row ? toCelebrationGrant(row) : null;
+};
+
+// Grants still inside their week whose greeting has not gone out, oldest first. Failed sends are retried from here.
+export const listUnsentCelebrationGrants = (businessId: string, now: Date): (CelebrationGrant & { mobile: string })[] => {
+  const rows = db.prepare('SELECT * FROM celebration_grants WHERE business_id = ? AND sms_sent_at IS NULL AND valid_until > ? ORDER BY granted_at')
+    .all(businessId, now.toISOString()) as CelebrationGrantRow[];
+  return rows.map(row => ({ ...toCelebrationGrant(row), mobile: row.mobile }));
+};
+
+export const markCelebrationSmsSent = (businessId: string, id: string, sentAt: string) => {
+  db.prepare('UPDATE celebration_grants SET sms_sent_at = ? WHERE business_id = ? AND id = ?').run(sentAt, businessId, id);
+};
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { Coupon } from '../../types';
+import { CouponInput, normalizeCouponCode } from '../../src/utils/couponUtils';
+
+interface CouponRow {
+  id: string;
+  code: string;
+  discount_type: Coupon['discountType'];
+  discount_value: number;
+  single_use: number;
+  expires_at: string | null;
+  minimum_bill: number;
+  redemptions: number;
+  created_at: string;
+}
+
+const toCoupon = (row: CouponRow): Coupon => ({
+  id: row.id,
+  code: row.code,
+  discountType: row.discount_type,
+  discountValue: row.discount_value,
+  singleUse: row.single_use === 1,
+  expiresAt: row.expires_at,
+  minimumBill: row.minimum_bill,
+  redemptions: row.redemptions,
+  createdAt: row.created_at,
+});
+
+// Redemptions on voided bills do not count, so voiding a bill frees a single-use coupon.
+const COUPON_SELECT = `
+  SELECT c.*, (
+    SELECT COUNT(*) FROM transaction_coupons tc
+    WHERE tc.coupon_id = c.id
+      AND NOT EXISTS (SELECT 1 FROM transaction_reversals r WHERE r.transaction_id = tc.transaction_id AND r.kind = 'void')
+  ) AS redemptions
+  FROM coupons c
+`;
+
+const toParams = (coupon: CouponInput) => [
+  normalizeCouponCode(coupon.code), coupon.discountType, coupon.discountValue, coupon.singleUse ? 1 : 0, coupon.expiresAt, coupon.minimumBill,
+];
+
+// Newest first.
+export const listCoupons = (businessId: string): Coupon[] => {
+  const rows = db.prepare(`${COUPON_SELECT} WHERE c.business_id = ? ORDER BY c.created_at DESC`).all(businessId) as CouponRow[];
+  return rows.map(toCoupon);
+};
+
+export const getCoupon = (businessId: string, id: string): Coupon | null => {
+  const row = db.prepare(`${COUPON_SELECT} WHERE c.business_id = ? AND c.id = ?`).get(businessId, id) as CouponRow | undefined;
+  return row ? toCoupon(row) : null;
+};
+
+export const findCouponByCode = (businessId: string, code: string): Coupon | null => {
+  const row = db.prepare(`${COUPON_SELECT} WHERE c.business_id = ? AND c.code = ?`).get(businessId, normalizeCouponCode(code)) as CouponRow | undefined;
+  return row ? toCoupon(row) : null;
+};
+
+// Returns false if the business already has a coupon with this code.
+export const createCoupon = (businessId: string, coupon: CouponInput): boolean => {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO coupons (id, business_id, code, discount_type, discount_value, single_use, expires_at, minimum_bill, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(crypto.randomUUID(), businessId, ...toParams(coupon), new Date().toISOString());
+  return result.changes > 0;
+};
+
+// Returns false if the coupon does not exist or another coupon already has the code.
+export const updateCoupon = (businessId: string, id: string, coupon: CouponInput): boolean => {
+  const result = db.prepare(`
+    UPDATE OR IGNORE coupons SET code = ?, discount_type = ?, discount_value = ?, single_use = ?, expires_at = ?, minimum_bill = ?
+    WHERE business_id = ? AND id = ?
+  `).run(...toParams(coupon), businessId, id);
+  return result.changes > 0;
+};
+
+export const couponHasTransactions = (businessId: string, id: string): boolean =>
+  db.prepare('SELECT 1 FROM transaction_coupons WHERE business_id = ? AND coupon_id = ? LIMIT 1').get(businessId, id) !== undefined;
+
+// Coupons redeemed on bills are kept so those bills still point at them; callers check first.
+export const deleteCoupon = (businessId: string, id: string): boolean => {
+  const result = db.prepare('DELETE FROM coupons WHERE business_id = ? AND id = ?').run(businessId, id);
+  return result.changes > 0;
+};
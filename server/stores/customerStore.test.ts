@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { addTransaction, createCustomer, getCustomer, CelebrationUsedError } from './customerStore';
+import { recordCelebrationGrant } from './celebrationStore';
+import { TransactionHistory } from '../../types';
+
+describe('addTransaction', () => {
+  it('uses a birthday discount on one bill only', () => {
+    createCustomer('cafe', { mobile: '+911', name: 'Asha', history: [], pinHash: 'hash' }, 'owner');
+    const grant = recordCelebrationGrant('cafe', '+911', {
+      occasion: 'birthday', year: 2026, rewardType: 'discount', points: 0, discountPercentage: 10,
+      validUntil: '2100-01-01T00:00:00.000Z', grantedAt: new Date().toISOString(),
+    })!;
+    const bill: TransactionHistory = {
+      date: new Date().toISOString(), bill: 100, finalBill: 90, points: 0,
+      celebration: { grantId: grant.id, occasion: 'birthday', discountAmount: 10 },
+    };
+
+    addTransaction('cafe', '+911', bill, 'owner');
+    expect(() => addTransaction('cafe', '+911', bill, 'owner')).toThrow(CelebrationUsedError);
+    expect(getCustomer('cafe', '+911')!.history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,561 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { createReferral } from './referralStore';
+import { CelebrationGrantRow, toCelebrationGrant, toAppliedCelebration } from './celebrationStore';
+import { RewardRedemptionRow, toRewardRedemption } from './rewardStore';
+import { Customer, TransactionHistory, TransactionReversal, AppliedCampaign, AppliedCoupon, AppliedCelebration, CelebrationGrant, RewardRedemption, Tender, BillItem, BillTax, LedgerEntry, LedgerEntryType, PinLockout } from '../../types';
+
+// Thrown when a bill claims a birthday or anniversary reward that another bill has just used. Nothing is saved.
+export class CelebrationUsedError extends Error {
+  constructor() {
+    super('This reward has already been used.');
+    this.name = 'CelebrationUsedError';
+  }
+}
+
+interface CustomerRow {
+  mobile: string;
+  name: string;
+  pin_hash: string;
+  points: number;
+  total_spent: number;
+  failed_pin_attempts: number;
+  locked_until: string | null;
+  tier_id: string | null;
+  tier_since: string | null;
+  tier_below_since: string | null;
+  referred_by: string | null;
+  referral_bonus_at: string | null;
+  date_of_birth: string | null;
+  member_since: string | null;
+}
+
+// A customer as written to the store: the PIN arrives already hashed. Balances carried over from elsewhere
+// (the localStorage import) are optional; any difference from `history` is booked as an opening adjustment.
+export type NewCustomer = Omit<Customer, 'pin' | 'lockedUntil' | 'points' | 'totalSpent'> & Partial<Pick<Customer, 'points' | 'totalSpent'>> & { pinHash: string };
+
+interface TransactionRow {
+  id: string;
+  mobile: string;
+  date: string;
+  bill: number;
+  discount_percentage: number | null;
+  final_bill: number;
+  points_used: number;
+  points_value: number | null;
+  points: number;
+  actor: string;
+  branch_id: string | null;
+  receipt_token: string | null;
+}
+
+interface ReversalRow {
+  id: string;
+  transaction_id: string;
+  kind: TransactionReversal['kind'];
+  amount: number;
+  points_reversed: number;
+  points_restored: number;
+  reason: string;
+  actor: string;
+  created_at: string;
+}
+
+interface AppliedCampaignRow {
+  transaction_id: string;
+  campaign_id: string;
+  name: string;
+  discount_amount: number;
+  bonus_points: number;
+}
+
+interface AppliedCouponRow {
+  transaction_id: string;
+  coupon_id: string;
+  code: string;
+  discount_amount: number;
+}
+
+interface PaymentRow {
+  transaction_id: string;
+  method: Tender['method'];
+  amount: number;
+  reference: string | null;
+}
+
+interface ItemRow {
+  transaction_id: string;
+  product_id: string | null;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+interface TaxRow {
+  transaction_id: string;
+  label: string;
+  mode: BillTax['mode'];
+  rate: number;
+  taxable_value: number;
+  tax_amount: number;
+}
+
+interface LedgerRow {
+  id: string;
+  type: LedgerEntryType;
+  points: number;
+  amount: number;
+  transaction_id: string | null;
+  reversal_id: string | null;
+  actor: string;
+  note: string | null;
+  created_at: string;
+}
+
+const toReversal = (row: ReversalRow): TransactionReversal => ({
+  id: row.id,
+  kind: row.kind,
+  amount: row.amount,
+  pointsReversed: row.points_reversed,
+  pointsRestored: row.points_restored,
+  reason: row.reason,
+  actor: row.actor,
+  createdAt: row.created_at,
+});
+
+const toAppliedCampaign = (row: AppliedCampaignRow): AppliedCampaign => ({
+  campaignId: row.campaign_id,
+  name: row.name,
+  discountAmount: row.discount_amount,
+  bonusPoints: row.bonus_points,
+});
+
+const toAppliedCoupon = (row: AppliedCouponRow): AppliedCoupon => ({
+  couponId: row.coupon_id,
+  code: row.code,
+  discountAmount: row.discount_amount,
+});
+
+const toTender = (row: PaymentRow): Tender => ({
+  method: row.method,
+  amount: row.amount,
+  ...(row.reference ? { reference: row.reference } : {}),
+});
+
+const toBillItem = (row: ItemRow): BillItem => ({
+  ...(row.product_id ? { productId: row.product_id } : {}),
+  name: row.name,
+  ...(row.sku ? { sku: row.sku } : {}),
+  ...(row.category ? { category: row.category } : {}),
+  quantity: row.quantity,
+  unitPrice: row.unit_price,
+  amount: row.amount,
+});
+
+const toTransaction = (
+  row: TransactionRow, reversals: TransactionReversal[] = [], campaigns: AppliedCampaign[] = [], coupon?: AppliedCoupon, celebration?: AppliedCelebration,
+  payments?: Tender[], items?: BillItem[], tax?: BillTax,
+): TransactionHistory => ({
+  id: row.id,
+  actor: row.actor,
+  date: row.date,
+  bill: row.bill,
+  discountPercentage: row.discount_percentage ?? undefined,
+  finalBill: row.final_bill,
+  pointsUsed: row.points_used,
+  pointsValue: row.points_value ?? row.points_used,
+  points: row.points,
+  branchId: row.branch_id ?? undefined,
+  campaigns,
+  coupon,
+  celebration,
+  payments,
+  items,
+  tax,
+  receiptToken: row.receipt_token ?? undefined,
+  reversals,
+});
+
+const groupReversals = (rows: ReversalRow[]) => {
+  const byTransaction = new Map<string, TransactionReversal[]>();
+  rows.forEach(row => byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) || []), toReversal(row)]));
+  return byTransaction;
+};
+
+const groupCampaigns = (rows: AppliedCampaignRow[]) => {
+  const byTransaction = new Map<string, AppliedCampaign[]>();
+  rows.forEach(row => byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) || []), toAppliedCampaign(row)]));
+  return byTransaction;
+};
+
+const APPLIED_CAMPAIGN_SELECT = `
+  SELECT tc.* FROM transaction_campaigns tc JOIN transactions t ON t.id = tc.transaction_id
+`;
+
+const groupPayments = (rows: PaymentRow[]) => {
+  const byTransaction = new Map<string, Tender[]>();
+  rows.forEach(row => byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) || []), toTender(row)]));
+  return byTransaction;
+};
+
+const PAYMENT_SELECT = `
+  SELECT tp.* FROM transaction_payments tp JOIN transactions t ON t.id = tp.transaction_id
+`;
+
+const groupItems = (rows: ItemRow[]) => {
+  const byTransaction = new Map<string, BillItem[]>();
+  rows.forEach(row => byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) || []), toBillItem(row)]));
+  return byTransaction;
+};
+
+const ITEM_SELECT = `
+  SELECT ti.* FROM transaction_items ti JOIN transactions t ON t.id = ti.transaction_id
+`;
+
+// A bill's tax rows all carry its label and mode.
+const groupTaxes = (rows: TaxRow[]) => {
+  const byTransaction = new Map<string, BillTax>();
+  rows.forEach(row => {
+    const tax = byTransaction.get(row.transaction_id) ?? { label: row.label, mode: row.mode, lines: [] };
+    tax.lines.push({ rate: row.rate, taxableValue: row.taxable_value, amount: row.tax_amount });
+    byTransaction.set(row.transaction_id, tax);
+  });
+  return byTransaction;
+};
+
+const TAX_SELECT = `
+  SELECT tt.* FROM transaction_taxes tt JOIN transactions t ON t.id = tt.transaction_id
+`;
+
+const mapCoupons = (rows: AppliedCouponRow[]) => new Map(rows.map(row => [row.transaction_id, toAppliedCoupon(row)]));
+
+const APPLIED_COUPON_SELECT = `
+  SELECT tc.* FROM transaction_coupons tc JOIN transactions t ON t.id = tc.transaction_id
+`;
+
+// Each customer's celebration grants, newest first, and the discount each redeemed grant gave, by bill.
+const groupCelebrations = (rows: CelebrationGrantRow[]) => {
+  const byMobile = new Map<string, CelebrationGrant[]>();
+  const byTransaction = new Map<string, AppliedCelebration>();
+  rows.forEach(row => {
+    byMobile.set(row.mobile, [toCelebrationGrant(row), ...(byMobile.get(row.mobile) || [])]);
+    if (row.redeemed_transaction_id) byTransaction.set(row.redeemed_transaction_id, toAppliedCelebration(row));
+  });
+  return { byMobile, byTransaction };
+};
+
+// Each customer's catalog reward redemptions, newest first.
+const groupRewardRedemptions = (rows: RewardRedemptionRow[]) => {
+  const byMobile = new Map<string, RewardRedemption[]>();
+  rows.forEach(row => byMobile.set(row.mobile, [toRewardRedemption(row), ...(byMobile.get(row.mobile) || [])]));
+  return byMobile;
+};
+
+const toLedgerEntry = (row: LedgerRow): LedgerEntry => ({
+  id: row.id,
+  type: row.type,
+  points: row.points,
+  amount: row.amount,
+  transactionId: row.transaction_id ?? undefined,
+  reversalId: row.reversal_id ?? undefined,
+  actor: row.actor,
+  note: row.note ?? undefined,
+  createdAt: row.created_at,
+});
+
+const toCustomer = (
+  row: CustomerRow, history: TransactionHistory[], celebrations: CelebrationGrant[] = [], rewardRedemptions: RewardRedemption[] = [],
+): Customer => ({
+  mobile: row.mobile,
+  name: row.name,
+  points: row.points,
+  totalSpent: row.total_spent,
+  lockedUntil: row.locked_until && row.locked_until > new Date().toISOString() ? row.locked_until : null,
+  history,
+  tier: row.tier_id && row.tier_since ? { tierId: row.tier_id, since: row.tier_since, belowSince: row.tier_below_since } : null,
+  referredBy: row.referred_by,
+  referralBonusAt: row.referral_bonus_at,
+  dateOfBirth: row.date_of_birth,
+  memberSince: row.member_since,
+  celebrations,
+  rewardRedemptions,
+});
+
+// Customers with their balances summed from the ledger; nothing stores a running total.
+const CUSTOMER_SELECT = `
+  SELECT c.*, COALESCE(SUM(l.points), 0) AS points, COALESCE(SUM(l.amount), 0) AS total_spent,
+    t.tier_id, t.since AS tier_since, t.below_since AS tier_below_since,
+    r.referrer_mobile AS referred_by, r.bonus_at AS referral_bonus_at
+  FROM customers c LEFT JOIN ledger_entries l ON l.business_id = c.business_id AND l.mobile = c.mobile
+  LEFT JOIN customer_tiers t ON t.business_id = c.business_id AND t.mobile = c.mobile
+  LEFT JOIN referrals r ON r.business_id = c.business_id AND r.mobile = c.mobile
+`;
+
+export const listCustomers = (businessId: string): Customer[] => {
+  const rows = db.prepare(`${CUSTOMER_SELECT} WHERE c.business_id = ? GROUP BY c.business_id, c.mobile ORDER BY c.rowid`).all(businessId) as CustomerRow[];
+  const transactions = db.prepare('SELECT * FROM transactions WHERE business_id = ? ORDER BY date, rowid').all(businessId) as TransactionRow[];
+  const reversals = groupReversals(db.prepare('SELECT * FROM transaction_reversals WHERE business_id = ? ORDER BY created_at, rowid').all(businessId) as ReversalRow[]);
+  const campaigns = groupCampaigns(db.prepare(`${APPLIED_CAMPAIGN_SELECT} WHERE t.business_id = ?`).all(businessId) as AppliedCampaignRow[]);
+  const coupons = mapCoupons(db.prepare(`${APPLIED_COUPON_SELECT} WHERE t.business_id = ?`).all(businessId) as AppliedCouponRow[]);
+  const payments = groupPayments(db.prepare(`${PAYMENT_SELECT} WHERE t.business_id = ? ORDER BY tp.transaction_id, tp.position`).all(businessId) as PaymentRow[]);
+  const items = groupItems(db.prepare(`${ITEM_SELECT} WHERE t.business_id = ? ORDER BY ti.transaction_id, ti.position`).all(businessId) as ItemRow[]);
+  const taxes = groupTaxes(db.prepare(`${TAX_SELECT} WHERE t.business_id = ? ORDER BY tt.transaction_id, tt.rate`).all(businessId) as TaxRow[]);
+  const celebrations = groupCelebrations(db.prepare('SELECT * FROM celebration_grants WHERE business_id = ? ORDER BY granted_at, rowid').all(businessId) as CelebrationGrantRow[]);
+  const rewardRedemptions = groupRewardRedemptions(db.prepare('SELECT * FROM reward_redemptions WHERE business_id = ? ORDER BY created_at, rowid').all(businessId) as RewardRedemptionRow[]);
+
+  const historyByMobile = new Map<string, TransactionHistory[]>();
+  transactions.forEach(row => {
+    const history = historyByMobile.get(row.mobile) || [];
+    history.push(toTransaction(row, reversals.get(row.id), campaigns.get(row.id), coupons.get(row.id), celebrations.byTransaction.get(row.id), payments.get(row.id), items.get(row.id), taxes.get(row.id)));
+    historyByMobile.set(row.mobile, history);
+  });
+
+  return rows.map(row => toCustomer(row, historyByMobile.get(row.mobile) || [], celebrations.byMobile.get(row.mobile), rewardRedemptions.get(row.mobile)));
+};
+
+export const getCustomer = (businessId: string, mobile: string): Customer | null => {
+  const row = db.prepare(`${CUSTOMER_SELECT} WHERE c.business_id = ? AND c.mobile = ? GROUP BY c.business_id, c.mobile`).get(businessId, mobile) as CustomerRow | undefined;
+  if (!row) return null;
+  const history = db.prepare('SELECT * FROM transactions WHERE business_id = ? AND mobile = ? ORDER BY date, rowid').all(businessId, mobile) as TransactionRow[];
+  const reversals = groupReversals(db.prepare('SELECT * FROM transaction_reversals WHERE business_id = ? AND mobile = ? ORDER BY created_at, rowid').all(businessId, mobile) as ReversalRow[]);
+  const campaigns = groupCampaigns(db.prepare(`${APPLIED_CAMPAIGN_SELECT} WHERE t.business_id = ? AND t.mobile = ?`).all(businessId, mobile) as AppliedCampaignRow[]);
+  const coupons = mapCoupons(db.prepare(`${APPLIED_COUPON_SELECT} WHERE t.business_id = ? AND t.mobile = ?`).all(businessId, mobile) as AppliedCouponRow[]);
+  const payments = groupPayments(db.prepare(`${PAYMENT_SELECT} WHERE t.business_id = ? AND t.mobile = ? ORDER BY tp.transaction_id, tp.position`).all(businessId, mobile) as PaymentRow[]);
+  const items = groupItems(db.prepare(`${ITEM_SELECT} WHERE t.business_id = ? AND t.mobile = ? ORDER BY ti.transaction_id, ti.position`).all(businessId, mobile) as ItemRow[]);
+  const taxes = groupTaxes(db.prepare(`${TAX_SELECT} WHERE t.business_id = ? AND t.mobile = ? ORDER BY tt.transaction_id, tt.rate`).all(businessId, mobile) as TaxRow[]);
+  const celebrations = groupCelebrations(db.prepare('SELECT * FROM celebration_grants WHERE business_id = ? AND mobile = ? ORDER BY granted_at, rowid').all(businessId, mobile) as CelebrationGrantRow[]);
+  const rewardRedemptions = groupRewardRedemptions(db.prepare('SELECT * FROM reward_redemptions WHERE business_id = ? AND mobile = ? ORDER BY created_at, rowid').all(businessId, mobile) as RewardRedemptionRow[]);
+  return toCustomer(
+    row,
+    history.map(t => toTransaction(t, reversals.get(t.id), campaigns.get(t.id), coupons.get(t.id), celebrations.byTransaction.get(t.id), payments.get(t.id), items.get(t.id), taxes.get(t.id))),
+    celebrations.byMobile.get(mobile),
+    rewardRedemptions.get(mobile),
+  );
+};
+
+export const listLedgerEntries = (businessId: string, mobile: string): LedgerEntry[] => {
+  const rows = db.prepare('SELECT * FROM ledger_entries WHERE business_id = ? AND mobile = ? ORDER BY created_at, rowid').all(businessId, mobile) as LedgerRow[];
+  return rows.map(toLedgerEntry);
+};
+
+// The bill a receipt token belongs to, across all businesses.
+export const findReceiptTransaction = (token: string): { businessId: string; mobile: string; transactionId: string } | null => {
+  const row = db.prepare('SELECT business_id, mobile, id FROM transactions WHERE receipt_token = ?').get(token) as
+    { business_id: string; mobile: string; id: string } | undefined;
+  return row ? { businessId: row.business_id, mobile: row.mobile, transactionId: row.id } : null;
+};
+
+// The customer's points balance straight after the bill's earn entry, ignoring anything booked since.
+export const getBalanceAfterTransaction = (businessId: string, mobile: string, transactionId: string): number => {
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(points), 0) AS balance FROM ledger_entries
+    WHERE business_id = ? AND mobile = ? AND rowid <= (
+      SELECT MAX(rowid) FROM ledger_entries WHERE business_id = ? AND transaction_id = ? AND type = 'earn'
+    )
+  `).get(businessId, mobile, businessId, transactionId) as { balance: number };
+  return row.balance;
+};
+
+export interface NewLedgerEntry {
+  type: LedgerEntryType;
+  points: number;
+  amount?: number;
+  transactionId?: string;
+  reversalId?: string;
+  note?: string;
+  createdAt?: string;
+}
+
+// Appends one entry to the customer's ledger. Callers are responsible for checking the customer exists.
+export const appendLedgerEntry = (businessId: string, mobile: string, entry: NewLedgerEntry, actor: string): LedgerEntry => {
+  const row = db.prepare(`
+    INSERT INTO ledger_entries (id, business_id, mobile, type, points, amount, transaction_id, reversal_id, actor, note, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *
+  `).get(
+    crypto.randomUUID(), businessId, mobile, entry.type, entry.points, entry.amount ?? 0,
+    entry.transactionId ?? null, entry.reversalId ?? null, actor, entry.note ?? null, entry.createdAt ?? new Date().toISOString(),
+  ) as LedgerRow;
+  return toLedgerEntry(row);
+};
+
+// Records a bill and its earn/redeem ledger entries. The earn entry carries the spend even when no points were earned.
+const insertTransaction = (businessId: string, mobile: string, entry: TransactionHistory, actor: string) => {
+  const id = crypto.randomUUID();
+  const pointsUsed = entry.pointsUsed ?? 0;
+  db.prepare(`
+    INSERT INTO transactions (id, business_id, mobile, date, bill, discount_percentage, final_bill, points_used, points_value, points, actor, branch_id, receipt_token)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, businessId, mobile, entry.date, entry.bill, entry.discountPercentage ?? null, entry.finalBill, pointsUsed, entry.pointsValue ?? pointsUsed,
+    entry.points, actor, entry.branchId ?? null, crypto.randomBytes(24).toString('base64url'),
+  );
+  const recordCampaign = db.prepare(`
+    INSERT INTO transaction_campaigns (business_id, transaction_id, campaign_id, name, discount_amount, bonus_points) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  (entry.campaigns || []).forEach(c => recordCampaign.run(businessId, id, c.campaignId, c.name, c.discountAmount, c.bonusPoints));
+  if (entry.coupon) {
+    db.prepare('INSERT INTO transaction_coupons (transaction_id, business_id, coupon_id, code, discount_amount) VALUES (?, ?, ?, ?, ?)')
+      .run(id, businessId, entry.coupon.couponId, entry.coupon.code, entry.coupon.discountAmount);
+  }
+  const recordPayment = db.prepare(`
+    INSERT INTO transaction_payments (transaction_id, business_id, position, method, amount, reference) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  (entry.payments || []).forEach((p, position) => recordPayment.run(id, businessId, position, p.method, p.amount, p.reference ?? null));
+  const recordItem = db.prepare(`
+    INSERT INTO transaction_items (transaction_id, business_id, position, product_id, name, sku, category, quantity, unit_price, amount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  (entry.items || []).forEach((item, position) => recordItem.run(
+    id, businessId, position, item.productId ?? null, item.name, item.sku ?? null, item.category ?? null, item.quantity, item.unitPrice, item.amount,
+  ));
+  if (entry.tax) {
+    const { label, mode } = entry.tax;
+    const recordTax = db.prepare(`
+      INSERT INTO transaction_taxes (transaction_id, business_id, label, mode, rate, taxable_value, tax_amount) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    entry.tax.lines.forEach(line => recordTax.run(id, businessId, label, mode, line.rate, line.taxableValue, line.amount));
+  }
+  if (entry.celebration) {
+    const result = db.prepare('UPDATE celebration_grants SET redeemed_transaction_id = ?, redeemed_amount = ? WHERE business_id = ? AND id = ? AND redeemed_transaction_id IS NULL')
+      .run(id, entry.celebration.discountAmount, businessId, entry.celebration.grantId);
+    if (result.changes !== 1) throw new CelebrationUsedError();
+  }
+  if (pointsUsed > 0) {
+    appendLedgerEntry(businessId, mobile, { type: 'redeem', points: -pointsUsed, transactionId: id, createdAt: entry.date }, actor);
+  }
+  appendLedgerEntry(businessId, mobile, { type: 'earn', points: entry.points, amount: entry.finalBill, transactionId: id, createdAt: entry.date }, actor);
+};
+
+// Inserts a customer together with any history it already carries. Returns false if the mobile is taken.
+export const createCustomer = (businessId: string, customer: NewCustomer, actor: string): boolean => db.transaction(() => {
+  const history = customer.history || [];
+  // Imported customers have been members since their first bill.
+  const memberSince = customer.memberSince ?? [new Date().toISOString(), ...history.map(t => t.date)].sort()[0].slice(0, 10);
+  const result = db.prepare('INSERT OR IGNORE INTO customers (business_id, mobile, name, pin_hash, date_of_birth, member_since) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(businessId, customer.mobile, customer.name, customer.pinHash, customer.dateOfBirth ?? null, memberSince);
+  if (result.changes === 0) return false;
+  if (customer.referredBy) createReferral(businessId, customer.mobile, customer.referredBy);
+
+  history.forEach(entry => insertTransaction(businessId, customer.mobile, entry, actor));
+
+  const pointsGap = customer.points === undefined ? 0 : customer.points - history.reduce((sum, t) => sum + t.points - (t.pointsUsed ?? 0), 0);
+  const spendGap = customer.totalSpent === undefined ? 0 : customer.totalSpent - history.reduce((sum, t) => sum + t.finalBill, 0);
+  if (Math.abs(pointsGap) > 1e-9 || Math.abs(spendGap) > 1e-9) {
+    appendLedgerEntry(businessId, customer.mobile, { type: 'adjust', points: pointsGap, amount: spendGap, note: 'Opening balance' }, actor);
+  }
+  return true;
+})();
+
+// Fields left undefined are kept; `dateOfBirth` can be cleared with null.
+export const updateCustomer = (businessId: string, mobile: string, changes: Partial<Pick<NewCustomer, 'name' | 'pinHash' | 'dateOfBirth' | 'memberSince'>>): Customer | null => {
+  const row = db.prepare('SELECT * FROM customers WHERE business_id = ? AND mobile = ?').get(businessId, mobile) as CustomerRow | undefined;
+  if (!row) return null;
+  db.prepare('UPDATE customers SET name = ?, pin_hash = ?, date_of_birth = ?, member_since = ? WHERE business_id = ? AND mobile = ?')
+    .run(
+      changes.name ?? row.name, changes.pinHash ?? row.pin_hash, changes.dateOfBirth === undefined ? row.date_of_birth : changes.dateOfBirth,
+      changes.memberSince ?? row.member_since, businessId, mobile,
+    );
+  return getCustomer(businessId, mobile);
+};
+
+export const deleteCustomer = (businessId: string, mobile: string): boolean => {
+  const result = db.prepare('DELETE FROM customers WHERE business_id = ? AND mobile = ?').run(businessId, mobile);
+  return result.changes > 0;
+};
+
+// Appends a transaction and its ledger entries in one step.
+export const addTransaction = (businessId: string, mobile: string, entry: TransactionHistory, actor: string): Customer | null => db.transaction(() => {
+  if (!getCustomer(businessId, mobile)) return null;
+  insertTransaction(businessId, mobile, entry, actor);
+  return getCustomer(businessId, mobile);
+})();
+
+export interface PinState {
+  pinHash: string;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export const getPinState = (businessId: string, mobile: string): PinState | null => {
+  const row = db.prepare('SELECT pin_hash, failed_pin_attempts, locked_until FROM customers WHERE business_id = ? AND mobile = ?')
+    .get(businessId, mobile) as Pick<CustomerRow, 'pin_hash' | 'failed_pin_attempts' | 'locked_until'> | undefined;
+  return row ? { pinHash: row.pin_hash, failedAttempts: row.failed_pin_attempts, lockedUntil: row.locked_until } : null;
+};
+
+const isLocked = (lockedUntil: string | null): lockedUntil is string => !!lockedUntil && lockedUntil > new Date().toISOString();
+
+// Counts a failed PIN entry and returns the new total. Incremented in SQL so parallel guesses cannot share a count.
+const incrementFailedPinAttempts = (businessId: string, mobile: string): number => {
+  const row = db.prepare('UPDATE customers SET failed_pin_attempts = failed_pin_attempts + 1 WHERE business_id = ? AND mobile = ? RETURNING failed_pin_attempts')
+    .get(businessId, mobile) as Pick<CustomerRow, 'failed_pin_attempts'>;
+  return row.failed_pin_attempts;
+};
+
+export const resetFailedPinAttempts = (businessId: string, mobile: string) => {
+  db.prepare('UPDATE customers SET failed_pin_attempts = 0, locked_until = NULL WHERE business_id = ? AND mobile = ?').run(businessId, mobile);
+};
+
+// Locks PIN entry until `lockedUntil` and records the event for the owner.
+export const lockCustomer = (businessId: string, mobile: string, failedAttempts: number, lockedUntil: string) => db.transaction(() => {
+  db.prepare('UPDATE customers SET failed_pin_attempts = 0, locked_until = ? WHERE business_id = ? AND mobile = ?').run(lockedUntil, businessId, mobile);
+  db.prepare('INSERT INTO pin_lockouts (business_id, mobile, failed_attempts, locked_at, locked_until) VALUES (?, ?, ?, ?, ?)')
+    .run(businessId, mobile, failedAttempts, new Date().toISOString(), lockedUntil);
+})();
+
+export type PinAttempt = { pinHash: string; attempt: number } | { lockedUntil: string };
+
+// Counts a PIN entry as failed before it is checked, in the same step as checking the lock, so guesses sent in
+// parallel cannot all get past the lock before any of them is counted. Once more than `maxAttempts` entries are
+// counted, PIN entry is locked until `lockoutUntil` and the entry is refused. Null if there is no such customer.
+export const reservePinAttempt = (businessId: string, mobile: string, maxAttempts: number, lockoutUntil: string): PinAttempt | null => db.transaction(() => {
+  const state = getPinState(businessId, mobile);
+  if (!state) return null;
+  if (isLocked(state.lockedUntil)) return { lockedUntil: state.lockedUntil };
+  const attempt = incrementFailedPinAttempts(businessId, mobile);
+  if (attempt > maxAttempts) {
+    lockCustomer(businessId, mobile, maxAttempts, lockoutUntil);
+    return { lockedUntil: lockoutUntil };
+  }
+  return { pinHash: state.pinHash, attempt };
+})();
+
+// After a correct PIN: clears the count, unless PIN entry was locked while the PIN was being checked. Returns that
+// lock, or null.
+export const clearPinAttempts = (businessId: string, mobile: string): string | null => db.transaction(() => {
+  const lockedUntil = getPinState(businessId, mobile)?.lockedUntil ?? null;
+  if (isLocked(lockedUntil)) return lockedUntil;
+  resetFailedPinAttempts(businessId, mobile);
+  return null;
+})();
+
+// After a wrong PIN: locks PIN entry if `attempt` was the last one allowed. Returns the lock, if PIN entry is now
+// locked, or how many entries are left.
+export const settleFailedPinAttempt = (
+  businessId: string, mobile: string, attempt: number, maxAttempts: number, lockoutUntil: string,
+): { lockedUntil: string } | { attemptsRemaining: number } => db.transaction(() => {
+  const { lockedUntil = null, failedAttempts = attempt } = getPinState(businessId, mobile) ?? {};
+  if (isLocked(lockedUntil)) return { lockedUntil };
+  if (attempt >= maxAttempts) {
+    lockCustomer(businessId, mobile, attempt, lockoutUntil);
+    return { lockedUntil: lockoutUntil };
+  }
+  return { attemptsRemaining: Math.max(0, maxAttempts - failedAttempts) };
+})();
+
+export const listPinLockouts = (businessId: string, limit = 100): PinLockout[] => {
+  const rows = db.prepare(`
+    SELECT l.mobile, COALESCE(c.name, '') AS customer_name, l.failed_attempts, l.locked_at, l.locked_until
+    FROM pin_lockouts l LEFT JOIN customers c ON c.business_id = l.business_id AND c.mobile = l.mobile
+    WHERE l.business_id = ? ORDER BY l.locked_at DESC, l.id DESC LIMIT ?
+  `).all(businessId, limit) as { mobile: string; customer_name: string; failed_attempts: number; locked_at: string; locked_until: string }[];
+  return rows.map(row => ({
+    mobile: row.mobile,
+    customerName: row.customer_name,
+    failedAttempts: row.failed_attempts,
+    lockedAt: row.locked_at,
+    lockedUntil: row.locked_until,
+  }));
+};
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { Product } from '../../types';
+import { ProductInput } from '../../src/utils/productUtils';
+
+interface ProductRow {
+  id: string;
+  name: string;
+  sku: string;
+  price: number;
+  category: string;
+  created_at: string;
+}
+
+const toProduct = (row: ProductRow): Product => ({
+  id: row.id,
+  name: row.name,
+  sku: row.sku,
+  price: row.price,
+  category: row.category,
+  createdAt: row.created_at,
+});
+
+// By category and then name, as the till lists them.
+export const listProducts = (businessId: string): Product[] => {
+  const rows = db.prepare('SELECT * FROM products WHERE business_id = ? ORDER BY category, name').all(businessId) as ProductRow[];
+  return rows.map(toProduct);
+};
+
+export const getProduct = (businessId: string, id: string): Product | null => {
+  const row = db.prepare('SELECT * FROM products WHERE business_id = ? AND id = ?').get(businessId, id) as ProductRow | undefined;
+  return row ? toProduct(row) : null;
+};
+
+// Returns false if the business already has a product with this SKU.
+export const createProduct = (businessId: string, product: ProductInput): boolean => {
+  const result = db.prepare('INSERT OR IGNORE INTO products (id, business_id, name, sku, price, category, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(crypto.randomUUID(), businessId, product.name, product.sku, product.price, product.category, new Date().toISOString());
+  return result.changes > 0;
+};
+
+// Returns false if the product does not exist or another product already has the SKU.
+export const updateProduct = (businessId: string, id: string, product: ProductInput): boolean => {
+  const result = db.prepare('UPDATE OR IGNORE products SET name = ?, sku = ?, price = ?, category = ? WHERE business_id = ? AND id = ?')
+    .run(product.name, product.sku, product.price, product.category, businessId, id);
+  return result.changes > 0;
+};
+
+export const productHasSales = (businessId: string, id: string): boolean =>
+  db.prepare('SELECT 1 FROM transaction_items WHERE business_id = ? AND product_id = ? LIMIT 1').get(businessId, id) !== undefined;
+
+// Products that were sold are kept so bills stay attributed; callers check first.
+export const deleteProduct = (businessId: string, id: string): boolean => {
+  const result = db.prepare('DELETE FROM products WHERE business_id = ? AND id = ?').run(businessId, id);
+  return result.changes > 0;
+};
@@ -0,0 +1,66 @@
+import { db } from '../db';
+
+export interface ReferralRecord {
+  mobile: string;
+  referrerMobile: string;
+  createdAt: string;
+  bonusTransactionId: string | null;
+  bonusAt: string | null;
+  refereeBonusPoints: number; // As paid; 0 until then
+  referrerBonusPoints: number;
+}
+
+export interface ReferralBonus {
+  transactionId: string;
+  paidAt: string;
+  refereePoints: number;
+  referrerPoints: number;
+}
+
+interface ReferralRow {
+  mobile: string;
+  referrer_mobile: string;
+  created_at: string;
+  bonus_transaction_id: string | null;
+  bonus_at: string | null;
+  referee_bonus_points: number;
+  referrer_bonus_points: number;
+}
+
+const toReferral = (row: ReferralRow): ReferralRecord => ({
+  mobile: row.mobile,
+  referrerMobile: row.referrer_mobile,
+  createdAt: row.created_at,
+  bonusTransactionId: row.bonus_transaction_id,
+  bonusAt: row.bonus_at,
+  refereeBonusPoints: row.referee_bonus_points,
+  referrerBonusPoints: row.referrer_bonus_points,
+});
+
+export const createReferral = (businessId: string, mobile: string, referrerMobile: string, createdAt = new Date().toISOString()) => {
+  db.prepare('INSERT INTO referrals (business_id, mobile, referrer_mobile, created_at) VALUES (?, ?, ?, ?)')
+    .run(businessId, mobile, referrerMobile, createdAt);
+};
+
+export const getReferral = (businessId: string, mobile: string): ReferralRecord | null => {
+  const row = db.prepare('SELECT * FROM referrals WHERE business_id = ? AND mobile = ?').get(businessId, mobile) as ReferralRow | undefined;
+  return row ? toReferral(row) : null;
+};
+
+// Returns false if the bonus was already paid, so it is never paid twice.
+export const markReferralBonusPaid = (businessId: string, mobile: string, bonus: ReferralBonus): boolean => {
+  const result = db.prepare(`
+    UPDATE referrals SET bonus_transaction_id = ?, bonus_at = ?, referee_bonus_points = ?, referrer_bonus_points = ?
+    WHERE business_id = ? AND mobile = ? AND bonus_at IS NULL
+  `).run(bonus.transactionId, bonus.paidAt, bonus.refereePoints, bonus.referrerPoints, businessId, mobile);
+  return result.changes > 0;
+};
+
+// Returns false unless the bonus was paid on `transactionId`, so it is never taken back twice.
+export const clearReferralBonus = (businessId: string, mobile: string, transactionId: string): boolean => {
+  const result = db.prepare(`
+    UPDATE referrals SET bonus_transaction_id = NULL, bonus_at = NULL, referee_bonus_points = 0, referrer_bonus_points = 0
+    WHERE business_id = ? AND mobile = ? AND bonus_transaction_id = ?
+  `).run(businessId, mobile, transactionId);
+  return result.changes > 0;
+};
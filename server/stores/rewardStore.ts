@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { Reward, RewardRedemption } from '../../types';
+import { RewardInput } from '../../src/utils/rewardUtils';
+
+interface RewardRow {
+  id: string;
+  name: string;
+  points_cost: number;
+  stock: number;
+  redemptions: number;
+  created_at: string;
+}
+
+export interface RewardRedemptionRow {
+  id: string;
+  mobile: string;
+  reward_id: string;
+  reward_name: string;
+  points: number;
+  branch_id: string | null;
+  actor: string;
+  created_at: string;
+}
+
+const toReward = (row: RewardRow): Reward => ({
+  id: row.id,
+  name: row.name,
+  pointsCost: row.points_cost,
+  stock: row.stock,
+  redemptions: row.redemptions,
+  createdAt: row.created_at,
+});
+
+export const toRewardRedemption = (row: RewardRedemptionRow): RewardRedemption => ({
+  id: row.id,
+  rewardId: row.reward_id,
+  rewardName: row.reward_name,
+  points: row.points,
+  branchId: row.branch_id ?? undefined,
+  actor: row.actor,
+  createdAt: row.created_at,
+});
+
+const REWARD_SELECT = `
+  SELECT r.*, (SELECT COUNT(*) FROM reward_redemptions rr WHERE rr.reward_id = r.id) AS redemptions
+  FROM rewards r
+`;
+
+// Cheapest first, as the till offers them.
+export const listRewards = (businessId: string): Reward[] => {
+  const rows = db.prepare(`${REWARD_SELECT} WHERE r.business_id = ? ORDER BY r.points_cost, r.name`).all(businessId) as RewardRow[];
+  return rows.map(toReward);
+};
+
+export const getReward = (businessId: string, id: string): Reward | null => {
+  const row = db.prepare(`${REWARD_SELECT} WHERE r.business_id = ? AND r.id = ?`).get(businessId, id) as RewardRow | undefined;
+  return row ? toReward(row) : null;
+};
+
+// Returns false if the business already has a reward with this name.
+export const createReward = (businessId: string, reward: RewardInput): boolean => {
+  const result = db.prepare('INSERT OR IGNORE INTO rewards (id, business_id, name, points_cost, stock, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(crypto.randomUUID(), businessId, reward.name, reward.pointsCost, reward.stock, new Date().toISOString());
+  return result.changes > 0;
+};
+
+// Returns false if the reward does not exist or another reward already has the name.
+export const updateReward = (businessId: string, id: string, reward: RewardInput): boolean => {
+  const result = db.prepare('UPDATE OR IGNORE rewards SET name = ?, points_cost = ?, stock = ? WHERE business_id = ? AND id = ?')
+    .run(reward.name, reward.pointsCost, reward.stock, businessId, id);
+  return result.changes > 0;
+};
+
+export const rewardHasRedemptions = (businessId: string, id: string): boolean =>
+  db.prepare('SELECT 1 FROM reward_redemptions WHERE business_id = ? AND reward_id = ? LIMIT 1').get(businessId, id) !== undefined;
+
+// Rewards that were redeemed are kept so customers' history stays attributed; callers check first.
+export const deleteReward = (businessId: string, id: string): boolean => {
+  const result = db.prepare('DELETE FROM rewards WHERE business_id = ? AND id = ?').run(businessId, id);
+  return result.changes > 0;
+};
+
+// Takes one item out of stock. Returns false if none are left.
+export const takeRewardStock = (businessId: string, id: string): boolean => {
+  const result = db.prepare('UPDATE rewards SET stock = stock - 1 WHERE business_id = ? AND id = ? AND stock > 0').run(businessId, id);
+  return result.changes > 0;
+};
+
+export const recordRewardRedemption = (
+  businessId: string, mobile: string, reward: Reward, ledgerEntryId: string, branchId: string | null, actor: string, createdAt: string,
+): RewardRedemption => {
+  const row = db.prepare(`
+    INSERT INTO reward_redemptions (id, business_id, mobile, reward_id, reward_name, points, ledger_entry_id, branch_id, actor, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(crypto.randomUUID(), businessId, mobile, reward.id, reward.name, reward.pointsCost, ledgerEntryId, branchId, actor, createdAt) as RewardRedemptionRow;
+  return toRewardRedemption(row);
+};
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import { db } from '../db';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Only a SHA-256 of the token is stored, so a leaked database cannot be replayed as cookies.
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const createSession = (username: string): string => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  db.prepare('INSERT INTO sessions (token_hash, username, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), username, new Date(now).toISOString(), new Date(now + SESSION_TTL_MS).toISOString());
+  return token;
+};
+
+// Returns the session's username, or null if the token is unknown or expired.
+export const getSessionUsername = (token: string): string | null => {
+  db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString());
+  const row = db.prepare('SELECT username FROM sessions WHERE token_hash = ?').get(hashToken(token)) as { username: string } | undefined;
+  return row ? row.username : null;
+};
+
+export const deleteSession = (token: string) => {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+};
+
+// Signs a user out everywhere, e.g. after their password or role changes.
+export const deleteSessionsFor = (username: string) => {
+  db.prepare('DELETE FROM sessions WHERE username = ?').run(username);
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+
+// Settings documents a business may store. Anything else is rejected by the routes.
+export const SETTINGS_KEYS = ['tierSettings', 'securitySettings', 'pointsExpirySettings', 'earningSettings', 'redemptionSettings', 'referralSettings', 'celebrationSettings', 'taxSettings', 'printerSettings', 'timeZoneSettings'] as const;
+export type SettingsKey = typeof SETTINGS_KEYS[number];
+
+export const isSettingsKey = (key: string): key is SettingsKey => (SETTINGS_KEYS as readonly string[]).includes(key);
+
+export const getSetting = <T>(businessId: string, key: SettingsKey): T | null => {
+  const row = db.prepare('SELECT value FROM settings WHERE business_id = ? AND key = ?').get(businessId, key) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) as T : null;
+};
+
+// Stored settings merged over the defaults, so documents saved before a field existed still work.
+export const getSettingOrDefault = <T extends object>(businessId: string, key: SettingsKey, defaults: T): T =>
+  ({ ...defaults, ...getSetting<Partial<T>>(businessId, key) });
+
+export const saveSetting = (businessId: string, key: SettingsKey, value: unknown) => {
+  db.prepare(`
+    INSERT INTO settings (business_id, key, value) VALUES (?, ?, ?)
+    ON CONFLICT (business_id, key) DO UPDATE SET value = excluded.value
+  `).run(businessId, key, JSON.stringify(value));
+};
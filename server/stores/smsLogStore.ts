@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { SmsLog } from '../../types';
+
+interface SmsLogRow {
+  timestamp: string;
+  recipient_mobile: string;
+  recipient_name: string;
+  message: string;
+}
+
+export const listSmsLogs = (businessId: string): SmsLog[] => {
+  const rows = db.prepare('SELECT * FROM sms_logs WHERE business_id = ? ORDER BY timestamp DESC, id DESC').all(businessId) as SmsLogRow[];
+  return rows.map(row => ({
+    timestamp: row.timestamp,
+    recipientMobile: row.recipient_mobile,
+    recipientName: row.recipient_name,
+    message: row.message,
+  }));
+};
+
+export const addSmsLog = (businessId: string, log: SmsLog) => {
+  db.prepare('INSERT INTO sms_logs (business_id, timestamp, recipient_mobile, recipient_name, message) VALUES (?, ?, ?, ?, ?)')
+    .run(businessId, log.timestamp, log.recipientMobile, log.recipientName, log.message);
+};
@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { CustomerTierStatus, TierChange } from '../../types';
+
+interface TierChangeRow {
+  id: number;
+  from_tier_id: string | null;
+  from_tier_name: string | null;
+  to_tier_id: string;
+  to_tier_name: string;
+  reason: string;
+  spend: number;
+  points: number;
+  created_at: string;
+}
+
+const toTierChange = (row: TierChangeRow): TierChange => ({
+  id: row.id,
+  fromTierId: row.from_tier_id,
+  fromTierName: row.from_tier_name,
+  toTierId: row.to_tier_id,
+  toTierName: row.to_tier_name,
+  reason: row.reason,
+  spend: row.spend,
+  points: row.points,
+  createdAt: row.created_at,
+});
+
+export const saveCustomerTier = (businessId: string, mobile: string, status: CustomerTierStatus) => {
+  db.prepare(`
+    INSERT INTO customer_tiers (business_id, mobile, tier_id, since, below_since) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (business_id, mobile) DO UPDATE SET
+      tier_id = excluded.tier_id, since = excluded.since, below_since = excluded.below_since
+  `).run(businessId, mobile, status.tierId, status.since, status.belowSince);
+};
+
+export const recordTierChange = (businessId: string, mobile: string, change: Omit<TierChange, 'id'>): TierChange => {
+  const row = db.prepare(`
+    INSERT INTO tier_changes (business_id, mobile, from_tier_id, from_tier_name, to_tier_id, to_tier_name, reason, spend, points, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(
+    businessId, mobile, change.fromTierId, change.fromTierName, change.toTierId, change.toTierName,
+    change.reason, change.spend, change.points, change.createdAt,
+  ) as TierChangeRow;
+  return toTierChange(row);
+};
+
+// Newest first, for the customer screen.
+export const listTierChanges = (businessId: string, mobile: string): TierChange[] => {
+  const rows = db.prepare('SELECT * FROM tier_changes WHERE business_id = ? AND mobile = ? ORDER BY created_at DESC, id DESC')
+    .all(businessId, mobile) as TierChangeRow[];
+  return rows.map(toTierChange);
+};
@@ -0,0 +1,22 @@
+import request from 'supertest';
+import app from '../api/index';
+
+// Helpers for route tests. Each test file gets its own in-memory database (see vitest.config.ts), so usernames
+// only need to be unique within a file.
+
+// Registers a business and returns an agent signed in as its owner.
+export const signUpOwner = async (username = 'owner') => {
+  const agent = request.agent(app);
+  await agent.post('/api/auth/register').send({ businessName: 'Cafe', username, password: 'password1' }).expect(201);
+  return agent;
+};
+
+// Adds a staff member to the owner's business and returns an agent signed in as them.
+export const signInStaff = async (owner: ReturnType<typeof request.agent>, username: string, role: 'manager' | 'cashier') => {
+  await owner.post('/api/staff').send({ username, password: 'password1', role }).expect(201);
+  const agent = request.agent(app);
+  await agent.post('/api/auth/login').send({ username, password: 'password1' }).expect(200);
+  return agent;
+};
+
+export { app };
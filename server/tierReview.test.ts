@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { runTierReview } from './tierReview';
+import { createCustomer, getCustomer } from './stores/customerStore';
+import { saveSetting } from './stores/settingsStore';
+import { listTierChanges } from './stores/tierStore';
+import { DEFAULT_TIER_SETTINGS } from '../defaults';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date('2026-06-30T12:00:00.000Z');
+const daysAfter = (days: number) => new Date(start.getTime() + days * DAY_MS);
+
+// A Silver customer on the strength of one bill, and a Bronze one with nothing yet.
+beforeAll(() => {
+  saveSetting('cafe', 'tierSettings', { ...DEFAULT_TIER_SETTINGS, windowMonths: 12, graceDays: 30 });
+  createCustomer('cafe', {
+    mobile: '+911', name: 'Asha', pinHash: 'hash',
+    history: [{ date: new Date('2025-09-01T12:00:00.000Z').toISOString(), bill: 2000, finalBill: 2000, points: 0 }],
+  }, 'owner');
+  createCustomer('cafe', { mobile: '+912', name: 'Ravi', history: [], pinHash: 'hash' }, 'owner');
+});
+
+describe('runTierReview', () => {
+  it('gives every customer a starting tier from the spend in the window', () => {
+    expect(runTierReview('cafe', start)).toEqual({ assigned: 2, upgraded: 0, downgraded: 0, inGrace: 0 });
+    expect(getCustomer('cafe', '+911')?.tier?.tierId).toBe('silver');
+    expect(getCustomer('cafe', '+912')?.tier?.tierId).toBe('bronze');
+    expect(runTierReview('cafe', start)).toEqual({ assigned: 0, upgraded: 0, downgraded: 0, inGrace: 0 });
+  });
+
+  it('keeps the tier through the grace period once the bill leaves the window', () => {
+    expect(runTierReview('cafe', daysAfter(70))).toEqual({ assigned: 0, upgraded: 0, downgraded: 0, inGrace: 1 });
+    expect(getCustomer('cafe', '+911')?.tier).toMatchObject({ tierId: 'silver', belowSince: daysAfter(70).toISOString() });
+    expect(runTierReview('cafe', daysAfter(99)).inGrace).toBe(1);
+  });
+
+  it('moves the customer down when the grace period runs out, and logs why', () => {
+    expect(runTierReview('cafe', daysAfter(100))).toEqual({ assigned: 0, upgraded: 0, downgraded: 1, inGrace: 0 });
+    expect(getCustomer('cafe', '+911')?.tier).toMatchObject({ tierId: 'bronze', belowSince: null });
+    expect(listTierChanges('cafe', '+911')[0]).toMatchObject({
+      fromTierId: 'silver', toTierId: 'bronze', reason: expect.stringMatching(/^No longer qualifies for Silver after a 30-day grace period: ₹0 spent/),
+    });
+  });
+
+  it('ends the grace period early when the customer qualifies again', () => {
+    saveSetting('bakery', 'tierSettings', { ...DEFAULT_TIER_SETTINGS, windowMonths: 1, graceDays: 30 });
+    createCustomer('bakery', {
+      mobile: '+921', name: 'Meera', pinHash: 'hash',
+      history: [
+        { date: daysAfter(-20).toISOString(), bill: 2000, finalBill: 2000, points: 0 },
+        { date: daysAfter(20).toISOString(), bill: 2000, finalBill: 2000, points: 0 },
+      ],
+    }, 'owner');
+    runTierReview('bakery', start);
+    expect(runTierReview('bakery', daysAfter(15)).inGrace).toBe(1);
+    expect(runTierReview('bakery', daysAfter(25))).toEqual({ assigned: 0, upgraded: 0, downgraded: 0, inGrace: 0 });
+    expect(getCustomer('bakery', '+921')?.tier).toMatchObject({ tierId: 'silver', belowSince: null });
+  });
+});
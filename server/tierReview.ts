@@ -0,0 +1,109 @@
+import { db } from './db';
+import { listCustomers, getCustomer } from './stores/customerStore';
+import { getSettingOrDefault } from './stores/settingsStore';
+import { saveCustomerTier, recordTierChange, listTierChanges } from './stores/tierStore';
+import { getQualifiedTier, getQualifyingTotals, describeTierWindow } from '../src/utils/tierUtils';
+import { DEFAULT_TIER_SETTINGS } from '../defaults';
+import { Customer, TierSettings } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the background job runs in a long-lived server. Serverless deployments call the run route instead.
+const TIER_REVIEW_INTERVAL_MINUTES = Number(process.env.TIER_REVIEW_INTERVAL_MINUTES) || 60;
+
+type TierReviewOutcome = 'assigned' | 'upgraded' | 'downgraded' | 'grace' | 'unchanged';
+
+export interface TierReviewRun {
+  assigned: number;
+  upgraded: number;
+  downgraded: number;
+  inGrace: number;
+}
+
+// Moves the customer up as soon as they qualify for a higher tier. Falling below their tier starts the grace
+// period, and they are moved down only once it has passed and they still do not qualify. Every move is logged.
+const reviewCustomer = (businessId: string, customer: Customer, settings: TierSettings, now: Date): TierReviewOutcome =>
+  db.transaction((): TierReviewOutcome => {
+    const totals = getQualifyingTotals(customer, settings, now);
+    const qualified = getQualifiedTier(customer, settings, now);
+    const current = customer.tier;
+    const heldIndex = settings.tiers.findIndex(tier => tier.id === current?.tierId);
+    const qualifiedIndex = settings.tiers.indexOf(qualified);
+    const at = now.toISOString();
+    const standing = `₹${Math.round(totals.spend).toLocaleString()} spent and ${Math.round(totals.points)} points ${describeTierWindow(settings)}`;
+
+    const move = (reason: string, outcome: TierReviewOutcome): TierReviewOutcome => {
+      const held = settings.tiers[heldIndex];
+      recordTierChange(businessId, customer.mobile, {
+        fromTierId: current?.tierId ?? null,
+        fromTierName: held?.name ?? (current ? listTierChanges(businessId, customer.mobile)[0]?.toTierName ?? null : null),
+        toTierId: qualified.id,
+        toTierName: qualified.name,
+        reason,
+        spend: totals.spend,
+        points: totals.points,
+        createdAt: at,
+      });
+      saveCustomerTier(businessId, customer.mobile, { tierId: qualified.id, since: at, belowSince: null });
+      return outcome;
+    };
+
+    if (!current) return move(`Starting tier: ${standing}`, 'assigned');
+    if (heldIndex < 0) return move(`Previous tier was removed from the programme: ${standing}`, 'assigned');
+    if (qualifiedIndex > heldIndex) return move(`Qualified for ${qualified.name}: ${standing}`, 'upgraded');
+
+    if (qualifiedIndex === heldIndex) {
+      if (current.belowSince) saveCustomerTier(businessId, customer.mobile, { ...current, belowSince: null });
+      return 'unchanged';
+    }
+
+    const held = settings.tiers[heldIndex];
+    const belowSince = current.belowSince ?? at;
+    if (now.getTime() - new Date(belowSince).getTime() >= settings.graceDays * DAY_MS) {
+      const grace = settings.graceDays ? ` after a ${settings.graceDays}-day grace period` : '';
+      return move(`No longer qualifies for ${held.name}${grace}: ${standing}`, 'downgraded');
+    }
+    if (!current.belowSince) saveCustomerTier(businessId, customer.mobile, { ...current, belowSince });
+    return 'grace';
+  })();
+
+// Brings one customer's recorded tier up to date after their spend or points change.
+export const refreshCustomerTier = (businessId: string, mobile: string, now = new Date()) => {
+  const customer = getCustomer(businessId, mobile);
+  if (!customer) return;
+  reviewCustomer(businessId, customer, getSettingOrDefault(businessId, 'tierSettings', DEFAULT_TIER_SETTINGS), now);
+};
+
+// Reviews every customer of the business. Needed on a schedule because spend ageing out of the rolling
+// window and grace periods running out both happen without any transaction.
+export const runTierReview = (businessId: string, now = new Date()): TierReviewRun => {
+  const settings = getSettingOrDefault(businessId, 'tierSettings', DEFAULT_TIER_SETTINGS);
+  const result: TierReviewRun = { assigned: 0, upgraded: 0, downgraded: 0, inGrace: 0 };
+  listCustomers(businessId).forEach(customer => {
+    switch (reviewCustomer(businessId, customer, settings, now)) {
+      case 'assigned': result.assigned++; break;
+      case 'upgraded': result.upgraded++; break;
+      case 'downgraded': result.downgraded++; break;
+      case 'grace': result.inGrace++; break;
+    }
+  });
+  return result;
+};
+
+export const runTierReviewForAllBusinesses = () => {
+  const businesses = db.prepare('SELECT DISTINCT business_id FROM customers').all() as { business_id: string }[];
+  for (const { business_id: businessId } of businesses) {
+    try {
+      const run = runTierReview(businessId);
+      if (run.assigned > 0 || run.upgraded > 0 || run.downgraded > 0) console.log(`Tier review for ${businessId}:`, run);
+    } catch (error) {
+      console.error(`Tier review failed for ${businessId}:`, error);
+    }
+  }
+};
+
+// Runs the review once at start-up and then on a fixed interval.
+export const startTierReviewJob = () => {
+  runTierReviewForAllBusinesses();
+  return setInterval(runTierReviewForAllBusinesses, TIER_REVIEW_INTERVAL_MINUTES * 60 * 1000);
+};
@@ -0,0 +1,228 @@
+import { Admin, Customer, TransactionHistory, LedgerEntry, SmsLog, PinLockout, StaffMember, StaffRole, Branch, TierChange, Campaign, Coupon, Reward, Product } from '../../types';
+import { CampaignInput } from '../utils/campaignUtils';
+import { CouponInput } from '../utils/couponUtils';
+import { RewardInput } from '../utils/rewardUtils';
+import { ProductInput } from '../utils/productUtils';
+
+// Thrown for any non-2xx response so callers can show the server's message.
+export class ApiError extends Error {
+    status: number;
+    data: Record<string, unknown>;
+
+    constructor(status: number, message: string, data: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.data = data;
+    }
+}
+
+// Requests carry the HTTP-only session cookie; the server scopes all data to that session's business.
+export const apiRequest = async <T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> => {
+    const response = await fetch(`/api${path}`, {
+        method: options.method || 'GET',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.success === false) {
+        throw new ApiError(response.status, data.message || `Request failed with status ${response.status}.`, data);
+    }
+    return data as T;
+};
+
+export const register = async (businessName: string, username: string, password: string): Promise<Admin> =>
+    (await apiRequest<{ admin: Admin }>('/auth/register', { method: 'POST', body: { businessName, username, password } })).admin;
+
+export const login = async (username: string, password: string): Promise<Admin> =>
+    (await apiRequest<{ admin: Admin }>('/auth/login', { method: 'POST', body: { username, password } })).admin;
+
+export const devLogin = async (): Promise<Admin> =>
+    (await apiRequest<{ admin: Admin }>('/auth/dev-login', { method: 'POST' })).admin;
+
+export const logout = async (): Promise<void> => {
+    await apiRequest('/auth/logout', { method: 'POST' });
+};
+
+// Resolves to null when there is no valid session cookie.
+export const fetchCurrentAdmin = async (): Promise<Admin | null> => {
+    try {
+        return (await apiRequest<{ admin: Admin }>('/auth/me')).admin;
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 401) return null;
+        throw error;
+    }
+};
+
+export const fetchStaff = async (): Promise<StaffMember[]> =>
+    (await apiRequest<{ staff: StaffMember[] }>('/staff')).staff;
+
+export const createStaff = async (username: string, password: string, role: Exclude<StaffRole, 'owner'>): Promise<StaffMember[]> =>
+    (await apiRequest<{ staff: StaffMember[] }>('/staff', { method: 'POST', body: { username, password, role } })).staff;
+
+// Signs the staff member out; they log in again with the new role or password.
+export const updateStaff = async (username: string, changes: { role?: Exclude<StaffRole, 'owner'>; password?: string }): Promise<StaffMember[]> =>
+    (await apiRequest<{ staff: StaffMember[] }>(`/staff/${encodeURIComponent(username)}`, { method: 'PUT', body: changes })).staff;
+
+export const deleteStaff = async (username: string): Promise<StaffMember[]> =>
+    (await apiRequest<{ staff: StaffMember[] }>(`/staff/${encodeURIComponent(username)}`, { method: 'DELETE' })).staff;
+
+export const fetchBranches = async (): Promise<Branch[]> =>
+    (await apiRequest<{ branches: Branch[] }>('/branches')).branches;
+
+export const createBranch = async (name: string): Promise<Branch[]> =>
+    (await apiRequest<{ branches: Branch[] }>('/branches', { method: 'POST', body: { name } })).branches;
+
+export const renameBranch = async (id: string, name: string): Promise<Branch[]> =>
+    (await apiRequest<{ branches: Branch[] }>(`/branches/${encodeURIComponent(id)}`, { method: 'PUT', body: { name } })).branches;
+
+// Throws ApiError 409 if the branch already has transactions.
+export const deleteBranch = async (id: string): Promise<Branch[]> =>
+    (await apiRequest<{ branches: Branch[] }>(`/branches/${encodeURIComponent(id)}`, { method: 'DELETE' })).branches;
+
+export const fetchCampaigns = async (): Promise<Campaign[]> =>
+    (await apiRequest<{ campaigns: Campaign[] }>('/campaigns')).campaigns;
+
+export const createCampaign = async (campaign: CampaignInput): Promise<Campaign[]> =>
+    (await apiRequest<{ campaigns: Campaign[] }>('/campaigns', { method: 'POST', body: campaign })).campaigns;
+
+export const updateCampaign = async (id: string, campaign: CampaignInput): Promise<Campaign[]> =>
+    (await apiRequest<{ campaigns: Campaign[] }>(`/campaigns/${encodeURIComponent(id)}`, { method: 'PUT', body: campaign })).campaigns;
+
+// Throws ApiError 409 if the campaign has been applied to bills; end it instead.
+export const deleteCampaign = async (id: string): Promise<Campaign[]> =>
+    (await apiRequest<{ campaigns: Campaign[] }>(`/campaigns/${encodeURIComponent(id)}`, { method: 'DELETE' })).campaigns;
+
+// Throws ApiError 404 for an unknown code, or 400 if the coupon cannot be redeemed on this bill.
+export const checkCouponCode = async (code: string, bill: number): Promise<Coupon> =>
+    (await apiRequest<{ coupon: Coupon }>('/coupons/check', { method: 'POST', body: { code, bill } })).coupon;
+
+export const fetchCoupons = async (): Promise<Coupon[]> =>
+    (await apiRequest<{ coupons: Coupon[] }>('/coupons')).coupons;
+
+export const createCoupon = async (coupon: CouponInput): Promise<Coupon[]> =>
+    (await apiRequest<{ coupons: Coupon[] }>('/coupons', { method: 'POST', body: coupon })).coupons;
+
+export const updateCoupon = async (id: string, coupon: CouponInput): Promise<Coupon[]> =>
+    (await apiRequest<{ coupons: Coupon[] }>(`/coupons/${encodeURIComponent(id)}`, { method: 'PUT', body: coupon })).coupons;
+
+// Throws ApiError 409 if the coupon has been redeemed; expire it instead.
+export const deleteCoupon = async (id: string): Promise<Coupon[]> =>
+    (await apiRequest<{ coupons: Coupon[] }>(`/coupons/${encodeURIComponent(id)}`, { method: 'DELETE' })).coupons;
+
+export const fetchRewards = async (): Promise<Reward[]> =>
+    (await apiRequest<{ rewards: Reward[] }>('/rewards')).rewards;
+
+export const createReward = async (reward: RewardInput): Promise<Reward[]> =>
+    (await apiRequest<{ rewards: Reward[] }>('/rewards', { method: 'POST', body: reward })).rewards;
+
+export const updateReward = async (id: string, reward: RewardInput): Promise<Reward[]> =>
+    (await apiRequest<{ rewards: Reward[] }>(`/rewards/${encodeURIComponent(id)}`, { method: 'PUT', body: reward })).rewards;
+
+// Throws ApiError 409 if the reward has been redeemed; set its stock to 0 instead.
+export const deleteReward = async (id: string): Promise<Reward[]> =>
+    (await apiRequest<{ rewards: Reward[] }>(`/rewards/${encodeURIComponent(id)}`, { method: 'DELETE' })).rewards;
+
+export const fetchProducts = async (): Promise<Product[]> =>
+    (await apiRequest<{ products: Product[] }>('/products')).products;
+
+export const createProduct = async (product: ProductInput): Promise<Product[]> =>
+    (await apiRequest<{ products: Product[] }>('/products', { method: 'POST', body: product })).products;
+
+export const updateProduct = async (id: string, product: ProductInput): Promise<Product[]> =>
+    (await apiRequest<{ products: Product[] }>(`/products/${encodeURIComponent(id)}`, { method: 'PUT', body: product })).products;
+
+// Throws ApiError 409 if the product is on a recorded bill.
+export const deleteProduct = async (id: string): Promise<Product[]> =>
+    (await apiRequest<{ products: Product[] }>(`/products/${encodeURIComponent(id)}`, { method: 'DELETE' })).products;
+
+// Public link to a bill's receipt page; customers open it without signing in. Add "/pdf" for the PDF.
+export const getReceiptUrl = (token: string): string => `${window.location.origin}/api/receipts/${token}`;
+
+// Sends the receipt to the business's network printer.
+export const printReceipt = async (token: string): Promise<void> => {
+    await apiRequest(`/receipts/${token}/print`, { method: 'POST' });
+};
+
+export const fetchCustomers = async (): Promise<Customer[]> =>
+    (await apiRequest<{ customers: Customer[] }>('/customers')).customers;
+
+export const createCustomer = async (customer: Customer): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>('/customers', { method: 'POST', body: customer })).customer;
+
+// `pinToken` comes from verifyPin and is needed when the bill spends points.
+export const recordTransaction = async (mobile: string, entry: TransactionHistory, pinToken?: string): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/transactions`, { method: 'POST', body: { ...entry, pinToken } })).customer;
+
+// Throws ApiError 409 when the transaction is not from today, already reversed, or its points have been spent.
+export const voidTransaction = async (mobile: string, transactionId: string, reason: string): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/transactions/${encodeURIComponent(transactionId)}/void`, { method: 'POST', body: { reason } })).customer;
+
+// Refunds `amount`, or the rest of the bill when omitted.
+export const refundTransaction = async (mobile: string, transactionId: string, reason: string, amount?: number): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/transactions/${encodeURIComponent(transactionId)}/refund`, { method: 'POST', body: { reason, amount } })).customer;
+
+export const fetchLedger = async (mobile: string): Promise<LedgerEntry[]> =>
+    (await apiRequest<{ entries: LedgerEntry[] }>(`/customers/${encodeURIComponent(mobile)}/ledger`)).entries;
+
+// Newest first.
+export const fetchTierChanges = async (mobile: string): Promise<TierChange[]> =>
+    (await apiRequest<{ changes: TierChange[] }>(`/customers/${encodeURIComponent(mobile)}/tier-changes`)).changes;
+
+// `pinToken` comes from verifyPin and is used up by the redemption.
+// Throws ApiError 403 without a valid `pinToken`, or 409 if the reward is out of stock or the customer has too few points.
+export const redeemReward = async (mobile: string, rewardId: string, pinToken: string, branchId?: string): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/rewards`, { method: 'POST', body: { rewardId, pinToken, branchId } })).customer;
+
+// Books a manual correction as a new ledger entry; `note` is required.
+export const adjustBalance = async (mobile: string, adjustment: { points?: number; amount?: number; note: string }): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/adjustments`, { method: 'POST', body: adjustment })).customer;
+
+// Returns a single-use token that lets the next bill spend the customer's points.
+// Throws ApiError 403 with `attemptsRemaining` for a wrong PIN, or 423 with `lockedUntil` once locked.
+export const verifyPin = async (mobile: string, pin: string): Promise<string> =>
+    (await apiRequest<{ pinToken: string }>(`/customers/${encodeURIComponent(mobile)}/verify-pin`, { method: 'POST', body: { pin } })).pinToken;
+
+export const unlockCustomer = async (mobile: string): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/unlock`, { method: 'POST' })).customer;
+
+// Texts the customer a one-time PIN reset code. Throws ApiError like sendSms when the message cannot be sent.
+export const requestPinReset = async (mobile: string): Promise<string> =>
+    (await apiRequest<{ expiresAt: string }>(`/customers/${encodeURIComponent(mobile)}/pin-reset`, { method: 'POST' })).expiresAt;
+
+// Throws ApiError 403 with `attemptsRemaining` for a wrong code, or 410 once the code has expired or been used up.
+export const confirmPinReset = async (mobile: string, code: string, newPin: string): Promise<Customer> =>
+    (await apiRequest<{ customer: Customer }>(`/customers/${encodeURIComponent(mobile)}/pin-reset/confirm`, { method: 'POST', body: { code, newPin } })).customer;
+
+export const fetchPinLockouts = async (): Promise<PinLockout[]> =>
+    (await apiRequest<{ pinLockouts: PinLockout[] }>('/pin-lockouts')).pinLockouts;
+
+export const fetchSetting = async <T>(key: string): Promise<T | null> =>
+    (await apiRequest<{ value: T | null }>(`/settings/${key}`)).value;
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+    await apiRequest(`/settings/${key}`, { method: 'PUT', body: { value } });
+};
+
+export const runPointsExpiry = async (): Promise<{ customersExpired: number; pointsExpired: number; remindersSent: number }> =>
+    (await apiRequest<{ run: { customersExpired: number; pointsExpired: number; remindersSent: number } }>('/points-expiry/run', { method: 'POST' })).run;
+
+export const runCelebrations = async (): Promise<{ granted: number; pointsGranted: number; smsSent: number }> =>
+    (await apiRequest<{ run: { granted: number; pointsGranted: number; smsSent: number } }>('/celebrations/run', { method: 'POST' })).run;
+
+export const fetchSmsLogs = async (): Promise<SmsLog[]> =>
+    (await apiRequest<{ smsLogs: SmsLog[] }>('/sms-logs')).smsLogs;
+
+export const createSmsLog = async (log: SmsLog): Promise<void> => {
+    await apiRequest('/sms-logs', { method: 'POST', body: log });
+};
+
+export const importLocalData = async (data: { customers: Customer[]; settings: Record<string, unknown>; smsLogs: SmsLog[] }) =>
+    (await apiRequest<{ imported: { customers: number; settings: number; smsLogs: number } }>('/import', { method: 'POST', body: data })).imported;
+
+// Throws ApiError with status 401 (not logged in), 403 (not a customer), 429 (rate limited) or 400 (too long).
+export const sendSms = async (to: string, body: string): Promise<void> => {
+    await apiRequest('/send-sms', { method: 'POST', body: { to, body } });
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyCampaigns, isCampaignActive, validateCampaign } from './campaignUtils';
+import { DEFAULT_TIER_SETTINGS } from '../../defaults';
+import { Campaign } from '../../types';
+
+const [bronze, silver] = DEFAULT_TIER_SETTINGS.tiers;
+const happyHour: Campaign = {
+    id: 'c1', name: 'Weekend happy hour', startsAt: '2026-01-01T00:00:00.000Z', endsAt: '2027-01-01T00:00:00.000Z',
+    weekdays: [0, 6], startHour: 17, endHour: 19, tierIds: ['silver'], pointsMultiplier: 1.5, extraDiscountPercentage: 5,
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+const IST = 'Asia/Kolkata';
+const saturdayAt = (hour: number) => new Date(`2026-06-06T${String(hour).padStart(2, '0')}:00:00+05:30`);
+
+describe('isCampaignActive', () => {
+    it('runs on its days and hours for its tiers', () => {
+        expect(isCampaignActive(happyHour, silver, IST, saturdayAt(17))).toBe(true);
+        expect(isCampaignActive(happyHour, silver, IST, saturdayAt(19))).toBe(false);
+        expect(isCampaignActive(happyHour, silver, IST, new Date('2026-06-08T18:00:00+05:30'))).toBe(false); // Monday
+        expect(isCampaignActive(happyHour, bronze, IST, saturdayAt(18))).toBe(false);
+    });
+
+    it('reads the days and hours on the business\'s clocks', () => {
+        // 17:00 on Saturday in India is 12:30 in London, outside the campaign's hours there.
+        expect(isCampaignActive(happyHour, silver, IST, saturdayAt(17))).toBe(true);
+        expect(isCampaignActive(happyHour, silver, 'Europe/London', saturdayAt(17))).toBe(false);
+        expect(isCampaignActive(happyHour, silver, 'America/New_York', new Date('2026-06-06T17:30:00-04:00'))).toBe(true);
+    });
+
+    it('does not run outside its dates', () => {
+        expect(isCampaignActive(happyHour, silver, IST, new Date('2027-01-02T18:00:00+05:30'))).toBe(false);
+    });
+});
+
+describe('applyCampaigns', () => {
+    it('takes each discount off the subtotal and adds bonus points on the points earned', () => {
+        expect(applyCampaigns([happyHour], 333, 25)).toEqual([
+            { campaignId: 'c1', name: 'Weekend happy hour', discountAmount: 16.65, bonusPoints: 12 },
+        ]);
+    });
+});
+
+describe('validateCampaign', () => {
+    it('accepts a complete campaign', () => {
+        expect(validateCampaign(happyHour)).toBeNull();
+    });
+
+    it('rejects campaigns that give nothing or run backwards', () => {
+        expect(validateCampaign({ ...happyHour, pointsMultiplier: 1, extraDiscountPercentage: 0 })).toBe('Give the campaign extra points or an extra discount.');
+        expect(validateCampaign({ ...happyHour, endsAt: happyHour.startsAt })).toBe('The campaign must end after it starts.');
+        expect(validateCampaign({ ...happyHour, startHour: 19, endHour: 17 })).toBe('Hours must run forwards within the day, from 0 to 24.');
+        expect(validateCampaign({ ...happyHour, weekdays: [7] })).toBe('Weekdays must be numbers from 0 (Sunday) to 6 (Saturday).');
+        expect(validateCampaign({ ...happyHour, extraDiscountPercentage: 120 })).toBe('The extra discount must be between 0 and 100%.');
+    });
+});
@@ -0,0 +1,71 @@
+import { AppliedCampaign, Campaign, TierDefinition } from '../../types';
+import { getZonedTime } from './timeZoneUtils';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A campaign as created or edited; the server assigns the id and creation time.
+export type CampaignInput = Omit<Campaign, 'id' | 'createdAt'>;
+
+// Whether the campaign applies to a bill rung up at `at` for a customer in `tier`. Weekdays and hours are read on
+// the business's clocks, so the till and the server agree wherever each runs.
+export const isCampaignActive = (campaign: Campaign, tier: TierDefinition, timeZone: string, at = new Date()): boolean => {
+    if (at.getTime() < Date.parse(campaign.startsAt) || at.getTime() >= Date.parse(campaign.endsAt)) return false;
+    const { weekday, hour } = getZonedTime(at, timeZone);
+    if (campaign.weekdays.length > 0 && !campaign.weekdays.includes(weekday)) return false;
+    if (hour < campaign.startHour || hour >= campaign.endHour) return false;
+    return campaign.tierIds.length === 0 || campaign.tierIds.includes(tier.id);
+};
+
+export const getActiveCampaigns = (campaigns: Campaign[], tier: TierDefinition, timeZone: string, at = new Date()): Campaign[] =>
+    campaigns.filter(campaign => isCampaignActive(campaign, tier, timeZone, at));
+
+// Each campaign's discount is its share of the subtotal, on top of the tier discount, rounded to the paisa.
+export const getCampaignDiscount = (campaign: Campaign, subtotal: number): number =>
+    Math.round(subtotal * campaign.extraDiscountPercentage) / 100;
+
+// What the campaigns gave a bill. A multiplier campaign adds its bonus on the points the bill earns by the normal rules.
+export const applyCampaigns = (campaigns: Campaign[], subtotal: number, pointsEarned: number): AppliedCampaign[] =>
+    campaigns.map(campaign => ({
+        campaignId: campaign.id,
+        name: campaign.name,
+        discountAmount: getCampaignDiscount(campaign, subtotal),
+        bonusPoints: Math.floor(pointsEarned * (campaign.pointsMultiplier - 1)),
+    }));
+
+// The offer and when it runs, e.g. "2x points · 5% off · Sat, Sun · 17:00–19:00 · Gold".
+export const describeCampaign = (campaign: Campaign, tiers: TierDefinition[]): string => {
+    const hour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+    return [
+        campaign.pointsMultiplier !== 1 && `${campaign.pointsMultiplier}x points`,
+        campaign.extraDiscountPercentage > 0 && `${campaign.extraDiscountPercentage}% off`,
+        campaign.weekdays.length > 0 && campaign.weekdays.map(day => WEEKDAY_LABELS[day]).join(', '),
+        (campaign.startHour > 0 || campaign.endHour < 24) && `${hour(campaign.startHour)}–${hour(campaign.endHour)}`,
+        campaign.tierIds.length > 0 && tiers.filter(tier => campaign.tierIds.includes(tier.id)).map(tier => tier.name).join(', '),
+    ].filter(Boolean).join(' · ');
+};
+
+// Checks a campaign before it is saved; used by the campaign form and the server. Returns the first problem, or null.
+export const validateCampaign = (value: unknown): string | null => {
+    const campaign = (value ?? {}) as Partial<CampaignInput>;
+    if (typeof campaign.name !== 'string' || !campaign.name.trim()) return 'Campaign name is required.';
+    if (typeof campaign.startsAt !== 'string' || Number.isNaN(Date.parse(campaign.startsAt))
+        || typeof campaign.endsAt !== 'string' || Number.isNaN(Date.parse(campaign.endsAt))) {
+        return 'Give the campaign a start and an end.';
+    }
+    if (Date.parse(campaign.endsAt) <= Date.parse(campaign.startsAt)) return 'The campaign must end after it starts.';
+    if (!Array.isArray(campaign.weekdays) || campaign.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return 'Weekdays must be numbers from 0 (Sunday) to 6 (Saturday).';
+    }
+    const { startHour, endHour } = campaign;
+    if (typeof startHour !== 'number' || typeof endHour !== 'number' || !Number.isInteger(startHour) || !Number.isInteger(endHour)
+        || startHour < 0 || endHour > 24 || startHour >= endHour) {
+        return 'Hours must run forwards within the day, from 0 to 24.';
+    }
+    if (!Array.isArray(campaign.tierIds) || campaign.tierIds.some(id => typeof id !== 'string')) return 'Tiers must be a list of tier ids.';
+    if (typeof campaign.pointsMultiplier !== 'number' || !(campaign.pointsMultiplier >= 1)) return 'The points multiplier must be 1 or more.';
+    if (typeof campaign.extraDiscountPercentage !== 'number' || !(campaign.extraDiscountPercentage >= 0 && campaign.extraDiscountPercentage <= 100)) {
+        return 'The extra discount must be between 0 and 100%.';
+    }
+    if (campaign.pointsMultiplier === 1 && campaign.extraDiscountPercentage === 0) return 'Give the campaign extra points or an extra discount.';
+    return null;
+};
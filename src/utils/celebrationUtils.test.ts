@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getCelebrationDiscount, getOccasionWeek, validateCelebrationSettings } from './celebrationUtils';
+import { DEFAULT_CELEBRATION_SETTINGS } from '../../defaults';
+import { CelebrationGrant, Customer } from '../../types';
+
+const customer: Customer = { mobile: '9876543210', name: 'Asha', points: 0, totalSpent: 0, history: [], dateOfBirth: '1992-02-29', memberSince: '2024-06-10' };
+
+describe('getOccasionWeek', () => {
+    it('runs for a week from the day', () => {
+        expect(getOccasionWeek(customer, 'anniversary', new Date('2026-06-16T23:59:00Z'))?.year).toBe(2026);
+        expect(getOccasionWeek(customer, 'anniversary', new Date('2026-06-17T00:00:00Z'))).toBeNull();
+        expect(getOccasionWeek(customer, 'anniversary', new Date('2026-06-09T23:59:00Z'))).toBeNull();
+    });
+
+    it('keeps a 29 February birthday on 28 February in other years', () => {
+        expect(getOccasionWeek(customer, 'birthday', new Date('2026-02-28T00:00:00Z'))?.startsAt.toISOString()).toBe('2026-02-28T00:00:00.000Z');
+    });
+
+    it('has no anniversary in the year the customer joined', () => {
+        expect(getOccasionWeek(customer, 'anniversary', new Date('2024-06-12T00:00:00Z'))).toBeNull();
+    });
+});
+
+describe('getCelebrationDiscount', () => {
+    const grant: CelebrationGrant = {
+        id: 'g1', occasion: 'birthday', year: 2026, rewardType: 'discount', points: 0, discountPercentage: 10,
+        validUntil: '2026-03-07T00:00:00.000Z', grantedAt: '2026-02-28T00:00:00.000Z', smsSentAt: null, redeemedTransactionId: null,
+    };
+
+    it('takes its share of the subtotal, but no more than is left', () => {
+        expect(getCelebrationDiscount(grant, 1000, 900)).toBe(100);
+        expect(getCelebrationDiscount(grant, 1000, 60)).toBe(60);
+        expect(getCelebrationDiscount(grant, 1000, -5)).toBe(0);
+    });
+});
+
+describe('validateCelebrationSettings', () => {
+    const birthday = DEFAULT_CELEBRATION_SETTINGS.birthday;
+
+    it('accepts the defaults', () => {
+        expect(validateCelebrationSettings(DEFAULT_CELEBRATION_SETTINGS)).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        const withBirthday = (changes: object) => validateCelebrationSettings({ ...DEFAULT_CELEBRATION_SETTINGS, birthday: { ...birthday, ...changes } });
+        expect(validateCelebrationSettings({ birthday })).toBe('Anniversary settings are incomplete.');
+        expect(withBirthday({ rewardType: 'cake' })).toBe('Choose bonus points or a discount for the birthday.');
+        expect(withBirthday({ points: 2.5 })).toBe('Birthday points must be a whole number, zero or more.');
+        expect(withBirthday({ discountPercentage: 120 })).toBe('The birthday discount must be between 0 and 100%.');
+        expect(withBirthday({ enabled: true, points: 0 })).toBe('Give the birthday reward a value, or switch it off.');
+        expect(withBirthday({ sendSms: true, smsTemplate: ' ' })).toBe('Write the birthday SMS, or switch it off.');
+    });
+});
@@ -0,0 +1,87 @@
+import { CelebrationGrant, CelebrationReward, CelebrationSettings, Customer, Occasion } from '../../types';
+
+export const OCCASIONS: Occasion[] = ['birthday', 'anniversary'];
+
+export const CELEBRATION_WEEK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates of birth and membership are calendar dates, YYYY-MM-DD, with no time zone.
+export const isValidDateOnly = (value: unknown): value is string => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+export const todayDateOnly = (now = new Date()) => now.toISOString().slice(0, 10);
+
+export interface OccasionWeek {
+    occasion: Occasion;
+    year: number;
+    startsAt: Date;
+    endsAt: Date; // Exclusive
+}
+
+// The day the occasion falls on in `year`, in UTC. A 29 February falls on 28 February in other years. Anniversaries
+// start the year after the customer joined.
+const getOccasionDay = (customer: Customer, occasion: Occasion, year: number): Date | null => {
+    const date = occasion === 'birthday' ? customer.dateOfBirth : customer.memberSince;
+    if (!date || !isValidDateOnly(date)) return null;
+    const [from, month, day] = date.split('-').map(Number);
+    if (occasion === 'anniversary' && year <= from) return null;
+    const isLeap = (y: number) => new Date(Date.UTC(y, 1, 29)).getUTCMonth() === 1;
+    return new Date(Date.UTC(year, month - 1, month === 2 && day === 29 && !isLeap(year) ? 28 : day));
+};
+
+// The occasion week `now` falls in, if any. Weeks starting late in December run into January.
+export const getOccasionWeek = (customer: Customer, occasion: Occasion, now = new Date()): OccasionWeek | null => {
+    for (const year of [now.getUTCFullYear(), now.getUTCFullYear() - 1]) {
+        const startsAt = getOccasionDay(customer, occasion, year);
+        if (!startsAt) continue;
+        const endsAt = new Date(startsAt.getTime() + CELEBRATION_WEEK_DAYS * DAY_MS);
+        if (now >= startsAt && now < endsAt) return { occasion, year, startsAt, endsAt };
+    }
+    return null;
+};
+
+// The unused celebration discount the customer can have on a bill now, if any.
+export const getAvailableCelebrationDiscount = (customer: Customer, now = new Date()): CelebrationGrant | null =>
+    (customer.celebrations || []).find(grant => grant.rewardType === 'discount' && !grant.redeemedTransactionId
+        && now.getTime() < Date.parse(grant.validUntil)) ?? null;
+
+// Rupees a celebration discount takes off: its share of the bill before discounts, but no more than is left after
+// the tier and campaign discounts. It comes off before any coupon.
+export const getCelebrationDiscount = (grant: CelebrationGrant, subtotal: number, remaining: number): number =>
+    Math.max(0, Math.min(Math.round(subtotal * grant.discountPercentage) / 100, remaining));
+
+export const OCCASION_LABELS: Record<Occasion, string> = {
+    birthday: 'Birthday',
+    anniversary: 'Anniversary',
+};
+
+// The reward in words, e.g. "100 bonus points" or "10% off one bill".
+export const describeCelebrationReward = (reward: Pick<CelebrationReward, 'rewardType' | 'points' | 'discountPercentage'>): string =>
+    reward.rewardType === 'points' ? `${reward.points} bonus points` : `${reward.discountPercentage}% off one bill`;
+
+export const fillCelebrationTemplate = (template: string, values: { name: string; business: string; reward: string }): string =>
+    template.replace(/\{(name|business|reward)\}/g, (_, key: keyof typeof values) => values[key]);
+
+// Checks celebration rewards before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateCelebrationSettings = (value: unknown): string | null => {
+    const settings = (value ?? {}) as Partial<CelebrationSettings>;
+    for (const occasion of OCCASIONS) {
+        const reward = settings[occasion] as Partial<CelebrationReward> | undefined;
+        const label = OCCASION_LABELS[occasion];
+        if (!reward || typeof reward.enabled !== 'boolean' || typeof reward.sendSms !== 'boolean') return `${label} settings are incomplete.`;
+        if (reward.rewardType !== 'points' && reward.rewardType !== 'discount') return `Choose bonus points or a discount for the ${label.toLowerCase()}.`;
+        if (typeof reward.points !== 'number' || !Number.isInteger(reward.points) || reward.points < 0) return `${label} points must be a whole number, zero or more.`;
+        if (typeof reward.discountPercentage !== 'number' || !(reward.discountPercentage >= 0 && reward.discountPercentage <= 100)) {
+            return `The ${label.toLowerCase()} discount must be between 0 and 100%.`;
+        }
+        if (reward.enabled && (reward.rewardType === 'points' ? reward.points : reward.discountPercentage) === 0) {
+            return `Give the ${label.toLowerCase()} reward a value, or switch it off.`;
+        }
+        if (typeof reward.smsTemplate !== 'string' || (reward.sendSms && !reward.smsTemplate.trim())) return `Write the ${label.toLowerCase()} SMS, or switch it off.`;
+    }
+    return null;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { checkCoupon, getCouponDiscount, validateCoupon } from './couponUtils';
+import { Coupon } from '../../types';
+
+const coupon: Coupon = {
+    id: 'k1', code: 'WELCOME10', discountType: 'percentage', discountValue: 10, singleUse: true, expiresAt: '2026-12-31T18:30:00.000Z',
+    minimumBill: 500, redemptions: 0, createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('getCouponDiscount', () => {
+    it('takes a percentage of the subtotal, but never more than is left', () => {
+        expect(getCouponDiscount(coupon, 1000, 900)).toBe(100);
+        expect(getCouponDiscount(coupon, 1000, 40)).toBe(40);
+    });
+
+    it('takes a flat amount', () => {
+        expect(getCouponDiscount({ ...coupon, discountType: 'flat', discountValue: 150 }, 1000, 900)).toBe(150);
+    });
+});
+
+describe('checkCoupon', () => {
+    const at = new Date('2026-06-01T00:00:00.000Z');
+
+    it('allows a coupon that is in date, unused and on a large enough bill', () => {
+        expect(checkCoupon(coupon, 500, at)).toBeNull();
+    });
+
+    it('explains why a coupon cannot be used', () => {
+        expect(checkCoupon(coupon, 500, new Date('2027-01-01T00:00:00.000Z'))).toBe('Coupon WELCOME10 has expired.');
+        expect(checkCoupon({ ...coupon, redemptions: 1 }, 500, at)).toBe('Coupon WELCOME10 has already been used.');
+        expect(checkCoupon(coupon, 499, at)).toBe('Coupon WELCOME10 needs a bill of at least ₹500.');
+    });
+});
+
+describe('validateCoupon', () => {
+    it('accepts a complete coupon, in any case', () => {
+        expect(validateCoupon({ ...coupon, code: ' welcome10 ' })).toBeNull();
+        expect(validateCoupon({ ...coupon, expiresAt: null })).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        expect(validateCoupon({ ...coupon, code: 'A!' })).toBe('Codes are 3 to 20 letters, digits or dashes.');
+        expect(validateCoupon({ ...coupon, discountValue: 0 })).toBe('The discount must be more than zero.');
+        expect(validateCoupon({ ...coupon, discountValue: 101 })).toBe('A percentage discount cannot be more than 100%.');
+        expect(validateCoupon({ ...coupon, expiresAt: 'soon' })).toBe('The expiry must be a date, or empty for none.');
+        expect(validateCoupon({ ...coupon, minimumBill: -1 })).toBe('The minimum bill must be zero or more.');
+    });
+});
@@ -0,0 +1,48 @@
+import { Coupon, CouponDiscountType } from '../../types';
+
+export const COUPON_DISCOUNT_TYPES: CouponDiscountType[] = ['percentage', 'flat'];
+
+// A coupon as created or edited; the server assigns the id, creation time and redemption count.
+export type CouponInput = Omit<Coupon, 'id' | 'redemptions' | 'createdAt'>;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// Rupees the coupon takes off a bill. A percentage is a share of the bill before discounts, like a campaign discount.
+// Coupons come off last, so neither kind can take off more than is left after the tier and campaign discounts.
+export const getCouponDiscount = (coupon: Coupon, subtotal: number, remaining: number): number => {
+    const amount = coupon.discountType === 'percentage' ? Math.round(subtotal * coupon.discountValue) / 100 : coupon.discountValue;
+    return Math.max(0, Math.min(amount, remaining));
+};
+
+// Whether the coupon can be redeemed on a bill of `subtotal` at `at`. Returns the reason it cannot, or null.
+export const checkCoupon = (coupon: Coupon, subtotal: number, at = new Date()): string | null => {
+    if (coupon.expiresAt && at.getTime() >= Date.parse(coupon.expiresAt)) return `Coupon ${coupon.code} has expired.`;
+    if (coupon.singleUse && coupon.redemptions > 0) return `Coupon ${coupon.code} has already been used.`;
+    if (subtotal < coupon.minimumBill) return `Coupon ${coupon.code} needs a bill of at least ₹${coupon.minimumBill.toLocaleString()}.`;
+    return null;
+};
+
+// The offer and its conditions, e.g. "10% off · bills of ₹500 or more · single use · until 31/12/2026".
+export const describeCoupon = (coupon: CouponInput): string => [
+    coupon.discountType === 'percentage' ? `${coupon.discountValue}% off` : `₹${coupon.discountValue.toLocaleString()} off`,
+    coupon.minimumBill > 0 && `bills of ₹${coupon.minimumBill.toLocaleString()} or more`,
+    coupon.singleUse ? 'single use' : 'multi-use',
+    coupon.expiresAt && `until ${new Date(coupon.expiresAt).toLocaleDateString()}`,
+].filter(Boolean).join(' · ');
+
+// Checks a coupon before it is saved; used by the coupon form and the server. Returns the first problem, or null.
+export const validateCoupon = (value: unknown): string | null => {
+    const coupon = (value ?? {}) as Partial<CouponInput>;
+    if (typeof coupon.code !== 'string' || !/^[A-Z0-9-]{3,20}$/.test(normalizeCouponCode(coupon.code))) {
+        return 'Codes are 3 to 20 letters, digits or dashes.';
+    }
+    if (!COUPON_DISCOUNT_TYPES.includes(coupon.discountType as CouponDiscountType)) return 'Choose a percentage or a flat discount.';
+    if (typeof coupon.discountValue !== 'number' || !(coupon.discountValue > 0)) return 'The discount must be more than zero.';
+    if (coupon.discountType === 'percentage' && coupon.discountValue > 100) return 'A percentage discount cannot be more than 100%.';
+    if (typeof coupon.singleUse !== 'boolean') return 'Say whether the coupon is single use.';
+    if (coupon.expiresAt !== null && (typeof coupon.expiresAt !== 'string' || Number.isNaN(Date.parse(coupon.expiresAt)))) {
+        return 'The expiry must be a date, or empty for none.';
+    }
+    if (typeof coupon.minimumBill !== 'number' || !(coupon.minimumBill >= 0)) return 'The minimum bill must be zero or more.';
+    return null;
+};
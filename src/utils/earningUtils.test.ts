@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePointsEarned, validateEarningSettings } from './earningUtils';
+import { DEFAULT_EARNING_SETTINGS, DEFAULT_TIER_SETTINGS } from '../../defaults';
+import { EarningSettings } from '../../types';
+
+const [bronze, silver] = DEFAULT_TIER_SETTINGS.tiers;
+const spend: EarningSettings = { ...DEFAULT_EARNING_SETTINGS, mode: 'spend', pointsPerUnit: 2, spendUnit: 100 };
+
+describe('calculatePointsEarned', () => {
+    it('turns change left with the store into points', () => {
+        expect(calculatePointsEarned({ finalBill: 90, amountPaid: 90, cashGiven: 100.5 }, bronze, DEFAULT_EARNING_SETTINGS).points).toBe(10);
+    });
+
+    it('awards points per full spend unit paid, after points redeemed', () => {
+        expect(calculatePointsEarned({ finalBill: 450, amountPaid: 350, cashGiven: 350 }, bronze, spend).points).toBe(6);
+    });
+
+    it('applies the tier multiplier, then the cap', () => {
+        const settings = { ...spend, tierMultipliers: { silver: 1.5 }, maxPointsPerTransaction: 10 };
+        expect(calculatePointsEarned({ finalBill: 500, amountPaid: 500, cashGiven: 500 }, silver, { ...settings, maxPointsPerTransaction: 0 }).points).toBe(15);
+        expect(calculatePointsEarned({ finalBill: 500, amountPaid: 500, cashGiven: 500 }, silver, settings)).toEqual({ points: 10, base: 10, multiplier: 1.5, capped: true, belowMinimum: false });
+    });
+
+    it('earns nothing below the minimum bill', () => {
+        expect(calculatePointsEarned({ finalBill: 99, amountPaid: 99, cashGiven: 99 }, bronze, { ...spend, minimumBill: 100 }))
+            .toEqual({ points: 0, base: 0, multiplier: 1, capped: false, belowMinimum: true });
+    });
+});
+
+describe('validateEarningSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateEarningSettings(DEFAULT_EARNING_SETTINGS)).toBeNull();
+    });
+
+    it('rejects each bad setting', () => {
+        expect(validateEarningSettings({ ...spend, mode: 'visits' })).toBe('Earning mode must be one of change, spend.');
+        expect(validateEarningSettings({ ...spend, spendUnit: 0 })).toBe('The amount that earns points must be more than zero.');
+        expect(validateEarningSettings({ ...spend, maxPointsPerTransaction: 2.5 })).toBe('The per-bill cap must be a whole number of points, or 0 for no cap.');
+        expect(validateEarningSettings({ ...spend, tierMultipliers: { gold: -1 } })).toBe('Tier multipliers must be zero or more.');
+    });
+});
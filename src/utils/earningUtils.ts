@@ -0,0 +1,58 @@
+import { EarningSettings, EarningMode, TierDefinition } from '../../types';
+
+export const EARNING_MODES: EarningMode[] = ['change', 'spend'];
+
+export interface EarningInput {
+    finalBill: number; // After the tier discount
+    amountPaid: number; // The final bill less any points redeemed
+    cashGiven: number;
+}
+
+export interface PointsEarned {
+    points: number;
+    base: number; // Before the tier multiplier and the cap
+    multiplier: number;
+    capped: boolean;
+    belowMinimum: boolean;
+}
+
+// Points one bill earns under the business's earning rules. `tier` is the customer's tier before this bill.
+export const calculatePointsEarned = (input: EarningInput, tier: TierDefinition | null, settings: EarningSettings): PointsEarned => {
+    const multiplier = tier ? settings.tierMultipliers[tier.id] ?? 1 : 1;
+    if (input.finalBill <= 0 || input.finalBill < settings.minimumBill) {
+        return { points: 0, base: 0, multiplier, capped: false, belowMinimum: input.finalBill > 0 };
+    }
+
+    const base = settings.mode === 'spend'
+        ? Math.floor(input.amountPaid / settings.spendUnit) * settings.pointsPerUnit
+        : Math.max(0, Math.floor(input.cashGiven - input.amountPaid));
+    const points = Math.floor(base * multiplier);
+    const capped = settings.maxPointsPerTransaction > 0 && points > settings.maxPointsPerTransaction;
+    return { points: capped ? settings.maxPointsPerTransaction : points, base, multiplier, capped, belowMinimum: false };
+};
+
+// The earning rules in words, for the settings screen and the till.
+export const describeEarningRules = (settings: EarningSettings): string => {
+    const rule = settings.mode === 'spend'
+        ? `${settings.pointsPerUnit} point${settings.pointsPerUnit === 1 ? '' : 's'} for every ₹${settings.spendUnit} paid.`
+        : 'Change the customer leaves with the store becomes points.';
+    const minimum = settings.minimumBill > 0 ? ` Bills under ₹${settings.minimumBill} earn nothing.` : '';
+    const cap = settings.maxPointsPerTransaction > 0 ? ` At most ${settings.maxPointsPerTransaction} points per bill.` : '';
+    return rule + minimum + cap;
+};
+
+// Checks earning rules before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateEarningSettings = (value: unknown): string | null => {
+    const { mode, pointsPerUnit, spendUnit, tierMultipliers, minimumBill, maxPointsPerTransaction } = (value ?? {}) as Partial<EarningSettings>;
+    if (!EARNING_MODES.includes(mode as EarningMode)) return `Earning mode must be one of ${EARNING_MODES.join(', ')}.`;
+    if (typeof pointsPerUnit !== 'number' || !(pointsPerUnit >= 0)) return 'Points per amount must be zero or more.';
+    if (typeof spendUnit !== 'number' || !(spendUnit > 0)) return 'The amount that earns points must be more than zero.';
+    if (typeof minimumBill !== 'number' || !(minimumBill >= 0)) return 'The minimum bill must be zero or more.';
+    if (typeof maxPointsPerTransaction !== 'number' || !Number.isInteger(maxPointsPerTransaction) || maxPointsPerTransaction < 0) {
+        return 'The per-bill cap must be a whole number of points, or 0 for no cap.';
+    }
+    if (!tierMultipliers || typeof tierMultipliers !== 'object' || Object.values(tierMultipliers).some(m => typeof m !== 'number' || !(m >= 0))) {
+        return 'Tier multipliers must be zero or more.';
+    }
+    return null;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { checkPayments, getChange, getPaymentBreakdown } from './paymentUtils';
+
+describe('getChange', () => {
+    it('gives back what was paid over the amount, never less than zero', () => {
+        expect(getChange([{ method: 'cash', amount: 500 }], 420.5)).toBe(79.5);
+        expect(getChange([{ method: 'cash', amount: 400 }], 420.5)).toBe(0);
+    });
+});
+
+describe('checkPayments', () => {
+    it('accepts payments that settle the bill', () => {
+        expect(checkPayments([{ method: 'card', amount: 300, reference: '1234' }, { method: 'cash', amount: 200 }], 420)).toBeNull();
+        expect(checkPayments([], 0)).toBeNull();
+    });
+
+    it('rejects malformed payments', () => {
+        expect(checkPayments('cash', 100)).toBe('Payments must be a list.');
+        expect(checkPayments([{ method: 'cheque', amount: 100 }], 100)).toBe('Each payment must be cash, card or UPI.');
+        expect(checkPayments([{ method: 'cash', amount: 0 }], 0)).toBe('Each payment must be more than zero.');
+        expect(checkPayments([{ method: 'upi', amount: 100, reference: 'x'.repeat(65) }], 100)).toBe('Payment references are at most 64 characters.');
+    });
+
+    it('needs the whole bill paid, with change only from cash', () => {
+        expect(checkPayments([{ method: 'cash', amount: 400 }], 420)).toBe('₹20 is still to be paid.');
+        expect(checkPayments([{ method: 'card', amount: 500 }], 420)).toBe('Card and UPI payments cannot be more than is left to pay; only cash gives change.');
+    });
+});
+
+describe('getPaymentBreakdown', () => {
+    it('takes the change out of cash', () => {
+        const bill = { date: '2026-06-01T10:00:00.000Z', bill: 500, finalBill: 500, points: 5, pointsUsed: 100, pointsValue: 100,
+            payments: [{ method: 'upi' as const, amount: 300 }, { method: 'cash' as const, amount: 200 }] };
+        expect(getPaymentBreakdown(bill)).toEqual({ cash: 100, card: 0, upi: 300, points: 100 });
+    });
+
+    it('counts older bills as cash', () => {
+        expect(getPaymentBreakdown({ date: '2025-01-01T10:00:00.000Z', bill: 250, finalBill: 250, points: 2 })).toEqual({ cash: 250, card: 0, upi: 0, points: 0 });
+    });
+});
@@ -0,0 +1,52 @@
+import { PaymentMethod, Tender, TransactionHistory } from '../../types';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'upi'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod | 'points', string> = {
+    cash: 'Cash',
+    card: 'Card',
+    upi: 'UPI',
+    points: 'Points',
+};
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+const sumTenders = (payments: Tender[], method?: PaymentMethod) =>
+    payments.filter(p => !method || p.method === method).reduce((sum, p) => sum + p.amount, 0);
+
+// Change due back on `amountPayable` (the bill after discounts and points). Only cash gives change.
+export const getChange = (payments: Tender[], amountPayable: number): number =>
+    Math.max(0, roundRupees(sumTenders(payments) - amountPayable));
+
+// Whether the payments settle `amountPayable`. Returns the first problem, or null. Used by the till and the server.
+export const checkPayments = (value: unknown, amountPayable: number): string | null => {
+    if (!Array.isArray(value)) return 'Payments must be a list.';
+    const payments = value as Partial<Tender>[];
+    for (const payment of payments) {
+        if (!PAYMENT_METHODS.includes(payment.method as PaymentMethod)) return 'Each payment must be cash, card or UPI.';
+        if (typeof payment.amount !== 'number' || !(payment.amount > 0) || !Number.isFinite(payment.amount)) return 'Each payment must be more than zero.';
+        if (payment.reference !== undefined && (typeof payment.reference !== 'string' || payment.reference.length > 64)) {
+            return 'Payment references are at most 64 characters.';
+        }
+    }
+    const tenders = payments as Tender[];
+    const paid = sumTenders(tenders);
+    if (paid < amountPayable - 0.01) return `₹${roundRupees(amountPayable - paid).toLocaleString()} is still to be paid.`;
+    if (getChange(tenders, amountPayable) > sumTenders(tenders, 'cash') + 0.01) return 'Card and UPI payments cannot be more than is left to pay; only cash gives change.';
+    return null;
+};
+
+// What each method took on one bill, after change. Points count at the rupee value they paid. Bills from before
+// split payments were paid in cash.
+export const getPaymentBreakdown = (transaction: TransactionHistory): Record<PaymentMethod | 'points', number> => {
+    const points = transaction.pointsValue ?? transaction.pointsUsed ?? 0;
+    const amountPayable = transaction.finalBill - points;
+    const payments = transaction.payments ?? (amountPayable > 0 ? [{ method: 'cash' as const, amount: amountPayable }] : []);
+    const change = getChange(payments, amountPayable);
+    return {
+        cash: roundRupees(sumTenders(payments, 'cash') - change),
+        card: roundRupees(sumTenders(payments, 'card')),
+        upi: roundRupees(sumTenders(payments, 'upi')),
+        points: roundRupees(points),
+    };
+};
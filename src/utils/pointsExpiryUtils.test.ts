@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { validatePointsExpirySettings } from './pointsExpiryUtils';
+import { DEFAULT_POINTS_EXPIRY_SETTINGS } from '../../defaults';
+
+describe('validatePointsExpirySettings', () => {
+    it('accepts the defaults and per-tier periods', () => {
+        expect(validatePointsExpirySettings(DEFAULT_POINTS_EXPIRY_SETTINGS)).toBeNull();
+        expect(validatePointsExpirySettings({ validityDays: { bronze: 365, gold: 0 }, reminderDays: 7 })).toBeNull();
+    });
+
+    it.each([-1, 1.5, '30', null])('rejects a validity of %s days', days => {
+        expect(validatePointsExpirySettings({ validityDays: { bronze: days }, reminderDays: 0 })).toMatch(/^Points must stay valid/);
+    });
+
+    it('rejects a missing validity object or a bad reminder', () => {
+        expect(validatePointsExpirySettings({ validityDays: [], reminderDays: 0 })).toBe('Validity periods must be an object.');
+        expect(validatePointsExpirySettings({ reminderDays: 0 })).toBe('Validity periods must be an object.');
+        expect(validatePointsExpirySettings({ validityDays: {}, reminderDays: -3 })).toMatch(/^The reminder/);
+        expect(validatePointsExpirySettings({ validityDays: {} })).toMatch(/^The reminder/);
+    });
+});
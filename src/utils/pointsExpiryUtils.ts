@@ -0,0 +1,12 @@
+import { PointsExpirySettings } from '../../types';
+
+const isWholeDays = (days: unknown) => typeof days === 'number' && Number.isInteger(days) && days >= 0;
+
+// Checks points expiry settings before they are saved; used by the server. Returns the first problem, or null.
+export const validatePointsExpirySettings = (value: unknown): string | null => {
+    const { validityDays, reminderDays } = (value ?? {}) as Partial<PointsExpirySettings>;
+    if (typeof validityDays !== 'object' || validityDays === null || Array.isArray(validityDays)) return 'Validity periods must be an object.';
+    if (!Object.values(validityDays).every(isWholeDays)) return 'Points must stay valid for a whole number of days, or 0 to keep them forever.';
+    if (!isWholeDays(reminderDays)) return 'The reminder must be a whole number of days, or 0 to send none.';
+    return null;
+};
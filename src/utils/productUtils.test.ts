@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { checkBillItems, toBillItem, validateProduct } from './productUtils';
+
+const product = { name: 'Masala chai', sku: 'CHAI-01', price: 35, category: 'Drinks' };
+
+describe('toBillItem', () => {
+    it('copies the product and prices the quantity', () => {
+        expect(toBillItem({ ...product, id: 'p1', createdAt: '2026-01-01T00:00:00.000Z' }, 3)).toEqual({
+            productId: 'p1', name: 'Masala chai', sku: 'CHAI-01', category: 'Drinks', quantity: 3, unitPrice: 35, amount: 105,
+        });
+    });
+});
+
+describe('validateProduct', () => {
+    it('accepts a complete product', () => {
+        expect(validateProduct(product)).toBeNull();
+        expect(validateProduct({ ...product, price: 0 })).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        expect(validateProduct({ ...product, name: '' })).toBe('Product name is required.');
+        expect(validateProduct({ ...product, sku: ' ' })).toBe('SKU is required.');
+        expect(validateProduct({ ...product, sku: 'X'.repeat(33) })).toBe('SKUs are at most 32 characters.');
+        expect(validateProduct({ ...product, price: -1 })).toBe('The price must be zero or more.');
+        expect(validateProduct({ ...product, price: Infinity })).toBe('The price must be zero or more.');
+        expect(validateProduct({ ...product, category: '' })).toBe('Category is required.');
+    });
+});
+
+describe('checkBillItems', () => {
+    const line = { productId: 'p1', name: 'Masala chai', quantity: 2, unitPrice: 35, amount: 70 };
+
+    it('accepts product and free-amount lines', () => {
+        expect(checkBillItems([line, { name: '', quantity: 1, unitPrice: 12.5, amount: 12.5 }])).toBeNull();
+    });
+
+    it('rejects each bad line', () => {
+        expect(checkBillItems([])).toBe('An itemized bill needs at least one line.');
+        expect(checkBillItems([{ ...line, productId: 7 }])).toBe('Unknown product.');
+        expect(checkBillItems([{ ...line, name: 'x'.repeat(101) }])).toBe('Each line needs a name of at most 100 characters.');
+        expect(checkBillItems([{ ...line, quantity: 0 }])).toBe('Quantities must be more than zero.');
+        expect(checkBillItems([{ ...line, unitPrice: -35, amount: -70 }])).toBe('Prices must be zero or more.');
+        expect(checkBillItems([{ ...line, amount: 35 }])).toBe('The amount for Masala chai does not match its quantity and price.');
+        expect(checkBillItems([{ name: '', quantity: 1, unitPrice: 10, amount: 12 }])).toBe('The amount for Other does not match its quantity and price.');
+    });
+});
@@ -0,0 +1,48 @@
+import { BillItem, Product } from '../../types';
+
+// A product as created or edited; the server assigns the id and creation time.
+export type ProductInput = Omit<Product, 'id' | 'createdAt'>;
+
+// The name given to a free-amount line the cashier did not describe, and the category such lines report under.
+export const FREE_AMOUNT_NAME = 'Other';
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getItemsTotal = (items: BillItem[]): number => roundRupees(items.reduce((sum, item) => sum + item.amount, 0));
+
+// A bill line for `quantity` of the product at its current price.
+export const toBillItem = (product: Product, quantity: number): BillItem => ({
+    productId: product.id,
+    name: product.name,
+    sku: product.sku,
+    category: product.category,
+    quantity,
+    unitPrice: product.price,
+    amount: roundRupees(product.price * quantity),
+});
+
+// Checks a product before it is saved; used by the catalog form and the server. Returns the first problem, or null.
+export const validateProduct = (value: unknown): string | null => {
+    const product = (value ?? {}) as Partial<ProductInput>;
+    if (typeof product.name !== 'string' || !product.name.trim()) return 'Product name is required.';
+    if (typeof product.sku !== 'string' || !product.sku.trim()) return 'SKU is required.';
+    if (product.sku.trim().length > 32) return 'SKUs are at most 32 characters.';
+    if (typeof product.price !== 'number' || !Number.isFinite(product.price) || product.price < 0) return 'The price must be zero or more.';
+    if (typeof product.category !== 'string' || !product.category.trim()) return 'Category is required.';
+    return null;
+};
+
+// Checks the shape of a bill's lines: each needs a name, a quantity above zero and an amount that is the quantity
+// times the unit price. Used by the till and the server; the server also checks products and prices. Returns the
+// first problem, or null.
+export const checkBillItems = (value: unknown): string | null => {
+    if (!Array.isArray(value) || value.length === 0) return 'An itemized bill needs at least one line.';
+    for (const item of value as Partial<BillItem>[]) {
+        if (item.productId !== undefined && typeof item.productId !== 'string') return 'Unknown product.';
+        if (typeof item.name !== 'string' || item.name.length > 100) return 'Each line needs a name of at most 100 characters.';
+        if (typeof item.quantity !== 'number' || !(item.quantity > 0) || !Number.isFinite(item.quantity)) return 'Quantities must be more than zero.';
+        if (typeof item.unitPrice !== 'number' || !(item.unitPrice >= 0) || !Number.isFinite(item.unitPrice)) return 'Prices must be zero or more.';
+        if (typeof item.amount !== 'number' || Math.abs(item.amount - item.quantity * item.unitPrice) > 0.01) return `The amount for ${item.name || FREE_AMOUNT_NAME} does not match its quantity and price.`;
+    }
+    return null;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { getReceiptLines, maskMobile, validatePrinterSettings } from './receiptUtils';
+import { DEFAULT_PRINTER_SETTINGS } from '../../defaults';
+import { Receipt } from '../../types';
+
+const receipt: Receipt = {
+    businessName: 'Chai Point',
+    branchName: 'Indiranagar',
+    transactionId: '3f2b8c1e-9d4a-4b7e-a6f1-0c5d2e8b9a71',
+    date: '2026-06-01T10:00:00.000Z',
+    customerName: 'Asha',
+    mobile: '9876543210',
+    bill: 1050,
+    items: [
+        { productId: 'p1', name: 'Masala chai', quantity: 1, unitPrice: 50, amount: 50 },
+        { productId: 'p2', name: 'Plum cake', quantity: 4, unitPrice: 250, amount: 1000 },
+    ],
+    discounts: [{ label: 'Discount (10%)', amount: 105 }],
+    tax: { label: 'GST', mode: 'inclusive', lines: [{ rate: 5, taxableValue: 900, amount: 45 }] },
+    finalBill: 945,
+    pointsUsed: 100,
+    pointsValue: 100,
+    payments: [{ method: 'cash', amount: 900 }],
+    change: 55,
+    pointsEarned: 9,
+    balance: 1234,
+    refunded: 0,
+};
+
+const texts = (width: number) => getReceiptLines(receipt, width).map(line => line.text);
+
+describe('getReceiptLines', () => {
+    it('pads every line to the paper width', () => {
+        for (const width of [32, 48]) {
+            expect(getReceiptLines(receipt, width).every(line => line.text.length === width)).toBe(true);
+        }
+    });
+
+    it('shows the bill, its payments and the points', () => {
+        const lines = getReceiptLines(receipt, 48);
+        expect(lines[0]).toEqual({ text: 'Chai Point'.padStart(29).padEnd(48), bold: true });
+        expect(lines.map(line => line.text)).toEqual(expect.arrayContaining([
+            `Customer${'Asha (****3210)'.padStart(40)}`,
+            `Masala chai${'50.00'.padStart(37)}`,
+            'Plum cake'.padEnd(48),
+            `  4 x 250.00${'1000.00'.padStart(36)}`,
+            `Discount (10%)${'-105.00'.padStart(34)}`,
+            `Incl. GST 5% on 900.00${'(45.00)'.padStart(26)}`,
+            `Points (100)${'100.00'.padStart(36)}`,
+            `Change${'55.00'.padStart(42)}`,
+            `Points earned${'+9'.padStart(35)}`,
+        ]));
+        expect(lines).toContainEqual({ text: `TOTAL${'₹945.00'.padStart(43)}`, bold: true });
+        expect(lines).toContainEqual({ text: `Points balance${'1,234'.padStart(34)}`, bold: true });
+        expect(lines.some(line => line.text.startsWith('Refunded'))).toBe(false);
+    });
+
+    it('adds exclusive tax and prefixes the total with the given currency', () => {
+        const lines = getReceiptLines({ ...receipt, tax: { ...receipt.tax!, mode: 'exclusive' }, refunded: 945 }, 48, 'Rs.').map(line => line.text);
+        expect(lines).toContain(`GST 5% on 900.00${'45.00'.padStart(32)}`);
+        expect(lines).toContain(`TOTAL${'Rs.945.00'.padStart(43)}`);
+        expect(lines).toContain(`Refunded${'-945.00'.padStart(40)}`);
+    });
+
+    it('wraps a transaction ID too wide for 58mm paper', () => {
+        const lines = texts(32);
+        const start = lines.indexOf('Receipt'.padEnd(32));
+        expect(lines.slice(start + 1, start + 3)).toEqual([receipt.transactionId.slice(0, 32), receipt.transactionId.slice(32).padStart(32)]);
+    });
+});
+
+describe('maskMobile', () => {
+    it('shows only the last four digits', () => {
+        expect(maskMobile('9876543210')).toBe('****3210');
+    });
+});
+
+describe('validatePrinterSettings', () => {
+    it('accepts the defaults and a network printer', () => {
+        expect(validatePrinterSettings(DEFAULT_PRINTER_SETTINGS)).toBeNull();
+        expect(validatePrinterSettings({ paperWidth: 32, host: '192.168.1.50', port: 9100 })).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        expect(validatePrinterSettings({ paperWidth: 40, host: '', port: 9100 })).toBe('Choose a 58mm or 80mm paper width.');
+        expect(validatePrinterSettings({ paperWidth: 48, host: 'printer; rm', port: 9100 })).toBe('The printer host must be an IP address or host name.');
+        expect(validatePrinterSettings({ paperWidth: 48, host: 'printer.local', port: 70000 })).toBe('The printer port must be a whole number from 1 to 65535.');
+    });
+});
@@ -0,0 +1,102 @@
+import { PaperWidth, PrinterSettings, Receipt } from '../../types';
+import { PAYMENT_METHOD_LABELS } from './paymentUtils';
+
+export const PAPER_WIDTHS: PaperWidth[] = [32, 48];
+
+export const PAPER_WIDTH_LABELS: Record<PaperWidth, string> = {
+    32: '58mm (32 characters)',
+    48: '80mm (48 characters)',
+};
+
+// One printed line, already padded to the receipt width. `rule` lines are the dashed separators.
+export interface ReceiptLine {
+    text: string;
+    bold?: boolean;
+    rule?: boolean;
+}
+
+const money = (amount: number) => amount.toFixed(2);
+
+export const maskMobile = (mobile: string): string => `****${mobile.slice(-4)}`;
+
+export const formatReceiptDate = (date: string): string =>
+    new Date(date).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// The receipt as fixed-width text, shared by the printable page, the PDF and the thermal printer so they always
+// agree. Amounts are plain numbers; `currency` prefixes the total only, for printers that cannot show ₹.
+export const getReceiptLines = (receipt: Receipt, width: number, currency = '₹'): ReceiptLine[] => {
+    const lines: ReceiptLine[] = [];
+    const center = (text: string, bold?: boolean) => {
+        const clipped = text.slice(0, width);
+        lines.push({ text: clipped.padStart(Math.floor((width + clipped.length) / 2)).padEnd(width), bold });
+    };
+    // Label on the left and value on the right; a label too long to share the line gets a line of its own, and a
+    // value wider than the paper (a transaction ID on 58mm rolls) wraps.
+    const row = (label: string, value: string, bold?: boolean) => {
+        if (value && label.length + value.length + 1 > width) {
+            lines.push({ text: label.slice(0, width).padEnd(width), bold });
+            label = '';
+            for (; value.length > width; value = value.slice(width)) lines.push({ text: value.slice(0, width), bold });
+        }
+        lines.push({ text: (label + value.padStart(width - label.length)).slice(0, width), bold });
+    };
+    const rule = () => lines.push({ text: '-'.repeat(width), rule: true });
+
+    center(receipt.businessName, true);
+    if (receipt.branchName) center(receipt.branchName);
+    rule();
+    row('Receipt', receipt.transactionId);
+    row('Date', formatReceiptDate(receipt.date));
+    row('Customer', `${receipt.customerName} (${maskMobile(receipt.mobile)})`);
+    rule();
+
+    (receipt.items ?? []).forEach(item => {
+        if (item.quantity === 1) {
+            row(item.name, money(item.amount));
+        } else {
+            row(item.name, '');
+            row(`  ${item.quantity} x ${money(item.unitPrice)}`, money(item.amount));
+        }
+    });
+    if (receipt.items?.length) rule();
+
+    row('Subtotal', money(receipt.bill));
+    receipt.discounts.forEach(discount => row(discount.label, `-${money(discount.amount)}`));
+    if (receipt.tax) {
+        // Inclusive tax is already in the prices, so it is shown in brackets rather than added.
+        const { label, mode } = receipt.tax;
+        receipt.tax.lines.forEach(line => row(
+            `${mode === 'inclusive' ? 'Incl. ' : ''}${label} ${line.rate}% on ${money(line.taxableValue)}`,
+            mode === 'inclusive' ? `(${money(line.amount)})` : money(line.amount),
+        ));
+    }
+    row('TOTAL', `${currency}${money(receipt.finalBill)}`, true);
+    rule();
+
+    if (receipt.pointsUsed > 0) row(`${PAYMENT_METHOD_LABELS.points} (${receipt.pointsUsed})`, money(receipt.pointsValue));
+    receipt.payments.forEach(payment => {
+        row(payment.reference ? `${PAYMENT_METHOD_LABELS[payment.method]} ${payment.reference}` : PAYMENT_METHOD_LABELS[payment.method], money(payment.amount));
+    });
+    if (receipt.change > 0) row('Change', money(receipt.change));
+    if (receipt.refunded > 0) row('Refunded', `-${money(receipt.refunded)}`, true);
+    rule();
+
+    row('Points earned', `+${receipt.pointsEarned}`);
+    row('Points balance', receipt.balance.toLocaleString('en-IN'), true);
+    rule();
+    center('Thank you for visiting!');
+    return lines;
+};
+
+// Checks printer settings before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validatePrinterSettings = (value: unknown): string | null => {
+    const settings = (value ?? {}) as Partial<PrinterSettings>;
+    if (!PAPER_WIDTHS.includes(settings.paperWidth as PaperWidth)) return 'Choose a 58mm or 80mm paper width.';
+    if (typeof settings.host !== 'string' || !/^[A-Za-z0-9.:-]*$/.test(settings.host) || settings.host.length > 253) {
+        return 'The printer host must be an IP address or host name.';
+    }
+    if (typeof settings.port !== 'number' || !Number.isInteger(settings.port) || settings.port < 1 || settings.port > 65535) {
+        return 'The printer port must be a whole number from 1 to 65535.';
+    }
+    return null;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyRedemption, checkRedemption, getRedeemablePoints, validateRedemptionSettings } from './redemptionUtils';
+import { DEFAULT_REDEMPTION_SETTINGS } from '../../defaults';
+import { RedemptionSettings } from '../../types';
+
+// Half a rupee a point, at most half the bill, in blocks of 10, from a balance of 50.
+const settings: RedemptionSettings = { pointValue: 0.5, minimumBalance: 50, maxBillPercentage: 50, blockSize: 10 };
+
+describe('getRedeemablePoints', () => {
+    it('holds points to the share of the bill, in whole blocks', () => {
+        expect(getRedeemablePoints(1000, 95, settings)).toBe(90);
+        expect(getRedeemablePoints(75, 1000, settings)).toBe(70);
+    });
+
+    it('allows nothing below the minimum balance', () => {
+        expect(getRedeemablePoints(40, 1000, settings)).toBe(0);
+    });
+});
+
+describe('applyRedemption', () => {
+    it('rounds the request down to a block and gives its rupee value', () => {
+        expect(applyRedemption(47, 1000, 1000, settings)).toEqual({ points: 40, value: 20 });
+        expect(applyRedemption(500, 1000, 95, settings)).toEqual({ points: 90, value: 45 });
+    });
+});
+
+describe('checkRedemption', () => {
+    it('explains what is wrong with the points on a bill', () => {
+        expect(checkRedemption(0, 0, 100, settings)).toBeNull();
+        expect(checkRedemption(20, 40, 100, settings)).toBe('Points can be redeemed once the balance reaches 50.');
+        expect(checkRedemption(15, 100, 100, settings)).toBe('Points are redeemed in blocks of 10.');
+        expect(checkRedemption(200, 1000, 100, settings)).toBe('At most 100 points can be redeemed on this bill.');
+    });
+});
+
+describe('validateRedemptionSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateRedemptionSettings(DEFAULT_REDEMPTION_SETTINGS)).toBeNull();
+    });
+
+    it('rejects each bad setting', () => {
+        expect(validateRedemptionSettings({ ...settings, pointValue: 0 })).toBe('A point must be worth more than ₹0.');
+        expect(validateRedemptionSettings({ ...settings, maxBillPercentage: 101 })).toBe('The share of the bill must be between 0 and 100%.');
+        expect(validateRedemptionSettings({ ...settings, blockSize: 0 })).toBe('The redemption block must be a whole number of points, at least 1.');
+    });
+});
@@ -0,0 +1,55 @@
+import { RedemptionSettings } from '../../types';
+
+export interface Redemption {
+    points: number;
+    value: number; // Rupees the points pay
+}
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+export const pointsToRupees = (points: number, settings: RedemptionSettings): number => roundRupees(points * settings.pointValue);
+
+// The most points this customer may put towards a bill: nothing below the minimum balance, never more than the
+// allowed share of the bill, and always a whole number of blocks.
+export const getRedeemablePoints = (balance: number, finalBill: number, settings: RedemptionSettings): number => {
+    if (balance <= 0 || balance < settings.minimumBalance || finalBill <= 0) return 0;
+    const maxValue = finalBill * settings.maxBillPercentage / 100;
+    const maxPoints = Math.min(balance, Math.floor(maxValue / settings.pointValue + 1e-9));
+    return Math.floor(maxPoints / settings.blockSize) * settings.blockSize;
+};
+
+// The points actually redeemed when the customer asks for `desired`: rounded down to a block and held to the limit.
+export const applyRedemption = (desired: number, balance: number, finalBill: number, settings: RedemptionSettings): Redemption => {
+    const requested = Math.floor(Math.max(0, desired) / settings.blockSize) * settings.blockSize;
+    const points = Math.min(requested, getRedeemablePoints(balance, finalBill, settings));
+    return { points, value: pointsToRupees(points, settings) };
+};
+
+// Checks the points a bill claims to redeem against the rules. Returns the problem for the cashier, or null.
+export const checkRedemption = (points: number, balance: number, finalBill: number, settings: RedemptionSettings): string | null => {
+    if (points === 0) return null;
+    if (balance < settings.minimumBalance) return `Points can be redeemed once the balance reaches ${settings.minimumBalance}.`;
+    if (points % settings.blockSize !== 0) return `Points are redeemed in blocks of ${settings.blockSize}.`;
+    const redeemable = getRedeemablePoints(balance, finalBill, settings);
+    if (points > redeemable) return `At most ${redeemable} points can be redeemed on this bill.`;
+    return null;
+};
+
+// The redemption rules in words, for the settings screen and the till.
+export const describeRedemptionRules = (settings: RedemptionSettings): string => {
+    const rate = `1 point is worth ₹${settings.pointValue}.`;
+    const minimum = settings.minimumBalance > 0 ? ` Redeeming needs a balance of at least ${settings.minimumBalance} points.` : '';
+    const share = settings.maxBillPercentage < 100 ? ` Points can pay up to ${settings.maxBillPercentage}% of a bill.` : '';
+    const blocks = settings.blockSize > 1 ? ` Points are redeemed in blocks of ${settings.blockSize}.` : '';
+    return rate + minimum + share + blocks;
+};
+
+// Checks redemption rules before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateRedemptionSettings = (value: unknown): string | null => {
+    const { pointValue, minimumBalance, maxBillPercentage, blockSize } = (value ?? {}) as Partial<RedemptionSettings>;
+    if (typeof pointValue !== 'number' || !(pointValue > 0)) return 'A point must be worth more than ₹0.';
+    if (typeof minimumBalance !== 'number' || !(minimumBalance >= 0)) return 'The minimum balance must be zero or more.';
+    if (typeof maxBillPercentage !== 'number' || !(maxBillPercentage >= 0 && maxBillPercentage <= 100)) return 'The share of the bill must be between 0 and 100%.';
+    if (typeof blockSize !== 'number' || !Number.isInteger(blockSize) || blockSize < 1) return 'The redemption block must be a whole number of points, at least 1.';
+    return null;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isQualifyingReferralBill, validateReferralSettings } from './referralUtils';
+import { DEFAULT_REFERRAL_SETTINGS } from '../../defaults';
+import { TransactionHistory } from '../../types';
+
+const bill: TransactionHistory = { date: '2026-06-01T10:00:00.000Z', bill: 500, finalBill: 500, points: 0 };
+const settings = { referrerPoints: 100, refereePoints: 50, minimumBill: 500 };
+
+describe('isQualifyingReferralBill', () => {
+    it('needs the minimum bill and no void', () => {
+        expect(isQualifyingReferralBill(bill, settings)).toBe(true);
+        expect(isQualifyingReferralBill({ ...bill, finalBill: 499 }, settings)).toBe(false);
+        const voided = { ...bill, reversals: [{ id: 'r1', kind: 'void' as const, amount: 500, pointsReversed: 0, pointsRestored: 0, reason: 'Wrong customer', actor: 'owner', createdAt: bill.date }] };
+        expect(isQualifyingReferralBill(voided, settings)).toBe(false);
+    });
+
+    it('counts refunds against the minimum', () => {
+        const refund = (amount: number) => ({ id: 'r1', kind: 'refund' as const, amount, pointsReversed: 0, pointsRestored: 0, reason: 'Returned', actor: 'owner', createdAt: bill.date });
+        expect(isQualifyingReferralBill({ ...bill, finalBill: 600, reversals: [refund(100)] }, settings)).toBe(true);
+        expect(isQualifyingReferralBill({ ...bill, finalBill: 600, reversals: [refund(101)] }, settings)).toBe(false);
+        expect(isQualifyingReferralBill({ ...bill, reversals: [refund(500)] }, { ...settings, minimumBill: 0 })).toBe(false);
+    });
+});
+
+describe('validateReferralSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateReferralSettings(DEFAULT_REFERRAL_SETTINGS)).toBeNull();
+    });
+
+    it('needs whole, non-negative bonuses and minimum', () => {
+        expect(validateReferralSettings({ ...settings, referrerPoints: 1.5 })).toBe('Referral bonuses must be whole numbers of points, zero or more.');
+        expect(validateReferralSettings({ ...settings, refereePoints: -1 })).toBe('Referral bonuses must be whole numbers of points, zero or more.');
+        expect(validateReferralSettings({ ...settings, minimumBill: -10 })).toBe('The minimum bill must be zero or more.');
+    });
+});
@@ -0,0 +1,28 @@
+import { ReferralSettings, TransactionHistory } from '../../types';
+
+// Whether a bill earns the referral bonuses. Voided and fully refunded bills never do, and refunds count against the
+// minimum bill.
+export const isQualifyingReferralBill = (transaction: TransactionHistory, settings: ReferralSettings): boolean => {
+    const reversals = transaction.reversals || [];
+    const refunded = reversals.reduce((sum, r) => sum + r.amount, 0);
+    if (reversals.some(r => r.kind === 'void') || (refunded > 0 && refunded >= transaction.finalBill)) return false;
+    return transaction.finalBill - refunded >= settings.minimumBill;
+};
+
+// The referral rules in words, for the settings screen and the till.
+export const describeReferralRules = (settings: ReferralSettings): string => {
+    if (settings.referrerPoints === 0 && settings.refereePoints === 0) return 'Referrals are recorded but earn no bonus.';
+    const bill = settings.minimumBill > 0 ? `first bill of ₹${settings.minimumBill.toLocaleString()} or more` : 'first bill';
+    return `On the new customer's ${bill}, the referrer gets ${settings.referrerPoints} points and the new customer gets ${settings.refereePoints}.`;
+};
+
+// Checks referral rules before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateReferralSettings = (value: unknown): string | null => {
+    const { referrerPoints, refereePoints, minimumBill } = (value ?? {}) as Partial<ReferralSettings>;
+    if (typeof referrerPoints !== 'number' || !Number.isInteger(referrerPoints) || referrerPoints < 0
+        || typeof refereePoints !== 'number' || !Number.isInteger(refereePoints) || refereePoints < 0) {
+        return 'Referral bonuses must be whole numbers of points, zero or more.';
+    }
+    if (typeof minimumBill !== 'number' || !(minimumBill >= 0)) return 'The minimum bill must be zero or more.';
+    return null;
+};
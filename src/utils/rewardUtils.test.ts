@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { checkRewardRedemption, validateReward } from './rewardUtils';
+import { Reward } from '../../types';
+
+const reward: Reward = { id: 'r1', name: 'Free coffee', pointsCost: 1500, stock: 3, redemptions: 0, createdAt: '2026-01-01T00:00:00.000Z' };
+
+describe('checkRewardRedemption', () => {
+    it('needs stock and enough points', () => {
+        expect(checkRewardRedemption(reward, 1500)).toBeNull();
+        expect(checkRewardRedemption({ ...reward, stock: 0 }, 5000)).toBe('Free coffee is out of stock.');
+        expect(checkRewardRedemption(reward, 1499)).toBe('Free coffee needs 1,500 points; the customer has 1,499.');
+    });
+});
+
+describe('validateReward', () => {
+    it('accepts a complete reward', () => {
+        expect(validateReward({ name: 'Free coffee', pointsCost: 1500, stock: 0 })).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        expect(validateReward({ name: ' ', pointsCost: 1500, stock: 3 })).toBe('Reward name is required.');
+        expect(validateReward({ name: 'Free coffee', pointsCost: 0, stock: 3 })).toBe('The points cost must be a whole number above zero.');
+        expect(validateReward({ name: 'Free coffee', pointsCost: 10.5, stock: 3 })).toBe('The points cost must be a whole number above zero.');
+        expect(validateReward({ name: 'Free coffee', pointsCost: 1500, stock: -1 })).toBe('Stock must be a whole number, zero or more.');
+        expect(validateReward(null)).toBe('Reward name is required.');
+    });
+});
@@ -0,0 +1,22 @@
+import { Reward } from '../../types';
+
+// A reward as created or edited; the server assigns the id, creation time and redemption count.
+export type RewardInput = Omit<Reward, 'id' | 'redemptions' | 'createdAt'>;
+
+// Whether a customer with `balance` points can take the reward now. Returns the reason they cannot, or null.
+export const checkRewardRedemption = (reward: Reward, balance: number): string | null => {
+    if (reward.stock <= 0) return `${reward.name} is out of stock.`;
+    if (balance < reward.pointsCost) return `${reward.name} needs ${reward.pointsCost.toLocaleString()} points; the customer has ${balance.toLocaleString()}.`;
+    return null;
+};
+
+// Checks a reward before it is saved; used by the catalog form and the server. Returns the first problem, or null.
+export const validateReward = (value: unknown): string | null => {
+    const reward = (value ?? {}) as Partial<RewardInput>;
+    if (typeof reward.name !== 'string' || !reward.name.trim()) return 'Reward name is required.';
+    if (typeof reward.pointsCost !== 'number' || !Number.isInteger(reward.pointsCost) || reward.pointsCost <= 0) {
+        return 'The points cost must be a whole number above zero.';
+    }
+    if (typeof reward.stock !== 'number' || !Number.isInteger(reward.stock) || reward.stock < 0) return 'Stock must be a whole number, zero or more.';
+    return null;
+};
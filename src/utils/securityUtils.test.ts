@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { validateSecuritySettings } from './securityUtils';
+import { DEFAULT_SECURITY_SETTINGS } from '../../defaults';
+
+describe('validateSecuritySettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateSecuritySettings(DEFAULT_SECURITY_SETTINGS)).toBeNull();
+    });
+
+    it.each([0, -1, 1.5, '5', undefined, NaN])('rejects %s attempts', maxPinAttempts => {
+        expect(validateSecuritySettings({ ...DEFAULT_SECURITY_SETTINGS, maxPinAttempts })).toBe('PIN attempts must be a whole number of at least 1.');
+    });
+
+    it('checks every field', () => {
+        expect(validateSecuritySettings({ ...DEFAULT_SECURITY_SETTINGS, pinLockoutMinutes: 0 })).toMatch(/^The PIN cooldown/);
+        expect(validateSecuritySettings({ ...DEFAULT_SECURITY_SETTINGS, otpExpiryMinutes: Infinity })).toMatch(/^The reset code expiry/);
+        expect(validateSecuritySettings({ ...DEFAULT_SECURITY_SETTINGS, maxOtpAttempts: null })).toMatch(/^Reset code attempts/);
+        expect(validateSecuritySettings(null)).not.toBeNull();
+    });
+});
@@ -0,0 +1,18 @@
+import { SecuritySettings } from '../../types';
+
+const SECURITY_FIELDS: { key: keyof SecuritySettings; label: string }[] = [
+    { key: 'maxPinAttempts', label: 'PIN attempts' },
+    { key: 'pinLockoutMinutes', label: 'The PIN cooldown' },
+    { key: 'otpExpiryMinutes', label: 'The reset code expiry' },
+    { key: 'maxOtpAttempts', label: 'Reset code attempts' },
+];
+
+// Checks PIN security settings before they are saved; used by the server. Returns the first problem, or null.
+export const validateSecuritySettings = (value: unknown): string | null => {
+    const settings = (value ?? {}) as Partial<SecuritySettings>;
+    for (const { key, label } of SECURITY_FIELDS) {
+        const n = settings[key];
+        if (typeof n !== 'number' || !Number.isInteger(n) || n < 1) return `${label} must be a whole number of at least 1.`;
+    }
+    return null;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBillTax, getAddedTax, getTaxTotal, validateTaxSettings } from './taxUtils';
+import { DEFAULT_TAX_SETTINGS } from '../../defaults';
+import { TaxSettings } from '../../types';
+
+const exclusive: TaxSettings = { label: 'GST', mode: 'exclusive', defaultRate: 5, categoryRates: { Bakery: 12, Fresh: 0 } };
+const inclusive: TaxSettings = { ...exclusive, mode: 'inclusive' };
+
+describe('calculateBillTax', () => {
+    it('adds exclusive tax per rate on the lines after discounts', () => {
+        const tax = calculateBillTax([{ category: 'Bakery', amount: 600 }, { amount: 400 }], 900, exclusive);
+        expect(tax).toEqual({
+            label: 'GST',
+            mode: 'exclusive',
+            lines: [{ rate: 5, taxableValue: 360, amount: 18 }, { rate: 12, taxableValue: 540, amount: 64.8 }],
+        });
+        expect(getTaxTotal(tax)).toBe(82.8);
+        expect(getAddedTax(tax)).toBe(82.8);
+    });
+
+    it('splits inclusive tax out of the prices without adding it', () => {
+        const tax = calculateBillTax([{ amount: 1050 }], 1050, inclusive);
+        expect(tax?.lines).toEqual([{ rate: 5, taxableValue: 1000, amount: 50 }]);
+        expect(getTaxTotal(tax)).toBe(50);
+        expect(getAddedTax(tax)).toBe(0);
+    });
+
+    it('charges nothing on categories with no tax', () => {
+        const tax = calculateBillTax([{ category: 'Fresh', amount: 200 }, { category: 'Bakery', amount: 100 }], 300, exclusive);
+        expect(tax?.lines).toEqual([{ rate: 12, taxableValue: 100, amount: 12 }]);
+    });
+
+    it('has no tax when nothing is taxed or the bill is empty', () => {
+        expect(calculateBillTax([{ category: 'Fresh', amount: 200 }], 200, exclusive)).toBeUndefined();
+        expect(calculateBillTax([{ amount: 200 }], 200, DEFAULT_TAX_SETTINGS)).toBeUndefined();
+        expect(calculateBillTax([], 0, exclusive)).toBeUndefined();
+        expect(getAddedTax(undefined)).toBe(0);
+    });
+});
+
+describe('validateTaxSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateTaxSettings(DEFAULT_TAX_SETTINGS)).toBeNull();
+        expect(validateTaxSettings(exclusive)).toBeNull();
+    });
+
+    it('rejects each bad field', () => {
+        expect(validateTaxSettings({ ...exclusive, label: ' ' })).toBe('Give the tax a name of at most 16 characters, such as GST.');
+        expect(validateTaxSettings({ ...exclusive, label: 'Goods and services tax' })).toBe('Give the tax a name of at most 16 characters, such as GST.');
+        expect(validateTaxSettings({ ...exclusive, mode: 'added' })).toBe('Tax must be inclusive or exclusive.');
+        expect(validateTaxSettings({ ...exclusive, defaultRate: 101 })).toBe('The tax rate must be between 0 and 100%.');
+        expect(validateTaxSettings({ ...exclusive, categoryRates: [] })).toBe('Category rates must be an object.');
+        expect(validateTaxSettings({ ...exclusive, categoryRates: { Bakery: -5 } })).toBe('Category tax rates must be between 0 and 100%.');
+    });
+});
@@ -0,0 +1,65 @@
+import { BillTax, TaxMode, TaxSettings } from '../../types';
+
+export const TAX_MODES: TaxMode[] = ['exclusive', 'inclusive'];
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+// A priced part of a bill: one line, or the whole bill when only its total was entered.
+export interface TaxableLine {
+    category?: string;
+    amount: number;
+}
+
+export const getTaxRate = (category: string | undefined, settings: TaxSettings): number =>
+    category !== undefined && Object.prototype.hasOwnProperty.call(settings.categoryRates, category) ? settings.categoryRates[category] : settings.defaultRate;
+
+// The tax on a bill, or undefined when none applies. Bills are worked out in this order:
+//   1. The lines (or the entered total) make the subtotal.
+//   2. The tier, campaign, celebration and coupon discounts come off, leaving `discountedTotal`. Each line takes a
+//      share of the discounts in proportion to its price.
+//   3. Tax is worked out per rate on what is left of the lines. Exclusive tax is added to the bill; inclusive tax is
+//      already in the prices and is only split out.
+//   4. Points and payments then pay the bill with its tax. Points are a way of paying, so they never lower the tax.
+export const calculateBillTax = (lines: TaxableLine[], discountedTotal: number, settings: TaxSettings): BillTax | undefined => {
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (subtotal <= 0) return undefined;
+    const byRate = new Map<number, number>();
+    lines.forEach(line => {
+        const rate = getTaxRate(line.category, settings);
+        if (rate > 0) byRate.set(rate, (byRate.get(rate) ?? 0) + discountedTotal * line.amount / subtotal);
+    });
+    if (byRate.size === 0) return undefined;
+    const taxLines = [...byRate].sort(([a], [b]) => a - b).map(([rate, base]) => {
+        const taxableValue = roundRupees(settings.mode === 'inclusive' ? base / (1 + rate / 100) : base);
+        const amount = roundRupees(settings.mode === 'inclusive' ? base - taxableValue : base * rate / 100);
+        return { rate, taxableValue, amount };
+    });
+    return { label: settings.label, mode: settings.mode, lines: taxLines };
+};
+
+export const getTaxTotal = (tax: BillTax | undefined): number => roundRupees((tax?.lines ?? []).reduce((sum, line) => sum + line.amount, 0));
+
+// What the tax adds to the discounted bill: all of it when exclusive, nothing when inclusive.
+export const getAddedTax = (tax: BillTax | undefined): number => (tax?.mode === 'exclusive' ? getTaxTotal(tax) : 0);
+
+// The tax rules in words, e.g. "Prices include 5% GST. Bakery: 12%."
+export const describeTaxRules = (settings: TaxSettings): string => {
+    const categories = Object.entries(settings.categoryRates);
+    if (settings.defaultRate === 0 && categories.every(([, rate]) => rate === 0)) return 'No tax is charged.';
+    const base = settings.mode === 'inclusive'
+        ? `Prices include ${settings.defaultRate}% ${settings.label}.`
+        : `${settings.defaultRate}% ${settings.label} is added to prices.`;
+    return [base, ...categories.map(([category, rate]) => `${category}: ${rate}%.`)].join(' ');
+};
+
+// Checks tax settings before they are saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateTaxSettings = (value: unknown): string | null => {
+    const { label, mode, defaultRate, categoryRates } = (value ?? {}) as Partial<TaxSettings>;
+    if (typeof label !== 'string' || !label.trim() || label.length > 16) return 'Give the tax a name of at most 16 characters, such as GST.';
+    if (!TAX_MODES.includes(mode as TaxMode)) return 'Tax must be inclusive or exclusive.';
+    const isRate = (rate: unknown) => typeof rate === 'number' && rate >= 0 && rate <= 100;
+    if (!isRate(defaultRate)) return 'The tax rate must be between 0 and 100%.';
+    if (typeof categoryRates !== 'object' || categoryRates === null || Array.isArray(categoryRates)) return 'Category rates must be an object.';
+    if (!Object.values(categoryRates).every(isRate)) return 'Category tax rates must be between 0 and 100%.';
+    return null;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { checkDiscountEligibility, getQualifiedTier, getQualifyingTotals, validateTierSettings } from './tierUtils';
+import { DEFAULT_TIER_SETTINGS } from '../../defaults';
+import { Customer, TierSettings } from '../../types';
+
+const withTiers = (tiers: TierSettings['tiers']): TierSettings => ({ ...DEFAULT_TIER_SETTINGS, tiers });
+const [bronze, silver, gold] = DEFAULT_TIER_SETTINGS.tiers;
+
+describe('validateTierSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateTierSettings(DEFAULT_TIER_SETTINGS)).toBeNull();
+    });
+
+    it('needs the second tier to ask at least as much as the first', () => {
+        const cheaper = { ...silver, minSpend: 0, minPoints: 0 };
+        expect(validateTierSettings(withTiers([{ ...bronze, minSpend: 100 }, cheaper]))).toBe('Silver must need at least the spend and points of Bronze.');
+    });
+
+    it('needs every later tier to ask at least as much as the one before', () => {
+        expect(validateTierSettings(withTiers([bronze, silver, { ...gold, minPoints: 50 }]))).toBe('Gold must need at least the spend and points of Silver.');
+    });
+
+    it('rejects bad thresholds and duplicate tiers', () => {
+        expect(validateTierSettings(withTiers([]))).toBe('Define at least one tier.');
+        expect(validateTierSettings(withTiers([{ ...bronze, discountPercentage: 101 }]))).toBe('Bronze: discount cannot be more than 100%.');
+        expect(validateTierSettings(withTiers([bronze, { ...silver, id: 'bronze' }]))).toBe('Each tier needs its own id.');
+        expect(validateTierSettings({ ...DEFAULT_TIER_SETTINGS, qualification: 'vibes' })).toMatch(/^Qualification must be one of/);
+    });
+});
+
+describe('getQualifiedTier', () => {
+    const customer = (totalSpent: number, points: number): Customer => ({ mobile: '+911', name: 'Asha', points, totalSpent, history: [] });
+
+    it('takes the highest tier reached by either threshold by default', () => {
+        expect(getQualifiedTier(customer(0, 0), DEFAULT_TIER_SETTINGS).id).toBe('bronze');
+        expect(getQualifiedTier(customer(2000, 0), DEFAULT_TIER_SETTINGS).id).toBe('silver');
+        expect(getQualifiedTier(customer(0, 600), DEFAULT_TIER_SETTINGS).id).toBe('gold');
+    });
+
+    it('needs both thresholds when the business says so', () => {
+        expect(getQualifiedTier(customer(10000, 100), { ...DEFAULT_TIER_SETTINGS, qualification: 'both' }).id).toBe('silver');
+    });
+
+    it('counts only spend or only points when the business says so', () => {
+        const bySpend = { ...DEFAULT_TIER_SETTINGS, qualification: 'spend' as const };
+        const byPoints = { ...DEFAULT_TIER_SETTINGS, qualification: 'points' as const };
+        expect(getQualifiedTier(customer(10000, 0), bySpend).id).toBe('gold');
+        expect(getQualifiedTier(customer(0, 600), bySpend).id).toBe('bronze');
+        expect(getQualifiedTier(customer(0, 600), byPoints).id).toBe('gold');
+        expect(getQualifiedTier(customer(10000, 0), byPoints).id).toBe('bronze');
+    });
+
+    it('adds up weighted shares of each threshold', () => {
+        const weighted = { ...DEFAULT_TIER_SETTINGS, qualification: 'weighted' as const };
+        // Silver: 150% of its spend at half weight plus 50% of its points at half weight makes 100%.
+        expect(getQualifiedTier(customer(3000, 50), weighted).id).toBe('silver');
+        expect(getQualifiedTier(customer(2999, 50), weighted).id).toBe('bronze');
+        expect(getQualifiedTier(customer(3000, 50), { ...weighted, spendWeight: 100 }).id).toBe('silver');
+        expect(getQualifiedTier(customer(0, 500), { ...weighted, spendWeight: 0 }).id).toBe('gold');
+    });
+});
+
+describe('getQualifyingTotals', () => {
+    const now = new Date('2026-06-30T12:00:00.000Z');
+    const customer: Customer = {
+        mobile: '+911', name: 'Asha', points: 900, totalSpent: 9000, history: [
+            { date: '2025-05-01T12:00:00.000Z', bill: 5000, finalBill: 5000, points: 500 },
+            { date: '2026-01-10T12:00:00.000Z', bill: 3000, finalBill: 3000, points: 300, reversals: [
+                { id: 'r1', kind: 'refund', amount: 1000, pointsReversed: 100, pointsRestored: 0, reason: 'Returned', actor: 'owner', createdAt: '2026-01-11T12:00:00.000Z' },
+            ] },
+            { date: '2026-06-01T12:00:00.000Z', bill: 1000, finalBill: 1000, points: 100 },
+        ],
+    };
+
+    it('counts lifetime spend and the points balance without a window', () => {
+        expect(getQualifyingTotals(customer, DEFAULT_TIER_SETTINGS, now)).toEqual({ spend: 9000, points: 900 });
+    });
+
+    it('counts only bills inside the rolling window, less refunds', () => {
+        expect(getQualifyingTotals(customer, { ...DEFAULT_TIER_SETTINGS, windowMonths: 12 }, now)).toEqual({ spend: 3000, points: 300 });
+        expect(getQualifyingTotals(customer, { ...DEFAULT_TIER_SETTINGS, windowMonths: 1 }, now)).toEqual({ spend: 1000, points: 100 });
+    });
+});
+
+describe('checkDiscountEligibility', () => {
+    const now = new Date('2026-06-01T12:00:00.000Z');
+    const lastVisit = (date: string): Customer => ({
+        mobile: '+911', name: 'Asha', points: 150, totalSpent: 3000, tier: { tierId: 'silver', since: date, belowSince: null },
+        history: [{ date, bill: 3000, finalBill: 3000, points: 150 }],
+    });
+
+    it('holds while the customer is back within their tier deadline', () => {
+        expect(checkDiscountEligibility(lastVisit('2026-01-01T12:00:00.000Z'), DEFAULT_TIER_SETTINGS, now))
+            .toEqual({ eligible: true, daysSinceLastTxn: 151, deadline: 180, tier: silver });
+    });
+
+    it('lapses after the deadline', () => {
+        expect(checkDiscountEligibility(lastVisit('2025-11-01T12:00:00.000Z'), DEFAULT_TIER_SETTINGS, now).eligible).toBe(false);
+    });
+
+    it('always holds before the first bill', () => {
+        expect(checkDiscountEligibility({ ...lastVisit(now.toISOString()), history: [] }, DEFAULT_TIER_SETTINGS, now).eligible).toBe(true);
+    });
+});
@@ -1,23 +1,153 @@
-import { Customer, Tier, TierSettings } from '../types';
+import { Customer, TierDefinition, TierSettings, TierQualification } from '../../types';
 
-// Tier utility functions
-export const getTierBySpend = (customer: Customer, settings: TierSettings): Tier => {
-    if (customer.totalSpent >= settings.platinum.minSpend) return 'Platinum';
-    if (customer.totalSpent >= settings.gold.minSpend) return 'Gold';
-    if (customer.totalSpent >= settings.silver.minSpend) return 'Silver';
-    return 'Bronze';
+export interface QualifyingTotals {
+    spend: number;
+    points: number;
+}
+
+// Whether the customer's next bill still gets their tier discount, and the numbers behind it. Customers with no
+// bills yet are always eligible and have no deadline.
+export interface DiscountEligibility {
+    eligible: boolean;
+    daysSinceLastTxn: number | null;
+    deadline: number | null;
+    tier: TierDefinition | null;
+}
+
+export const TIER_QUALIFICATIONS: TierQualification[] = ['spend', 'points', 'either', 'both', 'weighted'];
+
+// Tier utility functions. Tiers are listed lowest first, so lookups take the highest tier the customer
+// qualifies for and fall back to the entry tier.
+const highestTier = (settings: TierSettings, qualifies: (tier: TierDefinition) => boolean): TierDefinition =>
+    [...settings.tiers].reverse().find(qualifies) ?? settings.tiers[0];
+
+// The start of the qualifying window, or null when lifetime totals count.
+export const getTierWindowStart = (settings: TierSettings, now = new Date()): Date | null => {
+    if (!settings.windowMonths) return null;
+    const start = new Date(now);
+    start.setMonth(start.getMonth() - settings.windowMonths);
+    return start;
+};
+
+// What counts towards a tier: lifetime spend and points balance, or, with a rolling window, the spend and points
+// earned on bills dated inside it (less anything refunded).
+export const getQualifyingTotals = (customer: Customer, settings: TierSettings, now = new Date()): QualifyingTotals => {
+    const start = getTierWindowStart(settings, now);
+    if (!start) return { spend: customer.totalSpent, points: customer.points };
+
+    return customer.history
+        .filter(t => new Date(t.date) >= start && new Date(t.date) <= now)
+        .reduce((totals, t) => {
+            const reversals = t.reversals || [];
+            return {
+                spend: totals.spend + t.finalBill - reversals.reduce((sum, r) => sum + r.amount, 0),
+                points: totals.points + t.points - reversals.reduce((sum, r) => sum + r.pointsReversed, 0),
+            };
+        }, { spend: 0, points: 0 });
+};
+
+// Spend and points each measured against the tier's minimum, then weighted by the business's split. 1 or more qualifies.
+const weightedScore = (totals: QualifyingTotals, tier: TierDefinition, spendWeight: number) => {
+    const share = (value: number, minimum: number) => minimum > 0 ? value / minimum : 1;
+    return (share(totals.spend, tier.minSpend) * spendWeight + share(totals.points, tier.minPoints) * (100 - spendWeight)) / 100;
+};
+
+const qualifiesFor = (totals: QualifyingTotals, tier: TierDefinition, settings: TierSettings): boolean => {
+    const bySpend = totals.spend >= tier.minSpend;
+    const byPoints = totals.points >= tier.minPoints;
+    switch (settings.qualification) {
+        case 'spend': return bySpend;
+        case 'points': return byPoints;
+        case 'both': return bySpend && byPoints;
+        case 'weighted': return weightedScore(totals, tier, settings.spendWeight) >= 1;
+        case 'either':
+        default: return bySpend || byPoints;
+    }
+};
+
+// The highest tier the customer's qualifying totals reach under the business's qualification rule.
+export const getQualifiedTier = (customer: Customer, settings: TierSettings, now = new Date()): TierDefinition => {
+    const totals = getQualifyingTotals(customer, settings, now);
+    return highestTier(settings, tier => qualifiesFor(totals, tier, settings));
+};
+
+// The customer's tier: the one the server last recorded, which holds through any grace period, or what they
+// qualify for if none is recorded yet. Discounts, deadlines and points validity all follow it.
+export const getCustomerTier = (customer: Customer, settings: TierSettings): TierDefinition =>
+    settings.tiers.find(tier => tier.id === customer.tier?.tierId) ?? getQualifiedTier(customer, settings);
+
+// The tier discount lapses once more than the tier's deadline has passed since the customer's last bill.
+// Used by the till to offer the discount and by the server to check it.
+export const checkDiscountEligibility = (customer: Customer, settings: TierSettings, now = new Date()): DiscountEligibility => {
+    if (!customer.history || customer.history.length === 0) {
+        return { eligible: true, daysSinceLastTxn: null, deadline: null, tier: null };
+    }
+
+    const lastTransaction = customer.history.reduce((latest, tx) => new Date(tx.date) > new Date(latest.date) ? tx : latest);
+    const daysSinceLastTxn = Math.floor((now.getTime() - new Date(lastTransaction.date).getTime()) / (1000 * 60 * 60 * 24));
+    const tier = getCustomerTier(customer, settings);
+    return { eligible: daysSinceLastTxn <= tier.deadlineDays, daysSinceLastTxn, deadline: tier.deadlineDays, tier };
+};
+
+// When a customer in their grace period will be moved down, or null if they are not in one.
+export const getGraceEnd = (customer: Customer, settings: TierSettings): Date | null => {
+    if (!customer.tier?.belowSince) return null;
+    return new Date(new Date(customer.tier.belowSince).getTime() + settings.graceDays * 24 * 60 * 60 * 1000);
+};
+
+// The qualification rule in words, for the cashier to read out to a customer.
+const describeRule = (settings: TierSettings): string => {
+    switch (settings.qualification) {
+        case 'spend': return 'Tiers are reached by spend alone.';
+        case 'points': return 'Tiers are reached by points alone.';
+        case 'both': return 'A tier is reached by meeting both its minimum spend and its minimum points.';
+        case 'weighted': return `A tier is reached when spend (${settings.spendWeight}%) and points (${100 - settings.spendWeight}%), each measured against the tier's minimum, add up to 100%.`;
+        case 'either':
+        default: return 'A tier is reached by meeting either its minimum spend or its minimum points.';
+    }
 };
 
-export const getTierByPoints = (customer: Customer, settings: TierSettings): Tier => {
-    if (customer.points >= settings.platinum.minPoints) return 'Platinum';
-    if (customer.points >= settings.gold.minPoints) return 'Gold';
-    if (customer.points >= settings.silver.minPoints) return 'Silver';
-    return 'Bronze';
+// The period the qualifying totals cover, e.g. "in the last 12 months".
+export const describeTierWindow = (settings: TierSettings): string =>
+    settings.windowMonths ? `in the last ${settings.windowMonths} month${settings.windowMonths === 1 ? '' : 's'}` : 'in total';
+
+export const describeTierQualification = (settings: TierSettings): string => {
+    const window = settings.windowMonths
+        ? ` Only spend and points earned ${describeTierWindow(settings)} count.`
+        : ' Lifetime spend and the current points balance count.';
+    const grace = settings.graceDays ? ` A customer keeps their tier for ${settings.graceDays} days after falling below it.` : '';
+    return describeRule(settings) + window + grace;
 };
 
-export const getCustomerTier = (customer: Customer, settings: TierSettings): Tier => {
-    if (customer.totalSpent >= settings.platinum.minSpend || customer.points >= settings.platinum.minPoints) return 'Platinum';
-    if (customer.totalSpent >= settings.gold.minSpend || customer.points >= settings.gold.minPoints) return 'Gold';
-    if (customer.totalSpent >= settings.silver.minSpend || customer.points >= settings.silver.minPoints) return 'Silver';
-    return 'Bronze';
+// Checks a tier list before it is saved; used by the settings editor and the server. Returns the first problem, or null.
+export const validateTierSettings = (value: unknown): string | null => {
+    const { tiers, qualification, spendWeight, windowMonths, graceDays } = (value ?? {}) as Partial<TierSettings>;
+    if (!Array.isArray(tiers) || tiers.length === 0) return 'Define at least one tier.';
+    if (!TIER_QUALIFICATIONS.includes(qualification as TierQualification)) {
+        return `Qualification must be one of ${TIER_QUALIFICATIONS.join(', ')}.`;
+    }
+    if (typeof spendWeight !== 'number' || !(spendWeight >= 0 && spendWeight <= 100)) return 'Spend weight must be between 0 and 100.';
+    if (typeof windowMonths !== 'number' || !Number.isInteger(windowMonths) || windowMonths < 0) return 'The qualifying window must be a whole number of months.';
+    if (typeof graceDays !== 'number' || !Number.isInteger(graceDays) || graceDays < 0) return 'The grace period must be a whole number of days.';
+
+    for (const [index, tier] of tiers.entries()) {
+        if (!tier || typeof tier.id !== 'string' || !tier.id || typeof tier.name !== 'string' || !tier.name.trim()) {
+            return `Tier ${index + 1} needs a name.`;
+        }
+        if (typeof tier.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(tier.color)) {
+            return `${tier.name} needs a colour such as #ffd700.`;
+        }
+        if ([tier.minSpend, tier.minPoints, tier.discountPercentage, tier.deadlineDays].some(n => typeof n !== 'number' || !(n >= 0))) {
+            return `${tier.name}: thresholds, discount and deadline must be zero or more.`;
+        }
+        if (tier.discountPercentage > 100) return `${tier.name}: discount cannot be more than 100%.`;
+        const previous = tiers[index - 1];
+        if (index > 0 && (tier.minSpend < previous.minSpend || tier.minPoints < previous.minPoints)) {
+            return `${tier.name} must need at least the spend and points of ${previous.name}.`;
+        }
+    }
+
+    if (new Set(tiers.map(t => t.id)).size !== tiers.length) return 'Each tier needs its own id.';
+    if (new Set(tiers.map(t => t.name.trim().toLowerCase())).size !== tiers.length) return 'Each tier needs its own name.';
+    return null;
 };
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getZonedTime, isSameBusinessDay, validateTimeZoneSettings } from './timeZoneUtils';
+import { DEFAULT_TIME_ZONE_SETTINGS } from '../../defaults';
+
+describe('getZonedTime', () => {
+    it('reads the date, weekday and hour in the given zone', () => {
+        const at = new Date('2026-06-06T20:30:00.000Z');
+        expect(getZonedTime(at, 'Asia/Kolkata')).toEqual({ date: '2026-06-07', weekday: 0, hour: 2 });
+        expect(getZonedTime(at, 'America/New_York')).toEqual({ date: '2026-06-06', weekday: 6, hour: 16 });
+        expect(getZonedTime(new Date('2026-06-06T18:30:00.000Z'), 'Asia/Kolkata').hour).toBe(0);
+    });
+});
+
+describe('isSameBusinessDay', () => {
+    it('splits days at the business\'s midnight', () => {
+        const lateEvening = new Date('2026-06-06T18:00:00.000Z'); // 23:30 in India
+        expect(isSameBusinessDay(lateEvening, new Date('2026-06-06T18:29:00.000Z'), 'Asia/Kolkata')).toBe(true);
+        expect(isSameBusinessDay(lateEvening, new Date('2026-06-06T18:31:00.000Z'), 'Asia/Kolkata')).toBe(false);
+        expect(isSameBusinessDay(lateEvening, new Date('2026-06-06T18:31:00.000Z'), 'UTC')).toBe(true);
+    });
+});
+
+describe('validateTimeZoneSettings', () => {
+    it('accepts the default and other zone names', () => {
+        expect(validateTimeZoneSettings(DEFAULT_TIME_ZONE_SETTINGS)).toBeNull();
+        expect(validateTimeZoneSettings({ timeZone: 'Europe/London' })).toBeNull();
+    });
+
+    it('rejects missing and unknown zones', () => {
+        expect(validateTimeZoneSettings({})).toBe('Choose a time zone such as Asia/Kolkata.');
+        expect(validateTimeZoneSettings({ timeZone: 'Mars/Olympus' })).toBe('Mars/Olympus is not a time zone. Use a name such as Asia/Kolkata.');
+    });
+});
@@ -0,0 +1,33 @@
+import { TimeZoneSettings } from '../../types';
+
+export interface ZonedTime {
+    date: string; // YYYY-MM-DD
+    weekday: number; // 0 (Sunday) to 6 (Saturday)
+    hour: number; // 0 to 23
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The calendar date, weekday and hour at `at` on the business's clocks, whatever zone the server or till runs in.
+export const getZonedTime = (at: Date, timeZone: string): ZonedTime => {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone, year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short', hour: '2-digit', hourCycle: 'h23',
+    }).formatToParts(at).map(part => [part.type, part.value]));
+    return { date: `${parts.year}-${parts.month}-${parts.day}`, weekday: WEEKDAYS.indexOf(parts.weekday), hour: Number(parts.hour) };
+};
+
+// Whether two moments fall on the same day for the business.
+export const isSameBusinessDay = (a: Date, b: Date, timeZone: string): boolean =>
+    getZonedTime(a, timeZone).date === getZonedTime(b, timeZone).date;
+
+// Checks the time zone before it is saved; used by the settings editor and the server. Returns the problem, or null.
+export const validateTimeZoneSettings = (value: unknown): string | null => {
+    const { timeZone } = (value ?? {}) as Partial<TimeZoneSettings>;
+    if (typeof timeZone !== 'string' || !timeZone) return 'Choose a time zone such as Asia/Kolkata.';
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+        return `${timeZone} is not a time zone. Use a name such as Asia/Kolkata.`;
+    }
+    return null;
+};
@@ -1 +1,400 @@
-Not found
\ No newline at end of file
+export type ReversalKind = 'void' | 'refund';
+
+// A void or (partial) refund of a recorded transaction. The transaction itself is never changed.
+export interface TransactionReversal {
+  id: string;
+  kind: ReversalKind;
+  amount: number; // Spend given back
+  pointsReversed: number; // Earned points taken back
+  pointsRestored: number; // Redeemed points given back
+  reason: string;
+  actor: string;
+  createdAt: string;
+}
+
+export interface TransactionHistory {
+  id?: string; // Assigned by the server when the transaction is recorded
+  actor?: string; // Username of whoever recorded it; set by the server
+  date: string;
+  bill: number; // Original bill amount before discount
+  discountPercentage?: number;
+  finalBill: number; // Bill amount after discount
+  pointsUsed?: number;
+  pointsValue?: number; // Rupees the redeemed points paid, at the rate in force at the time; set by the server
+  points: number; // Points earned on this transaction
+  branchId?: string; // Branch the bill was rung up at; absent for bills from before branches were set up
+  campaigns?: AppliedCampaign[]; // Promotions that applied to this bill
+  coupon?: AppliedCoupon; // Voucher code redeemed on this bill
+  celebration?: AppliedCelebration; // Birthday or anniversary discount redeemed on this bill
+  payments?: Tender[]; // How the amount left after points was paid; absent for bills from before split payments, which were cash
+  items?: BillItem[]; // The lines the bill was built from; absent when only the total was entered
+  tax?: BillTax; // Absent when no tax applied
+  receiptToken?: string; // Unguessable key of the bill's shareable receipt; set by the server, absent for bills from before receipts
+  reversals?: TransactionReversal[]; // Voids and refunds against this transaction; set by the server
+}
+
+export interface Customer {
+  mobile: string;
+  name:string;
+  pin?: string; // Only sent when creating a customer or changing the PIN; the server keeps a hash and never returns it
+  lockedUntil?: string | null; // Set while PIN entry is locked after too many failed attempts
+  points: number; // Sum of the customer's ledger entries; read-only
+  totalSpent: number; // Sum of the spend recorded in the ledger; read-only
+  history: TransactionHistory[];
+  tier?: CustomerTierStatus | null; // Recorded by the server; absent until the customer's tier is first reviewed
+  referredBy?: string | null; // Mobile of the customer who referred them; can only be given when the customer is created
+  referralBonusAt?: string | null; // When the referral bonuses were paid; set by the server on the first qualifying bill
+  dateOfBirth?: string | null; // YYYY-MM-DD
+  memberSince?: string | null; // YYYY-MM-DD; the anniversary is counted from this date
+  celebrations?: CelebrationGrant[]; // Birthday and anniversary rewards granted, newest first; set by the server
+  rewardRedemptions?: RewardRedemption[]; // Catalog rewards taken for points, newest first; set by the server
+}
+
+// The tier a customer currently holds. `belowSince` is set while they no longer qualify for it but are
+// still inside the grace period before being moved down.
+export interface CustomerTierStatus {
+  tierId: string;
+  since: string;
+  belowSince: string | null;
+}
+
+// One recorded move between tiers, kept so staff can see when and why a customer's tier changed.
+export interface TierChange {
+  id: number;
+  fromTierId: string | null; // Null for the customer's first tier
+  fromTierName: string | null;
+  toTierId: string;
+  toTierName: string;
+  reason: string;
+  spend: number; // The qualifying spend and points at the time of the change
+  points: number;
+  createdAt: string;
+}
+
+export type LedgerEntryType = 'earn' | 'redeem' | 'adjust' | 'expire';
+
+// One append-only movement of a customer's points and/or spend. Entries are never edited or removed.
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  points: number; // Signed change to the points balance
+  amount: number; // Signed change to total spend
+  transactionId?: string;
+  reversalId?: string;
+  actor: string;
+  note?: string;
+  createdAt: string;
+}
+
+// One level of a business's loyalty programme.
+export interface TierDefinition {
+  id: string; // Stable key for per-tier settings such as points validity, so renaming a tier keeps them
+  name: string;
+  color: string; // Badge and chart colour as a hex value, e.g. '#ffd700'
+  minSpend: number;
+  minPoints: number;
+  discountPercentage: number;
+  deadlineDays: number; // Days after the last visit that the tier discount stays available
+}
+
+// How a customer's spend and points combine to reach a tier's thresholds.
+export type TierQualification = 'spend' | 'points' | 'either' | 'both' | 'weighted';
+
+// Tiers in ascending order. The first is the entry tier every customer starts in; its thresholds are ignored.
+export interface TierSettings {
+  tiers: TierDefinition[];
+  qualification: TierQualification;
+  spendWeight: number; // For 'weighted': percentage of the score that comes from spend; points make up the rest
+  windowMonths: number; // Spend and points earned over this many months count towards a tier; 0 uses lifetime totals
+  graceDays: number; // How long a customer keeps a tier after falling below it before being moved down
+}
+
+export interface SecuritySettings {
+  maxPinAttempts: number;
+  pinLockoutMinutes: number;
+  otpExpiryMinutes: number; // How long an SMS PIN reset code stays valid
+  maxOtpAttempts: number; // Wrong codes allowed before the reset code is discarded
+}
+
+// Points are spent oldest first; each earned lot expires this many days after it was earned. 0 keeps points forever.
+export interface PointsExpirySettings {
+  validityDays: Record<string, number>; // By tier id; tiers missing here keep their points forever
+  reminderDays: number; // Text the customer this many days before points expire; 0 sends no reminder
+}
+
+// How a bill earns points. 'change' turns the change the customer leaves with the store into points;
+// 'spend' awards `pointsPerUnit` for every full `spendUnit` rupees paid.
+export type EarningMode = 'change' | 'spend';
+
+export interface EarningSettings {
+  mode: EarningMode;
+  pointsPerUnit: number;
+  spendUnit: number;
+  tierMultipliers: Record<string, number>; // By tier id; tiers missing here earn at 1x
+  minimumBill: number; // Bills below this (after discount) earn nothing
+  maxPointsPerTransaction: number; // 0 means no cap
+}
+
+// How points pay for a bill.
+export interface RedemptionSettings {
+  pointValue: number; // Rupees one point is worth
+  minimumBalance: number; // Points a customer must hold before they can redeem any
+  maxBillPercentage: number; // Share of the bill (after discount) that points may pay
+  blockSize: number; // Points are redeemed in multiples of this
+}
+
+export type TaxMode = 'exclusive' | 'inclusive';
+
+// Tax on bills. A rate of 0 means no tax. Exclusive tax is added to the prices; inclusive tax is already in them.
+export interface TaxSettings {
+  label: string; // e.g. GST or VAT, as printed on bills
+  mode: TaxMode;
+  defaultRate: number; // Percent, for bills without lines and products in categories with no rate of their own
+  categoryRates: Record<string, number>; // Percent, by product category
+}
+
+// Characters per line: 32 on 58mm thermal rolls, 48 on 80mm.
+export type PaperWidth = 32 | 48;
+
+// The zone the business's clocks keep. Campaign hours and weekdays, and what counts as today for voids, follow it.
+export interface TimeZoneSettings {
+  timeZone: string; // IANA name, e.g. Asia/Kolkata
+}
+
+// The counter's receipt printer. Without a host, receipts can still be downloaded as a raw ESC/POS file.
+export interface PrinterSettings {
+  paperWidth: PaperWidth;
+  host: string; // Network printer reached from the server, e.g. 192.168.1.50; blank for none
+  port: number; // Raw printing port, usually 9100
+}
+
+// The tax on one bill at one rate.
+export interface TaxLine {
+  rate: number; // Percent
+  taxableValue: number; // What the tax is charged on, after discounts and without the tax
+  amount: number;
+}
+
+// The tax a bill was charged. The label and mode are copied so history still reads correctly after the settings change.
+export interface BillTax {
+  label: string;
+  mode: TaxMode;
+  lines: TaxLine[];
+}
+
+// A bill as the customer sees it on their receipt. Built by the server from the stored transaction.
+export interface Receipt {
+  businessName: string;
+  branchName?: string;
+  transactionId: string;
+  date: string;
+  customerName: string;
+  mobile: string; // Only the last four digits are shown
+  bill: number; // Before discounts
+  items?: BillItem[];
+  discounts: { label: string; amount: number }[];
+  tax?: BillTax;
+  finalBill: number;
+  pointsUsed: number;
+  pointsValue: number;
+  payments: Tender[];
+  change: number;
+  pointsEarned: number;
+  balance: number; // Points balance straight after this bill
+  refunded: number; // Refunded or voided since; 0 for most bills
+}
+
+export type Occasion = 'birthday' | 'anniversary';
+export type CelebrationRewardType = 'points' | 'discount';
+
+// What a customer gets in their birthday or anniversary week. The week starts on the day itself.
+export interface CelebrationReward {
+  enabled: boolean;
+  rewardType: CelebrationRewardType;
+  points: number; // Bonus points, added when the week starts
+  discountPercentage: number; // Off one bill during the week
+  sendSms: boolean;
+  smsTemplate: string; // {name}, {business} and {reward} are filled in
+}
+
+export interface CelebrationSettings {
+  birthday: CelebrationReward;
+  anniversary: CelebrationReward;
+}
+
+// One birthday or anniversary reward, granted once per occasion per year by the celebrations job.
+export interface CelebrationGrant {
+  id: string;
+  occasion: Occasion;
+  year: number;
+  rewardType: CelebrationRewardType;
+  points: number;
+  discountPercentage: number;
+  validUntil: string; // End of the week; a discount must be used before this
+  grantedAt: string;
+  smsSentAt: string | null;
+  redeemedTransactionId: string | null; // Bill the discount was used on
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'upi';
+
+// One payment towards a bill. Cash is what the customer handed over; any change is given from it.
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string; // Card slip or UPI transaction number
+}
+
+// The celebration discount used on one bill.
+export interface AppliedCelebration {
+  grantId: string;
+  occasion: Occasion;
+  discountAmount: number;
+}
+
+// Bonus points for word-of-mouth sign-ups. Both customers get their bonus once, on the referred customer's first
+// bill of at least minimumBill.
+export interface ReferralSettings {
+  referrerPoints: number;
+  refereePoints: number; // For the customer who was referred
+  minimumBill: number;
+}
+
+export interface PinLockout {
+  mobile: string;
+  customerName: string;
+  failedAttempts: number;
+  lockedAt: string;
+  lockedUntil: string;
+}
+
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+// A signed-in user. Owners register the business; managers and cashiers are staff the owner adds under it.
+export interface Admin {
+  businessName: string;
+  username: string;
+  businessId: string; // The owner's username
+  role: StaffRole;
+}
+
+// A time-bound promotion, such as double points at the weekend or extra off for Gold on Tuesdays. It applies
+// automatically to bills rung up inside its dates, on its weekdays and between its hours, for customers in its tiers.
+export interface Campaign {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  weekdays: number[]; // 0 = Sunday; empty means every day
+  startHour: number; // Runs from startHour up to endHour each day, 0–24 in the till's local time
+  endHour: number;
+  tierIds: string[]; // Empty means every tier
+  pointsMultiplier: number; // 1 gives no extra points
+  extraDiscountPercentage: number; // Off the bill on top of any tier discount
+  createdAt: string;
+}
+
+// What a campaign gave on one bill. The name is copied so results still read correctly after a rename.
+export interface AppliedCampaign {
+  campaignId: string;
+  name: string;
+  discountAmount: number;
+  bonusPoints: number;
+}
+
+export type CouponDiscountType = 'percentage' | 'flat';
+
+// A voucher code the cashier enters at checkout. Codes are stored in upper case and matched regardless of case.
+export interface Coupon {
+  id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  discountValue: number; // Percent off the bill, or rupees off
+  singleUse: boolean; // Stops working once redeemed; voiding the bill frees it again
+  expiresAt: string | null; // null never expires
+  minimumBill: number; // Bill amount before discounts the code needs; 0 for none
+  redemptions: number; // Bills it was redeemed on, not counting voided ones; set by the server
+  createdAt: string;
+}
+
+// The coupon redeemed on one bill. The code is copied so the bill still reads correctly after the coupon is changed.
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  discountAmount: number;
+}
+
+// An item from the rewards catalog that customers can take for points, such as a free coffee.
+export interface Reward {
+  id: string;
+  name: string;
+  pointsCost: number;
+  stock: number; // Left to give out; redeeming takes one
+  redemptions: number; // Times it was redeemed; set by the server
+  createdAt: string;
+}
+
+// A product the till can put on a bill.
+export interface Product {
+  id: string;
+  name: string;
+  sku: string; // Unique within the business
+  price: number;
+  category: string;
+  createdAt: string;
+}
+
+// One line of an itemized bill. Product lines copy the product's details so history still reads correctly after the
+// product is changed; free-amount lines have no product.
+export interface BillItem {
+  productId?: string;
+  name: string;
+  sku?: string;
+  category?: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // quantity × unitPrice
+}
+
+// One catalog reward given to a customer. The name and cost are copied so history still reads correctly after the
+// reward is changed.
+export interface RewardRedemption {
+  id: string;
+  rewardId: string;
+  rewardName: string;
+  points: number;
+  branchId?: string;
+  actor: string;
+  createdAt: string;
+}
+
+export interface Branch {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface StaffMember {
+  username: string;
+  role: StaffRole;
+  createdAt: string;
+}
+
+export interface SmsLog {
+  timestamp: string;
+  recipientMobile: string;
+  recipientName: string;
+  message: string;
+}
+
+export interface LastTransactionDetails {
+  mobile: string;
+  customerName: string;
+  businessName: string;
+  finalBill: number;
+  pointsUsed: number;
+  pointsEarned: number;
+  newTotalPoints: number;
+  deadlineDays: number | null;
+  receiptToken?: string;
+}
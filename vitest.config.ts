@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Each test file runs in its own worker with a fresh in-memory database.
+export default defineConfig({
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', 'dist', 'g7'],
+    env: { DATABASE_PATH: ':memory:' },
+  },
+});